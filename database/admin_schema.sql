@@ -8,7 +8,8 @@ CREATE TABLE IF NOT EXISTS admins (
   password_hash VARCHAR(255) NOT NULL COMMENT 'Hashed password using bcrypt',
   name VARCHAR(255) NOT NULL COMMENT 'Admin full name',
   role ENUM('superadmin','admin') DEFAULT 'admin' COMMENT 'Admin role',
-  status ENUM('Active','Suspended','Cancelled') DEFAULT 'Active' COMMENT 'Admin account status',
+  status ENUM('Invited','Active','Suspended','Cancelled') DEFAULT 'Active' COMMENT 'Admin account status',
+  invited_by VARCHAR(255) NULL COMMENT 'Superadmin who invited the admin',
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Account creation timestamp',
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last update timestamp',
   last_login TIMESTAMP NULL COMMENT 'Last login timestamp',
@@ -17,22 +18,40 @@ CREATE TABLE IF NOT EXISTS admins (
   INDEX idx_admin_created_at (created_at)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Dedicated administrators table';
 
--- Optional: admin sessions table for tracking admin sessions separately
+-- Admin sessions table (one row per refresh token, mirrors user_sessions)
 CREATE TABLE IF NOT EXISTS admin_sessions (
   id VARCHAR(255) PRIMARY KEY COMMENT 'Unique session ID (UUID)',
   admin_id VARCHAR(255) NOT NULL COMMENT 'Reference to admins table',
-  session_token VARCHAR(255) NOT NULL UNIQUE COMMENT 'Session token',
+  family_id VARCHAR(255) NULL COMMENT 'Refresh token family (one per login)',
+  session_token VARCHAR(255) NOT NULL UNIQUE COMMENT 'SHA-256 hash of the refresh token',
   user_agent VARCHAR(500) COMMENT 'User agent string',
   ip_address VARCHAR(45) COMMENT 'IP address',
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Session created at',
   last_activity TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last activity',
   expires_at TIMESTAMP NULL COMMENT 'Session expiration timestamp',
+  replaced_by VARCHAR(255) NULL COMMENT 'Session that replaced this one on rotation',
+  revoked_at TIMESTAMP NULL COMMENT 'When the token was rotated or revoked',
   FOREIGN KEY (admin_id) REFERENCES admins(id) ON DELETE CASCADE,
   INDEX idx_admin_id (admin_id),
+  INDEX idx_admin_family_id (family_id),
   INDEX idx_admin_session_token (session_token),
   INDEX idx_admin_expires_at (expires_at)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Admin session management table';
 
+-- Admin invitations (set-password links emailed to invited admins)
+CREATE TABLE IF NOT EXISTS admin_invitations (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique invitation ID (UUID)',
+  admin_id VARCHAR(255) NOT NULL COMMENT 'Invited admin (admins table)',
+  token_hash VARCHAR(64) NOT NULL UNIQUE COMMENT 'SHA-256 hash of the set-password token',
+  expires_at TIMESTAMP NULL COMMENT 'Token expiration timestamp',
+  used_at TIMESTAMP NULL COMMENT 'When the token was used or superseded',
+  created_by VARCHAR(255) NULL COMMENT 'Superadmin who sent the invitation',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Invitation timestamp',
+  FOREIGN KEY (admin_id) REFERENCES admins(id) ON DELETE CASCADE,
+  INDEX idx_invitation_admin_id (admin_id),
+  INDEX idx_invitation_expires_at (expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Single-use admin invitation links';
+
 -- Example pre-created admin (optional). Replace or remove for production.
 -- Password hash below corresponds to bcrypt hash of 'admin@123' (same as default in main schema)
 INSERT INTO admins (id, email, password_hash, name, role, status) VALUES (
@@ -0,0 +1,20 @@
+-- Migration 001: refresh token rotation
+-- Each session row now stores the SHA-256 hash of one refresh token. Rows
+-- created by rotating the same login share a family_id so a replayed refresh
+-- token can revoke the whole family.
+
+ALTER TABLE user_sessions
+  ADD COLUMN family_id VARCHAR(255) NULL COMMENT 'Refresh token family (one per login)' AFTER user_id,
+  ADD COLUMN replaced_by VARCHAR(255) NULL COMMENT 'Session that replaced this one on rotation' AFTER expires_at,
+  ADD COLUMN revoked_at TIMESTAMP NULL COMMENT 'When the token was rotated or revoked' AFTER replaced_by,
+  ADD INDEX idx_family_id (family_id);
+
+ALTER TABLE admin_sessions
+  ADD COLUMN family_id VARCHAR(255) NULL COMMENT 'Refresh token family (one per login)' AFTER admin_id,
+  ADD COLUMN replaced_by VARCHAR(255) NULL COMMENT 'Session that replaced this one on rotation' AFTER expires_at,
+  ADD COLUMN revoked_at TIMESTAMP NULL COMMENT 'When the token was rotated or revoked' AFTER replaced_by,
+  ADD INDEX idx_admin_family_id (family_id);
+
+-- Sessions created before rotation existed were never read; drop them.
+DELETE FROM user_sessions WHERE family_id IS NULL;
+DELETE FROM admin_sessions WHERE family_id IS NULL;
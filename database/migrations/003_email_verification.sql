@@ -0,0 +1,10 @@
+-- Migration 003: email verification
+-- Self-service signups start as pending_verification and become Active once
+-- the emailed link is opened. Existing accounts are treated as verified.
+
+ALTER TABLE users
+  MODIFY COLUMN status ENUM('Active', 'Cancelled', 'pending_verification') DEFAULT 'Active' COMMENT 'User account status',
+  ADD COLUMN email_verified_at TIMESTAMP NULL COMMENT 'When the email address was verified' AFTER last_login,
+  ADD COLUMN verification_sent_at TIMESTAMP NULL COMMENT 'When the last verification email was sent' AFTER email_verified_at;
+
+UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
@@ -0,0 +1,25 @@
+-- Migration 004: two-factor authentication
+-- TOTP secrets and hashed backup codes for users and admins. Rows are keyed
+-- by account type and id because the two account kinds live in separate
+-- tables, so there is no foreign key.
+
+CREATE TABLE IF NOT EXISTS mfa_totp (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique factor ID (UUID)',
+  account_type ENUM('user', 'admin') NOT NULL COMMENT 'Table the account lives in (users or admins)',
+  account_id VARCHAR(255) NOT NULL COMMENT 'Reference to users or admins table',
+  secret VARCHAR(64) NOT NULL COMMENT 'Base32 TOTP secret',
+  confirmed_at TIMESTAMP NULL COMMENT 'When enrolment was confirmed with a valid code',
+  last_used_step BIGINT NULL COMMENT 'Time step of the last accepted code (replay protection)',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Enrolment start timestamp',
+  UNIQUE KEY unique_mfa_account (account_type, account_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='TOTP two-factor authentication secrets';
+
+CREATE TABLE IF NOT EXISTS mfa_backup_codes (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique code ID (UUID)',
+  account_type ENUM('user', 'admin') NOT NULL COMMENT 'Table the account lives in (users or admins)',
+  account_id VARCHAR(255) NOT NULL COMMENT 'Reference to users or admins table',
+  code_hash VARCHAR(64) NOT NULL COMMENT 'SHA-256 hash of the backup code',
+  used_at TIMESTAMP NULL COMMENT 'When the code was used',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Code creation timestamp',
+  INDEX idx_mfa_account (account_type, account_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Single-use two-factor backup codes';
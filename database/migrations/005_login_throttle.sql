@@ -0,0 +1,14 @@
+-- Migration 005: login throttling
+-- Failed login counters per email address and per client IP, used for
+-- progressive backoff and temporary account lockout.
+
+CREATE TABLE IF NOT EXISTS login_throttle (
+  scope ENUM('email', 'ip') NOT NULL COMMENT 'What the counter is keyed on',
+  throttle_key VARCHAR(255) NOT NULL COMMENT 'Lowercased email address or client IP',
+  failures INT NOT NULL DEFAULT 0 COMMENT 'Consecutive failed attempts',
+  last_failure_at TIMESTAMP NULL COMMENT 'Time of the most recent failure',
+  locked_until TIMESTAMP NULL COMMENT 'Logins refused until this time',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'First failure timestamp',
+  PRIMARY KEY (scope, throttle_key),
+  INDEX idx_locked_until (locked_until)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Failed login counters and lockouts';
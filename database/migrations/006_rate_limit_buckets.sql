@@ -0,0 +1,11 @@
+-- Migration 006: rate limiting
+-- Token buckets shared between app instances. Only used when the app runs
+-- with RATE_LIMIT_STORE=mysql.
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  bucket_key VARCHAR(255) PRIMARY KEY COMMENT 'Rule name and caller, e.g. auth:ip:203.0.113.7',
+  tokens DOUBLE NOT NULL COMMENT 'Tokens left after the last request',
+  allowed TINYINT(1) NOT NULL DEFAULT 1 COMMENT 'Whether the last request was allowed',
+  updated_at TIMESTAMP(3) NOT NULL COMMENT 'Time of the last request',
+  INDEX idx_updated_at (updated_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Shared token buckets for API rate limiting';
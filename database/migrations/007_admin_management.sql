@@ -0,0 +1,20 @@
+-- Migration 007: admin management
+-- Superadmins invite admins from the dashboard. Invited admins have no usable
+-- password until they open the emailed set-password link.
+
+ALTER TABLE admins
+  MODIFY COLUMN status ENUM('Invited','Active','Suspended','Cancelled') DEFAULT 'Active' COMMENT 'Admin account status',
+  ADD COLUMN invited_by VARCHAR(255) NULL COMMENT 'Superadmin who invited the admin' AFTER status;
+
+CREATE TABLE IF NOT EXISTS admin_invitations (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique invitation ID (UUID)',
+  admin_id VARCHAR(255) NOT NULL COMMENT 'Invited admin (admins table)',
+  token_hash VARCHAR(64) NOT NULL UNIQUE COMMENT 'SHA-256 hash of the set-password token',
+  expires_at TIMESTAMP NULL COMMENT 'Token expiration timestamp',
+  used_at TIMESTAMP NULL COMMENT 'When the token was used or superseded',
+  created_by VARCHAR(255) NULL COMMENT 'Superadmin who sent the invitation',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Invitation timestamp',
+  FOREIGN KEY (admin_id) REFERENCES admins(id) ON DELETE CASCADE,
+  INDEX idx_invitation_admin_id (admin_id),
+  INDEX idx_invitation_expires_at (expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Single-use admin invitation links';
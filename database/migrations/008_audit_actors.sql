@@ -0,0 +1,47 @@
+-- Migration 008: audit log actors
+-- Admins live in their own table, so audit_logs.user_id (a foreign key to
+-- users) was left NULL whenever an admin did something. Audit rows and
+-- landing page uploads now record the actor as actor_type + actor_id.
+
+ALTER TABLE audit_logs
+  ADD COLUMN actor_type ENUM('user', 'admin', 'system') NULL COMMENT 'Table the actor lives in (users or admins), or system' AFTER user_id,
+  ADD COLUMN actor_id VARCHAR(255) NULL COMMENT 'ID of the account that performed the action' AFTER actor_type,
+  ADD INDEX idx_actor (actor_type, actor_id);
+
+-- Rows with a user_id were performed by that user
+UPDATE audit_logs SET actor_type = 'user', actor_id = user_id
+WHERE user_id IS NOT NULL AND actor_id IS NULL;
+
+-- Admins acting on their own account logged themselves as the entity, so
+-- those rows can be attributed. Admin changes to other records (users,
+-- packages, settings) were never linked to the admin and stay unattributed.
+UPDATE audit_logs SET actor_type = 'admin', actor_id = entity_id
+WHERE user_id IS NULL AND actor_id IS NULL
+  AND action IN (
+    'admin_login', 'logout', 'logout_all', 'mfa_enabled', 'mfa_disabled',
+    'mfa_backup_codes_regenerated', 'admin_password_changed', 'admin_invitation_accepted'
+  )
+  AND entity_id IN (SELECT id FROM admins);
+
+-- Created here for databases set up before the table was added to schema.sql
+CREATE TABLE IF NOT EXISTS landing_page_images (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique image ID (UUID)',
+  filename VARCHAR(255) NOT NULL COMMENT 'Stored file name',
+  original_filename VARCHAR(255) NOT NULL COMMENT 'File name as uploaded',
+  file_path VARCHAR(500) NOT NULL COMMENT 'Public path of the stored file',
+  file_size INT NOT NULL COMMENT 'File size in bytes',
+  mime_type VARCHAR(100) NOT NULL COMMENT 'MIME type',
+  section VARCHAR(100) NOT NULL COMMENT 'Landing page section the image belongs to',
+  uploaded_by VARCHAR(255) NULL COMMENT 'Uploader, when in the users table',
+  upload_ip VARCHAR(45) COMMENT 'IP address of the uploader',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Upload timestamp',
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last update timestamp',
+  INDEX idx_section (section)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Images uploaded for the landing page';
+
+ALTER TABLE landing_page_images
+  ADD COLUMN actor_type ENUM('user', 'admin') NULL COMMENT 'Table the uploader lives in (users or admins)' AFTER uploaded_by,
+  ADD COLUMN actor_id VARCHAR(255) NULL COMMENT 'ID of the uploading account' AFTER actor_type;
+
+UPDATE landing_page_images SET actor_type = 'user', actor_id = uploaded_by
+WHERE uploaded_by IS NOT NULL AND actor_id IS NULL;
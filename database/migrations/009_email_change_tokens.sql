@@ -0,0 +1,17 @@
+-- Migration 009: email change tokens
+-- Users change their email address from the account page. The new address
+-- only takes effect once the single-use link emailed to it is opened.
+
+CREATE TABLE IF NOT EXISTS email_change_tokens (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique token ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  new_email VARCHAR(255) NOT NULL COMMENT 'Address the user wants to switch to',
+  token_hash VARCHAR(64) NOT NULL UNIQUE COMMENT 'SHA-256 hash of the emailed confirmation token',
+  expires_at TIMESTAMP NULL COMMENT 'Token expiration timestamp',
+  used_at TIMESTAMP NULL COMMENT 'When the token was used or superseded',
+  requested_ip VARCHAR(45) COMMENT 'IP address that requested the change',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Request timestamp',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id),
+  INDEX idx_expires_at (expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Single-use email change confirmation tokens';
@@ -0,0 +1,38 @@
+-- Migration 010: personal data export and account deletion
+-- Users can download an archive of their data and ask for their account to
+-- be deleted (Digital Personal Data Protection Act). Deletion happens after a
+-- cooling-off period and anonymises the account instead of deleting it, so
+-- the audit and billing records that must be kept survive without the
+-- personal data.
+
+ALTER TABLE users
+  ADD COLUMN deleted_at TIMESTAMP NULL COMMENT 'When the account was anonymised at the user''s request' AFTER verification_sent_at;
+
+CREATE TABLE IF NOT EXISTS data_exports (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique export ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  status ENUM('pending', 'ready', 'failed') NOT NULL DEFAULT 'pending' COMMENT 'Whether the archive has been built',
+  file_path VARCHAR(500) NULL COMMENT 'Archive location on the server',
+  file_size INT NULL COMMENT 'Archive size in bytes',
+  requested_ip VARCHAR(45) COMMENT 'IP address that requested the export',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Request timestamp',
+  completed_at TIMESTAMP NULL COMMENT 'When the archive was built',
+  expires_at TIMESTAMP NULL COMMENT 'The archive can be downloaded until then',
+  downloaded_at TIMESTAMP NULL COMMENT 'Last download',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id),
+  INDEX idx_expires_at (expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Personal data export archives';
+
+CREATE TABLE IF NOT EXISTS account_deletion_requests (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique request ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  scheduled_for TIMESTAMP NOT NULL COMMENT 'End of the cooling-off period',
+  requested_ip VARCHAR(45) COMMENT 'IP address that requested the deletion',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Request timestamp',
+  cancelled_at TIMESTAMP NULL COMMENT 'When the user cancelled the request',
+  completed_at TIMESTAMP NULL COMMENT 'When the account was anonymised',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id),
+  INDEX idx_scheduled_for (scheduled_for)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Account deletion requests and their cooling-off period';
@@ -0,0 +1,20 @@
+-- Migration 011: sign in with an OpenID Connect provider
+-- Users can sign in with Google or another OIDC provider. Each provider
+-- account is linked to one user; accounts created through a provider have
+-- no password until the user sets one.
+
+ALTER TABLE users
+  MODIFY COLUMN password_hash VARCHAR(255) NULL COMMENT 'Hashed password using bcrypt; NULL for accounts that only sign in with a provider';
+
+CREATE TABLE IF NOT EXISTS user_identities (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique identity ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  provider VARCHAR(50) NOT NULL COMMENT 'Configured provider id (google, oidc, ...)',
+  subject VARCHAR(255) NOT NULL COMMENT 'Account id at the provider (the ID token sub claim)',
+  email VARCHAR(255) NULL COMMENT 'Verified email the provider reported when the identity was linked',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'When the identity was linked',
+  last_login TIMESTAMP NULL COMMENT 'Last sign-in through this identity',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE KEY uniq_provider_subject (provider, subject),
+  INDEX idx_user_id (user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Sign-in provider accounts linked to users';
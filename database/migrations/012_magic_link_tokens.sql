@@ -0,0 +1,18 @@
+-- Migration 012: passwordless sign-in links
+-- Stores hashed, single-use tokens for "email me a sign-in link". Each token
+-- only works in the browser that asked for it, which holds the matching
+-- cookie.
+
+CREATE TABLE IF NOT EXISTS magic_link_tokens (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique token ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  token_hash VARCHAR(64) NOT NULL UNIQUE COMMENT 'SHA-256 hash of the emailed sign-in token',
+  browser_hash VARCHAR(64) NOT NULL COMMENT 'SHA-256 hash of the cookie given to the requesting browser',
+  expires_at TIMESTAMP NULL COMMENT 'Token expiration timestamp',
+  used_at TIMESTAMP NULL COMMENT 'When the token was used or superseded',
+  requested_ip VARCHAR(45) COMMENT 'IP address that requested the link',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Request timestamp',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id),
+  INDEX idx_expires_at (expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Single-use passwordless sign-in tokens';
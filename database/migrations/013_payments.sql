@@ -0,0 +1,36 @@
+-- Migration 013: payment gateway orders
+-- A plan is only activated once the payment provider confirms the payment,
+-- either through the signed checkout callback or a signed webhook. Webhook
+-- events are recorded by id so a redelivered event is processed once.
+
+CREATE TABLE IF NOT EXISTS payment_orders (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique order ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  provider VARCHAR(50) NOT NULL COMMENT 'Payment provider id (razorpay, fake)',
+  provider_order_id VARCHAR(255) NOT NULL COMMENT 'Order id at the provider',
+  provider_payment_id VARCHAR(255) NULL COMMENT 'Payment id at the provider, once paid',
+  plan ENUM('Starter', 'Pro', 'Expert') NOT NULL COMMENT 'Plan being bought',
+  amount INT NOT NULL COMMENT 'Amount in the smallest currency unit (paise)',
+  currency CHAR(3) NOT NULL DEFAULT 'INR' COMMENT 'ISO 4217 currency code',
+  status ENUM('created', 'paid', 'failed') NOT NULL DEFAULT 'created' COMMENT 'Order status',
+  subscription_id VARCHAR(255) NULL COMMENT 'Subscription activated by the payment',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Order creation timestamp',
+  paid_at TIMESTAMP NULL COMMENT 'When the payment was confirmed',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE KEY uniq_provider_order (provider, provider_order_id),
+  INDEX idx_user_id (user_id),
+  INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Orders created with the payment provider';
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique event record ID (UUID)',
+  provider VARCHAR(50) NOT NULL COMMENT 'Payment provider id',
+  event_id VARCHAR(255) NOT NULL COMMENT 'Event id at the provider',
+  event_type VARCHAR(100) NOT NULL COMMENT 'Event type as sent by the provider',
+  order_id VARCHAR(255) NULL COMMENT 'Reference to payment_orders, when the event matched an order',
+  payload JSON COMMENT 'Verified webhook body',
+  received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'When the webhook arrived',
+  FOREIGN KEY (order_id) REFERENCES payment_orders(id) ON DELETE SET NULL,
+  UNIQUE KEY uniq_provider_event (provider, event_id),
+  INDEX idx_order_id (order_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Verified webhook events from the payment provider';
@@ -0,0 +1,23 @@
+-- Migration 014: UPI payment attempts
+-- Every time a user opens the UPI QR for a plan a row is recorded with the
+-- exact amount and a unique transaction reference (the `tr` of the UPI
+-- intent), so incoming transfers can be matched to the user and plan.
+
+CREATE TABLE IF NOT EXISTS payment_attempts (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique attempt ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  method ENUM('upi') NOT NULL DEFAULT 'upi' COMMENT 'How the user was asked to pay',
+  reference VARCHAR(35) NOT NULL UNIQUE COMMENT 'Transaction reference sent as the UPI tr parameter',
+  payee_vpa VARCHAR(255) NOT NULL COMMENT 'UPI address the payment was requested to',
+  plan ENUM('Starter', 'Pro', 'Expert') NOT NULL COMMENT 'Plan being bought',
+  amount INT NOT NULL COMMENT 'Amount in the smallest currency unit (paise)',
+  currency CHAR(3) NOT NULL DEFAULT 'INR' COMMENT 'ISO 4217 currency code',
+  status ENUM('pending', 'matched') NOT NULL DEFAULT 'pending' COMMENT 'Whether a transfer has been matched to the attempt',
+  utr VARCHAR(64) NULL COMMENT 'Bank reference (UTR) of the matched transfer',
+  matched_at TIMESTAMP NULL COMMENT 'When the transfer was matched',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'When the QR was generated',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id),
+  INDEX idx_status (status),
+  INDEX idx_utr (utr)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='UPI payment requests awaiting reconciliation';
@@ -0,0 +1,42 @@
+-- Migration 015: manual payment verification
+-- Users who paid by UPI submit the bank reference (UTR) of their transfer,
+-- optionally with a screenshot. The submission opens a subscription in
+-- 'pending_payment' that an admin approves (activating it) or rejects.
+--
+-- The old unique key on (user_id, status) allowed only one cancelled (or
+-- pending, or rejected) subscription per user. Only the active one has to
+-- be unique, so the key now covers a generated column that is set for
+-- active rows alone.
+
+ALTER TABLE subscriptions
+  MODIFY COLUMN status ENUM('Active', 'Cancelled', 'Inactive', 'pending_payment', 'Rejected') DEFAULT 'Inactive' COMMENT 'Subscription status',
+  ADD COLUMN active_user_id VARCHAR(255) AS (IF(status = 'Active', user_id, NULL)) STORED COMMENT 'user_id while the subscription is active, so each user has at most one',
+  DROP INDEX unique_active_subscription,
+  ADD UNIQUE KEY unique_active_subscription (active_user_id);
+
+CREATE TABLE IF NOT EXISTS payment_submissions (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique submission ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  subscription_id VARCHAR(255) NOT NULL COMMENT 'Subscription waiting on the payment',
+  attempt_id VARCHAR(255) NULL COMMENT 'UPI payment attempt the transfer was made for',
+  plan ENUM('Starter', 'Pro', 'Expert') NOT NULL COMMENT 'Plan being bought',
+  amount INT NOT NULL COMMENT 'Amount in the smallest currency unit (paise)',
+  currency CHAR(3) NOT NULL DEFAULT 'INR' COMMENT 'ISO 4217 currency code',
+  utr VARCHAR(64) NOT NULL COMMENT 'Bank reference (UTR) the user entered',
+  screenshot_path VARCHAR(500) NULL COMMENT 'File name of the payment screenshot in PAYMENT_PROOF_DIR, outside the web root',
+  screenshot_type VARCHAR(100) NULL COMMENT 'MIME type of the screenshot',
+  status ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending' COMMENT 'Review status',
+  rejection_reason VARCHAR(500) NULL COMMENT 'Why the payment was rejected, as shown to the user',
+  reviewed_by VARCHAR(255) NULL COMMENT 'Admin who approved or rejected the payment',
+  reviewed_at TIMESTAMP NULL COMMENT 'When the payment was reviewed',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'When the payment was submitted',
+  pending_user_id VARCHAR(255) AS (IF(status = 'pending', user_id, NULL)) STORED COMMENT 'user_id while under review, so each user has at most one',
+  claimed_utr VARCHAR(64) AS (IF(status = 'rejected', NULL, utr)) STORED COMMENT 'UTR unless rejected, so a transfer is only claimed once',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE CASCADE,
+  FOREIGN KEY (attempt_id) REFERENCES payment_attempts(id) ON DELETE SET NULL,
+  UNIQUE KEY uniq_pending_user (pending_user_id),
+  UNIQUE KEY uniq_claimed_utr (claimed_utr),
+  INDEX idx_user_id (user_id),
+  INDEX idx_status (status, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='UPI transfers awaiting manual verification';
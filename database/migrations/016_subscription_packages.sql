@@ -0,0 +1,100 @@
+-- Migration 016: subscriptions reference packages
+-- Plans used to be a fixed list (Starter, Pro, Expert) while admins managed
+-- the packages table separately. Subscriptions and payments now reference
+-- the package bought, with its name, price and currency snapshotted at
+-- purchase so later price changes don't rewrite history. users.plan is the
+-- package name of the user's active subscription, or NULL.
+
+-- Created here for databases set up before the table was added to schema.sql
+CREATE TABLE IF NOT EXISTS packages (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique package ID (UUID)',
+  name VARCHAR(255) NOT NULL UNIQUE COMMENT 'Package name shown to buyers',
+  description TEXT NULL COMMENT 'Package description',
+  price DECIMAL(10, 2) NOT NULL COMMENT 'Monthly price in major units (rupees)',
+  currency VARCHAR(10) NOT NULL DEFAULT 'INR' COMMENT 'ISO 4217 currency code',
+  features TEXT NULL COMMENT 'JSON array of feature bullet points',
+  active BOOLEAN NOT NULL DEFAULT TRUE COMMENT 'Whether the package is offered to buyers',
+  display_order INT NOT NULL DEFAULT 0 COMMENT 'Position in the plan picker',
+  created_by VARCHAR(255) NULL COMMENT 'Creator; admins are tracked in the audit log instead',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Record creation timestamp',
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last update timestamp',
+  INDEX idx_active (active, display_order)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Packages offered to users';
+
+-- The seed data used the rupee symbol; payments need the currency code
+UPDATE packages SET currency = 'INR' WHERE currency = '₹';
+
+-- Each legacy plan maps to a default package, at the price it was sold for
+CREATE TEMPORARY TABLE legacy_plan_packages (
+  plan VARCHAR(20) PRIMARY KEY,
+  package_name VARCHAR(255) NOT NULL,
+  package_price DECIMAL(10, 2) NOT NULL,
+  display_order INT NOT NULL,
+  legacy_amount INT NOT NULL
+);
+INSERT INTO legacy_plan_packages VALUES
+  ('Starter', 'Desktop Software', 4999, 0, 249900),
+  ('Pro', 'Auto Server', 5999, 1, 659900),
+  ('Expert', 'Hybrid Plan', 7999, 2, 1249900);
+
+-- Packages missing for a legacy plan are created inactive, so existing
+-- subscriptions keep a package without it being offered to new buyers
+INSERT IGNORE INTO packages (id, name, price, currency, features, active, display_order)
+SELECT UUID(), package_name, package_price, 'INR', '[]', FALSE, display_order
+FROM legacy_plan_packages;
+
+UPDATE subscriptions SET plan = 'Starter' WHERE plan IS NULL;
+
+ALTER TABLE subscriptions
+  MODIFY COLUMN plan VARCHAR(255) NOT NULL COMMENT 'Package name when bought',
+  ADD COLUMN package_id VARCHAR(255) NULL COMMENT 'Package bought' AFTER user_id,
+  ADD COLUMN amount INT NULL COMMENT 'Price per billing period when bought, in the smallest currency unit (paise)' AFTER plan,
+  ADD COLUMN currency CHAR(3) NULL COMMENT 'ISO 4217 currency code of the price' AFTER amount,
+  ADD COLUMN billing_period ENUM('monthly') NOT NULL DEFAULT 'monthly' COMMENT 'How often the subscription is paid for' AFTER currency,
+  ADD CONSTRAINT fk_subscriptions_package FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE SET NULL;
+
+UPDATE subscriptions s
+JOIN legacy_plan_packages m ON m.plan = s.plan
+JOIN packages p ON p.name = m.package_name
+SET s.package_id = p.id, s.plan = p.name, s.amount = m.legacy_amount, s.currency = 'INR';
+
+-- Payments keep their amount; they gain the package and its name
+ALTER TABLE payment_orders
+  MODIFY COLUMN plan VARCHAR(255) NOT NULL COMMENT 'Package name when ordered',
+  ADD COLUMN package_id VARCHAR(255) NULL COMMENT 'Package being bought' AFTER provider_payment_id,
+  ADD CONSTRAINT fk_payment_orders_package FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE SET NULL;
+
+ALTER TABLE payment_attempts
+  MODIFY COLUMN plan VARCHAR(255) NOT NULL COMMENT 'Package name when the QR was generated',
+  ADD COLUMN package_id VARCHAR(255) NULL COMMENT 'Package being bought' AFTER payee_vpa,
+  ADD CONSTRAINT fk_payment_attempts_package FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE SET NULL;
+
+ALTER TABLE payment_submissions
+  MODIFY COLUMN plan VARCHAR(255) NOT NULL COMMENT 'Package name when submitted',
+  ADD COLUMN package_id VARCHAR(255) NULL COMMENT 'Package being bought' AFTER attempt_id,
+  ADD CONSTRAINT fk_payment_submissions_package FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE SET NULL;
+
+UPDATE payment_orders o
+JOIN legacy_plan_packages m ON m.plan = o.plan
+JOIN packages p ON p.name = m.package_name
+SET o.package_id = p.id, o.plan = p.name;
+
+UPDATE payment_attempts a
+JOIN legacy_plan_packages m ON m.plan = a.plan
+JOIN packages p ON p.name = m.package_name
+SET a.package_id = p.id, a.plan = p.name;
+
+UPDATE payment_submissions ps
+JOIN legacy_plan_packages m ON m.plan = ps.plan
+JOIN packages p ON p.name = m.package_name
+SET ps.package_id = p.id, ps.plan = p.name;
+
+-- Everyone defaulted to Starter; only users with an active subscription have a plan
+ALTER TABLE users
+  MODIFY COLUMN plan VARCHAR(255) NULL DEFAULT NULL COMMENT 'Package name of the active subscription';
+
+UPDATE users u
+LEFT JOIN subscriptions s ON s.user_id = u.id AND s.status = 'Active'
+SET u.plan = s.plan;
+
+DROP TEMPORARY TABLE legacy_plan_packages;
@@ -0,0 +1,63 @@
+-- Migration 017: package price points
+-- Packages were priced per month only. A package now has a price for each
+-- billing period it is offered for (monthly, quarterly, yearly or a one-time
+-- lifetime price), each with an optional savings label. Subscriptions and
+-- payments record the price point bought; lifetime subscriptions have no
+-- renewal date.
+
+CREATE TABLE package_prices (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique price point ID (UUID)',
+  package_id VARCHAR(255) NOT NULL COMMENT 'Reference to packages table',
+  billing_period ENUM('monthly', 'quarterly', 'yearly', 'lifetime') NOT NULL COMMENT 'Period one payment covers',
+  price DECIMAL(10, 2) NOT NULL COMMENT 'Price per billing period in major units (rupees)',
+  savings_label VARCHAR(50) NULL COMMENT 'Optional label shown with the price, e.g. "Save 20%"',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Record creation timestamp',
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last update timestamp',
+  FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE CASCADE,
+  UNIQUE KEY uniq_package_period (package_id, billing_period)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Package prices per billing period';
+
+-- Existing packages keep their monthly price
+INSERT INTO package_prices (id, package_id, billing_period, price)
+SELECT UUID(), id, 'monthly', price FROM packages;
+
+ALTER TABLE packages
+  MODIFY COLUMN price DECIMAL(10, 2) NOT NULL COMMENT 'Headline price in major units: the shortest billing period''s';
+
+ALTER TABLE subscriptions
+  MODIFY COLUMN billing_period ENUM('monthly', 'quarterly', 'yearly', 'lifetime') NOT NULL DEFAULT 'monthly' COMMENT 'How often the subscription is paid for',
+  MODIFY COLUMN renewal_date TIMESTAMP NULL COMMENT 'Next renewal date; NULL for lifetime access',
+  ADD COLUMN package_price_id VARCHAR(255) NULL COMMENT 'Price point bought' AFTER package_id,
+  ADD CONSTRAINT fk_subscriptions_package_price FOREIGN KEY (package_price_id) REFERENCES package_prices(id) ON DELETE SET NULL;
+
+ALTER TABLE payment_orders
+  ADD COLUMN package_price_id VARCHAR(255) NULL COMMENT 'Price point being bought' AFTER package_id,
+  ADD COLUMN billing_period ENUM('monthly', 'quarterly', 'yearly', 'lifetime') NOT NULL DEFAULT 'monthly' COMMENT 'Billing period of the price point when ordered' AFTER plan,
+  ADD CONSTRAINT fk_payment_orders_package_price FOREIGN KEY (package_price_id) REFERENCES package_prices(id) ON DELETE SET NULL;
+
+ALTER TABLE payment_attempts
+  ADD COLUMN package_price_id VARCHAR(255) NULL COMMENT 'Price point being bought' AFTER package_id,
+  ADD COLUMN billing_period ENUM('monthly', 'quarterly', 'yearly', 'lifetime') NOT NULL DEFAULT 'monthly' COMMENT 'Billing period of the price point when the QR was generated' AFTER plan,
+  ADD CONSTRAINT fk_payment_attempts_package_price FOREIGN KEY (package_price_id) REFERENCES package_prices(id) ON DELETE SET NULL;
+
+ALTER TABLE payment_submissions
+  ADD COLUMN package_price_id VARCHAR(255) NULL COMMENT 'Price point being bought' AFTER package_id,
+  ADD COLUMN billing_period ENUM('monthly', 'quarterly', 'yearly', 'lifetime') NOT NULL DEFAULT 'monthly' COMMENT 'Billing period of the price point when submitted' AFTER plan,
+  ADD CONSTRAINT fk_payment_submissions_package_price FOREIGN KEY (package_price_id) REFERENCES package_prices(id) ON DELETE SET NULL;
+
+-- Everything bought so far was monthly
+UPDATE subscriptions s
+JOIN package_prices pp ON pp.package_id = s.package_id AND pp.billing_period = 'monthly'
+SET s.package_price_id = pp.id;
+
+UPDATE payment_orders o
+JOIN package_prices pp ON pp.package_id = o.package_id AND pp.billing_period = 'monthly'
+SET o.package_price_id = pp.id;
+
+UPDATE payment_attempts a
+JOIN package_prices pp ON pp.package_id = a.package_id AND pp.billing_period = 'monthly'
+SET a.package_price_id = pp.id;
+
+UPDATE payment_submissions ps
+JOIN package_prices pp ON pp.package_id = ps.package_id AND pp.billing_period = 'monthly'
+SET ps.package_price_id = pp.id;
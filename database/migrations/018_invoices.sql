@@ -0,0 +1,63 @@
+-- Migration 018: GST invoices
+-- Every confirmed payment is invoiced. Invoice numbers run without gaps
+-- within each Indian financial year (April to March), counted in
+-- invoice_sequences. An invoice is a snapshot of the seller, the customer
+-- and the tax charged when it was issued, so it reads the same after the
+-- customer changes their details or deletes their account. Customers can
+-- record a GSTIN and the state they are in for their invoices in
+-- billing_details.
+
+CREATE TABLE billing_details (
+  user_id VARCHAR(255) PRIMARY KEY COMMENT 'Reference to users table',
+  legal_name VARCHAR(255) NULL COMMENT 'Name to invoice instead of the account name, e.g. a company',
+  gstin CHAR(15) NULL COMMENT 'Customer GSTIN, for business customers',
+  state_code CHAR(2) NULL COMMENT 'GST state code of the customer, which decides the place of supply',
+  address VARCHAR(500) NULL COMMENT 'Billing address printed on invoices',
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last update timestamp',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Customer details printed on invoices';
+
+CREATE TABLE invoice_sequences (
+  financial_year CHAR(7) PRIMARY KEY COMMENT 'Financial year, e.g. 2026-27',
+  last_number INT NOT NULL COMMENT 'Sequence number of the last invoice issued in the year'
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Invoice number counters per financial year';
+
+CREATE TABLE invoices (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique invoice ID (UUID)',
+  invoice_number VARCHAR(16) NOT NULL UNIQUE COMMENT 'Invoice number, e.g. QAI/26-27/000001',
+  financial_year CHAR(7) NOT NULL COMMENT 'Financial year the invoice is numbered in',
+  sequence_number INT NOT NULL COMMENT 'Position of the invoice in its financial year',
+  user_id VARCHAR(255) NULL COMMENT 'Customer; invoices are kept after the account is deleted',
+  subscription_id VARCHAR(255) NULL COMMENT 'Subscription the payment activated',
+  payment_order_id VARCHAR(255) NULL COMMENT 'Provider payment invoiced',
+  payment_submission_id VARCHAR(255) NULL COMMENT 'Manually verified payment invoiced',
+  seller_name VARCHAR(255) NOT NULL COMMENT 'Seller legal name when issued',
+  seller_address VARCHAR(500) NULL COMMENT 'Seller address when issued',
+  seller_gstin CHAR(15) NULL COMMENT 'Seller GSTIN when issued',
+  seller_state_code CHAR(2) NULL COMMENT 'GST state code of the seller when issued',
+  customer_name VARCHAR(255) NOT NULL COMMENT 'Customer name when issued',
+  customer_email VARCHAR(255) NOT NULL COMMENT 'Customer email when issued',
+  customer_gstin CHAR(15) NULL COMMENT 'Customer GSTIN when issued',
+  customer_address VARCHAR(500) NULL COMMENT 'Customer billing address when issued',
+  place_of_supply CHAR(2) NULL COMMENT 'GST state code of the place of supply',
+  description VARCHAR(255) NOT NULL COMMENT 'Line item, e.g. the package and billing period',
+  sac_code VARCHAR(8) NOT NULL COMMENT 'Services Accounting Code of the line item',
+  billing_period ENUM('monthly', 'quarterly', 'yearly', 'lifetime') NOT NULL COMMENT 'Billing period paid for',
+  currency CHAR(3) NOT NULL DEFAULT 'INR' COMMENT 'ISO 4217 currency code',
+  taxable_amount INT NOT NULL COMMENT 'Value before tax, in the smallest currency unit (paise)',
+  tax_rate DECIMAL(5, 2) NOT NULL COMMENT 'Total GST rate in percent',
+  cgst_amount INT NOT NULL DEFAULT 0 COMMENT 'Central GST, intra-state supplies only',
+  sgst_amount INT NOT NULL DEFAULT 0 COMMENT 'State GST, intra-state supplies only',
+  igst_amount INT NOT NULL DEFAULT 0 COMMENT 'Integrated GST, inter-state supplies only',
+  total_amount INT NOT NULL COMMENT 'Amount paid, including tax',
+  issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Invoice date',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+  FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE SET NULL,
+  FOREIGN KEY (payment_order_id) REFERENCES payment_orders(id) ON DELETE SET NULL,
+  FOREIGN KEY (payment_submission_id) REFERENCES payment_submissions(id) ON DELETE SET NULL,
+  UNIQUE KEY uniq_financial_year_sequence (financial_year, sequence_number),
+  UNIQUE KEY uniq_payment_order (payment_order_id),
+  UNIQUE KEY uniq_payment_submission (payment_submission_id),
+  INDEX idx_user_id (user_id),
+  INDEX idx_issued_at (issued_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='GST invoices for confirmed payments';
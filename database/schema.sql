@@ -6,14 +6,17 @@
 CREATE TABLE IF NOT EXISTS users (
   id VARCHAR(255) PRIMARY KEY COMMENT 'Unique user ID (UUID)',
   email VARCHAR(255) NOT NULL UNIQUE COMMENT 'User email address',
-  password_hash VARCHAR(255) NOT NULL COMMENT 'Hashed password using bcrypt',
+  password_hash VARCHAR(255) NULL COMMENT 'Hashed password using bcrypt; NULL for accounts that only sign in with a provider',
   name VARCHAR(255) NOT NULL COMMENT 'User full name',
   role ENUM('admin', 'user') DEFAULT 'user' COMMENT 'User role',
-  plan ENUM('Starter', 'Pro', 'Expert') DEFAULT 'Starter' COMMENT 'Subscription plan',
-  status ENUM('Active', 'Cancelled') DEFAULT 'Active' COMMENT 'User account status',
+  plan VARCHAR(255) NULL DEFAULT NULL COMMENT 'Package name of the active subscription',
+  status ENUM('Active', 'Cancelled', 'pending_verification') DEFAULT 'Active' COMMENT 'User account status',
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Account creation timestamp',
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last update timestamp',
   last_login TIMESTAMP NULL COMMENT 'Last login timestamp',
+  email_verified_at TIMESTAMP NULL COMMENT 'When the email address was verified',
+  verification_sent_at TIMESTAMP NULL COMMENT 'When the last verification email was sent',
+  deleted_at TIMESTAMP NULL COMMENT 'When the account was anonymised at the user''s request',
   INDEX idx_email (email),
   INDEX idx_status (status),
   INDEX idx_created_at (created_at)
@@ -28,48 +31,376 @@ INSERT INTO users (id, email, password_hash, name, role, plan, status) VALUES (
   '$2a$10$GI8LTh9dR/ANfcThNM5EWOg70XnQ6hqQHXrpo72lDpY5WOk2Rspw2',
   'Quantum Alpha Admin',
   'admin',
-  'Starter',
+  NULL,
   'Active'
 );
 
+-- Create packages table
+CREATE TABLE IF NOT EXISTS packages (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique package ID (UUID)',
+  name VARCHAR(255) NOT NULL UNIQUE COMMENT 'Package name shown to buyers',
+  description TEXT NULL COMMENT 'Package description',
+  price DECIMAL(10, 2) NOT NULL COMMENT 'Headline price in major units: the shortest billing period''s',
+  currency VARCHAR(10) NOT NULL DEFAULT 'INR' COMMENT 'ISO 4217 currency code',
+  features TEXT NULL COMMENT 'JSON array of feature bullet points',
+  active BOOLEAN NOT NULL DEFAULT TRUE COMMENT 'Whether the package is offered to buyers',
+  display_order INT NOT NULL DEFAULT 0 COMMENT 'Position in the plan picker',
+  created_by VARCHAR(255) NULL COMMENT 'Creator; admins are tracked in the audit log instead',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Record creation timestamp',
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last update timestamp',
+  INDEX idx_active (active, display_order)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Packages offered to users';
+
+CREATE TABLE IF NOT EXISTS package_prices (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique price point ID (UUID)',
+  package_id VARCHAR(255) NOT NULL COMMENT 'Reference to packages table',
+  billing_period ENUM('monthly', 'quarterly', 'yearly', 'lifetime') NOT NULL COMMENT 'Period one payment covers',
+  price DECIMAL(10, 2) NOT NULL COMMENT 'Price per billing period in major units (rupees)',
+  savings_label VARCHAR(50) NULL COMMENT 'Optional label shown with the price, e.g. "Save 20%"',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Record creation timestamp',
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last update timestamp',
+  FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE CASCADE,
+  UNIQUE KEY uniq_package_period (package_id, billing_period)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Package prices per billing period';
+
 -- Create subscriptions table
 CREATE TABLE IF NOT EXISTS subscriptions (
   id VARCHAR(255) PRIMARY KEY COMMENT 'Unique subscription ID (UUID)',
   user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
-  plan ENUM('Starter', 'Pro', 'Expert') DEFAULT 'Starter' COMMENT 'Subscription plan',
-  status ENUM('Active', 'Cancelled', 'Inactive') DEFAULT 'Inactive' COMMENT 'Subscription status',
-  renewal_date TIMESTAMP NULL COMMENT 'Next renewal date',
+  package_id VARCHAR(255) NULL COMMENT 'Package bought',
+  package_price_id VARCHAR(255) NULL COMMENT 'Price point bought',
+  plan VARCHAR(255) NOT NULL COMMENT 'Package name when bought',
+  amount INT NULL COMMENT 'Price per billing period when bought, in the smallest currency unit (paise)',
+  currency CHAR(3) NULL COMMENT 'ISO 4217 currency code of the price',
+  billing_period ENUM('monthly', 'quarterly', 'yearly', 'lifetime') NOT NULL DEFAULT 'monthly' COMMENT 'How often the subscription is paid for',
+  status ENUM('Active', 'Cancelled', 'Inactive', 'pending_payment', 'Rejected') DEFAULT 'Inactive' COMMENT 'Subscription status',
+  renewal_date TIMESTAMP NULL COMMENT 'Next renewal date; NULL for lifetime access',
   start_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Subscription start date',
   end_date TIMESTAMP NULL COMMENT 'Subscription end date',
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Record creation timestamp',
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last update timestamp',
+  active_user_id VARCHAR(255) AS (IF(status = 'Active', user_id, NULL)) STORED COMMENT 'user_id while the subscription is active, so each user has at most one',
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE SET NULL,
+  FOREIGN KEY (package_price_id) REFERENCES package_prices(id) ON DELETE SET NULL,
   INDEX idx_user_id (user_id),
   INDEX idx_status (status),
   INDEX idx_renewal_date (renewal_date),
-  UNIQUE KEY unique_active_subscription (user_id, status)
+  UNIQUE KEY unique_active_subscription (active_user_id)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='User subscriptions table';
 
--- Create trading sessions/instruments table (optional - for tracking trader activity)
+-- Create payment gateway tables
+CREATE TABLE IF NOT EXISTS payment_orders (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique order ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  provider VARCHAR(50) NOT NULL COMMENT 'Payment provider id (razorpay, fake)',
+  provider_order_id VARCHAR(255) NOT NULL COMMENT 'Order id at the provider',
+  provider_payment_id VARCHAR(255) NULL COMMENT 'Payment id at the provider, once paid',
+  package_id VARCHAR(255) NULL COMMENT 'Package being bought',
+  package_price_id VARCHAR(255) NULL COMMENT 'Price point being bought',
+  plan VARCHAR(255) NOT NULL COMMENT 'Package name when ordered',
+  billing_period ENUM('monthly', 'quarterly', 'yearly', 'lifetime') NOT NULL DEFAULT 'monthly' COMMENT 'Billing period of the price point when ordered',
+  amount INT NOT NULL COMMENT 'Amount in the smallest currency unit (paise)',
+  currency CHAR(3) NOT NULL DEFAULT 'INR' COMMENT 'ISO 4217 currency code',
+  status ENUM('created', 'paid', 'failed') NOT NULL DEFAULT 'created' COMMENT 'Order status',
+  subscription_id VARCHAR(255) NULL COMMENT 'Subscription activated by the payment',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Order creation timestamp',
+  paid_at TIMESTAMP NULL COMMENT 'When the payment was confirmed',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE SET NULL,
+  FOREIGN KEY (package_price_id) REFERENCES package_prices(id) ON DELETE SET NULL,
+  UNIQUE KEY uniq_provider_order (provider, provider_order_id),
+  INDEX idx_user_id (user_id),
+  INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Orders created with the payment provider';
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique event record ID (UUID)',
+  provider VARCHAR(50) NOT NULL COMMENT 'Payment provider id',
+  event_id VARCHAR(255) NOT NULL COMMENT 'Event id at the provider',
+  event_type VARCHAR(100) NOT NULL COMMENT 'Event type as sent by the provider',
+  order_id VARCHAR(255) NULL COMMENT 'Reference to payment_orders, when the event matched an order',
+  payload JSON COMMENT 'Verified webhook body',
+  received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'When the webhook arrived',
+  FOREIGN KEY (order_id) REFERENCES payment_orders(id) ON DELETE SET NULL,
+  UNIQUE KEY uniq_provider_event (provider, event_id),
+  INDEX idx_order_id (order_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Verified webhook events from the payment provider';
+
+-- Create UPI payment attempts table
+CREATE TABLE IF NOT EXISTS payment_attempts (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique attempt ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  method ENUM('upi') NOT NULL DEFAULT 'upi' COMMENT 'How the user was asked to pay',
+  reference VARCHAR(35) NOT NULL UNIQUE COMMENT 'Transaction reference sent as the UPI tr parameter',
+  payee_vpa VARCHAR(255) NOT NULL COMMENT 'UPI address the payment was requested to',
+  package_id VARCHAR(255) NULL COMMENT 'Package being bought',
+  package_price_id VARCHAR(255) NULL COMMENT 'Price point being bought',
+  plan VARCHAR(255) NOT NULL COMMENT 'Package name when the QR was generated',
+  billing_period ENUM('monthly', 'quarterly', 'yearly', 'lifetime') NOT NULL DEFAULT 'monthly' COMMENT 'Billing period of the price point when the QR was generated',
+  amount INT NOT NULL COMMENT 'Amount in the smallest currency unit (paise)',
+  currency CHAR(3) NOT NULL DEFAULT 'INR' COMMENT 'ISO 4217 currency code',
+  status ENUM('pending', 'matched') NOT NULL DEFAULT 'pending' COMMENT 'Whether a transfer has been matched to the attempt',
+  utr VARCHAR(64) NULL COMMENT 'Bank reference (UTR) of the matched transfer',
+  matched_at TIMESTAMP NULL COMMENT 'When the transfer was matched',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'When the QR was generated',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE SET NULL,
+  FOREIGN KEY (package_price_id) REFERENCES package_prices(id) ON DELETE SET NULL,
+  INDEX idx_user_id (user_id),
+  INDEX idx_status (status),
+  INDEX idx_utr (utr)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='UPI payment requests awaiting reconciliation';
+
+-- Create manual payment verification table
+CREATE TABLE IF NOT EXISTS payment_submissions (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique submission ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  subscription_id VARCHAR(255) NOT NULL COMMENT 'Subscription waiting on the payment',
+  attempt_id VARCHAR(255) NULL COMMENT 'UPI payment attempt the transfer was made for',
+  package_id VARCHAR(255) NULL COMMENT 'Package being bought',
+  package_price_id VARCHAR(255) NULL COMMENT 'Price point being bought',
+  plan VARCHAR(255) NOT NULL COMMENT 'Package name when submitted',
+  billing_period ENUM('monthly', 'quarterly', 'yearly', 'lifetime') NOT NULL DEFAULT 'monthly' COMMENT 'Billing period of the price point when submitted',
+  amount INT NOT NULL COMMENT 'Amount in the smallest currency unit (paise)',
+  currency CHAR(3) NOT NULL DEFAULT 'INR' COMMENT 'ISO 4217 currency code',
+  utr VARCHAR(64) NOT NULL COMMENT 'Bank reference (UTR) the user entered',
+  screenshot_path VARCHAR(500) NULL COMMENT 'File name of the payment screenshot in PAYMENT_PROOF_DIR, outside the web root',
+  screenshot_type VARCHAR(100) NULL COMMENT 'MIME type of the screenshot',
+  status ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending' COMMENT 'Review status',
+  rejection_reason VARCHAR(500) NULL COMMENT 'Why the payment was rejected, as shown to the user',
+  reviewed_by VARCHAR(255) NULL COMMENT 'Admin who approved or rejected the payment',
+  reviewed_at TIMESTAMP NULL COMMENT 'When the payment was reviewed',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'When the payment was submitted',
+  pending_user_id VARCHAR(255) AS (IF(status = 'pending', user_id, NULL)) STORED COMMENT 'user_id while under review, so each user has at most one',
+  claimed_utr VARCHAR(64) AS (IF(status = 'rejected', NULL, utr)) STORED COMMENT 'UTR unless rejected, so a transfer is only claimed once',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE CASCADE,
+  FOREIGN KEY (attempt_id) REFERENCES payment_attempts(id) ON DELETE SET NULL,
+  FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE SET NULL,
+  FOREIGN KEY (package_price_id) REFERENCES package_prices(id) ON DELETE SET NULL,
+  UNIQUE KEY uniq_pending_user (pending_user_id),
+  UNIQUE KEY uniq_claimed_utr (claimed_utr),
+  INDEX idx_user_id (user_id),
+  INDEX idx_status (status, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='UPI transfers awaiting manual verification';
+
+-- Create invoice billing details table
+CREATE TABLE IF NOT EXISTS billing_details (
+  user_id VARCHAR(255) PRIMARY KEY COMMENT 'Reference to users table',
+  legal_name VARCHAR(255) NULL COMMENT 'Name to invoice instead of the account name, e.g. a company',
+  gstin CHAR(15) NULL COMMENT 'Customer GSTIN, for business customers',
+  state_code CHAR(2) NULL COMMENT 'GST state code of the customer, which decides the place of supply',
+  address VARCHAR(500) NULL COMMENT 'Billing address printed on invoices',
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last update timestamp',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Customer details printed on invoices';
+
+-- Create invoice numbering table
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+  financial_year CHAR(7) PRIMARY KEY COMMENT 'Financial year, e.g. 2026-27',
+  last_number INT NOT NULL COMMENT 'Sequence number of the last invoice issued in the year'
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Invoice number counters per financial year';
+
+-- Create invoices table
+CREATE TABLE IF NOT EXISTS invoices (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique invoice ID (UUID)',
+  invoice_number VARCHAR(16) NOT NULL UNIQUE COMMENT 'Invoice number, e.g. QAI/26-27/000001',
+  financial_year CHAR(7) NOT NULL COMMENT 'Financial year the invoice is numbered in',
+  sequence_number INT NOT NULL COMMENT 'Position of the invoice in its financial year',
+  user_id VARCHAR(255) NULL COMMENT 'Customer; invoices are kept after the account is deleted',
+  subscription_id VARCHAR(255) NULL COMMENT 'Subscription the payment activated',
+  payment_order_id VARCHAR(255) NULL COMMENT 'Provider payment invoiced',
+  payment_submission_id VARCHAR(255) NULL COMMENT 'Manually verified payment invoiced',
+  seller_name VARCHAR(255) NOT NULL COMMENT 'Seller legal name when issued',
+  seller_address VARCHAR(500) NULL COMMENT 'Seller address when issued',
+  seller_gstin CHAR(15) NULL COMMENT 'Seller GSTIN when issued',
+  seller_state_code CHAR(2) NULL COMMENT 'GST state code of the seller when issued',
+  customer_name VARCHAR(255) NOT NULL COMMENT 'Customer name when issued',
+  customer_email VARCHAR(255) NOT NULL COMMENT 'Customer email when issued',
+  customer_gstin CHAR(15) NULL COMMENT 'Customer GSTIN when issued',
+  customer_address VARCHAR(500) NULL COMMENT 'Customer billing address when issued',
+  place_of_supply CHAR(2) NULL COMMENT 'GST state code of the place of supply',
+  description VARCHAR(255) NOT NULL COMMENT 'Line item, e.g. the package and billing period',
+  sac_code VARCHAR(8) NOT NULL COMMENT 'Services Accounting Code of the line item',
+  billing_period ENUM('monthly', 'quarterly', 'yearly', 'lifetime') NOT NULL COMMENT 'Billing period paid for',
+  currency CHAR(3) NOT NULL DEFAULT 'INR' COMMENT 'ISO 4217 currency code',
+  taxable_amount INT NOT NULL COMMENT 'Value before tax, in the smallest currency unit (paise)',
+  tax_rate DECIMAL(5, 2) NOT NULL COMMENT 'Total GST rate in percent',
+  cgst_amount INT NOT NULL DEFAULT 0 COMMENT 'Central GST, intra-state supplies only',
+  sgst_amount INT NOT NULL DEFAULT 0 COMMENT 'State GST, intra-state supplies only',
+  igst_amount INT NOT NULL DEFAULT 0 COMMENT 'Integrated GST, inter-state supplies only',
+  total_amount INT NOT NULL COMMENT 'Amount paid, including tax',
+  issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Invoice date',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+  FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE SET NULL,
+  FOREIGN KEY (payment_order_id) REFERENCES payment_orders(id) ON DELETE SET NULL,
+  FOREIGN KEY (payment_submission_id) REFERENCES payment_submissions(id) ON DELETE SET NULL,
+  UNIQUE KEY uniq_financial_year_sequence (financial_year, sequence_number),
+  UNIQUE KEY uniq_payment_order (payment_order_id),
+  UNIQUE KEY uniq_payment_submission (payment_submission_id),
+  INDEX idx_user_id (user_id),
+  INDEX idx_issued_at (issued_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='GST invoices for confirmed payments';
+
+-- Create user sessions table (one row per refresh token)
 CREATE TABLE IF NOT EXISTS user_sessions (
   id VARCHAR(255) PRIMARY KEY COMMENT 'Unique session ID (UUID)',
   user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
-  session_token VARCHAR(255) NOT NULL UNIQUE COMMENT 'Session token',
+  family_id VARCHAR(255) NULL COMMENT 'Refresh token family (one per login)',
+  session_token VARCHAR(255) NOT NULL UNIQUE COMMENT 'SHA-256 hash of the refresh token',
   user_agent VARCHAR(500) COMMENT 'User agent string',
   ip_address VARCHAR(45) COMMENT 'User IP address',
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Session creation timestamp',
   last_activity TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last activity timestamp',
   expires_at TIMESTAMP NULL COMMENT 'Session expiration timestamp',
+  replaced_by VARCHAR(255) NULL COMMENT 'Session that replaced this one on rotation',
+  revoked_at TIMESTAMP NULL COMMENT 'When the token was rotated or revoked',
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
   INDEX idx_user_id (user_id),
+  INDEX idx_family_id (family_id),
   INDEX idx_session_token (session_token),
   INDEX idx_expires_at (expires_at)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='User session management table';
 
+-- Create password reset token table
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique token ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  token_hash VARCHAR(64) NOT NULL UNIQUE COMMENT 'SHA-256 hash of the emailed reset token',
+  expires_at TIMESTAMP NULL COMMENT 'Token expiration timestamp',
+  used_at TIMESTAMP NULL COMMENT 'When the token was used or superseded',
+  requested_ip VARCHAR(45) COMMENT 'IP address that requested the reset',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Request timestamp',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id),
+  INDEX idx_expires_at (expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Single-use password reset tokens';
+
+-- Create passwordless sign-in token table
+CREATE TABLE IF NOT EXISTS magic_link_tokens (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique token ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  token_hash VARCHAR(64) NOT NULL UNIQUE COMMENT 'SHA-256 hash of the emailed sign-in token',
+  browser_hash VARCHAR(64) NOT NULL COMMENT 'SHA-256 hash of the cookie given to the requesting browser',
+  expires_at TIMESTAMP NULL COMMENT 'Token expiration timestamp',
+  used_at TIMESTAMP NULL COMMENT 'When the token was used or superseded',
+  requested_ip VARCHAR(45) COMMENT 'IP address that requested the link',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Request timestamp',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id),
+  INDEX idx_expires_at (expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Single-use passwordless sign-in tokens';
+
+-- Create email change token table
+CREATE TABLE IF NOT EXISTS email_change_tokens (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique token ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  new_email VARCHAR(255) NOT NULL COMMENT 'Address the user wants to switch to',
+  token_hash VARCHAR(64) NOT NULL UNIQUE COMMENT 'SHA-256 hash of the emailed confirmation token',
+  expires_at TIMESTAMP NULL COMMENT 'Token expiration timestamp',
+  used_at TIMESTAMP NULL COMMENT 'When the token was used or superseded',
+  requested_ip VARCHAR(45) COMMENT 'IP address that requested the change',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Request timestamp',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id),
+  INDEX idx_expires_at (expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Single-use email change confirmation tokens';
+
+-- Create personal data export table
+CREATE TABLE IF NOT EXISTS data_exports (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique export ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  status ENUM('pending', 'ready', 'failed') NOT NULL DEFAULT 'pending' COMMENT 'Whether the archive has been built',
+  file_path VARCHAR(500) NULL COMMENT 'Archive location on the server',
+  file_size INT NULL COMMENT 'Archive size in bytes',
+  requested_ip VARCHAR(45) COMMENT 'IP address that requested the export',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Request timestamp',
+  completed_at TIMESTAMP NULL COMMENT 'When the archive was built',
+  expires_at TIMESTAMP NULL COMMENT 'The archive can be downloaded until then',
+  downloaded_at TIMESTAMP NULL COMMENT 'Last download',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id),
+  INDEX idx_expires_at (expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Personal data export archives';
+
+-- Create account deletion request table
+CREATE TABLE IF NOT EXISTS account_deletion_requests (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique request ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  scheduled_for TIMESTAMP NOT NULL COMMENT 'End of the cooling-off period',
+  requested_ip VARCHAR(45) COMMENT 'IP address that requested the deletion',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Request timestamp',
+  cancelled_at TIMESTAMP NULL COMMENT 'When the user cancelled the request',
+  completed_at TIMESTAMP NULL COMMENT 'When the account was anonymised',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id),
+  INDEX idx_scheduled_for (scheduled_for)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Account deletion requests and their cooling-off period';
+
+-- Create sign-in provider identity table
+CREATE TABLE IF NOT EXISTS user_identities (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique identity ID (UUID)',
+  user_id VARCHAR(255) NOT NULL COMMENT 'Reference to users table',
+  provider VARCHAR(50) NOT NULL COMMENT 'Configured provider id (google, oidc, ...)',
+  subject VARCHAR(255) NOT NULL COMMENT 'Account id at the provider (the ID token sub claim)',
+  email VARCHAR(255) NULL COMMENT 'Verified email the provider reported when the identity was linked',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'When the identity was linked',
+  last_login TIMESTAMP NULL COMMENT 'Last sign-in through this identity',
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE KEY uniq_provider_subject (provider, subject),
+  INDEX idx_user_id (user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Sign-in provider accounts linked to users';
+
+-- Create two-factor authentication tables
+CREATE TABLE IF NOT EXISTS mfa_totp (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique factor ID (UUID)',
+  account_type ENUM('user', 'admin') NOT NULL COMMENT 'Table the account lives in (users or admins)',
+  account_id VARCHAR(255) NOT NULL COMMENT 'Reference to users or admins table',
+  secret VARCHAR(64) NOT NULL COMMENT 'Base32 TOTP secret',
+  confirmed_at TIMESTAMP NULL COMMENT 'When enrolment was confirmed with a valid code',
+  last_used_step BIGINT NULL COMMENT 'Time step of the last accepted code (replay protection)',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Enrolment start timestamp',
+  UNIQUE KEY unique_mfa_account (account_type, account_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='TOTP two-factor authentication secrets';
+
+CREATE TABLE IF NOT EXISTS mfa_backup_codes (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique code ID (UUID)',
+  account_type ENUM('user', 'admin') NOT NULL COMMENT 'Table the account lives in (users or admins)',
+  account_id VARCHAR(255) NOT NULL COMMENT 'Reference to users or admins table',
+  code_hash VARCHAR(64) NOT NULL COMMENT 'SHA-256 hash of the backup code',
+  used_at TIMESTAMP NULL COMMENT 'When the code was used',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Code creation timestamp',
+  INDEX idx_mfa_account (account_type, account_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Single-use two-factor backup codes';
+
+-- Create login throttling table
+CREATE TABLE IF NOT EXISTS login_throttle (
+  scope ENUM('email', 'ip') NOT NULL COMMENT 'What the counter is keyed on',
+  throttle_key VARCHAR(255) NOT NULL COMMENT 'Lowercased email address or client IP',
+  failures INT NOT NULL DEFAULT 0 COMMENT 'Consecutive failed attempts',
+  last_failure_at TIMESTAMP NULL COMMENT 'Time of the most recent failure',
+  locked_until TIMESTAMP NULL COMMENT 'Logins refused until this time',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'First failure timestamp',
+  PRIMARY KEY (scope, throttle_key),
+  INDEX idx_locked_until (locked_until)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Failed login counters and lockouts';
+
+-- Create rate limiting table (used with RATE_LIMIT_STORE=mysql)
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  bucket_key VARCHAR(255) PRIMARY KEY COMMENT 'Rule name and caller, e.g. auth:ip:203.0.113.7',
+  tokens DOUBLE NOT NULL COMMENT 'Tokens left after the last request',
+  allowed TINYINT(1) NOT NULL DEFAULT 1 COMMENT 'Whether the last request was allowed',
+  updated_at TIMESTAMP(3) NOT NULL COMMENT 'Time of the last request',
+  INDEX idx_updated_at (updated_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Shared token buckets for API rate limiting';
+
 -- Create audit log table for tracking changes
 CREATE TABLE IF NOT EXISTS audit_logs (
   id VARCHAR(255) PRIMARY KEY COMMENT 'Unique log ID (UUID)',
-  user_id VARCHAR(255) COMMENT 'Reference to users table (nullable for system actions)',
+  user_id VARCHAR(255) COMMENT 'Reference to users table (set when the actor is a user)',
+  actor_type ENUM('user', 'admin', 'system') NULL COMMENT 'Table the actor lives in (users or admins), or system',
+  actor_id VARCHAR(255) NULL COMMENT 'ID of the account that performed the action',
   action VARCHAR(100) NOT NULL COMMENT 'Action performed (login, logout, update, delete, etc)',
   entity_type VARCHAR(50) COMMENT 'Type of entity affected (user, subscription, etc)',
   entity_id VARCHAR(255) COMMENT 'ID of entity affected',
@@ -78,7 +409,26 @@ CREATE TABLE IF NOT EXISTS audit_logs (
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Action timestamp',
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
   INDEX idx_user_id (user_id),
+  INDEX idx_actor (actor_type, actor_id),
   INDEX idx_action (action),
   INDEX idx_entity (entity_type, entity_id),
   INDEX idx_created_at (created_at)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Audit logs for tracking all significant actions';
+
+-- Create landing page image uploads table
+CREATE TABLE IF NOT EXISTS landing_page_images (
+  id VARCHAR(255) PRIMARY KEY COMMENT 'Unique image ID (UUID)',
+  filename VARCHAR(255) NOT NULL COMMENT 'Stored file name',
+  original_filename VARCHAR(255) NOT NULL COMMENT 'File name as uploaded',
+  file_path VARCHAR(500) NOT NULL COMMENT 'Public path of the stored file',
+  file_size INT NOT NULL COMMENT 'File size in bytes',
+  mime_type VARCHAR(100) NOT NULL COMMENT 'MIME type',
+  section VARCHAR(100) NOT NULL COMMENT 'Landing page section the image belongs to',
+  uploaded_by VARCHAR(255) NULL COMMENT 'Uploader, when in the users table',
+  actor_type ENUM('user', 'admin') NULL COMMENT 'Table the uploader lives in (users or admins)',
+  actor_id VARCHAR(255) NULL COMMENT 'ID of the uploading account',
+  upload_ip VARCHAR(45) COMMENT 'IP address of the uploader',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Upload timestamp',
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP COMMENT 'Last update timestamp',
+  INDEX idx_section (section)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='Images uploaded for the landing page';
@@ -8,6 +8,11 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // the key set lives at its conventional address for clients that verify
+  // tokens themselves
+  async rewrites() {
+    return [{ source: '/.well-known/jwks.json', destination: '/api/auth/jwks' }];
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,206 @@
+#!/usr/bin/env node
+/**
+ * Minimal OpenID Connect provider for local development and tests.
+ * Implements discovery, an authorization page where you type the email and
+ * name to sign in as, the token endpoint (authorization code + PKCE S256)
+ * and the key set. Nothing is persisted; the signing key is new on every start.
+ *
+ * Usage:
+ *   node scripts/mock-oidc-provider.js          (MOCK_OIDC_PORT, default 9400)
+ * Then run the app with:
+ *   OIDC_ISSUER=http://localhost:9400 OIDC_CLIENT_ID=mock-client OIDC_CLIENT_SECRET=mock-secret \
+ *   OIDC_PROVIDER_NAME="Mock IdP"
+ *
+ * Subjects are derived from the email, so signing in with the same email
+ * again returns the same provider account. Untick "Email verified" to test
+ * providers that don't vouch for the address.
+ */
+
+const http = require('http');
+const { createHash, generateKeyPairSync, randomBytes, sign } = require('crypto');
+
+const port = parseInt(process.env.MOCK_OIDC_PORT || '9400');
+const issuer = process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}`;
+const clientSecret = process.env.MOCK_OIDC_CLIENT_SECRET || 'mock-secret';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const kid = randomBytes(8).toString('hex');
+
+// authorization code -> pending sign-in, used once within a minute
+const codes = new Map();
+const CODE_TTL_MS = 60 * 1000;
+
+function base64url(value) {
+  return Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url');
+}
+
+function signIdToken(claims) {
+  const header = base64url({ alg: 'RS256', typ: 'JWT', kid });
+  const payload = base64url(claims);
+  const signature = sign('sha256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+function send(res, status, body, headers = {}) {
+  const json = typeof body !== 'string';
+  res.writeHead(status, {
+    'Content-Type': json ? 'application/json' : 'text/html; charset=utf-8',
+    'Cache-Control': 'no-store',
+    ...headers,
+  });
+  res.end(json ? JSON.stringify(body) : body);
+}
+
+function readForm(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => resolve(new URLSearchParams(data)));
+    req.on('error', reject);
+  });
+}
+
+function authorizePage(params) {
+  const hidden = [...params.entries()]
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('\n      ');
+  return `<!doctype html>
+<html>
+  <head><title>Mock OIDC sign-in</title></head>
+  <body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto">
+    <h1>Mock OIDC sign-in</h1>
+    <p>Signing in to <code>${escapeHtml(params.get('client_id'))}</code></p>
+    <form method="post" action="/authorize">
+      ${hidden}
+      <p><label>Email<br><input name="email" type="email" required value="test@example.com"></label></p>
+      <p><label>Name<br><input name="name" value="Test User"></label></p>
+      <p><label><input name="email_verified" type="checkbox" value="true" checked> Email verified</label></p>
+      <p><button type="submit">Sign in</button> <button type="submit" name="deny" value="1">Deny</button></p>
+    </form>
+  </body>
+</html>`;
+}
+
+function redirectBack(res, redirectUri, params) {
+  const url = new URL(redirectUri);
+  for (const [name, value] of Object.entries(params)) {
+    url.searchParams.set(name, value);
+  }
+  res.writeHead(302, { Location: url.toString() });
+  res.end();
+}
+
+async function handleAuthorize(req, res, url) {
+  const params = req.method === 'POST' ? await readForm(req) : url.searchParams;
+  const redirectUri = params.get('redirect_uri');
+  if (!redirectUri || !params.get('client_id')) {
+    return send(res, 400, '<p>redirect_uri and client_id are required</p>');
+  }
+  if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+    return redirectBack(res, redirectUri, { error: 'invalid_request', state: params.get('state') || '' });
+  }
+
+  if (req.method !== 'POST') {
+    return send(res, 200, authorizePage(params));
+  }
+
+  if (params.get('deny')) {
+    return redirectBack(res, redirectUri, { error: 'access_denied', state: params.get('state') || '' });
+  }
+
+  const email = params.get('email').trim();
+  const code = randomBytes(24).toString('base64url');
+  codes.set(code, {
+    clientId: params.get('client_id'),
+    redirectUri,
+    codeChallenge: params.get('code_challenge'),
+    nonce: params.get('nonce'),
+    email,
+    name: params.get('name') || '',
+    emailVerified: params.get('email_verified') === 'true',
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+  redirectBack(res, redirectUri, { code, state: params.get('state') || '' });
+}
+
+async function handleToken(req, res) {
+  const params = await readForm(req);
+  const code = params.get('code');
+  const pending = code && codes.get(code);
+  codes.delete(code);
+
+  if (params.get('grant_type') !== 'authorization_code' || !pending || pending.expiresAt < Date.now()) {
+    return send(res, 400, { error: 'invalid_grant' });
+  }
+  if (params.get('client_id') !== pending.clientId || params.get('client_secret') !== clientSecret) {
+    return send(res, 401, { error: 'invalid_client' });
+  }
+  if (params.get('redirect_uri') !== pending.redirectUri) {
+    return send(res, 400, { error: 'invalid_grant', error_description: 'redirect_uri mismatch' });
+  }
+  const challenge = createHash('sha256').update(params.get('code_verifier') || '').digest('base64url');
+  if (challenge !== pending.codeChallenge) {
+    return send(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = signIdToken({
+    iss: issuer,
+    aud: pending.clientId,
+    sub: createHash('sha256').update(pending.email.toLowerCase()).digest('hex').slice(0, 24),
+    email: pending.email,
+    email_verified: pending.emailVerified,
+    name: pending.name || undefined,
+    nonce: pending.nonce || undefined,
+    iat: now,
+    exp: now + 300,
+  });
+
+  send(res, 200, {
+    access_token: randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken,
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, issuer);
+  try {
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return send(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: ['client_secret_post'],
+        scopes_supported: ['openid', 'email', 'profile'],
+      });
+    }
+    if (url.pathname === '/jwks') {
+      return send(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] });
+    }
+    if (url.pathname === '/authorize') {
+      return await handleAuthorize(req, res, url);
+    }
+    if (url.pathname === '/token' && req.method === 'POST') {
+      return await handleToken(req, res);
+    }
+    send(res, 404, { error: 'not_found' });
+  } catch (error) {
+    console.error(error);
+    send(res, 500, { error: 'server_error' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Mock OIDC provider listening on ${issuer}`);
+});
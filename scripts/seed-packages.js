@@ -5,6 +5,7 @@
  */
 
 const mysql = require('mysql2/promise');
+const { randomUUID } = require('crypto');
 require('dotenv').config();
 
 const defaultPackages = [
@@ -12,7 +13,7 @@ const defaultPackages = [
     name: 'Desktop Software',
     description: 'Manage Yourself - Desktop Software for DIY traders with Community Access',
     price: 4999,
-    currency: '₹',
+    currency: 'INR',
     features: [
       'Desktop Software',
       'DIY',
@@ -27,7 +28,7 @@ const defaultPackages = [
     name: 'Auto Server',
     description: 'Fully Automated Server based execution for hands-free trading',
     price: 5999,
-    currency: '₹',
+    currency: 'INR',
     features: [
       'Fully Automated',
       'Server based Execution',
@@ -42,7 +43,7 @@ const defaultPackages = [
     name: 'Hybrid Plan',
     description: 'Combination of Desktop Software and Server Execution',
     price: 7999,
-    currency: '₹',
+    currency: 'INR',
     features: [
       'Desktop Software',
       'Server Execution',
@@ -84,14 +85,16 @@ async function seedPackages() {
 
     for (const pkg of defaultPackages) {
       const { name, description, price, currency, features, display_order, active } = pkg;
+      const id = randomUUID();
 
       const query = `
         INSERT INTO packages 
         (id, name, description, price, currency, features, display_order, active, created_at, updated_at)
-        VALUES (UUID(), ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())
       `;
 
       const values = [
+        id,
         name,
         description,
         price,
@@ -102,6 +105,11 @@ async function seedPackages() {
       ];
 
       await connection.execute(query, values);
+      // packages are sold monthly until an admin adds other price points
+      await connection.execute(
+        `INSERT INTO package_prices (id, package_id, billing_period, price) VALUES (?, ?, 'monthly', ?)`,
+        [randomUUID(), id, price]
+      );
       console.log(`✓ Created package: ${name}`);
     }
 
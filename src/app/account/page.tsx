@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/hooks/use-auth";
+import { authFetch } from "@/lib/auth-client";
+import { ProfileSettings } from "@/components/account/profile-settings";
+import { PasswordSettings } from "@/components/account/password-settings";
+import { ActiveSessions } from "@/components/account/active-sessions";
+import { PersonalData } from "@/components/account/personal-data";
+import { BillingDetails } from "@/components/account/billing-details";
+import { LinkedAccounts, LinkedIdentity } from "@/components/account/linked-accounts";
+
+export default function AccountPage() {
+  const [sessionsKey, setSessionsKey] = useState(0);
+  const [hasPassword, setHasPassword] = useState(true);
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const { user, loading } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [user, loading, router]);
+
+  // whether the account has a password yet, and the providers linked to it
+  const loadSignInMethods = useCallback(async () => {
+    const res = await authFetch('/api/account');
+    if (res.ok) {
+      const data = await res.json();
+      setHasPassword(data.hasPassword);
+      setIdentities(data.identities);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      loadSignInMethods();
+    }
+  }, [user, loadSignInMethods]);
+
+  const handlePasswordChanged = () => {
+    setSessionsKey(key => key + 1);
+    loadSignInMethods();
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto max-w-2xl px-4 py-8 grid gap-6">
+      <div>
+        <h1 className="text-3xl font-bold">Account</h1>
+        <p className="text-muted-foreground">
+          Two-factor authentication is set up on the <Link href="/dashboard/security" className="underline">Security</Link> page.
+        </p>
+      </div>
+      <ProfileSettings />
+      <PasswordSettings hasPassword={hasPassword} userInputs={[user.email, user.name]} onChanged={handlePasswordChanged} />
+      <LinkedAccounts identities={identities} />
+      <BillingDetails />
+      <ActiveSessions reloadKey={sessionsKey} />
+      <PersonalData />
+    </div>
+  );
+}
@@ -3,16 +3,15 @@
 import {
   getUserById,
   updateUser,
-  deleteUser,
   getAllUsers,
   // extended list
   getAllUsersWithSubscription,
   createUser,
   getSubscription,
-  createSubscription,
   updateSubscription,
   logAuditAction,
-  updatePassword,
+  changeAccountPassword,
+  revokeOtherSessions,
   updateSiteSettings,
   getSiteSettings,
   createPackage,
@@ -20,59 +19,53 @@ import {
   getPackageById,
   updatePackage,
   deletePackage,
+  type PackagePriceInput,
 } from '@/lib/db-auth';
 import { UserSchema, type User, type Subscription, type Package } from '@/lib/schema';
 import { revalidatePath } from 'next/cache';
-import { verifyJWT } from '@/lib/jwt';
-
-// Helper to get the current user's ID from the JWT token
-async function getCurrentUserId(token: string) {
-  if (!token) {
-    throw new Error('No token provided');
-  }
-  try {
-    const payload = await verifyJWT(token);
-    if (payload) {
-      return payload.userId;
-    }
-  } catch (error) {
-    console.error('Error verifying token:', error);
-    throw new Error('Invalid token');
+import { getSession, auditActor } from '@/lib/session';
+import { requirePermission, forbidImpersonation } from '@/lib/authorization';
+import type { Permission } from '@/lib/permissions';
+import { clearFailedLogins } from '@/lib/login-throttle';
+import { enforceActionRateLimit } from '@/lib/rate-limit';
+import { eraseAccount } from '@/lib/account-deletion';
+
+// Helper to get the current user's ID from the session cookie (revoked sessions are rejected)
+async function getCurrentUserId() {
+  const payload = await getSession();
+  if (!payload) {
+    throw new Error('Not authenticated');
   }
+  await enforceActionRateLimit(payload.userId);
+  return payload.userId;
 }
 
-// Helper to verify admin role
-async function verifyAdminRole(token: string) {
-  if (!token) {
-    throw new Error('No token provided');
-  }
-  try {
-    const payload = await verifyJWT(token);
-    // accept both admin and superadmin roles
-    if (payload && (payload.role === 'admin' || payload.role === 'superadmin')) {
-      return payload.userId;
-    }
-  } catch (error) {
-    console.error('Error verifying token:', error);
-    throw new Error('Invalid token');
+// Helper for changes only the account holder may make; refused while an
+// admin is viewing the app as the user
+async function getAccountHolderId() {
+  const payload = await getSession();
+  if (!payload) {
+    throw new Error('Not authenticated');
   }
-  throw new Error('Unauthorized or insufficient permissions');
+  forbidImpersonation(payload);
+  await enforceActionRateLimit(payload.userId);
+  return payload.userId;
 }
 
-// Helper to get user role from token
-async function getUserRole(token: string) {
-  if (!token) {
-    throw new Error('No token provided');
-  }
-  try {
-    const payload = await verifyJWT(token);
-    if (payload) {
-      return payload.role;
-    }
-  } catch (error) {
-    console.error('Error verifying token:', error);
-    throw new Error('Invalid token');
+// Helper to verify the caller holds an admin permission (see lib/permissions)
+async function verifyPermission(permission: Permission) {
+  const payload = await requirePermission(permission);
+  await enforceActionRateLimit(payload.userId);
+  return payload;
+}
+
+// Helper to get user role from the session
+async function getUserRole() {
+  const payload = await getSession();
+  if (!payload) {
+    throw new Error('Not authenticated');
   }
+  return payload.role;
 }
 
 // --- User Actions ---
@@ -91,38 +84,13 @@ export async function createUserInDb(userData: {
   return user;
 }
 
-export async function getUserSubscription(token: string): Promise<Subscription | null> {
-  const userId = await getCurrentUserId(token);
+export async function getUserSubscription(): Promise<Subscription | null> {
+  const userId = await getCurrentUserId();
   return await getSubscription(userId);
 }
 
-export async function activateSubscription(
-  token: string,
-  planName: 'Starter' | 'Pro' | 'Expert'
-) {
-  const userId = await getCurrentUserId(token);
-
-  // Create new subscription record
-  const subscription = await createSubscription(userId, planName);
-
-  // Update user's plan
-  await updateUser(userId, { plan: planName });
-
-  // Log the action
-  await logAuditAction({
-    userId,
-    action: 'subscription_activated',
-    entityType: 'subscription',
-    entityId: subscription.id,
-    changes: { plan: planName },
-  });
-
-  revalidatePath('/dashboard');
-  return subscription;
-}
-
-export async function cancelSubscription(token: string, subscriptionId: string) {
-  const userId = await getCurrentUserId(token);
+export async function cancelSubscription(subscriptionId: string) {
+  const userId = await getAccountHolderId();
 
   // Verify subscription belongs to user
   const subscription = await getSubscription(userId);
@@ -133,8 +101,8 @@ export async function cancelSubscription(token: string, subscriptionId: string)
   // Cancel subscription
   await updateSubscription(subscriptionId, { status: 'Cancelled' });
 
-  // Update user plan to Starter
-  await updateUser(userId, { plan: 'Starter' });
+  // The user no longer has a plan
+  await updateUser(userId, { plan: null });
 
   // Log the action
   await logAuditAction({
@@ -150,19 +118,18 @@ export async function cancelSubscription(token: string, subscriptionId: string)
 
 // --- Admin Actions ---
 
-export async function getUsers(token: string): Promise<User[]> {
-  await verifyAdminRole(token);
+export async function getUsers(): Promise<User[]> {
+  await verifyPermission('users:read');
   return getAllUsers();
 }
 
 // new action used by admin dashboard to include renewal date
-export async function getUsersWithSubscriptions(token: string): Promise<(User & { renewal_date?: string })[]> {
-  await verifyAdminRole(token);
+export async function getUsersWithSubscriptions(): Promise<(User & { renewal_date?: string; locked_until?: string | null })[]> {
+  await verifyPermission('users:read');
   return getAllUsersWithSubscription();
 }
 
 export async function addUser(
-  token: string,
   data: {
     name: string;
     email: string;
@@ -170,7 +137,7 @@ export async function addUser(
     plan: User['plan'];
   }
 ) {
-  await verifyAdminRole(token);
+  const actor = await verifyPermission('users:write');
 
   if (!data.password) {
     throw new Error('Password is required to create a new user.');
@@ -186,6 +153,7 @@ export async function addUser(
 
   // Log the action
   await logAuditAction({
+    ...auditActor(actor),
     action: 'user_created',
     entityType: 'user',
     entityId: user.id,
@@ -197,16 +165,16 @@ export async function addUser(
 }
 
 export async function updateUserAction(
-  token: string,
   userId: string,
   data: Partial<Pick<User, 'name' | 'email' | 'plan' | 'status'>>
 ) {
-  await verifyAdminRole(token);
+  const actor = await verifyPermission('users:write');
 
   await updateUser(userId, data);
 
   // Log the action
   await logAuditAction({
+    ...auditActor(actor),
     action: 'user_updated',
     entityType: 'user',
     entityId: userId,
@@ -216,13 +184,15 @@ export async function updateUserAction(
   revalidatePath('/admin/dashboard');
 }
 
-export async function deleteUserAction(token: string, userId: string) {
-  await verifyAdminRole(token);
+export async function deleteUserAction(userId: string) {
+  const actor = await verifyPermission('users:write');
 
-  await deleteUser(userId);
+  // anonymised rather than removed, so billing and audit records survive
+  await eraseAccount(userId);
 
   // Log the action
   await logAuditAction({
+    ...auditActor(actor),
     action: 'user_deleted',
     entityType: 'user',
     entityId: userId,
@@ -232,22 +202,46 @@ export async function deleteUserAction(token: string, userId: string) {
   revalidatePath('/admin/dashboard');
 }
 
+export async function unlockUserAction(userId: string) {
+  const actor = await verifyPermission('users:write');
+
+  const user = await getUserById(userId);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  // Clears the failure count and any lock on the account's email
+  await clearFailedLogins(user.email);
+
+  // Log the action
+  await logAuditAction({
+    ...auditActor(actor),
+    action: 'account_unlocked',
+    entityType: 'user',
+    entityId: userId,
+    changes: { email: user.email },
+  });
+
+  revalidatePath('/admin/dashboard');
+}
+
 // --- Landing Page / Site Settings (admin only) ---
 
 export async function getLandingSettings(): Promise<any> {
   // no authentication; public read
+  await enforceActionRateLimit();
   return await getSiteSettings();
 }
 
 export async function updateLandingSettings(
-  token: string,
   settings: any
 ) {
-  await verifyAdminRole(token);
+  const actor = await verifyPermission('settings:publish');
   await updateSiteSettings(settings);
 
   // log audit entry
   await logAuditAction({
+    ...auditActor(actor),
     action: 'landing_settings_updated',
     entityType: 'site_settings',
     changes: settings,
@@ -259,50 +253,59 @@ export async function updateLandingSettings(
 // --- Admin Account Settings ---
 
 export async function changeAdminPassword(
-  token: string,
+  currentPassword: string,
   newPassword: string
 ) {
-  const userId = await verifyAdminRole(token);
+  const actor = await verifyPermission('admin:access');
+  const accountType = actor.accountType || 'user';
+  const adminId = actor.userId;
 
-  // Update password using utility function
-  await updatePassword(userId, newPassword);
+  if (!(await changeAccountPassword(accountType, adminId, currentPassword, newPassword))) {
+    return { success: false, message: 'Current password is incorrect' };
+  }
+
+  // Anyone who knew the old password is signed out; this device stays in
+  const sessionsRevoked = actor.sid ? await revokeOtherSessions(accountType, adminId, actor.sid) : 0;
 
   // Log the action
   await logAuditAction({
-    userId,
+    ...auditActor(actor),
     action: 'admin_password_changed',
-    entityType: 'user',
-    entityId: userId,
-    changes: { password_updated: true },
+    entityType: accountType,
+    entityId: adminId,
+    changes: { sessions_revoked: sessionsRevoked },
   });
 
   revalidatePath('/admin/dashboard');
-  return { success: true, message: 'Password changed successfully' };
+  return { success: true, message: 'Password changed. Your other sessions have been signed out.' };
 }
+
 // --- Package Management ---
 
 export async function getPackagesAction(): Promise<Package[]> {
   // Public read - no authentication needed
+  await enforceActionRateLimit();
   return getAllPackages(false);
 }
 
 export async function getActivePackagesAction(): Promise<Package[]> {
   // Public read - get only active packages
+  await enforceActionRateLimit();
   return getAllPackages(true);
 }
 
 export async function createPackageAction(
-  token: string,
   data: {
     name: string;
     description?: string;
     price: number;
     currency?: string;
+    prices?: PackagePriceInput[];
     features?: string[];
     display_order?: number;
   }
 ) {
-  const userId = await verifyAdminRole(token);
+  const actor = await verifyPermission('packages:write');
 
   const pkg = await createPackage({
     ...data,
@@ -311,11 +314,15 @@ export async function createPackageAction(
 
   // Log the action
   await logAuditAction({
-    userId,
+    ...auditActor(actor),
     action: 'package_created',
     entityType: 'package',
     entityId: pkg.id,
-    changes: { name: pkg.name, price: pkg.price },
+    changes: {
+      name: pkg.name,
+      price: pkg.price,
+      prices: pkg.prices?.map(({ billing_period, price, savings_label }) => ({ billing_period, price, savings_label })),
+    },
   });
 
   revalidatePath('/admin/dashboard');
@@ -324,19 +331,19 @@ export async function createPackageAction(
 }
 
 export async function updatePackageAction(
-  token: string,
   packageId: string,
   data: {
     name?: string;
     description?: string;
     price?: number;
     currency?: string;
+    prices?: PackagePriceInput[];
     features?: string[];
     active?: boolean;
     display_order?: number;
   }
 ) {
-  const userId = await verifyAdminRole(token);
+  const actor = await verifyPermission('packages:write');
 
   const pkg = await updatePackage(packageId, data);
 
@@ -346,7 +353,7 @@ export async function updatePackageAction(
 
   // Log the action
   await logAuditAction({
-    userId,
+    ...auditActor(actor),
     action: 'package_updated',
     entityType: 'package',
     entityId: packageId,
@@ -359,10 +366,9 @@ export async function updatePackageAction(
 }
 
 export async function deletePackageAction(
-  token: string,
   packageId: string
 ) {
-  const userId = await verifyAdminRole(token);
+  const actor = await verifyPermission('packages:write');
 
   const pkg = await getPackageById(packageId);
   if (!pkg) {
@@ -373,7 +379,7 @@ export async function deletePackageAction(
 
   // Log the action
   await logAuditAction({
-    userId,
+    ...auditActor(actor),
     action: 'package_deleted',
     entityType: 'package',
     entityId: packageId,
@@ -386,8 +392,8 @@ export async function deletePackageAction(
 
 // --- Default Packages Seeding ---
 
-export async function seedDefaultPackagesAction(token: string) {
-  const userId = await verifyAdminRole(token);
+export async function seedDefaultPackagesAction() {
+  const actor = await verifyPermission('packages:write');
 
   // Check if packages already exist
   const existingPackages = await getAllPackages(false);
@@ -400,7 +406,7 @@ export async function seedDefaultPackagesAction(token: string) {
       name: 'Desktop Software',
       description: 'Manage Yourself - Desktop Software for DIY traders with Community Access',
       price: 4999,
-      currency: '₹',
+      currency: 'INR',
       features: [
         'Desktop Software',
         'DIY',
@@ -414,7 +420,7 @@ export async function seedDefaultPackagesAction(token: string) {
       name: 'Auto Server',
       description: 'Fully Automated Server based execution for hands-free trading',
       price: 5999,
-      currency: '₹',
+      currency: 'INR',
       features: [
         'Fully Automated',
         'Server based Execution',
@@ -428,7 +434,7 @@ export async function seedDefaultPackagesAction(token: string) {
       name: 'Hybrid Plan',
       description: 'Combination of Desktop Software and Server Execution',
       price: 7999,
-      currency: '₹',
+      currency: 'INR',
       features: [
         'Desktop Software',
         'Server Execution',
@@ -453,7 +459,7 @@ export async function seedDefaultPackagesAction(token: string) {
 
   // Log the seed action
   await logAuditAction({
-    userId,
+    ...auditActor(actor),
     action: 'packages_seeded',
     entityType: 'package',
     changes: { count: createdPackages.length, packages: createdPackages.map(p => p.name) },
@@ -5,31 +5,38 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Users, DollarSign, PlusCircle, Edit, Trash2 } from "lucide-react";
+import { Users, DollarSign, PlusCircle, Edit, Trash2, Unlock, Eye } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import type { User } from "@/lib/schema";
-import { getUsersWithSubscriptions as getUsers, addUser, updateUserAction, deleteUserAction, changeAdminPassword } from "@/app/actions"; // alias for backward compatibility
+import { getUsersWithSubscriptions as getUsers, getPackagesAction, addUser, updateUserAction, deleteUserAction, unlockUserAction, changeAdminPassword } from "@/app/actions"; // alias for backward compatibility
 import { useToast } from "@/hooks/use-toast";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/hooks/use-auth";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import { authFetch } from "@/lib/auth-client";
+import { checkPassword } from "@/lib/password-policy";
+import { PasswordStrength } from "@/components/auth/password-strength";
 import { ImageUpload } from "@/components/admin/image-upload";
 import { PackageManagement } from "@/components/admin/package-management";
+import { AdminManagement } from "@/components/admin/admin-management";
+import { PaymentReview } from "@/components/admin/payment-review";
+import { InvoiceRegister } from "@/components/admin/invoice-register";
 
-const plans: User['plan'][] = ["Starter", "Pro", "Expert"];
+// Select items can't have an empty value, so users without a plan use this one
+const NO_PLAN = "none";
 
 interface EditSettingsFormProps {
   settingsJSON: string;
   onChange: (value: string) => void;
-  token?: string | null;
   onSuccess: () => void;
   onError: (message: string) => void;
   onClose?: () => void;
 }
 
-function EditSettingsForm({ settingsJSON, onChange, token, onSuccess, onError, onClose }: EditSettingsFormProps) {
+function EditSettingsForm({ settingsJSON, onChange, onSuccess, onError, onClose }: EditSettingsFormProps) {
   const [settings, setSettings] = useState<any>(null);
   const [expandedSections, setExpandedSections] = useState({
     hero: true,
@@ -66,11 +73,10 @@ function EditSettingsForm({ settingsJSON, onChange, token, onSuccess, onError, o
   const save = async () => {
     try {
       const parsed = JSON.parse(settingsJSON);
-      const res = await fetch('/api/landing-settings', {
+      const res = await authFetch('/api/landing-settings', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify(parsed),
       });
@@ -114,7 +120,6 @@ function EditSettingsForm({ settingsJSON, onChange, token, onSuccess, onError, o
               section="hero"
               currentImage={settings.hero?.image}
               onImageUpload={(imagePath) => updateSetting('hero.image', imagePath)}
-              token={token}
               onError={onError}
             />
           </div>
@@ -167,7 +172,6 @@ function EditSettingsForm({ settingsJSON, onChange, token, onSuccess, onError, o
               section="trust"
               currentImage={settings.trust?.image}
               onImageUpload={(imagePath) => updateSetting('trust.image', imagePath)}
-              token={token}
               onError={onError}
             />
             <div>
@@ -236,8 +240,7 @@ function EditSettingsForm({ settingsJSON, onChange, token, onSuccess, onError, o
                       section={`why-service-${idx}`}
                       currentImage={svc.icon}
                       onImageUpload={(path) => updateSetting(`why.services.${idx}.icon`, path)}
-                      token={token}
-                      onError={(msg) => console.error(msg)}
+                              onError={(msg) => console.error(msg)}
                     />
                   </div>
                   <div className="text-right">
@@ -344,13 +347,16 @@ function EditSettingsForm({ settingsJSON, onChange, token, onSuccess, onError, o
 // primaryColor utilities removed since the setting no longer exists.
 
 export default function AdminDashboardPage() {
-  const [users, setUsers] = useState<(User & { renewal_date?: string })[]>([]);
+  const [users, setUsers] = useState<(User & { renewal_date?: string; locked_until?: string | null })[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setDialogOpen] = useState(false);
   const [dialogMode, setDialogMode] = useState<"add" | "manage" | null>(null);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [newUser, setNewUser] = useState<{name: string, email: string, plan: User['plan'], password?: string}>({ name: "", email: "", plan: "Starter" });
+  const [newUser, setNewUser] = useState<{name: string, email: string, plan: User['plan'], password?: string}>({ name: "", email: "", plan: null });
+  // package names an admin can put users on
+  const [plans, setPlans] = useState<string[]>([]);
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [isChangingPassword, setIsChangingPassword] = useState(false);
@@ -362,22 +368,25 @@ export default function AdminDashboardPage() {
 
   const { toast } = useToast();
   const router = useRouter();
-  const { token, user, loading: authLoading } = useAuth();
+  const { user, loading: authLoading } = useAuth();
+  // controls the current admin can't use are hidden; the server checks again
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
 
   useEffect(() => {
     if (!authLoading) {
-      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+      if (!user || !can('admin:access')) {
         router.push('/login');
       }
     }
   }, [user, authLoading, router]);
 
   const fetchUsers = async () => {
-    if (!token) return;
+    if (!user) return;
     setIsLoading(true);
     try {
-      const fetchedUsers = await getUsers(token);
+      const [fetchedUsers, packages] = await Promise.all([getUsers(), getPackagesAction()]);
       setUsers(fetchedUsers);
+      setPlans(packages.map(pkg => pkg.name));
     } catch (error) {
       toast({
         title: "Error fetching users",
@@ -391,7 +400,7 @@ export default function AdminDashboardPage() {
 
   useEffect(() => {
     fetchUsers();
-  }, [token]);
+  }, [user]);
 
   // load landing settings once we know the admin is authenticated
   useEffect(() => {
@@ -437,12 +446,12 @@ export default function AdminDashboardPage() {
         setSettingsLoading(false);
       }
     };
-    if (token) loadSettings();
-  }, [token]);
+    if (user && can('settings:publish')) loadSettings();
+  }, [user]);
 
   const openAddDialog = () => {
     setDialogMode("add");
-    setNewUser({ name: "", email: "", plan: "Starter", password: "" });
+    setNewUser({ name: "", email: "", plan: null, password: "" });
     setDialogOpen(true);
   };
 
@@ -453,9 +462,9 @@ export default function AdminDashboardPage() {
   };
 
   const handleAddUser = async () => {
-    if (newUser.name && newUser.email && newUser.password && token) {
+    if (newUser.name && newUser.email && newUser.password) {
       try {
-        await addUser(token, {
+        await addUser({
           name: newUser.name,
           email: newUser.email,
           password: newUser.password,
@@ -481,9 +490,9 @@ export default function AdminDashboardPage() {
   };
 
   const handleUpdateUser = async () => {
-    if (currentUser && token) {
+    if (currentUser) {
       try {
-        await updateUserAction(token, currentUser.id, {
+        await updateUserAction(currentUser.id, {
           name: currentUser.name,
           email: currentUser.email,
           plan: currentUser.plan,
@@ -503,9 +512,9 @@ export default function AdminDashboardPage() {
   };
 
   const handleDeleteUser = async () => {
-    if (currentUser && token) {
+    if (currentUser) {
       try {
-        await deleteUserAction(token, currentUser.id);
+        await deleteUserAction(currentUser.id);
         toast({ title: "Success", description: "User deleted successfully." });
         setDialogOpen(false);
         fetchUsers();
@@ -519,11 +528,57 @@ export default function AdminDashboardPage() {
     }
   }
 
+  const handleUnlockUser = async (userId: string) => {
+    try {
+      await unlockUserAction(userId);
+      toast({ title: "Success", description: "Account unlocked." });
+      fetchUsers();
+    } catch (error) {
+      toast({
+        title: "Error unlocking account",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  }
+
+  // Switches this tab to a restricted session as the user; the banner on
+  // their dashboard ends it and restores the admin session
+  const handleViewAsUser = async (userId: string) => {
+    try {
+      const res = await authFetch('/api/auth/impersonation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to view as user');
+      }
+      window.location.assign(data.redirectTo);
+    } catch (error) {
+      toast({
+        title: "Error viewing as user",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  }
+
   const handleChangePassword = async () => {
-    if (!newPassword || newPassword.length < 6) {
+    if (!currentPassword) {
+      toast({
+        title: "Error",
+        description: "Enter your current password.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const { error: passwordError } = checkPassword(newPassword);
+    if (passwordError) {
       toast({
         title: "Error",
-        description: "Password must be at least 6 characters.",
+        description: passwordError,
         variant: "destructive",
       });
       return;
@@ -536,12 +591,15 @@ export default function AdminDashboardPage() {
       });
       return;
     }
-    if (!token) return;
-
     setIsChangingPassword(true);
     try {
-      await changeAdminPassword(token, newPassword);
-      toast({ title: "Success!", description: "Your password has been changed." });
+      const result = await changeAdminPassword(currentPassword, newPassword);
+      if (!result.success) {
+        toast({ title: "Error", description: result.message, variant: "destructive" });
+        return;
+      }
+      toast({ title: "Success!", description: result.message });
+      setCurrentPassword("");
       setNewPassword("");
       setConfirmPassword("");
       setShowPasswordDialog(false);
@@ -575,14 +633,16 @@ export default function AdminDashboardPage() {
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="password" className="text-right">Password</Label>
               <Input id="password" type="password" value={newUser.password} onChange={(e) => setNewUser({...newUser, password: e.target.value})} className="col-span-3" />
+              <PasswordStrength password={newUser.password || ""} userInputs={[newUser.email, newUser.name]} className="col-span-3 col-start-2" />
             </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="plan" className="text-right">Plan</Label>
-              <Select value={newUser.plan} onValueChange={(value: User['plan']) => setNewUser({...newUser, plan: value})}>
+              <Select value={newUser.plan || NO_PLAN} onValueChange={(value) => setNewUser({...newUser, plan: value === NO_PLAN ? null : value})}>
                 <SelectTrigger className="col-span-3">
                   <SelectValue placeholder="Select a plan" />
                 </SelectTrigger>
                 <SelectContent>
+                  <SelectItem value={NO_PLAN}>No plan</SelectItem>
                   {plans.map(p => <SelectItem key={p} value={p}>{p}</SelectItem>)}
                 </SelectContent>
               </Select>
@@ -612,11 +672,16 @@ export default function AdminDashboardPage() {
             </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="plan-manage" className="text-right">Plan</Label>
-              <Select value={currentUser.plan} onValueChange={(value: User['plan']) => setCurrentUser(prev => prev ? {...prev, plan: value} : null)}>
+              <Select value={currentUser.plan || NO_PLAN} onValueChange={(value) => setCurrentUser(prev => prev ? {...prev, plan: value === NO_PLAN ? null : value} : null)}>
                 <SelectTrigger className="col-span-3">
                   <SelectValue placeholder="Select a plan" />
                 </SelectTrigger>
                 <SelectContent>
+                  <SelectItem value={NO_PLAN}>No plan</SelectItem>
+                  {/* keep a plan whose package has since been renamed or deleted */}
+                  {currentUser.plan && !plans.includes(currentUser.plan) && (
+                    <SelectItem value={currentUser.plan}>{currentUser.plan}</SelectItem>
+                  )}
                   {plans.map(p => <SelectItem key={p} value={p}>{p}</SelectItem>)}
                 </SelectContent>
               </Select>
@@ -690,29 +755,33 @@ export default function AdminDashboardPage() {
           </Card>
         </div>
         {/* landing page settings card */}
-        <Card className="mb-8">
-          <CardHeader className="flex flex-row items-center justify-between gap-4">
-            <CardTitle>Landing Page Settings</CardTitle>
-            <Button 
-              size="sm" 
-              onClick={() => setSettingsDialogOpen(true)}
-              disabled={settingsLoading}
-            >
-              {settingsLoading ? 'Loading...' : 'Edit'}
-            </Button>
-          </CardHeader>
-          <CardContent>
-            <p className="text-sm">Modify homepage text, fonts, colors, etc. Edits are saved as JSON and apply immediately when published.</p>
-          </CardContent>
-        </Card>
+        {can('settings:publish') && (
+          <Card className="mb-8">
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <CardTitle>Landing Page Settings</CardTitle>
+              <Button 
+                size="sm" 
+                onClick={() => setSettingsDialogOpen(true)}
+                disabled={settingsLoading}
+              >
+                {settingsLoading ? 'Loading...' : 'Edit'}
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm">Modify homepage text, fonts, colors, etc. Edits are saved as JSON and apply immediately when published.</p>
+            </CardContent>
+          </Card>
+        )}
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle>User Management</CardTitle>
-              <Button size="sm" onClick={openAddDialog}>
-                  <PlusCircle className="h-4 w-4 mr-2" />
-                  Add User
-              </Button>
+              {can('users:write') && (
+                <Button size="sm" onClick={openAddDialog}>
+                    <PlusCircle className="h-4 w-4 mr-2" />
+                    Add User
+                </Button>
+              )}
           </CardHeader>
           <CardContent>
             <Table>
@@ -734,21 +803,36 @@ export default function AdminDashboardPage() {
                     <TableCell>{user.name}</TableCell>
                     <TableCell>{user.email}</TableCell>
                     <TableCell>
-                      <Badge variant={user.plan === "Expert" ? "default" : user.plan === "Pro" ? "secondary" : "outline"}>
-                        {user.plan}
-                      </Badge>
+                      {user.plan ? <Badge variant="secondary">{user.plan}</Badge> : '—'}
                     </TableCell>
                     <TableCell>{user.renewal_date ? new Date(user.renewal_date).toLocaleDateString() : '—'}</TableCell>
                     <TableCell>
-                       <Badge variant={user.status === "Active" ? "default" : "destructive"} className={user.status === "Active" ? "bg-green-500" : ""}>
+                       <Badge variant={user.status === "Active" ? "default" : user.status === "pending_verification" ? "secondary" : "destructive"} className={user.status === "Active" ? "bg-green-500" : ""}>
                         {user.status}
                       </Badge>
+                      {user.locked_until && (
+                        <Badge variant="destructive" className="ml-2">Locked</Badge>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
-                      <Button variant="ghost" size="icon" onClick={() => openManageDialog(user)}>
-                        <Edit className="h-4 w-4" />
-                        <span className="sr-only">Manage</span>
-                      </Button>
+                      {user.role === 'user' && user.status === 'Active' && can('users:impersonate') && (
+                        <Button variant="ghost" size="icon" onClick={() => handleViewAsUser(user.id)}>
+                          <Eye className="h-4 w-4" />
+                          <span className="sr-only">View as user</span>
+                        </Button>
+                      )}
+                      {user.locked_until && can('users:write') && (
+                        <Button variant="ghost" size="icon" onClick={() => handleUnlockUser(user.id)}>
+                          <Unlock className="h-4 w-4" />
+                          <span className="sr-only">Unlock</span>
+                        </Button>
+                      )}
+                      {can('users:write') && (
+                        <Button variant="ghost" size="icon" onClick={() => openManageDialog(user)}>
+                          <Edit className="h-4 w-4" />
+                          <span className="sr-only">Manage</span>
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -757,9 +841,30 @@ export default function AdminDashboardPage() {
           </CardContent>
         </Card>
 
+        {/* Payment Reviews */}
+        {can('payments:review') && (
+          <div className="mt-8">
+            <PaymentReview />
+          </div>
+        )}
+
+        {/* Invoice Register */}
+        {can('invoices:read') && (
+          <div className="mt-8">
+            <InvoiceRegister />
+          </div>
+        )}
+
+        {/* Admin Management */}
+        {can('admins:manage') && (
+          <div className="mt-8">
+            <AdminManagement />
+          </div>
+        )}
+
         {/* Package Management */}
         <div className="mt-8">
-          <PackageManagement token={token} />
+          {can('packages:write') && <PackageManagement />}
         </div>
       </div>
       <DialogContent className="sm:max-w-[425px]">
@@ -777,7 +882,6 @@ export default function AdminDashboardPage() {
           <EditSettingsForm 
             settingsJSON={settingsJSON}
             onChange={setSettingsJSON}
-            token={token}
             onSuccess={() => {
               toast({ title: 'Success', description: 'Settings saved.' });
               setSettingsDialogOpen(false);
@@ -803,8 +907,14 @@ export default function AdminDashboardPage() {
           </DialogHeader>
           <div className="grid gap-4 py-4">
             <div className="grid gap-2">
-              <Label htmlFor="current-password">Current Password (admin@123)</Label>
-              <Input id="current-password" type="text" value="admin@123" disabled className="text-muted-foreground" />
+              <Label htmlFor="current-password">Current Password</Label>
+              <Input 
+                id="current-password" 
+                type="password" 
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                placeholder="Enter current password"
+              />
             </div>
             <div className="grid gap-2">
               <Label htmlFor="new-password">New Password</Label>
@@ -815,6 +925,7 @@ export default function AdminDashboardPage() {
                 onChange={(e) => setNewPassword(e.target.value)}
                 placeholder="Enter new password"
               />
+              <PasswordStrength password={newPassword} />
             </div>
             <div className="grid gap-2">
               <Label htmlFor="confirm-password">Confirm Password</Label>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -9,13 +9,32 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { getReturnTo } from "@/lib/auth-client";
+import { MfaChallengeForm } from "@/components/auth/mfa-challenge-form";
+import { hasPermission } from "@/lib/permissions";
 
 export default function AdminLoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
   const router = useRouter();
   const { toast } = useToast();
+  const { user, refreshUser } = useAuth();
+
+  useEffect(() => {
+    if (user && hasPermission(user.role, 'admin:access')) {
+      router.replace(getReturnTo('/admin/dashboard'));
+    }
+  }, [user, router]);
+
+  // Admins who haven't set up two-factor authentication yet are sent on to
+  // /admin/mfa-setup by the middleware
+  const handleLoggedIn = () => {
+    toast({ title: "Admin Login Successful", description: "Welcome back, admin!" });
+    router.push(getReturnTo('/admin/dashboard'));
+  };
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -33,11 +52,14 @@ export default function AdminLoginPage() {
       }
 
       const data = await res.json();
-      // store token same as user login to reuse verify
-      localStorage.setItem('authToken', data.token);
+      if (data.mfaRequired) {
+        setMfaToken(data.mfaToken);
+        return;
+      }
 
-      toast({ title: "Admin Login Successful", description: "Welcome back, admin!" });
-      router.push('/admin/dashboard');
+      // the session cookies are set by the response; load the admin into useAuth
+      await refreshUser();
+      handleLoggedIn();
     } catch (error) {
       toast({ title: "Login Failed", description: (error as Error).message, variant: "destructive" });
     } finally {
@@ -45,6 +67,16 @@ export default function AdminLoginPage() {
     }
   };
 
+  if (mfaToken) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <Card className="w-full max-w-sm">
+          <MfaChallengeForm mfaToken={mfaToken} onVerified={handleLoggedIn} onCancel={() => setMfaToken(null)} />
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="flex items-center justify-center min-h-screen bg-background">
       <Card className="w-full max-w-sm">
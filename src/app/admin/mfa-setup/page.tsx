@@ -0,0 +1,18 @@
+'use client';
+
+import { useRouter } from "next/navigation";
+import { MfaSettings } from "@/components/auth/mfa-settings";
+
+export default function AdminMfaSetupPage() {
+  const router = useRouter();
+
+  return (
+    <div className="container mx-auto max-w-lg px-4 py-8">
+      <h1 className="text-3xl font-bold mb-2">Secure Your Admin Account</h1>
+      <p className="text-muted-foreground mb-6">
+        Admin accounts must use two-factor authentication. Set it up to continue to the dashboard.
+      </p>
+      <MfaSettings onEnabled={() => router.push('/admin/dashboard')} />
+    </div>
+  );
+}
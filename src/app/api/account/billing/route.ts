@@ -0,0 +1,133 @@
+/**
+ * Billing details
+ * GET /api/account/billing - The details printed on the current user's
+ *   invoices
+ * PUT /api/account/billing - Update them; they apply to invoices issued
+ *   from now on
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { auditActor } from '@/lib/session';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import { BillingDetails, getBillingDetails, saveBillingDetails, logAuditAction } from '@/lib/db-auth';
+import { gstinStateCode, isGstStateCode, normaliseGstin } from '@/lib/gst';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+const MAX_LEGAL_NAME_LENGTH = 255;
+const MAX_ADDRESS_LENGTH = 500;
+
+const EMPTY_DETAILS: BillingDetails = { legal_name: null, gstin: null, state_code: null, address: null };
+
+// A trimmed string field, or null when left empty
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const payload = await requireUserSession();
+
+    const details = await getBillingDetails(payload.userId);
+
+    return NextResponse.json({ billing: details ?? EMPTY_DETAILS }, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Get billing details error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    const body = await request.json();
+    const legalName = optionalText(body.legalName);
+    const address = optionalText(body.address);
+    const enteredGstin = optionalText(body.gstin);
+    let stateCode = optionalText(body.stateCode);
+
+    if (legalName && legalName.length > MAX_LEGAL_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `The legal name must be at most ${MAX_LEGAL_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    if (address && address.length > MAX_ADDRESS_LENGTH) {
+      return NextResponse.json(
+        { error: `The address must be at most ${MAX_ADDRESS_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    if (stateCode && !isGstStateCode(stateCode)) {
+      return NextResponse.json({ error: 'Invalid state' }, { status: 400 });
+    }
+
+    const gstin = enteredGstin ? normaliseGstin(enteredGstin) : null;
+    if (enteredGstin && !gstin) {
+      return NextResponse.json({ error: 'Invalid GSTIN' }, { status: 400 });
+    }
+    // a registered business is billed in the state it is registered in
+    if (gstin) {
+      if (stateCode && stateCode !== gstinStateCode(gstin)) {
+        return NextResponse.json(
+          { error: 'The state must be the one the GSTIN is registered in' },
+          { status: 400 }
+        );
+      }
+      stateCode = gstinStateCode(gstin);
+    }
+
+    const details: BillingDetails = { legal_name: legalName, gstin, state_code: stateCode, address };
+    const previous = (await getBillingDetails(payload.userId)) ?? EMPTY_DETAILS;
+    await saveBillingDetails(payload.userId, details);
+
+    const changes = Object.fromEntries(
+      (Object.keys(details) as (keyof BillingDetails)[])
+        .filter(key => details[key] !== previous[key])
+        .map(key => [key, { from: previous[key], to: details[key] }])
+    );
+    if (Object.keys(changes).length > 0) {
+      await logAuditAction({
+        ...auditActor(payload),
+        action: 'billing_details_updated',
+        entityType: 'user',
+        entityId: payload.userId,
+        changes,
+        ipAddress: getClientIp(request.headers),
+      });
+    }
+
+    return NextResponse.json({ billing: details }, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Update billing details error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Account deletion requests
+ * GET /api/account/deletion - Pending request, if any
+ * POST /api/account/deletion - Ask for the account to be deleted after the cooling-off period
+ * DELETE /api/account/deletion - Cancel a pending request
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { auditActor } from '@/lib/session';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import {
+  getUserById,
+  getUserWithPassword,
+  verifyPassword,
+  getPendingAccountDeletion,
+  createAccountDeletionRequest,
+  cancelAccountDeletion,
+  logAuditAction,
+} from '@/lib/db-auth';
+import { deletionDate, sendDeletionScheduledEmail } from '@/lib/account-deletion';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const payload = await requireUserSession();
+
+    const pending = await getPendingAccountDeletion(payload.userId);
+    return NextResponse.json(
+      {
+        deletion: pending
+          ? { requestedAt: pending.created_at, scheduledFor: pending.scheduled_for }
+          : null,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Get account deletion error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    const body = await request.json();
+    const { password } = body;
+
+    if (!password) {
+      return NextResponse.json({ error: 'Current password is required' }, { status: 400 });
+    }
+
+    const user = await getUserById(payload.userId);
+    const account = user ? await getUserWithPassword(user.email) : null;
+    if (!user || !account) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!account.password_hash) {
+      return NextResponse.json(
+        { error: 'Set a password for your account first', code: 'password_not_set' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifyPassword(password, account.password_hash))) {
+      return NextResponse.json({ error: 'Current password is incorrect' }, { status: 400 });
+    }
+
+    const existing = await getPendingAccountDeletion(user.id);
+    if (existing) {
+      return NextResponse.json(
+        {
+          error: 'Your account is already scheduled for deletion',
+          deletion: { requestedAt: existing.created_at, scheduledFor: existing.scheduled_for },
+        },
+        { status: 409 }
+      );
+    }
+
+    const ipAddress = getClientIp(request.headers);
+    const deletion = await createAccountDeletionRequest(user.id, deletionDate(), ipAddress);
+
+    await logAuditAction({
+      ...auditActor(payload),
+      action: 'account_deletion_requested',
+      entityType: 'user',
+      entityId: user.id,
+      changes: { request_id: deletion.id, scheduled_for: deletion.scheduled_for.toISOString() },
+      ipAddress,
+    });
+
+    try {
+      await sendDeletionScheduledEmail(user, deletion.scheduled_for, request.nextUrl.origin);
+    } catch (mailError) {
+      // the request stands; the account page shows it as well
+      console.error('Deletion scheduled email error:', mailError);
+    }
+
+    return NextResponse.json(
+      { deletion: { requestedAt: deletion.created_at, scheduledFor: deletion.scheduled_for } },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Request account deletion error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    if (!(await cancelAccountDeletion(payload.userId))) {
+      return NextResponse.json({ error: 'No deletion request is pending' }, { status: 404 });
+    }
+
+    await logAuditAction({
+      ...auditActor(payload),
+      action: 'account_deletion_cancelled',
+      entityType: 'user',
+      entityId: payload.userId,
+      ipAddress: getClientIp(request.headers),
+    });
+
+    return NextResponse.json({ message: 'Account deletion cancelled' }, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Cancel account deletion error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
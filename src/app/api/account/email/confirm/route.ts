@@ -0,0 +1,77 @@
+/**
+ * Confirm Email Change API Route
+ * Switches the account to the new address using the token from the
+ * confirmation email. Works without a session, since the link may be opened
+ * on another device.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  consumeEmailChangeToken,
+  changeUserEmail,
+  getUserById,
+  logAuditAction,
+} from '@/lib/db-auth';
+import { hashToken } from '@/lib/tokens';
+import { sendEmailChangedNotice } from '@/lib/email-change';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const body = await request.json();
+    const { token } = body;
+
+    if (!token) {
+      return NextResponse.json({ error: 'Token is required' }, { status: 400 });
+    }
+
+    const change = await consumeEmailChangeToken(hashToken(token));
+    const user = change ? await getUserById(change.userId) : null;
+
+    if (!change || !user || user.status === 'Cancelled') {
+      return NextResponse.json(
+        { error: 'Confirmation link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    await changeUserEmail(user.id, change.newEmail);
+
+    await logAuditAction({
+      userId: user.id,
+      actorType: 'user',
+      action: 'email_changed',
+      entityType: 'user',
+      entityId: user.id,
+      changes: { email: { from: user.email, to: change.newEmail } },
+      ipAddress: getClientIp(request.headers),
+    });
+
+    try {
+      await sendEmailChangedNotice(user, user.email, change.newEmail);
+    } catch (mailError) {
+      // the change already happened; a missing notice shouldn't undo it
+      console.error('Email changed notice error:', mailError);
+    }
+
+    return NextResponse.json(
+      { message: `Your email address is now ${change.newEmail}.` },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error.message === 'Email already exists') {
+      return NextResponse.json(
+        { error: 'An account with this email already exists' },
+        { status: 409 }
+      );
+    }
+    console.error('Confirm email change error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Change Email API Route
+ * Emails a confirmation link to the new address. The account keeps using the
+ * old address until the link is opened (see ./confirm).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { auditActor } from '@/lib/session';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import {
+  getUserById,
+  getUserByEmail,
+  getUserWithPassword,
+  verifyPassword,
+  logAuditAction,
+} from '@/lib/db-auth';
+import { UserSchema } from '@/lib/schema';
+import { sendEmailChangeConfirmation } from '@/lib/email-change';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'email');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    const body = await request.json();
+    const { password } = body;
+    const newEmail = typeof body.newEmail === 'string' ? body.newEmail.trim() : '';
+
+    if (!newEmail || !password) {
+      return NextResponse.json(
+        { error: 'New email and current password are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!UserSchema.shape.email.safeParse(newEmail).success) {
+      return NextResponse.json({ error: 'Invalid email address' }, { status: 400 });
+    }
+
+    const user = await getUserById(payload.userId);
+    const account = user ? await getUserWithPassword(user.email) : null;
+    if (!user || !account) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!account.password_hash) {
+      return NextResponse.json(
+        { error: 'Set a password for your account first', code: 'password_not_set' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifyPassword(password, account.password_hash))) {
+      return NextResponse.json({ error: 'Current password is incorrect' }, { status: 400 });
+    }
+
+    if (newEmail.toLowerCase() === user.email.toLowerCase()) {
+      return NextResponse.json(
+        { error: 'This is already your email address' },
+        { status: 400 }
+      );
+    }
+
+    if (await getUserByEmail(newEmail)) {
+      return NextResponse.json(
+        { error: 'An account with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    const ipAddress = getClientIp(request.headers);
+    await sendEmailChangeConfirmation(user, newEmail, request.nextUrl.origin, ipAddress);
+
+    await logAuditAction({
+      ...auditActor(payload),
+      action: 'email_change_requested',
+      entityType: 'user',
+      entityId: user.id,
+      changes: { email: { from: user.email, to: newEmail } },
+      ipAddress,
+    });
+
+    return NextResponse.json(
+      { message: `We sent a confirmation link to ${newEmail}. Your email changes once you open it.` },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Change email error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Download Data Export API Route
+ * Sends the ZIP archive of a finished export to the user it belongs to
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auditActor } from '@/lib/session';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import { getDataExport, markDataExportDownloaded, logAuditAction } from '@/lib/db-auth';
+import { readDataExportArchive } from '@/lib/data-export';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    const record = await getDataExport(params.id);
+    if (!record || record.user_id !== payload.userId) {
+      return NextResponse.json({ error: 'Export not found' }, { status: 404 });
+    }
+
+    if (record.status !== 'ready' || !record.file_path) {
+      return NextResponse.json({ error: 'This export is not ready yet' }, { status: 409 });
+    }
+
+    if (record.expires_at && new Date(record.expires_at).getTime() <= Date.now()) {
+      return NextResponse.json(
+        { error: 'This export has expired. Please request a new one.' },
+        { status: 410 }
+      );
+    }
+
+    const archive = await readDataExportArchive(record.file_path);
+    await markDataExportDownloaded(record.id);
+
+    await logAuditAction({
+      ...auditActor(payload),
+      action: 'data_export_downloaded',
+      entityType: 'user',
+      entityId: payload.userId,
+      changes: { export_id: record.id },
+      ipAddress: getClientIp(request.headers),
+    });
+
+    const filename = `quantum-alpha-data-${new Date(record.created_at).toISOString().slice(0, 10)}.zip`;
+    return new NextResponse(new Uint8Array(archive), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': String(archive.length),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Download data export error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Personal data export
+ * GET /api/account/export - Status of the latest export
+ * POST /api/account/export - Start building a new archive
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { auditActor } from '@/lib/session';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import {
+  DataExportRecord,
+  createDataExport,
+  getDataExport,
+  getLatestDataExport,
+  logAuditAction,
+} from '@/lib/db-auth';
+import { processDataExport, DATA_EXPORT_COOLDOWN_HOURS } from '@/lib/data-export';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+// what the client sees; the archive location stays on the server
+function exportSummary(record: DataExportRecord | null) {
+  if (!record) {
+    return null;
+  }
+  const expired = !!record.expires_at && new Date(record.expires_at).getTime() <= Date.now();
+  return {
+    id: record.id,
+    status: expired ? 'expired' : record.status,
+    requestedAt: record.created_at,
+    completedAt: record.completed_at,
+    expiresAt: record.expires_at,
+    fileSize: record.file_size,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const payload = await requireUserSession();
+
+    const latest = await getLatestDataExport(payload.userId);
+    return NextResponse.json({ export: exportSummary(latest) }, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Get data export error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'email');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    const latest = await getLatestDataExport(payload.userId);
+    const cooldownMs = DATA_EXPORT_COOLDOWN_HOURS * 60 * 60 * 1000;
+    if (
+      latest &&
+      latest.status !== 'failed' &&
+      new Date(latest.created_at).getTime() > Date.now() - cooldownMs
+    ) {
+      return NextResponse.json(
+        {
+          error: `You can request one export every ${DATA_EXPORT_COOLDOWN_HOURS} hours`,
+          export: exportSummary(latest),
+        },
+        { status: 429 }
+      );
+    }
+
+    const ipAddress = getClientIp(request.headers);
+    const exportId = await createDataExport(payload.userId, ipAddress);
+
+    // built after the response so large accounts don't hold the request open
+    const origin = request.nextUrl.origin;
+    after(() => processDataExport(exportId, payload.userId, origin));
+
+    await logAuditAction({
+      ...auditActor(payload),
+      action: 'data_export_requested',
+      entityType: 'user',
+      entityId: payload.userId,
+      changes: { export_id: exportId },
+      ipAddress,
+    });
+
+    return NextResponse.json(
+      { export: exportSummary(await getDataExport(exportId)) },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Request data export error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Download an invoice
+ * GET /api/account/invoices/[id] - One of the current user's invoices as
+ *   a PDF
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUserSession, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import { getInvoice } from '@/lib/db-auth';
+import { invoiceFileName, renderInvoicePdf } from '@/lib/invoices';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const payload = await requireUserSession();
+
+    const invoice = await getInvoice(params.id);
+    if (!invoice || invoice.user_id !== payload.userId) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    const pdf = renderInvoicePdf(invoice);
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${invoiceFileName(invoice, 'pdf')}"`,
+        'Content-Length': String(pdf.length),
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Download invoice error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
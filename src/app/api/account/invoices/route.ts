@@ -0,0 +1,42 @@
+/**
+ * Invoice history
+ * GET /api/account/invoices - The current user's invoices, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUserSession, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import { getUserInvoices } from '@/lib/db-auth';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const payload = await requireUserSession();
+
+    const invoices = await getUserInvoices(payload.userId);
+
+    return NextResponse.json(
+      {
+        invoices: invoices.map(invoice => ({
+          id: invoice.id,
+          invoice_number: invoice.invoice_number,
+          description: invoice.description,
+          total_amount: invoice.total_amount,
+          currency: invoice.currency,
+          issued_at: invoice.issued_at,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Get invoices error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
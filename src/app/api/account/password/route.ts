@@ -0,0 +1,117 @@
+/**
+ * Change Password API Route
+ * Sets a new password for the current user after checking the current one.
+ * The user's other sessions are signed out. Accounts created through a
+ * sign-in provider set their first password without a current one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { auditActor } from '@/lib/session';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import {
+  getUserById,
+  getUserWithPassword,
+  verifyPassword,
+  updatePassword,
+  setInitialPassword,
+  revokeOtherSessions,
+  logAuditAction,
+} from '@/lib/db-auth';
+import { checkPassword } from '@/lib/password-policy';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function PUT(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    const body = await request.json();
+    const { currentPassword, newPassword } = body;
+
+    if (!newPassword) {
+      return NextResponse.json({ error: 'New password is required' }, { status: 400 });
+    }
+
+    // the token's email may be stale after an email change, so go by id
+    const user = await getUserById(payload.userId);
+    const account = user ? await getUserWithPassword(user.email) : null;
+    if (!account) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { error: passwordError } = checkPassword(newPassword, [account.email, account.name]);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    if (!account.password_hash) {
+      if (!(await setInitialPassword(account.id, newPassword))) {
+        return NextResponse.json({ error: 'A password has already been set' }, { status: 409 });
+      }
+
+      await logAuditAction({
+        ...auditActor(payload),
+        action: 'password_set',
+        entityType: 'user',
+        entityId: account.id,
+        ipAddress: getClientIp(request.headers),
+      });
+
+      return NextResponse.json(
+        { message: 'Password set. You can now also sign in with your email and password.', sessionsRevoked: 0 },
+        { status: 200 }
+      );
+    }
+
+    if (!currentPassword) {
+      return NextResponse.json({ error: 'Current password is required' }, { status: 400 });
+    }
+
+    if (!(await verifyPassword(currentPassword, account.password_hash))) {
+      return NextResponse.json({ error: 'Current password is incorrect' }, { status: 400 });
+    }
+
+    await updatePassword(account.id, newPassword);
+
+    // Anyone who knew the old password is signed out; this device stays in
+    const sessionsRevoked = payload.sid
+      ? await revokeOtherSessions('user', account.id, payload.sid)
+      : 0;
+
+    await logAuditAction({
+      ...auditActor(payload),
+      action: 'password_changed',
+      entityType: 'user',
+      entityId: account.id,
+      changes: { sessions_revoked: sessionsRevoked },
+      ipAddress: getClientIp(request.headers),
+    });
+
+    return NextResponse.json(
+      { message: 'Password changed. Your other sessions have been signed out.', sessionsRevoked },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Change password error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
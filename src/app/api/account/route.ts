@@ -0,0 +1,120 @@
+/**
+ * Account profile
+ * GET /api/account - Current user's profile, whether it has a password
+ *   and the sign-in providers linked to it
+ * PUT /api/account - Update the current user's name
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { auditActor } from '@/lib/session';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import {
+  getUserById,
+  updateUser,
+  userHasPassword,
+  getUserIdentities,
+  logAuditAction,
+} from '@/lib/db-auth';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+const MAX_NAME_LENGTH = 255;
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const payload = await requireUserSession();
+
+    const user = await getUserById(payload.userId);
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const identities = await getUserIdentities(user.id);
+
+    return NextResponse.json(
+      {
+        user,
+        hasPassword: await userHasPassword(user.id),
+        identities: identities.map(identity => ({
+          provider: identity.provider,
+          email: identity.email,
+          linkedAt: identity.created_at,
+          lastLogin: identity.last_login,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Get account error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Name must be at most ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const user = await getUserById(payload.userId);
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (name !== user.name) {
+      await updateUser(user.id, { name });
+
+      await logAuditAction({
+        ...auditActor(payload),
+        action: 'profile_updated',
+        entityType: 'user',
+        entityId: user.id,
+        changes: { name: { from: user.name, to: name } },
+        ipAddress: getClientIp(request.headers),
+      });
+    }
+
+    return NextResponse.json({ user: { ...user, name } }, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Update account error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
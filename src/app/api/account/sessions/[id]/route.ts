@@ -0,0 +1,70 @@
+/**
+ * Revoke Session API Route
+ * Signs the current user out on one device. Revoking the current session
+ * works like logout.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookies, verifyCsrf } from '@/lib/auth-cookies';
+import { auditActor } from '@/lib/session';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import { revokeOwnedSessionFamily, logAuditAction } from '@/lib/db-auth';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    // scoped to the caller, so other users' session ids just aren't found
+    const revoked = await revokeOwnedSessionFamily('user', payload.userId, params.id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const current = params.id === payload.sid;
+
+    await logAuditAction({
+      ...auditActor(payload),
+      action: 'session_revoked',
+      entityType: 'session',
+      entityId: params.id,
+      changes: { current },
+      ipAddress: getClientIp(request.headers),
+    });
+
+    const response = NextResponse.json(
+      { message: 'Session revoked', current },
+      { status: 200 }
+    );
+    if (current) {
+      clearSessionCookies(response);
+    }
+    return response;
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Revoke session error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
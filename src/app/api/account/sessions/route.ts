@@ -0,0 +1,43 @@
+/**
+ * Account sessions
+ * GET /api/account/sessions - Devices the current user is signed in on
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUserSession, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import { getActiveSessions } from '@/lib/db-auth';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const payload = await requireUserSession();
+
+    const sessions = await getActiveSessions('user', payload.userId);
+
+    return NextResponse.json(
+      {
+        sessions: sessions.map(session => ({
+          id: session.family_id,
+          userAgent: session.user_agent,
+          ipAddress: session.ip_address,
+          createdAt: session.created_at,
+          lastActiveAt: session.last_activity,
+          expiresAt: session.expires_at,
+          current: session.family_id === payload.sid,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Get sessions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
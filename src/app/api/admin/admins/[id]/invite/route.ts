@@ -0,0 +1,63 @@
+/**
+ * Resend Admin Invitation API Route (Superadmin only)
+ * Emails a fresh set-password link to an admin who hasn't accepted yet
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { auditActor } from '@/lib/session';
+import { requirePermission, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import { getAdminAccount, logAuditAction } from '@/lib/db-auth';
+import { sendAdminInvitation } from '@/lib/admin-invitations';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'email');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requirePermission('admins:manage');
+
+    const admin = await getAdminAccount(params.id);
+    if (!admin) {
+      return NextResponse.json({ error: 'Admin not found' }, { status: 404 });
+    }
+
+    if (admin.status !== 'Invited') {
+      return NextResponse.json(
+        { error: 'This admin has already accepted their invitation' },
+        { status: 400 }
+      );
+    }
+
+    await sendAdminInvitation(admin, payload, request.nextUrl.origin);
+
+    await logAuditAction({
+      ...auditActor(payload),
+      action: 'admin_invitation_resent',
+      entityType: 'admin',
+      entityId: admin.id,
+      changes: { email: admin.email },
+      ipAddress: getClientIp(request.headers),
+    });
+
+    return NextResponse.json({ message: 'Invitation sent' }, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Resend admin invitation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
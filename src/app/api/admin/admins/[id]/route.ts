@@ -0,0 +1,187 @@
+/**
+ * Manage a specific admin account (Superadmin only)
+ * PUT /api/admin/admins/[id] - Change role, suspend or reactivate
+ * DELETE /api/admin/admins/[id] - Delete admin
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { auditActor } from '@/lib/session';
+import { requirePermission, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import {
+  AdminAccount,
+  getAdminAccount,
+  updateAdminAccount,
+  deleteAdmin,
+  countActiveSuperadmins,
+  revokeAllSessions,
+  logAuditAction,
+} from '@/lib/db-auth';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+const ADMIN_ROLES = ['admin', 'superadmin'];
+const ADMIN_STATUSES = ['Active', 'Suspended'];
+
+async function verifySuperadminAccess(request: NextRequest) {
+  // cookie-authenticated writes must echo the CSRF cookie
+  if (!verifyCsrf(request)) {
+    throw new AuthorizationError('Invalid CSRF token', 403);
+  }
+
+  return requirePermission('admins:manage');
+}
+
+// The last active superadmin can't be demoted, suspended or deleted, or
+// nobody would be left to manage admins
+async function isLastSuperadmin(admin: AdminAccount): Promise<boolean> {
+  if (admin.role !== 'superadmin' || admin.status !== 'Active') {
+    return false;
+  }
+  return (await countActiveSuperadmins()) <= 1;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const actor = await verifySuperadminAccess(request);
+
+    const admin = await getAdminAccount(params.id);
+    if (!admin) {
+      return NextResponse.json({ error: 'Admin not found' }, { status: 404 });
+    }
+
+    if (admin.id === actor.userId) {
+      return NextResponse.json(
+        { error: 'You cannot change your own admin account' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { role, status } = body;
+
+    if (role !== undefined && !ADMIN_ROLES.includes(role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+    if (status !== undefined && !ADMIN_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+    if (status !== undefined && admin.status === 'Invited') {
+      return NextResponse.json(
+        { error: 'The invitation has not been accepted yet' },
+        { status: 400 }
+      );
+    }
+
+    const updates: { role?: 'admin' | 'superadmin'; status?: 'Active' | 'Suspended' } = {};
+    if (role !== undefined && role !== admin.role) updates.role = role;
+    if (status !== undefined && status !== admin.status) updates.status = status;
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ admin }, { status: 200 });
+    }
+
+    const demotesOrSuspends = updates.role === 'admin' || updates.status === 'Suspended';
+    if (demotesOrSuspends && (await isLastSuperadmin(admin))) {
+      return NextResponse.json(
+        { error: 'At least one active superadmin is required' },
+        { status: 400 }
+      );
+    }
+
+    await updateAdminAccount(admin.id, updates);
+
+    // Suspensions and role changes take effect immediately rather than at
+    // the next token refresh
+    const sessionsRevoked = await revokeAllSessions('admin', admin.id);
+
+    const ipAddress = getClientIp(request.headers);
+    if (updates.status !== undefined) {
+      await logAuditAction({
+        ...auditActor(actor),
+        action: updates.status === 'Suspended' ? 'admin_suspended' : 'admin_reactivated',
+        entityType: 'admin',
+        entityId: admin.id,
+        changes: { status: { from: admin.status, to: updates.status }, sessions_revoked: sessionsRevoked },
+        ipAddress,
+      });
+    }
+    if (updates.role !== undefined) {
+      await logAuditAction({
+        ...auditActor(actor),
+        action: 'admin_role_changed',
+        entityType: 'admin',
+        entityId: admin.id,
+        changes: { role: { from: admin.role, to: updates.role }, sessions_revoked: sessionsRevoked },
+        ipAddress,
+      });
+    }
+
+    return NextResponse.json({ admin: await getAdminAccount(admin.id) }, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Update admin error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const actor = await verifySuperadminAccess(request);
+
+    const admin = await getAdminAccount(params.id);
+    if (!admin) {
+      return NextResponse.json({ error: 'Admin not found' }, { status: 404 });
+    }
+
+    if (admin.id === actor.userId) {
+      return NextResponse.json(
+        { error: 'Cannot delete your own admin account' },
+        { status: 400 }
+      );
+    }
+
+    if (await isLastSuperadmin(admin)) {
+      return NextResponse.json(
+        { error: 'At least one active superadmin is required' },
+        { status: 400 }
+      );
+    }
+
+    // sessions and invitations are removed by their foreign keys
+    await deleteAdmin(admin.id);
+
+    await logAuditAction({
+      ...auditActor(actor),
+      action: 'admin_deleted',
+      entityType: 'admin',
+      entityId: admin.id,
+      changes: { email: admin.email, role: admin.role, status: admin.status },
+      ipAddress: getClientIp(request.headers),
+    });
+
+    return NextResponse.json({ message: 'Admin deleted successfully' }, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Delete admin error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Admin accounts (Superadmin only)
+ * GET /api/admin/admins - List admins
+ * POST /api/admin/admins - Invite an admin
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { auditActor } from '@/lib/session';
+import { requirePermission, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import { getAllAdmins, createInvitedAdmin, logAuditAction } from '@/lib/db-auth';
+import { sendAdminInvitation } from '@/lib/admin-invitations';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+const ADMIN_ROLES = ['admin', 'superadmin'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    await requirePermission('admins:manage');
+
+    const admins = await getAllAdmins();
+    return NextResponse.json({ admins }, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Get admins error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requirePermission('admins:manage');
+
+    const body = await request.json();
+    const { email, name, role = 'admin' } = body;
+
+    if (!email || !name) {
+      return NextResponse.json(
+        { error: 'Email and name are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!ADMIN_ROLES.includes(role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+
+    const admin = await createInvitedAdmin({
+      email: email.trim(),
+      name: name.trim(),
+      role,
+      invitedBy: payload.userId,
+    });
+
+    await sendAdminInvitation(admin, payload, request.nextUrl.origin);
+
+    await logAuditAction({
+      ...auditActor(payload),
+      action: 'admin_invited',
+      entityType: 'admin',
+      entityId: admin.id,
+      changes: { email: admin.email, name: admin.name, role: admin.role },
+      ipAddress: getClientIp(request.headers),
+    });
+
+    return NextResponse.json({ admin }, { status: 201 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    if (error.message === 'Email already exists') {
+      return NextResponse.json({ error: 'An admin with this email already exists' }, { status: 409 });
+    }
+    console.error('Invite admin error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Accept Admin Invitation API Route
+ * Sets an invited admin's password using the token from the invitation email
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { acceptAdminInvitation, getAdminInvitationAdmin, logAuditAction } from '@/lib/db-auth';
+import { hashToken } from '@/lib/tokens';
+import { checkPassword } from '@/lib/password-policy';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const body = await request.json();
+    const { token, password } = body;
+
+    if (!token || !password) {
+      return NextResponse.json(
+        { error: 'Token and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const tokenHash = hashToken(token);
+    const invited = await getAdminInvitationAdmin(tokenHash);
+    if (!invited) {
+      return NextResponse.json(
+        { error: 'Invitation link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    // Checked before the token is used up so a rejected password doesn't
+    // burn the link
+    const { error: passwordError } = checkPassword(password, [invited.email, invited.name]);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    const adminId = await acceptAdminInvitation(tokenHash, password);
+
+    if (!adminId) {
+      return NextResponse.json(
+        { error: 'Invitation link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    await logAuditAction({
+      userId: adminId,
+      actorType: 'admin',
+      action: 'admin_invitation_accepted',
+      entityType: 'admin',
+      entityId: adminId,
+      ipAddress: getClientIp(request.headers),
+    });
+
+    return NextResponse.json(
+      { message: 'Your password has been set. Please log in to finish setting up your account.' },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Accept admin invitation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,15 +1,29 @@
 /**
  * Admin Login API Route
- * Authenticates an admin user and returns a JWT token
+ * Authenticates an admin user and returns an access token plus a refresh token
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyPassword, updateLastLogin, logAuditAction } from '@/lib/db-auth';
-import { createJWT } from '@/lib/jwt';
-import { executeQuery, executeUpdate } from '@/lib/db';
+import { verifyPassword, updateLastLogin, updateAdminLastLogin, logAuditAction } from '@/lib/db-auth';
+import { issueSession, sessionResponse } from '@/lib/session';
+import { isMfaEnabled, createMfaPendingToken } from '@/lib/mfa';
+import { executeQuery } from '@/lib/db';
+import { getClientIp } from '@/lib/client-ip';
+import {
+  checkLoginAllowed,
+  recordFailedLogin,
+  clearFailedLogins,
+  loginThrottledResponse,
+} from '@/lib/login-throttle';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
 
 export async function POST(request: NextRequest) {
   try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
     const body = await request.json();
     const { email, password } = body;
 
@@ -17,8 +31,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
     }
 
+    const ipAddress = getClientIp(request.headers);
+
+    // Refuse throttled attempts before looking at the password
+    const throttle = await checkLoginAllowed(email, ipAddress);
+    if (!throttle.allowed) {
+      return loginThrottledResponse(throttle);
+    }
+
     // Try separate `admins` table first, then fall back to `users` table.
-    const adminResults = await executeQuery(
+    const adminResults = await executeQuery<any>(
       `SELECT id, email, password_hash, name, role, status FROM admins WHERE email = ?`,
       [email]
     );
@@ -26,7 +48,7 @@ export async function POST(request: NextRequest) {
     let user = adminResults.length > 0 ? adminResults[0] : null;
 
     if (!user) {
-      const userResults = await executeQuery(
+      const userResults = await executeQuery<any>(
         `SELECT id, email, password_hash, name, role, plan, status FROM users WHERE email = ?`,
         [email]
       );
@@ -34,6 +56,10 @@ export async function POST(request: NextRequest) {
     }
 
     if (!user) {
+      const failure = await recordFailedLogin(email, ipAddress);
+      if (failure.locked) {
+        return loginThrottledResponse(failure);
+      }
       return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
     }
 
@@ -43,9 +69,13 @@ export async function POST(request: NextRequest) {
         action: 'admin_login_failed',
         entityType: 'user',
         entityId: user.id,
-        ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+        ipAddress,
       });
 
+      const failure = await recordFailedLogin(email, ipAddress, user);
+      if (failure.locked) {
+        return loginThrottledResponse(failure);
+      }
       return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
     }
 
@@ -54,10 +84,11 @@ export async function POST(request: NextRequest) {
     if (!(roleVal === 'admin' || roleVal === 'superadmin')) {
       await logAuditAction({
         userId: user.id,
+        actorType: adminResults.length > 0 ? 'admin' : 'user',
         action: 'admin_login_forbidden',
         entityType: 'user',
         entityId: user.id,
-        ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+        ipAddress,
       });
 
       return NextResponse.json({ error: 'Not authorized as admin' }, { status: 403 });
@@ -67,10 +98,30 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Account has been cancelled' }, { status: 403 });
     }
 
+    if (user.status === 'Suspended') {
+      return NextResponse.json({ error: 'Account has been suspended' }, { status: 403 });
+    }
+
+    const accountType = adminResults.length > 0 ? 'admin' : 'user';
+
+    // With two-factor authentication on, the session is only issued once
+    // /api/auth/mfa/verify has checked a code
+    if (await isMfaEnabled(accountType, user.id)) {
+      const mfaToken = await createMfaPendingToken({
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        accountType,
+      });
+      return NextResponse.json({ mfaRequired: true, mfaToken }, { status: 200 });
+    }
+
+    await clearFailedLogins(email);
+
     // Update last_login on the appropriate table
     try {
       if (adminResults.length > 0) {
-        await executeUpdate('UPDATE admins SET last_login = NOW() WHERE id = ?', [user.id]);
+        await updateAdminLastLogin(user.id);
       } else {
         await updateLastLogin(user.id);
       }
@@ -78,21 +129,30 @@ export async function POST(request: NextRequest) {
       console.warn('Could not update last login:', e);
     }
 
-    const token = await createJWT({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    // Admins from the `admins` table keep their sessions in admin_sessions.
+    // Without a second factor they can only reach the MFA setup page.
+    const session = await issueSession(
+      {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        accountType,
+      },
+      request
+    );
 
     await logAuditAction({
       userId: user.id,
+      actorType: accountType,
       action: 'admin_login',
       entityType: 'user',
       entityId: user.id,
-      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+      ipAddress,
     });
 
-    return NextResponse.json(
+    // Browsers get httpOnly cookies; clients sending X-Auth-Transport: bearer get tokens in the body
+    return sessionResponse(
+      request,
       {
         user: {
           id: user.id,
@@ -102,9 +162,9 @@ export async function POST(request: NextRequest) {
           plan: user.plan,
           status: user.status,
         },
-        token,
       },
-      { status: 200 }
+      session,
+      200
     );
   } catch (error: any) {
     console.error('Admin login error:', error);
@@ -0,0 +1,47 @@
+/**
+ * Invoice PDF
+ * GET /api/admin/invoices/[id] - Any invoice as a PDF
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import { getInvoice } from '@/lib/db-auth';
+import { invoiceFileName, renderInvoicePdf } from '@/lib/invoices';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    await requirePermission('invoices:read');
+
+    const invoice = await getInvoice(params.id);
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    const pdf = renderInvoicePdf(invoice);
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${invoiceFileName(invoice, 'pdf')}"`,
+        'Content-Length': String(pdf.length),
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Admin invoice PDF error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Invoice register
+ * GET /api/admin/invoices?year=2026-27 - Invoices of a financial year (the
+ *   current one by default) in invoice number order, and the years that
+ *   have invoices
+ * GET /api/admin/invoices?year=2026-27&format=csv - The same register as a
+ *   CSV file for accounting
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auditActor } from '@/lib/session';
+import { requirePermission, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import { getInvoiceRegister, getInvoiceFinancialYears, logAuditAction } from '@/lib/db-auth';
+import { financialYear } from '@/lib/gst';
+import { invoiceRegisterCsv } from '@/lib/invoices';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+const FINANCIAL_YEAR_PATTERN = /^\d{4}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const actor = await requirePermission('invoices:read');
+
+    const year = request.nextUrl.searchParams.get('year') || financialYear(new Date());
+    if (!FINANCIAL_YEAR_PATTERN.test(year)) {
+      return NextResponse.json({ error: 'Invalid financial year' }, { status: 400 });
+    }
+
+    const invoices = await getInvoiceRegister(year);
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      // the register holds every customer's name and email
+      await logAuditAction({
+        ...auditActor(actor),
+        action: 'invoice_register_exported',
+        entityType: 'invoice',
+        entityId: year,
+        changes: { financial_year: year, invoices: invoices.length },
+        ipAddress: getClientIp(request.headers),
+      });
+
+      return new NextResponse(invoiceRegisterCsv(invoices), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="invoice-register-${year}.csv"`,
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
+
+    return NextResponse.json(
+      {
+        year,
+        years: await getInvoiceFinancialYears(),
+        invoices: invoices.map(invoice => ({
+          id: invoice.id,
+          invoice_number: invoice.invoice_number,
+          issued_at: invoice.issued_at,
+          customer_name: invoice.customer_name,
+          customer_email: invoice.customer_email,
+          customer_gstin: invoice.customer_gstin,
+          place_of_supply: invoice.place_of_supply,
+          description: invoice.description,
+          currency: invoice.currency,
+          taxable_amount: invoice.taxable_amount,
+          cgst_amount: invoice.cgst_amount,
+          sgst_amount: invoice.sgst_amount,
+          igst_amount: invoice.igst_amount,
+          total_amount: invoice.total_amount,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Get invoice register error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
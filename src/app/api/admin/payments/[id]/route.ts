@@ -0,0 +1,102 @@
+/**
+ * Review a reported payment
+ * PUT /api/admin/payments/[id] - Approve (activating the plan) or reject
+ *   with a reason; the user is emailed either way. Replacing a plan the
+ *   user got after reporting the payment, or lifetime access, has to be
+ *   confirmed with replaceActive.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { auditActor } from '@/lib/session';
+import { requirePermission, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import { getPaymentSubmission } from '@/lib/db-auth';
+import {
+  approveManualPayment,
+  rejectManualPayment,
+  REJECTION_REASON_MAX_LENGTH,
+} from '@/lib/payment-review';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+const REVIEW_STATUSES = ['approved', 'rejected'];
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const actor = await requirePermission('payments:review');
+
+    const body = await request.json();
+    const { status } = body;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (!REVIEW_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+    if (status === 'rejected' && !reason) {
+      return NextResponse.json({ error: 'A reason is required to reject a payment' }, { status: 400 });
+    }
+    if (reason.length > REJECTION_REASON_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `The reason must be at most ${REJECTION_REASON_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const submission = await getPaymentSubmission(params.id);
+    if (!submission) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
+    }
+
+    const reviewer = auditActor(actor);
+    const origin = request.nextUrl.origin;
+    const ipAddress = getClientIp(request.headers);
+
+    const reviewed =
+      status === 'approved'
+        ? await approveManualPayment(submission, reviewer, body.replaceActive === true, origin, ipAddress)
+        : await rejectManualPayment(submission, reviewer, reason, origin, ipAddress);
+
+    if (!reviewed) {
+      return NextResponse.json({ error: 'The payment has already been reviewed' }, { status: 409 });
+    }
+    if (typeof reviewed === 'object' && 'replaces' in reviewed) {
+      const { replaces } = reviewed;
+      return NextResponse.json(
+        {
+          error:
+            replaces.billing_period === 'lifetime'
+              ? `The user has lifetime access to ${replaces.plan}.`
+              : `The user got ${replaces.plan} after reporting this payment.`,
+          replaces: {
+            plan: replaces.plan,
+            billing_period: replaces.billing_period,
+            start_date: replaces.start_date,
+            renewal_date: replaces.renewal_date,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ payment: await getPaymentSubmission(submission.id) }, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Review payment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
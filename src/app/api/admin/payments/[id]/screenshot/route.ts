@@ -0,0 +1,48 @@
+/**
+ * Payment screenshot
+ * GET /api/admin/payments/[id]/screenshot - The screenshot a user attached
+ *   to a reported payment
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import { getPaymentSubmission } from '@/lib/db-auth';
+import { readPaymentScreenshot } from '@/lib/payment-review';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    await requirePermission('payments:review');
+
+    const submission = await getPaymentSubmission(params.id);
+    const screenshot = submission?.screenshot_path
+      ? await readPaymentScreenshot(submission.screenshot_path)
+      : null;
+    if (!submission || !screenshot) {
+      return NextResponse.json({ error: 'Screenshot not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(screenshot), {
+      headers: {
+        'Content-Type': submission.screenshot_type || 'application/octet-stream',
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Payment screenshot error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Manual payment review queue
+ * GET /api/admin/payments - Reported UPI transfers waiting for review,
+ *   oldest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import { getPendingPaymentSubmissions } from '@/lib/db-auth';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    await requirePermission('payments:review');
+
+    const submissions = await getPendingPaymentSubmissions();
+
+    return NextResponse.json(
+      {
+        payments: submissions.map(submission => ({
+          id: submission.id,
+          user_id: submission.user_id,
+          user_name: submission.user_name,
+          user_email: submission.user_email,
+          plan: submission.plan,
+          billing_period: submission.billing_period,
+          amount: submission.amount,
+          currency: submission.currency,
+          utr: submission.utr,
+          reference: submission.reference,
+          has_screenshot: !!submission.screenshot_path,
+          created_at: submission.created_at,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Get payment reviews error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
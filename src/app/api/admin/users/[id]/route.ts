@@ -5,44 +5,41 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from '@/lib/jwt';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { auditActor } from '@/lib/session';
+import { requirePermission, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import { Permission } from '@/lib/permissions';
 import {
   getUserById,
   updateUser,
-  deleteUser,
   logAuditAction,
 } from '@/lib/db-auth';
+import { eraseAccount } from '@/lib/account-deletion';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
 
 interface RouteParams {
   params: { id: string };
 }
 
-async function verifyAdminAccess(request: NextRequest) {
-  const authHeader = request.headers.get('authorization');
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return null;
+async function verifyAdminAccess(request: NextRequest, permission: Permission) {
+  // cookie-authenticated writes must echo the CSRF cookie
+  if (!verifyCsrf(request)) {
+    throw new AuthorizationError('Invalid CSRF token', 403);
   }
 
-  const token = authHeader.substring(7);
-  const payload = await verifyJWT(token);
-
-  if (!payload || payload.role !== 'admin') {
-    return null;
-  }
-
-  return payload.userId;
+  return requirePermission(permission);
 }
 
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    const adminId = await verifyAdminAccess(request);
-    if (!adminId) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions' },
-        { status: 403 }
-      );
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
     }
 
+    await verifyAdminAccess(request, 'users:read');
+
     const user = await getUserById(params.id);
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
@@ -50,6 +47,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({ user }, { status: 200 });
   } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
     console.error('Get user error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -60,14 +60,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
-    const adminId = await verifyAdminAccess(request);
-    if (!adminId) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions' },
-        { status: 403 }
-      );
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
     }
 
+    const admin = await verifyAdminAccess(request, 'users:write');
+
     const user = await getUserById(params.id);
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
@@ -86,12 +85,12 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
     // Log audit action
     await logAuditAction({
-      userId: adminId,
+      ...auditActor(admin),
       action: 'user_updated',
       entityType: 'user',
       entityId: params.id,
       changes: updateData,
-      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+      ipAddress: getClientIp(request.headers),
     });
 
     return NextResponse.json(
@@ -99,6 +98,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 200 }
     );
   } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
     console.error('Update user error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -109,37 +111,37 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
-    const adminId = await verifyAdminAccess(request);
-    if (!adminId) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions' },
-        { status: 403 }
-      );
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
     }
 
+    const admin = await verifyAdminAccess(request, 'users:write');
+
     const user = await getUserById(params.id);
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
     // Prevent self-deletion
-    if (params.id === adminId) {
+    if (params.id === admin.userId) {
       return NextResponse.json(
         { error: 'Cannot delete your own admin account' },
         { status: 400 }
       );
     }
 
-    await deleteUser(params.id);
+    // anonymised rather than removed, so billing and audit records survive
+    await eraseAccount(params.id);
 
     // Log audit action
     await logAuditAction({
-      userId: adminId,
+      ...auditActor(admin),
       action: 'user_deleted',
       entityType: 'user',
       entityId: params.id,
       changes: { deleted: true },
-      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+      ipAddress: getClientIp(request.headers),
     });
 
     return NextResponse.json(
@@ -147,6 +149,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       { status: 200 }
     );
   } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
     console.error('Delete user error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -4,30 +4,25 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from '@/lib/jwt';
+import { requirePermission, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
 import { getAllUsers } from '@/lib/db-auth';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
 
 export async function GET(request: NextRequest) {
   try {
-    // Verify admin token
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
     }
 
-    const token = authHeader.substring(7);
-    const payload = await verifyJWT(token);
-
-    if (!payload || payload.role !== 'admin') {
-      return NextResponse.json(
-        { error: 'Insufficient permissions' },
-        { status: 403 }
-      );
-    }
+    await requirePermission('users:read');
 
     const users = await getAllUsers();
     return NextResponse.json({ users }, { status: 200 });
   } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
     console.error('Get users error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,78 @@
+/**
+ * Forgot Password API Route
+ * Emails a single-use password reset link
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserByEmail, createPasswordResetToken, logAuditAction } from '@/lib/db-auth';
+import { generateToken, hashToken } from '@/lib/tokens';
+import { sendMail, appUrl } from '@/lib/mailer';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Same response whether or not the account exists, so the endpoint can't be
+// used to find out which emails are registered
+const GENERIC_RESPONSE = {
+  message: 'If an account exists for that email, a password reset link has been sent',
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'email');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const body = await request.json();
+    const { email } = body;
+
+    if (!email) {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
+    }
+
+    const ipAddress = getClientIp(request.headers);
+    const user = await getUserByEmail(email);
+
+    if (!user || user.status === 'Cancelled') {
+      return NextResponse.json(GENERIC_RESPONSE, { status: 200 });
+    }
+
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MS);
+    await createPasswordResetToken(user.id, hashToken(token), expiresAt, ipAddress);
+
+    const resetUrl = appUrl(
+      `/reset-password?token=${encodeURIComponent(token)}`,
+      request.nextUrl.origin
+    );
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your Quantum Alpha India password',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        'We received a request to reset your password. Open the link below to choose a new one:',
+        '',
+        resetUrl,
+        '',
+        'The link expires in 1 hour and can only be used once. If you did not ask for a reset, you can ignore this email.',
+      ].join('\n'),
+    });
+
+    await logAuditAction({
+      userId: user.id,
+      actorType: 'user',
+      action: 'password_reset_requested',
+      entityType: 'user',
+      entityId: user.id,
+      ipAddress,
+    });
+
+    return NextResponse.json(GENERIC_RESPONSE, { status: 200 });
+  } catch (error: any) {
+    console.error('Forgot password error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
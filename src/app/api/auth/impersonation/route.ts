@@ -0,0 +1,163 @@
+/**
+ * Impersonation API Route ("view as user")
+ * POST /api/auth/impersonation - Start a restricted session as a user (support staff)
+ * DELETE /api/auth/impersonation - End it and go back to the admin's own session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { issueSession, rotateRefreshToken, revokeSession, sessionResponse, auditActor } from '@/lib/session';
+import {
+  verifyCsrf,
+  wantsBearerTransport,
+  clearSessionCookies,
+  setImpersonatorCookie,
+  clearImpersonatorCookie,
+} from '@/lib/auth-cookies';
+import { REFRESH_COOKIE, IMPERSONATOR_COOKIE, IMPERSONATION_TTL_SECONDS } from '@/lib/auth-constants';
+import { requirePermission, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+import { verifyJWT } from '@/lib/jwt';
+import { getUserById, logAuditAction } from '@/lib/db-auth';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'admin');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const actor = await requirePermission('users:impersonate');
+
+    // the admin's own session is parked in a cookie until the impersonation ends
+    if (wantsBearerTransport(request)) {
+      return NextResponse.json(
+        { error: 'Impersonation is only available with a browser session' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { userId } = body;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    const user = await getUserById(userId);
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // viewing as an admin would hand out that admin's permissions
+    if (user.role !== 'user') {
+      return NextResponse.json(
+        { error: 'Admin accounts cannot be impersonated' },
+        { status: 403 }
+      );
+    }
+
+    if (user.status !== 'Active') {
+      return NextResponse.json(
+        { error: 'Only active users can be impersonated' },
+        { status: 400 }
+      );
+    }
+
+    const until = Math.floor(Date.now() / 1000) + IMPERSONATION_TTL_SECONDS;
+    const impersonator = {
+      id: actor.userId,
+      email: actor.email,
+      accountType: actor.accountType || 'user',
+      until,
+    };
+
+    const session = await issueSession(
+      { id: user.id, email: user.email, role: 'user', accountType: 'user', impersonator },
+      request
+    );
+
+    await logAuditAction({
+      ...auditActor(actor),
+      action: 'impersonation_started',
+      entityType: 'user',
+      entityId: user.id,
+      changes: {
+        email: user.email,
+        session: session.sessionId,
+        until: new Date(until * 1000).toISOString(),
+      },
+      ipAddress: getClientIp(request.headers),
+    });
+
+    const response = sessionResponse(request, { user, redirectTo: '/dashboard' }, session);
+    const adminRefreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+    if (adminRefreshToken) {
+      setImpersonatorCookie(response, adminRefreshToken);
+    }
+    return response;
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Start impersonation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    // Read from the refresh cookie rather than the access token, which may
+    // already have expired together with the impersonation
+    const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+    const current = refreshToken ? await verifyJWT(refreshToken, 'refresh') : null;
+
+    if (!current || !current.impersonator) {
+      return NextResponse.json({ error: 'You are not viewing as a user' }, { status: 400 });
+    }
+
+    await revokeSession(current);
+
+    await logAuditAction({
+      ...auditActor(current),
+      action: 'impersonation_ended',
+      entityType: 'user',
+      entityId: current.userId,
+      changes: { email: current.email, session: current.sid },
+      ipAddress: getClientIp(request.headers),
+    });
+
+    // Put the admin's own session back; if it has expired or was revoked in
+    // the meantime they have to sign in again
+    const adminRefreshToken = request.cookies.get(IMPERSONATOR_COOKIE)?.value;
+    const restored = adminRefreshToken
+      ? await rotateRefreshToken(adminRefreshToken, request)
+      : null;
+
+    let response: NextResponse;
+    if (restored?.ok) {
+      response = sessionResponse(request, { redirectTo: '/admin/dashboard' }, restored.session);
+    } else {
+      response = NextResponse.json({ redirectTo: '/admin/login' }, { status: 200 });
+      clearSessionCookies(response);
+    }
+    clearImpersonatorCookie(response);
+    return response;
+  } catch (error: any) {
+    console.error('End impersonation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
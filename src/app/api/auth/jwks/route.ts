@@ -0,0 +1,32 @@
+/**
+ * JWKS API Route
+ * Public keys that verify this app's tokens, for clients (such as the
+ * desktop app) that check tokens offline. Also served at
+ * /.well-known/jwks.json. Only asymmetric (RS256, EdDSA) keys are listed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublicJwks } from '@/lib/jwt-keys';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+// short enough that a newly added key is picked up well before it signs
+const CACHE_SECONDS = 5 * 60;
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const jwks = await getPublicJwks();
+
+    return NextResponse.json(jwks, {
+      status: 200,
+      headers: { 'Cache-Control': `public, max-age=${CACHE_SECONDS}` },
+    });
+  } catch (error: any) {
+    console.error('JWKS error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
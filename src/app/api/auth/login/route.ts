@@ -1,6 +1,6 @@
 /**
  * Login API Route
- * Authenticates a user and returns a JWT token
+ * Authenticates a user and returns an access token plus a refresh token
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,10 +10,24 @@ import {
   updateLastLogin,
   logAuditAction,
 } from '@/lib/db-auth';
-import { createJWT } from '@/lib/jwt';
+import { issueSession, sessionResponse } from '@/lib/session';
+import { isMfaEnabled, createMfaPendingToken } from '@/lib/mfa';
+import { getClientIp } from '@/lib/client-ip';
+import {
+  checkLoginAllowed,
+  recordFailedLogin,
+  clearFailedLogins,
+  loginThrottledResponse,
+} from '@/lib/login-throttle';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
 
 export async function POST(request: NextRequest) {
   try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
     const body = await request.json();
     const { email, password } = body;
 
@@ -25,9 +39,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const ipAddress = getClientIp(request.headers);
+
+    // Refuse throttled attempts before looking at the password
+    const throttle = await checkLoginAllowed(email, ipAddress);
+    if (!throttle.allowed) {
+      return loginThrottledResponse(throttle);
+    }
+
     // Get user with password hash
     const user = await getUserWithPassword(email);
     if (!user) {
+      const failure = await recordFailedLogin(email, ipAddress);
+      if (failure.locked) {
+        return loginThrottledResponse(failure);
+      }
+
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
@@ -42,9 +69,14 @@ export async function POST(request: NextRequest) {
         action: 'login_failed',
         entityType: 'user',
         entityId: user.id,
-        ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+        ipAddress,
       });
 
+      const failure = await recordFailedLogin(email, ipAddress, user);
+      if (failure.locked) {
+        return loginThrottledResponse(failure);
+      }
+
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
@@ -59,26 +91,59 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Only checked once the password matched, so it doesn't reveal which
+    // emails are registered
+    if (user.status === 'pending_verification') {
+      return NextResponse.json(
+        {
+          error: 'Please verify your email address before logging in',
+          code: 'email_not_verified',
+        },
+        { status: 403 }
+      );
+    }
+
+    // With two-factor authentication on, the session is only issued once
+    // /api/auth/mfa/verify has checked a code
+    if (await isMfaEnabled('user', user.id)) {
+      const mfaToken = await createMfaPendingToken({
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        accountType: 'user',
+      });
+      return NextResponse.json({ mfaRequired: true, mfaToken }, { status: 200 });
+    }
+
+    await clearFailedLogins(email);
+
     // Update last login
     await updateLastLogin(user.id);
 
-    // Create JWT token
-    const token = await createJWT({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    // Start a session (short-lived access token + rotating refresh token)
+    const session = await issueSession(
+      {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        accountType: 'user',
+      },
+      request
+    );
 
     // Log successful login
     await logAuditAction({
       userId: user.id,
+      actorType: 'user',
       action: 'login',
       entityType: 'user',
       entityId: user.id,
-      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+      ipAddress,
     });
 
-    return NextResponse.json(
+    // Browsers get httpOnly cookies; clients sending X-Auth-Transport: bearer get tokens in the body
+    return sessionResponse(
+      request,
       {
         user: {
           id: user.id,
@@ -88,9 +153,9 @@ export async function POST(request: NextRequest) {
           plan: user.plan,
           status: user.status,
         },
-        token,
       },
-      { status: 200 }
+      session,
+      200
     );
   } catch (error: any) {
     console.error('Login error:', error);
@@ -0,0 +1,57 @@
+/**
+ * Logout Everywhere API Route
+ * Revokes every session of the current account, on all devices
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, revokeAccountSessions, auditActor } from '@/lib/session';
+import { clearSessionCookies, verifyCsrf } from '@/lib/auth-cookies';
+import { logAuditAction } from '@/lib/db-auth';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+import { forbidImpersonation, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await getSession();
+
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    forbidImpersonation(payload);
+
+    const revoked = await revokeAccountSessions(payload);
+
+    await logAuditAction({
+      ...auditActor(payload),
+      action: 'logout_all',
+      entityType: 'user',
+      entityId: payload.userId,
+      changes: { sessions_revoked: revoked },
+      ipAddress: getClientIp(request.headers),
+    });
+
+    const response = NextResponse.json(
+      { message: 'Logged out of all sessions', sessionsRevoked: revoked },
+      { status: 200 }
+    );
+    clearSessionCookies(response);
+    return response;
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Logout all error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,40 +1,52 @@
 /**
  * Logout API Route
- * Invalidates user session
+ * Revokes the session the access token belongs to
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from '@/lib/jwt';
+import { getSession, revokeSession, auditActor } from '@/lib/session';
+import { clearSessionCookies, verifyCsrf } from '@/lib/auth-cookies';
 import { logAuditAction } from '@/lib/db-auth';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
 
 export async function POST(request: NextRequest) {
   try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
     }
 
-    const token = authHeader.substring(7);
-    const payload = await verifyJWT(token);
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await getSession();
 
     if (!payload) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+      const response = NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+      clearSessionCookies(response);
+      return response;
     }
 
+    // Revoke the refresh token family; access tokens of the session stop working too
+    await revokeSession(payload);
+
     // Log logout action
     await logAuditAction({
-      userId: payload.userId,
+      ...auditActor(payload),
       action: 'logout',
       entityType: 'user',
       entityId: payload.userId,
-      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+      ipAddress: getClientIp(request.headers),
     });
 
-    return NextResponse.json(
+    const response = NextResponse.json(
       { message: 'Logged out successfully' },
       { status: 200 }
     );
+    clearSessionCookies(response);
+    return response;
   } catch (error: any) {
     console.error('Logout error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -0,0 +1,60 @@
+/**
+ * Magic Link API Route
+ * Emails a single-use sign-in link that only works in the requesting browser
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserByEmail, logAuditAction } from '@/lib/db-auth';
+import { setMagicLinkCookie } from '@/lib/auth-cookies';
+import { sendMagicLink } from '@/lib/magic-link';
+import { generateToken } from '@/lib/tokens';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+// Same response whether or not the account exists, so the endpoint can't be
+// used to find out which emails are registered
+const GENERIC_RESPONSE = {
+  message: 'If an account exists for that email, a sign-in link has been sent',
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'email');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const body = await request.json();
+    const { email } = body;
+
+    if (!email) {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
+    }
+
+    const ipAddress = getClientIp(request.headers);
+    const user = await getUserByEmail(email);
+
+    // The browser gets a cookie either way, for the same reason
+    let browserToken = generateToken();
+
+    if (user && user.status !== 'Cancelled') {
+      browserToken = await sendMagicLink(user, request.nextUrl.origin, ipAddress);
+
+      await logAuditAction({
+        userId: user.id,
+        actorType: 'user',
+        action: 'magic_link_requested',
+        entityType: 'user',
+        entityId: user.id,
+        ipAddress,
+      });
+    }
+
+    const response = NextResponse.json(GENERIC_RESPONSE, { status: 200 });
+    setMagicLinkCookie(response, browserToken);
+    return response;
+  } catch (error: any) {
+    console.error('Magic link error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Magic Link Verify API Route
+ * Exchanges a sign-in link token for a session, in the browser that asked
+ * for the link. Logs in exactly like a password login otherwise.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  consumeMagicLinkToken,
+  getUserById,
+  updateLastLogin,
+  logAuditAction,
+} from '@/lib/db-auth';
+import { MAGIC_LINK_COOKIE } from '@/lib/auth-constants';
+import { clearMagicLinkCookie } from '@/lib/auth-cookies';
+import { issueSession, sessionResponse } from '@/lib/session';
+import { isMfaEnabled, createMfaPendingToken } from '@/lib/mfa';
+import { hashToken } from '@/lib/tokens';
+import { getClientIp } from '@/lib/client-ip';
+import { checkLoginAllowed, clearFailedLogins, loginThrottledResponse } from '@/lib/login-throttle';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const body = await request.json();
+    const { token } = body;
+
+    if (!token) {
+      return NextResponse.json({ error: 'Token is required' }, { status: 400 });
+    }
+
+    const browserToken = request.cookies.get(MAGIC_LINK_COOKIE)?.value;
+    const userId = browserToken
+      ? await consumeMagicLinkToken(hashToken(token), hashToken(browserToken))
+      : null;
+
+    if (!userId) {
+      return NextResponse.json(
+        {
+          error: 'Sign-in link is invalid or has expired. Links only work in the browser you requested them from.',
+          code: 'invalid_magic_link',
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await getUserById(userId);
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const ipAddress = getClientIp(request.headers);
+
+    // A locked account stays locked whichever way the user signs in
+    const throttle = await checkLoginAllowed(user.email, ipAddress);
+    if (!throttle.allowed) {
+      return loginThrottledResponse(throttle);
+    }
+
+    if (user.status === 'Cancelled') {
+      return NextResponse.json(
+        { error: 'Account has been cancelled' },
+        { status: 403 }
+      );
+    }
+
+    if (user.status === 'pending_verification') {
+      return NextResponse.json(
+        {
+          error: 'Please verify your email address before logging in',
+          code: 'email_not_verified',
+        },
+        { status: 403 }
+      );
+    }
+
+    // The link stands in for the password, not for the second factor
+    if (await isMfaEnabled('user', user.id)) {
+      const mfaToken = await createMfaPendingToken({
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        accountType: 'user',
+      });
+      const response = NextResponse.json({ mfaRequired: true, mfaToken }, { status: 200 });
+      clearMagicLinkCookie(response);
+      return response;
+    }
+
+    await clearFailedLogins(user.email);
+
+    await updateLastLogin(user.id);
+
+    const session = await issueSession(
+      {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        accountType: 'user',
+      },
+      request
+    );
+
+    await logAuditAction({
+      userId: user.id,
+      actorType: 'user',
+      action: 'login',
+      entityType: 'user',
+      entityId: user.id,
+      changes: { method: 'magic_link' },
+      ipAddress,
+    });
+
+    // Browsers get httpOnly cookies; clients sending X-Auth-Transport: bearer get tokens in the body
+    const response = sessionResponse(
+      request,
+      {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          plan: user.plan,
+          status: user.status,
+        },
+      },
+      session,
+      200
+    );
+    clearMagicLinkCookie(response);
+    return response;
+  } catch (error: any) {
+    console.error('Magic link verify error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * MFA Disable API Route
+ * Turns off two-factor authentication after checking a current code
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, auditActor } from '@/lib/session';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { deleteMfaFactors, logAuditAction } from '@/lib/db-auth';
+import { isMfaRequired, verifySecondFactor } from '@/lib/mfa';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+import { forbidImpersonation, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await getSession();
+
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    forbidImpersonation(payload);
+
+    const accountType = payload.accountType || 'user';
+
+    if (isMfaRequired(accountType)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is required for admin accounts' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { code } = body;
+
+    if (!code) {
+      return NextResponse.json({ error: 'Code is required' }, { status: 400 });
+    }
+
+    if (!(await verifySecondFactor(accountType, payload.userId, code))) {
+      return NextResponse.json({ error: 'Invalid code' }, { status: 400 });
+    }
+
+    await deleteMfaFactors(accountType, payload.userId);
+
+    await logAuditAction({
+      ...auditActor(payload),
+      action: 'mfa_disabled',
+      entityType: accountType,
+      entityId: payload.userId,
+      ipAddress: getClientIp(request.headers),
+    });
+
+    return NextResponse.json(
+      { message: 'Two-factor authentication disabled' },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('MFA disable error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
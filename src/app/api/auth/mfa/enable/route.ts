@@ -0,0 +1,79 @@
+/**
+ * MFA Enable API Route
+ * Confirms TOTP enrolment with a code from the authenticator app and returns
+ * the backup codes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, issueSession, revokeSession, sessionResponse, auditActor } from '@/lib/session';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { logAuditAction } from '@/lib/db-auth';
+import { confirmEnrolment } from '@/lib/mfa';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+import { forbidImpersonation, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await getSession();
+
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    forbidImpersonation(payload);
+
+    const body = await request.json();
+    const { code } = body;
+
+    if (!code) {
+      return NextResponse.json({ error: 'Code is required' }, { status: 400 });
+    }
+
+    const accountType = payload.accountType || 'user';
+    const backupCodes = await confirmEnrolment(accountType, payload.userId, code);
+
+    if (!backupCodes) {
+      return NextResponse.json({ error: 'Invalid code' }, { status: 400 });
+    }
+
+    await logAuditAction({
+      ...auditActor(payload),
+      action: 'mfa_enabled',
+      entityType: accountType,
+      entityId: payload.userId,
+      ipAddress: getClientIp(request.headers),
+    });
+
+    // Swap the session for one that records the second factor, which admins
+    // need before they can reach the dashboard
+    await revokeSession(payload);
+    const session = await issueSession(
+      {
+        id: payload.userId,
+        email: payload.email,
+        role: payload.role,
+        accountType,
+        mfa: true,
+      },
+      request
+    );
+
+    return sessionResponse(request, { backupCodes }, session);
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('MFA enable error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * MFA Status API Route
+ * Reports whether two-factor authentication is set up for the current account
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { countUnusedBackupCodes } from '@/lib/db-auth';
+import { isMfaEnabled, isMfaRequired } from '@/lib/mfa';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const payload = await getSession();
+
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const accountType = payload.accountType || 'user';
+    const enabled = await isMfaEnabled(accountType, payload.userId);
+
+    return NextResponse.json(
+      {
+        enabled,
+        required: isMfaRequired(accountType),
+        backupCodesRemaining: enabled
+          ? await countUnusedBackupCodes(accountType, payload.userId)
+          : 0,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('MFA status error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
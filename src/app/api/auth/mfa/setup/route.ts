@@ -0,0 +1,56 @@
+/**
+ * MFA Setup API Route
+ * Generates a TOTP secret and the QR code to scan into an authenticator app
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import { beginEnrolment, isMfaEnabled } from '@/lib/mfa';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+import { forbidImpersonation, AuthorizationError, authorizationErrorResponse } from '@/lib/authorization';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await getSession();
+
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    forbidImpersonation(payload);
+
+    const accountType = payload.accountType || 'user';
+
+    if (await isMfaEnabled(accountType, payload.userId)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      );
+    }
+
+    const enrolment = await beginEnrolment({
+      id: payload.userId,
+      email: payload.email,
+      role: payload.role,
+      accountType,
+    });
+
+    return NextResponse.json(enrolment, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('MFA setup error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * MFA Verify API Route
+ * Second login step: exchanges the mfa pending token from a login response
+ * and a TOTP or backup code for a session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { issueSession, sessionResponse } from '@/lib/session';
+import {
+  getUserById,
+  getAdminById,
+  updateLastLogin,
+  updateAdminLastLogin,
+  logAuditAction,
+} from '@/lib/db-auth';
+import { verifyMfaPendingToken, verifySecondFactor } from '@/lib/mfa';
+import { getClientIp } from '@/lib/client-ip';
+import {
+  checkLoginAllowed,
+  recordFailedLogin,
+  clearFailedLogins,
+  loginThrottledResponse,
+} from '@/lib/login-throttle';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const body = await request.json();
+    const { mfaToken, code } = body;
+
+    if (!mfaToken || !code) {
+      return NextResponse.json(
+        { error: 'MFA token and code are required' },
+        { status: 400 }
+      );
+    }
+
+    const pending = await verifyMfaPendingToken(mfaToken);
+    if (!pending) {
+      return NextResponse.json(
+        { error: 'Login has expired, please sign in again' },
+        { status: 401 }
+      );
+    }
+
+    const accountType = pending.accountType || 'user';
+    const ipAddress = getClientIp(request.headers);
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const throttle = await checkLoginAllowed(pending.email, ipAddress);
+    if (!throttle.allowed) {
+      return loginThrottledResponse(throttle);
+    }
+
+    // The account may have been cancelled since the password step
+    const user =
+      accountType === 'admin'
+        ? await getAdminById(pending.userId)
+        : await getUserById(pending.userId);
+    if (!user || user.status !== 'Active') {
+      return NextResponse.json(
+        { error: 'Login has expired, please sign in again' },
+        { status: 401 }
+      );
+    }
+
+    const factor = await verifySecondFactor(accountType, user.id, code);
+    if (!factor) {
+      await logAuditAction({
+        userId: user.id,
+        actorType: accountType,
+        action: 'mfa_failed',
+        entityType: accountType,
+        entityId: user.id,
+        ipAddress,
+      });
+
+      const failure = await recordFailedLogin(pending.email, ipAddress, user);
+      if (failure.locked) {
+        return loginThrottledResponse(failure);
+      }
+      return NextResponse.json({ error: 'Invalid code' }, { status: 401 });
+    }
+
+    await clearFailedLogins(pending.email);
+
+    if (accountType === 'admin') {
+      await updateAdminLastLogin(user.id);
+    } else {
+      await updateLastLogin(user.id);
+    }
+
+    const session = await issueSession(
+      {
+        id: user.id,
+        email: user.email,
+        role: user.role as typeof pending.role,
+        accountType,
+        mfa: true,
+      },
+      request
+    );
+
+    await logAuditAction({
+      userId: user.id,
+      actorType: accountType,
+      action: accountType === 'admin' || user.role !== 'user' ? 'admin_login' : 'login',
+      entityType: accountType,
+      entityId: user.id,
+      changes: { second_factor: factor },
+      ipAddress,
+    });
+
+    // Browsers get httpOnly cookies; clients sending X-Auth-Transport: bearer get tokens in the body
+    return sessionResponse(
+      request,
+      {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          plan: user.plan,
+          status: user.status,
+        },
+      },
+      session,
+      200
+    );
+  } catch (error: any) {
+    console.error('MFA verify error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
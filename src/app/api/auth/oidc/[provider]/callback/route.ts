@@ -0,0 +1,141 @@
+/**
+ * OIDC Callback API Route
+ * The provider redirects here after sign-in. Verifies the response, signs in
+ * the linked user (linking or creating one by verified email) and redirects
+ * back into the app. Failures go back to the login page with an error code.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { OIDC_STATE_COOKIE } from '@/lib/auth-constants';
+import { setSessionCookies, clearOidcStateCookie } from '@/lib/auth-cookies';
+import { issueSession } from '@/lib/session';
+import { updateLastLogin, logAuditAction } from '@/lib/db-auth';
+import { isMfaEnabled, createMfaPendingToken } from '@/lib/mfa';
+import {
+  getOidcProvider,
+  readOidcLoginState,
+  completeOidcLogin,
+  resolveOidcAccount,
+  OidcError,
+} from '@/lib/oidc';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { provider: string };
+}
+
+// Back to the login page; the state cookie is single-use either way
+function loginRedirect(request: NextRequest, search: string, hash: string = ''): NextResponse {
+  const url = new URL(`/login${search}`, request.nextUrl.origin);
+  url.hash = hash;
+  const response = NextResponse.redirect(url);
+  clearOidcStateCookie(response);
+  return response;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const provider = getOidcProvider(params.provider);
+    if (!provider) {
+      return NextResponse.json({ error: 'Unknown sign-in provider' }, { status: 404 });
+    }
+
+    const loginState = await readOidcLoginState(
+      provider,
+      request.cookies.get(OIDC_STATE_COOKIE)?.value
+    );
+    if (!loginState) {
+      return loginRedirect(request, '?error=oidc_expired');
+    }
+
+    const profile = await completeOidcLogin(
+      provider,
+      loginState,
+      request.nextUrl.searchParams,
+      request.nextUrl.origin
+    );
+    const { user, outcome, passwordDiscarded } = await resolveOidcAccount(provider, profile);
+    const ipAddress = getClientIp(request.headers);
+
+    if (outcome === 'created') {
+      await logAuditAction({
+        userId: user.id,
+        actorType: 'user',
+        action: 'user_signup',
+        entityType: 'user',
+        entityId: user.id,
+        changes: { provider: provider.id },
+        ipAddress,
+      });
+    } else if (outcome === 'linked') {
+      await logAuditAction({
+        userId: user.id,
+        actorType: 'user',
+        action: 'identity_linked',
+        entityType: 'user',
+        entityId: user.id,
+        changes: { provider: provider.id, email: profile.email, password_discarded: !!passwordDiscarded },
+        ipAddress,
+      });
+    }
+
+    if (user.status === 'Cancelled') {
+      return loginRedirect(request, '?error=account_cancelled');
+    }
+
+    const returnTo = `?returnTo=${encodeURIComponent(loginState.returnTo)}`;
+
+    // The provider stands in for the password; a second factor is still
+    // asked for on the login page. The pending token goes in the fragment
+    // so it stays out of server logs.
+    if (await isMfaEnabled('user', user.id)) {
+      const mfaToken = await createMfaPendingToken({
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        accountType: 'user',
+      });
+      return loginRedirect(request, returnTo, `mfa=${mfaToken}`);
+    }
+
+    await updateLastLogin(user.id);
+
+    const session = await issueSession(
+      {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        accountType: 'user',
+      },
+      request
+    );
+
+    await logAuditAction({
+      userId: user.id,
+      actorType: 'user',
+      action: 'login',
+      entityType: 'user',
+      entityId: user.id,
+      changes: { provider: provider.id },
+      ipAddress,
+    });
+
+    const response = NextResponse.redirect(new URL(loginState.returnTo, request.nextUrl.origin));
+    setSessionCookies(response, session);
+    clearOidcStateCookie(response);
+    return response;
+  } catch (error: any) {
+    if (error instanceof OidcError) {
+      console.warn(`OIDC callback rejected (${params.provider}):`, error.message);
+      return loginRedirect(request, `?error=${error.code}`);
+    }
+    console.error('OIDC callback error:', error);
+    return loginRedirect(request, '?error=oidc_failed');
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * OIDC Login API Route
+ * Starts a sign-in with a provider: remembers the PKCE verifier, state and
+ * nonce in a cookie and redirects to the provider's authorization page
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { setOidcStateCookie } from '@/lib/auth-cookies';
+import { getOidcProvider, beginOidcLogin, safeReturnTo } from '@/lib/oidc';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { provider: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const provider = getOidcProvider(params.provider);
+    if (!provider) {
+      return NextResponse.json({ error: 'Unknown sign-in provider' }, { status: 404 });
+    }
+
+    const returnTo = safeReturnTo(request.nextUrl.searchParams.get('returnTo'));
+    const { authorizationUrl, stateCookie } = await beginOidcLogin(
+      provider,
+      request.nextUrl.origin,
+      returnTo
+    );
+
+    const response = NextResponse.redirect(authorizationUrl);
+    setOidcStateCookie(response, stateCookie);
+    return response;
+  } catch (error: any) {
+    console.error('OIDC login error:', error);
+    return NextResponse.redirect(new URL('/login?error=oidc_failed', request.nextUrl.origin));
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * OIDC Providers API Route
+ * Lists the sign-in providers configured for this deployment, for the
+ * buttons on the login and signup pages
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOidcProviders } from '@/lib/oidc';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const providers = getOidcProviders().map(provider => ({
+      id: provider.id,
+      name: provider.name,
+    }));
+
+    return NextResponse.json({ providers }, { status: 200 });
+  } catch (error: any) {
+    console.error('Get OIDC providers error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Refresh API Route
+ * Exchanges a refresh token for a new access/refresh token pair
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { rotateRefreshToken, sessionResponse } from '@/lib/session';
+import { REFRESH_COOKIE } from '@/lib/auth-constants';
+import { clearSessionCookies, isBearerAuthEnabled, verifyCsrf } from '@/lib/auth-cookies';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    // Browsers send the refresh cookie. Clients still holding a bearer refresh
+    // token post it in the body; without X-Auth-Transport: bearer they are
+    // moved over to cookies by the response.
+    let refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+    if (!refreshToken && isBearerAuthEnabled()) {
+      const body = await request.json().catch(() => ({}));
+      refreshToken = body.refreshToken;
+    }
+
+    if (!refreshToken) {
+      return NextResponse.json(
+        { error: 'Refresh token is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await rotateRefreshToken(refreshToken, request);
+
+    if (!result.ok) {
+      const error =
+        result.reason === 'reused'
+          ? 'Refresh token has already been used; session revoked'
+          : 'Invalid or expired refresh token';
+      const response = NextResponse.json({ error }, { status: 401 });
+      clearSessionCookies(response);
+      return response;
+    }
+
+    return sessionResponse(request, {}, result.session);
+  } catch (error: any) {
+    console.error('Refresh error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
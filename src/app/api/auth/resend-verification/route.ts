@@ -0,0 +1,59 @@
+/**
+ * Resend Verification API Route
+ * Emails a new verification link to an account that hasn't been verified yet
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserByEmail, logAuditAction } from '@/lib/db-auth';
+import { sendVerificationEmail, RESEND_COOLDOWN_SECONDS } from '@/lib/email-verification';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'email');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const body = await request.json();
+    const { email } = body;
+
+    if (!email) {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
+    }
+
+    // The response doesn't say whether the account exists, is already
+    // verified or is still in its cooldown
+    const response = NextResponse.json(
+      {
+        message: 'If that account is awaiting verification, a new link has been sent',
+        retryAfter: RESEND_COOLDOWN_SECONDS,
+      },
+      { status: 200 }
+    );
+
+    const user = await getUserByEmail(email);
+    if (!user || user.status !== 'pending_verification') {
+      return response;
+    }
+
+    const sent = await sendVerificationEmail(user, request.nextUrl.origin);
+
+    if (sent) {
+      await logAuditAction({
+        userId: user.id,
+        actorType: 'user',
+        action: 'verification_email_resent',
+        entityType: 'user',
+        entityId: user.id,
+        ipAddress: getClientIp(request.headers),
+      });
+    }
+
+    return response;
+  } catch (error: any) {
+    console.error('Resend verification error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
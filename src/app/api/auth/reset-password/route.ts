@@ -0,0 +1,84 @@
+/**
+ * Reset Password API Route
+ * Sets a new password using a token from the forgot password email
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPasswordResetUser,
+  consumePasswordResetToken,
+  updatePassword,
+  revokeAllSessions,
+  logAuditAction,
+} from '@/lib/db-auth';
+import { hashToken } from '@/lib/tokens';
+import { checkPassword } from '@/lib/password-policy';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const body = await request.json();
+    const { token, password } = body;
+
+    if (!token || !password) {
+      return NextResponse.json(
+        { error: 'Token and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const tokenHash = hashToken(token);
+    const resetUser = await getPasswordResetUser(tokenHash);
+    if (!resetUser) {
+      return NextResponse.json(
+        { error: 'Reset link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    // Checked before the token is used up so a rejected password doesn't
+    // burn the link
+    const { error: passwordError } = checkPassword(password, [resetUser.email, resetUser.name]);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    const userId = await consumePasswordResetToken(tokenHash);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Reset link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    await updatePassword(userId, password);
+
+    // Anyone who knew the old password is signed out everywhere
+    const sessionsRevoked = await revokeAllSessions('user', userId);
+
+    await logAuditAction({
+      userId,
+      actorType: 'user',
+      action: 'password_reset',
+      entityType: 'user',
+      entityId: userId,
+      changes: { sessions_revoked: sessionsRevoked },
+      ipAddress: getClientIp(request.headers),
+    });
+
+    return NextResponse.json(
+      { message: 'Password has been reset. Please log in with your new password.' },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Reset password error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
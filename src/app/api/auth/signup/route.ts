@@ -1,15 +1,24 @@
 /**
  * Signup API Route
- * Creates a new user account in the database
+ * Creates a new user account and emails a verification link. The account
+ * can log in once the email address has been confirmed.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createUser } from '@/lib/db-auth';
-import { createJWT } from '@/lib/jwt';
 import { logAuditAction } from '@/lib/db-auth';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import { checkPassword } from '@/lib/password-policy';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
 
 export async function POST(request: NextRequest) {
   try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
     const body = await request.json();
     const { email, password, name } = body;
 
@@ -21,29 +30,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { error: passwordError } = checkPassword(password, [email, name]);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
     // Create user
     const user = await createUser({
       email,
       password,
       name,
-      role: 'user',
-      plan: 'Starter',
+      status: 'pending_verification',
     });
 
-    // Create JWT token
-    const token = await createJWT({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    // The account exists either way; if the email fails the user can ask
+    // for another one from the login page
+    try {
+      await sendVerificationEmail(user, request.nextUrl.origin);
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+    }
 
     // Log audit action
     await logAuditAction({
       userId: user.id,
+      actorType: 'user',
       action: 'user_signup',
       entityType: 'user',
       entityId: user.id,
-      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+      ipAddress: getClientIp(request.headers),
     });
 
     return NextResponse.json(
@@ -54,8 +69,10 @@ export async function POST(request: NextRequest) {
           name: user.name,
           role: user.role,
           plan: user.plan,
+          status: user.status,
         },
-        token,
+        verificationRequired: true,
+        message: 'Account created. Check your email for a link to verify your address.',
       },
       { status: 201 }
     );
@@ -0,0 +1,62 @@
+/**
+ * Verify Email API Route
+ * Activates an account using the token from the verification email
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserById, markEmailVerified, logAuditAction } from '@/lib/db-auth';
+import { verifyEmailToken } from '@/lib/email-verification';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'auth');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const body = await request.json();
+    const { token } = body;
+
+    if (!token) {
+      return NextResponse.json({ error: 'Token is required' }, { status: 400 });
+    }
+
+    const verified = await verifyEmailToken(token);
+    if (!verified) {
+      return NextResponse.json(
+        { error: 'Verification link is invalid or has expired', code: 'invalid_token' },
+        { status: 400 }
+      );
+    }
+
+    const activated = await markEmailVerified(verified.userId, verified.email);
+
+    if (!activated) {
+      // Opening the link twice is fine; anything else means the link is stale
+      const user = await getUserById(verified.userId);
+      if (user && user.status === 'Active' && user.email === verified.email) {
+        return NextResponse.json({ message: 'Email already verified' }, { status: 200 });
+      }
+      return NextResponse.json(
+        { error: 'Verification link is invalid or has expired', code: 'invalid_token' },
+        { status: 400 }
+      );
+    }
+
+    await logAuditAction({
+      userId: verified.userId,
+      actorType: 'user',
+      action: 'email_verified',
+      entityType: 'user',
+      entityId: verified.userId,
+      ipAddress: getClientIp(request.headers),
+    });
+
+    return NextResponse.json({ message: 'Email verified. You can now log in.' }, { status: 200 });
+  } catch (error: any) {
+    console.error('Verify email error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
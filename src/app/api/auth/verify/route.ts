@@ -1,56 +1,39 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from '@/lib/jwt';
-import { getUserById } from '@/lib/db-auth';
-
-export async function GET(request: NextRequest) {
-  try {
-    const auth = request.headers.get('authorization') || '';
-    const token = auth.startsWith('Bearer ') ? auth.slice(7) : null;
-
-    if (!token) {
-      return NextResponse.json({ error: 'No token provided' }, { status: 401 });
-    }
-
-    const payload = await verifyJWT(token);
-    if (!payload) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-    }
-
-    const user = await getUserById(payload.userId);
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
-
-    return NextResponse.json({ user }, { status: 200 });
-  } catch (err: any) {
-    console.error('Verify error:', err);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
-  }
-}
 /**
  * Verify token / Get current user API Route
  * Returns the current authenticated user information
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from '@/lib/jwt';
-import { getUserById, getSubscription } from '@/lib/db-auth';
+import { getSession } from '@/lib/session';
+import { getUserById, getAdminById, getSubscription } from '@/lib/db-auth';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
 
 export async function GET(request: NextRequest) {
   try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
     }
 
-    const token = authHeader.substring(7);
-    const payload = await verifyJWT(token);
+    // Session cookie, or Authorization header for bearer clients
+    const payload = await getSession();
 
     if (!payload) {
       return NextResponse.json({ error: 'Invalid or expired token' }, { status: 401 });
     }
 
+    // lets the client schedule a refresh before the access token expires
+    const expiresAt = payload.exp ? new Date(payload.exp * 1000).toISOString() : undefined;
+
+    // Admins from the separate admins table have no subscription
+    if (payload.accountType === 'admin') {
+      const admin = await getAdminById(payload.userId);
+      if (!admin) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+      return NextResponse.json({ user: admin, expiresAt }, { status: 200 });
+    }
+
     // Get user from database
     const user = await getUserById(payload.userId);
     if (!user) {
@@ -60,12 +43,22 @@ export async function GET(request: NextRequest) {
     // Get latest subscription
     const subscription = await getSubscription(user.id);
 
+    // drives the "viewing as" banner
+    const impersonator = payload.impersonator
+      ? {
+          email: payload.impersonator.email,
+          until: new Date(payload.impersonator.until * 1000).toISOString(),
+        }
+      : undefined;
+
     return NextResponse.json(
       {
         user: {
           ...user,
           subscription: subscription || undefined,
+          impersonator,
         },
+        expiresAt,
       },
       { status: 200 }
     );
@@ -0,0 +1,39 @@
+/**
+ * Personal data housekeeping
+ * Anonymises accounts whose deletion cooling-off period is over and removes
+ * expired data export archives. Call it periodically (e.g. hourly from cron)
+ * with `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, timingSafeEqual } from 'crypto';
+import { processDueAccountDeletions } from '@/lib/account-deletion';
+import { deleteExpiredDataExportArchives } from '@/lib/data-export';
+
+// compare digests so the check takes the same time whatever the input length
+function isCronAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+  if (!secret || !authHeader || !authHeader.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(authHeader.substring(7)), digest(secret));
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isCronAuthorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const accountsAnonymised = await processDueAccountDeletions();
+    const exportsRemoved = await deleteExpiredDataExportArchives();
+
+    return NextResponse.json({ accountsAnonymised, exportsRemoved }, { status: 200 });
+  } catch (error: any) {
+    console.error('Personal data housekeeping error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
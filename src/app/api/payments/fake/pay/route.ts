@@ -0,0 +1,78 @@
+/**
+ * Fake Payment API Route (development only)
+ * POST /api/payments/fake/pay - Settle one of the current user's orders with
+ *   the fake provider, as the gateway's checkout would: the signed webhook
+ *   is delivered to the webhook route and, for a successful payment, the
+ *   signed checkout response is returned for the browser to verify.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import { getPaymentOrder } from '@/lib/db-auth';
+import { getPaymentProviderById } from '@/lib/payments';
+import { simulateFakePayment } from '@/lib/payment-fake';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    // only while the fake provider is the configured one, which is never
+    // the case in production
+    if (!getPaymentProviderById('fake')) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    const body = await request.json();
+    const { orderId, outcome } = body;
+    if (outcome !== 'paid' && outcome !== 'failed') {
+      return NextResponse.json({ error: 'outcome must be paid or failed' }, { status: 400 });
+    }
+
+    const order = await getPaymentOrder(orderId);
+    if (!order || order.user_id !== payload.userId || order.provider !== 'fake') {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const result = simulateFakePayment(
+      { providerOrderId: order.provider_order_id, amount: order.amount, currency: order.currency },
+      outcome
+    );
+
+    const delivery = await fetch(new URL('/api/payments/webhook/fake', request.nextUrl.origin), {
+      method: 'POST',
+      headers: result.webhook.headers,
+      body: result.webhook.body,
+    }).catch(error => {
+      console.error('Fake payment webhook delivery error:', error);
+      return null;
+    });
+
+    return NextResponse.json(
+      { checkoutResponse: result.checkoutResponse, webhookStatus: delivery ? delivery.status : null },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Fake payment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
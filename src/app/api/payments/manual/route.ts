@@ -0,0 +1,145 @@
+/**
+ * Manual Payment API Route
+ * GET /api/payments/manual - The current user's latest reported transfer
+ *   and its review status
+ * POST /api/payments/manual - Report a UPI transfer for review (multipart
+ *   form: attemptId or packageId and billingPeriod, utr and an optional
+ *   screenshot). Opens a pending_payment subscription until an admin
+ *   approves or rejects it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import { getLatestPaymentSubmission, getPaymentAttempt } from '@/lib/db-auth';
+import { getPackagePurchase, PaymentError } from '@/lib/payments';
+import { normaliseUtr, submitManualPayment, PAYMENT_FORM_MAX_BYTES } from '@/lib/payment-review';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const payload = await requireUserSession();
+
+    const submission = await getLatestPaymentSubmission(payload.userId);
+
+    return NextResponse.json(
+      {
+        submission: submission && {
+          id: submission.id,
+          plan: submission.plan,
+          billing_period: submission.billing_period,
+          amount: submission.amount,
+          currency: submission.currency,
+          utr: submission.utr,
+          status: submission.status,
+          rejection_reason: submission.rejection_reason,
+          created_at: submission.created_at,
+          reviewed_at: submission.reviewed_at,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('Get manual payment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    // refuse oversized uploads before the body is read into memory
+    const contentLength = Number(request.headers.get('content-length'));
+    if (!request.headers.get('content-length') || !Number.isInteger(contentLength)) {
+      return NextResponse.json({ error: 'Content-Length is required' }, { status: 411 });
+    }
+    if (contentLength > PAYMENT_FORM_MAX_BYTES) {
+      return NextResponse.json({ error: 'The screenshot must be 5 MB or smaller' }, { status: 413 });
+    }
+
+    const form = await request.formData().catch(() => null);
+    if (!form) {
+      return NextResponse.json({ error: 'Invalid form data' }, { status: 400 });
+    }
+
+    const utr = normaliseUtr(form.get('utr'));
+    if (!utr) {
+      return NextResponse.json(
+        { error: 'Enter the UTR or transaction reference from your payment app' },
+        { status: 400 }
+      );
+    }
+
+    let payment: Parameters<typeof submitManualPayment>[0]['payment'];
+    let plan: string;
+
+    const attemptId = form.get('attemptId');
+    if (typeof attemptId === 'string' && attemptId) {
+      const attempt = await getPaymentAttempt(attemptId);
+      if (!attempt || attempt.user_id !== payload.userId) {
+        return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
+      }
+      payment = { attempt };
+      plan = attempt.plan;
+    } else {
+      const purchase = await getPackagePurchase(form.get('packageId'), form.get('billingPeriod'));
+      if (!purchase) {
+        return NextResponse.json({ error: 'Invalid package or billing period' }, { status: 400 });
+      }
+      payment = purchase;
+      plan = purchase.pkg.name;
+    }
+
+    const screenshot = form.get('screenshot');
+
+    const submissionId = await submitManualPayment({
+      userId: payload.userId,
+      payment,
+      utr,
+      screenshot: screenshot instanceof File && screenshot.size > 0 ? screenshot : null,
+      ipAddress: getClientIp(request.headers),
+    });
+
+    return NextResponse.json(
+      {
+        message: `Thanks! We will activate your ${plan} subscription as soon as we have confirmed the payment.`,
+        submissionId,
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    if (error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Submit manual payment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Verify Payment API Route
+ * POST /api/payments/orders/[id]/verify - Finish checkout with the signed
+ *   response the provider gave the browser. The plan is activated once the
+ *   signature verifies; an order the webhook already settled just reports
+ *   the active subscription.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import { getPaymentOrder, getSubscription } from '@/lib/db-auth';
+import { getPaymentProviderById, confirmCheckout, PaymentError } from '@/lib/payments';
+import { getClientIp } from '@/lib/client-ip';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    const order = await getPaymentOrder(params.id);
+    if (!order || order.user_id !== payload.userId) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    if (order.status !== 'paid') {
+      const provider = getPaymentProviderById(order.provider);
+      if (!provider) {
+        return NextResponse.json({ error: 'Payments are not available' }, { status: 503 });
+      }
+
+      const body = await request.json();
+      await confirmCheckout(provider, order, body, getClientIp(request.headers));
+    }
+
+    return NextResponse.json(
+      {
+        message: `Your ${order.plan} subscription is now active.`,
+        subscription: await getSubscription(order.user_id),
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    if (error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Verify payment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Payment Orders API Route
+ * POST /api/payments/orders - Create an order with the payment provider
+ *   for a package at one of its price points. The price is set by the
+ *   server; the response carries what the browser needs to open the
+ *   provider's checkout.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import { getUserById } from '@/lib/db-auth';
+import { getPaymentProvider, getPackagePurchase, startPlanPayment, PaymentError } from '@/lib/payments';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    const body = await request.json();
+    const purchase = await getPackagePurchase(body.packageId, body.billingPeriod);
+    if (!purchase) {
+      return NextResponse.json({ error: 'Invalid package or billing period' }, { status: 400 });
+    }
+
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return NextResponse.json({ error: 'Payments are not available' }, { status: 503 });
+    }
+
+    const user = await getUserById(payload.userId);
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { orderId, checkout } = await startPlanPayment(provider, user, purchase);
+
+    return NextResponse.json({ orderId, checkout }, { status: 201 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    if (error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Create payment order error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
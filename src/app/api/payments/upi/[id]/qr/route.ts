@@ -0,0 +1,54 @@
+/**
+ * UPI QR Code API Route
+ * GET /api/payments/upi/[id]/qr - The QR code of one of the current user's
+ *   UPI payment attempts, as SVG (default) or PNG with ?format=png
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireUserSession,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import { getPaymentAttempt } from '@/lib/db-auth';
+import { buildAttemptIntent, renderUpiQrSvg, renderUpiQrPng } from '@/lib/upi';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const payload = await requireUserSession();
+
+    const attempt = await getPaymentAttempt(params.id);
+    if (!attempt || attempt.user_id !== payload.userId) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
+    }
+
+    const intentUri = buildAttemptIntent(attempt);
+
+    const headers = { 'Cache-Control': 'private, no-store' };
+
+    if (request.nextUrl.searchParams.get('format') === 'png') {
+      const dataUrl = await renderUpiQrPng(intentUri);
+      const png = Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64');
+      return new NextResponse(png, { headers: { ...headers, 'Content-Type': 'image/png' } });
+    }
+
+    const svg = await renderUpiQrSvg(intentUri);
+    return new NextResponse(svg, { headers: { ...headers, 'Content-Type': 'image/svg+xml' } });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    console.error('UPI QR code error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
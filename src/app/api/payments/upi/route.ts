@@ -0,0 +1,58 @@
+/**
+ * UPI Payment API Route
+ * POST /api/payments/upi - Start paying for a plan by UPI: records an
+ *   attempt with a unique transaction reference and returns the UPI intent
+ *   link and its QR code for the plan's exact price
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCsrf } from '@/lib/auth-cookies';
+import {
+  requireUserSession,
+  forbidImpersonation,
+  AuthorizationError,
+  authorizationErrorResponse,
+} from '@/lib/authorization';
+import { getPackagePurchase, PaymentError } from '@/lib/payments';
+import { getUpiPayee, startUpiPayment } from '@/lib/upi';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    if (!verifyCsrf(request)) {
+      return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+    }
+
+    const payload = await requireUserSession();
+    forbidImpersonation(payload);
+
+    const body = await request.json();
+    const purchase = await getPackagePurchase(body.packageId, body.billingPeriod);
+    if (!purchase) {
+      return NextResponse.json({ error: 'Invalid package or billing period' }, { status: 400 });
+    }
+
+    const payee = getUpiPayee();
+    if (!payee) {
+      return NextResponse.json({ error: 'UPI payments are not available' }, { status: 503 });
+    }
+
+    const payment = await startUpiPayment(payee, payload.userId, purchase);
+
+    return NextResponse.json(payment, { status: 201 });
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return authorizationErrorResponse(error);
+    }
+    if (error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Start UPI payment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Payment Webhook API Route
+ * POST /api/payments/webhook/[provider] - Payment events from the provider.
+ *   The raw body must carry a valid HMAC signature; events are applied once
+ *   and a captured payment activates the order's plan.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentProviderById, handlePaymentEvent } from '@/lib/payments';
+import { checkRateLimit, rateLimitedResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: { provider: string };
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
+    const provider = getPaymentProviderById(params.provider);
+    if (!provider) {
+      return NextResponse.json({ error: 'Unknown payment provider' }, { status: 404 });
+    }
+
+    // the signature covers the exact bytes sent, so read the body as text
+    const rawBody = await request.text();
+    const event = provider.parseWebhook(rawBody, request.headers);
+    if (!event) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    await handlePaymentEvent(provider, event);
+
+    return NextResponse.json({ received: true }, { status: 200 });
+  } catch (error: any) {
+    console.error('Payment webhook error:', error);
+    // a 5xx makes the provider retry the delivery
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
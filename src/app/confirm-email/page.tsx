@@ -0,0 +1,78 @@
+'use client';
+
+import { useState, useEffect } from "react";
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+
+type ConfirmState = 'confirming' | 'confirmed' | 'failed';
+
+export default function ConfirmEmailPage() {
+  const [state, setState] = useState<ConfirmState>('confirming');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const confirm = async () => {
+      const token = new URLSearchParams(window.location.search).get('token');
+      if (!token) {
+        setState('failed');
+        setMessage('This confirmation link is incomplete');
+        return;
+      }
+
+      try {
+        const res = await fetch('/api/account/email/confirm', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const data = await res.json();
+
+        if (!res.ok) {
+          throw new Error(data.error || 'Confirmation failed');
+        }
+
+        setState('confirmed');
+        setMessage(data.message);
+      } catch (error) {
+        setState('failed');
+        setMessage((error as Error).message);
+      }
+    };
+
+    confirm();
+  }, []);
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-2xl">
+            {state === 'confirming' && 'Confirming Email'}
+            {state === 'confirmed' && 'Email Changed'}
+            {state === 'failed' && 'Confirmation Failed'}
+          </CardTitle>
+          <CardDescription>
+            {state === 'confirming' ? (
+              <span className="flex items-center">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Please wait...
+              </span>
+            ) : state === 'failed' ? (
+              `${message}. Request a new link from your account page.`
+            ) : (
+              message
+            )}
+          </CardDescription>
+        </CardHeader>
+        {state !== 'confirming' && (
+          <CardFooter>
+            <Link href="/account" className="underline text-sm">
+              Go to your account
+            </Link>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -3,29 +3,49 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import Image from "next/image";
-import { CheckCircle, Bell } from "lucide-react";
+import { CheckCircle, Bell, Clock, XCircle } from "lucide-react";
 import { format } from "date-fns";
-import type { Subscription, Plan } from "@/lib/schema";
-import { getUserSubscription, activateSubscription } from "@/app/actions";
+import type { Subscription, Package, BillingPeriod, PackagePrice } from "@/lib/schema";
+import type { PackagePurchase } from "@/lib/payments";
+import { getUserSubscription, getActivePackagesAction } from "@/app/actions";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useRouter } from "next/navigation";
+import { authFetch } from "@/lib/auth-client";
+import { PlanCheckout } from "@/components/billing/plan-checkout";
+import { UpiPayment } from "@/components/billing/upi-payment";
+import { InvoiceList } from "@/components/billing/invoice-list";
+import { BILLING_PERIOD_LABELS, BILLING_PERIOD_SUFFIXES, formatMoney, formatPackagePrice, pricePoints } from "@/lib/pricing";
 
-const packages: Plan[] = [
-  { name: "Starter", price: "₹2,499/mo", features: ["Basic Analytics", "Copy 5 Traders", "Community Access"] },
-  { name: "Pro", price: "₹6,599/mo", features: ["Advanced Analytics", "Copy 20 Traders", "Priority Support", "Webinars"] },
-  { name: "Expert", price: "₹12,499/mo", features: ["Pro Features+", "API Access", "Dedicated Manager", "Exclusive Signals"] },
-];
+// the latest UPI transfer the user reported for manual review
+interface PaymentSubmission {
+  plan: string;
+  billing_period: BillingPeriod;
+  amount: number;
+  currency: string;
+  utr: string;
+  status: 'pending' | 'approved' | 'rejected';
+  rejection_reason: string | null;
+}
+
+// free price points can't be paid for, so aren't offered here
+function offeredPrices(pkg: Package): PackagePrice[] {
+  return pricePoints(pkg).filter(point => point.price > 0);
+}
 
 export default function DashboardPage() {
-    const [selectedPlan, setSelectedPlan] = useState<Plan | null>(null);
+    const [packages, setPackages] = useState<Package[]>([]);
+    // the billing period picked on each package's card, by package id
+    const [selectedPeriods, setSelectedPeriods] = useState<Record<string, BillingPeriod>>({});
+    const [selectedPlan, setSelectedPlan] = useState<PackagePurchase | null>(null);
     const [isDialogOpen, setDialogOpen] = useState(false);
     const [activeSubscription, setActiveSubscription] = useState<Subscription | null>(null);
+    const [paymentSubmission, setPaymentSubmission] = useState<PaymentSubmission | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const { toast } = useToast();
-    const { user, token, loading: authLoading } = useAuth();
+    const { user, loading: authLoading } = useAuth();
     const router = useRouter();
 
     useEffect(() => {
@@ -35,13 +55,18 @@ export default function DashboardPage() {
     }, [user, authLoading, router]);
 
     const fetchSubscription = async () => {
-        if (!user || !token) return;
+        if (!user) return;
         setIsLoading(true);
         try {
-            const sub = await getUserSubscription(token);
+            const [sub, activePackages] = await Promise.all([getUserSubscription(), getActivePackagesAction()]);
             if (sub) {
                 setActiveSubscription(sub);
             }
+            setPackages(activePackages.filter(pkg => offeredPrices(pkg).length > 0));
+            const res = await authFetch('/api/payments/manual');
+            if (res.ok) {
+                setPaymentSubmission((await res.json()).submission);
+            }
         } catch (error) {
             console.error('Error fetching subscription:', error);
             toast({
@@ -56,65 +81,80 @@ export default function DashboardPage() {
 
     useEffect(() => {
         fetchSubscription();
-    }, [user, token]);
+    }, [user]);
 
 
-    const handleChoosePlan = (pkg: Plan) => {
-        setSelectedPlan(pkg);
+    const handleChoosePlan = (pkg: Package, pricePoint: PackagePrice) => {
+        setSelectedPlan({ pkg, pricePoint });
         setDialogOpen(true);
     };
 
-    const handleActivatePlan = async () => {
-        if (selectedPlan && token) {
-            try {
-                await activateSubscription(token, selectedPlan.name);
-                toast({ title: "Success!", description: `Your ${selectedPlan.name} plan is now active.` });
-                fetchSubscription(); // Refresh subscription data
-                setDialogOpen(false);
-                setSelectedPlan(null);
-            } catch (error) {
-                 toast({
-                    title: "Activation Failed",
-                    description: (error as Error).message,
-                    variant: "destructive"
-                });
-            }
-        }
+    const handlePaid = (message: string) => {
+        toast({ title: "Success!", description: message });
+        fetchSubscription(); // Refresh subscription data
+        setDialogOpen(false);
+        setSelectedPlan(null);
     };
 
     if (authLoading || isLoading) {
         return <div className="container mx-auto px-4 py-8">Loading your dashboard...</div>
     }
 
+    const pendingPaymentNotice = paymentSubmission?.status === 'pending' && (
+        <div className="flex items-start p-4 mb-8 max-w-md mx-auto bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+            <Clock className="h-5 w-5 mr-3 mt-1 text-amber-500" />
+            <div>
+                <h4 className="font-semibold">Payment under review</h4>
+                <p className="text-sm text-muted-foreground">
+                    We are confirming your payment of {formatMoney(paymentSubmission.amount, paymentSubmission.currency)} for
+                    {" "}{paymentSubmission.plan} (UTR {paymentSubmission.utr}). We will email you as soon as it is done.
+                </p>
+            </div>
+        </div>
+    );
+
     if (activeSubscription && activeSubscription.status === 'Active') {
         return (
             <div className="container mx-auto px-4 py-8">
                 <h1 className="text-3xl font-bold mb-8">Your Dashboard</h1>
+                {pendingPaymentNotice}
                 <Card className="max-w-md mx-auto">
                     <CardHeader>
                         <CardTitle>Current Subscription</CardTitle>
-                        <CardDescription>You are subscribed to the {activeSubscription.plan} plan.</CardDescription>
+                        <CardDescription>You are subscribed to {activeSubscription.plan}.</CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
                         <div className="flex items-center justify-between p-4 bg-secondary rounded-lg">
-                            <span className="font-semibold text-primary">{activeSubscription.plan} Plan</span>
+                            <span className="font-semibold text-primary">{activeSubscription.plan}</span>
                             <span className="text-2xl font-bold">Active</span>
                         </div>
-                        <p className="text-muted-foreground">
-                            Your plan will automatically renew on <span className="font-semibold text-foreground">{format(new Date(activeSubscription.renewalDate), 'PPP')}</span>.
-                        </p>
-                        <div className="flex items-start p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
-                            <Bell className="h-5 w-5 mr-3 mt-1 text-blue-500" />
-                            <div>
-                                <h4 className="font-semibold">Reminder</h4>
-                                <p className="text-sm text-muted-foreground">We will send you a reminder 3 days before your renewal date.</p>
-                            </div>
-                        </div>
+                        {activeSubscription.amount != null && activeSubscription.currency && (
+                            <p className="text-muted-foreground">
+                                You pay <span className="font-semibold text-foreground">{formatMoney(activeSubscription.amount, activeSubscription.currency)}{BILLING_PERIOD_SUFFIXES[activeSubscription.billing_period ?? 'monthly']}</span>, the price when you subscribed.
+                            </p>
+                        )}
+                        {activeSubscription.renewal_date ? (
+                            <>
+                                <p className="text-muted-foreground">
+                                    Your plan will automatically renew on <span className="font-semibold text-foreground">{format(new Date(activeSubscription.renewal_date), 'PPP')}</span>.
+                                </p>
+                                <div className="flex items-start p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
+                                    <Bell className="h-5 w-5 mr-3 mt-1 text-blue-500" />
+                                    <div>
+                                        <h4 className="font-semibold">Reminder</h4>
+                                        <p className="text-sm text-muted-foreground">We will send you a reminder 3 days before your renewal date.</p>
+                                    </div>
+                                </div>
+                            </>
+                        ) : (
+                            <p className="text-muted-foreground">You have lifetime access; your plan never needs renewing.</p>
+                        )}
                     </CardContent>
                     <CardFooter>
                          <Button variant="outline" className="w-full">Manage Subscription</Button>
                     </CardFooter>
                 </Card>
+                <InvoiceList />
             </div>
         )
     }
@@ -124,17 +164,53 @@ export default function DashboardPage() {
         <div className="container mx-auto px-4 py-8">
         <h1 className="text-3xl font-bold mb-2">Welcome to your Dashboard</h1>
         <p className="text-muted-foreground mb-8">Choose a plan to unlock the full potential of Etrade.</p>
+        {pendingPaymentNotice}
+        {paymentSubmission?.status === 'rejected' && (
+            <div className="flex items-start p-4 mb-8 max-w-md mx-auto bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <XCircle className="h-5 w-5 mr-3 mt-1 text-red-500" />
+                <div>
+                    <h4 className="font-semibold">We could not confirm your payment</h4>
+                    <p className="text-sm text-muted-foreground">
+                        Your payment for {paymentSubmission.plan} (UTR {paymentSubmission.utr}) was not accepted: {paymentSubmission.rejection_reason}
+                    </p>
+                </div>
+            </div>
+        )}
         
         <div className="grid md:grid-cols-3 gap-8">
-            {packages.map((pkg) => (
-            <Card key={pkg.name} className="flex flex-col">
+            {packages.length === 0 && (
+                <p className="text-muted-foreground md:col-span-3">No plans are available right now. Please check back later.</p>
+            )}
+            {packages.map((pkg) => {
+            const prices = offeredPrices(pkg);
+            const pricePoint = prices.find(point => point.billing_period === selectedPeriods[pkg.id]) ?? prices[0];
+            return (
+            <Card key={pkg.id} className="flex flex-col">
                 <CardHeader>
                 <CardTitle>{pkg.name}</CardTitle>
-                <CardDescription className="text-4xl font-bold text-primary">{pkg.price}</CardDescription>
+                {prices.length > 1 && (
+                    <div className="flex flex-wrap gap-2 pt-2">
+                        {prices.map(point => (
+                            <Button
+                                key={point.billing_period}
+                                size="sm"
+                                variant={point.id === pricePoint.id ? "default" : "outline"}
+                                onClick={() => setSelectedPeriods(prev => ({ ...prev, [pkg.id]: point.billing_period }))}
+                            >
+                                {BILLING_PERIOD_LABELS[point.billing_period]}
+                            </Button>
+                        ))}
+                    </div>
+                )}
+                <CardDescription className="text-4xl font-bold text-primary">
+                    {formatPackagePrice(pkg, pricePoint)}{BILLING_PERIOD_SUFFIXES[pricePoint.billing_period]}
+                </CardDescription>
+                {pricePoint.savings_label && <Badge variant="secondary" className="w-fit">{pricePoint.savings_label}</Badge>}
+                {pkg.description && <p className="text-sm text-muted-foreground">{pkg.description}</p>}
                 </CardHeader>
                 <CardContent className="flex-grow">
                 <ul className="space-y-2 text-muted-foreground">
-                    {pkg.features.map((feature) => (
+                    {(pkg.features ?? []).map((feature) => (
                     <li key={feature} className="flex items-center">
                         <CheckCircle className="h-4 w-4 mr-2 text-green-500" />
                         {feature}
@@ -143,11 +219,13 @@ export default function DashboardPage() {
                 </ul>
                 </CardContent>
                 <div className="p-6 pt-0">
-                    <Button className="w-full" onClick={() => handleChoosePlan(pkg)}>Choose Plan</Button>
+                    <Button className="w-full" onClick={() => handleChoosePlan(pkg, pricePoint)}>Choose Plan</Button>
                 </div>
             </Card>
-            ))}
+            );
+            })}
         </div>
+        <InvoiceList />
         </div>
         
         {selectedPlan && (
@@ -155,22 +233,19 @@ export default function DashboardPage() {
                 <DialogHeader>
                     <DialogTitle>Complete Your Payment</DialogTitle>
                     <DialogDescription>
-                        Scan the QR code below to pay for the {selectedPlan.name} plan.
+                        Pay securely for {selectedPlan.pkg.name} ({BILLING_PERIOD_LABELS[selectedPlan.pricePoint.billing_period].toLowerCase()}).
                     </DialogDescription>
                 </DialogHeader>
                 <div className="flex flex-col items-center justify-center space-y-4 py-4">
-                    <Image
-                        src="https://placehold.co/200x200.png?text=Scan+to+Pay"
-                        alt="QR Code for payment"
-                        width={200}
-                        height={200}
-                        data-ai-hint="qr code"
-                    />
                      <p className="text-sm text-center text-muted-foreground">
-                        You will be charged {selectedPlan.price.replace('/mo', '')}.<br/>
-                        After successful payment, click the button below.
+                        You will be charged {formatPackagePrice(selectedPlan.pkg, selectedPlan.pricePoint)}.<br/>
+                        Your plan is activated as soon as the payment is confirmed.
                     </p>
-                    <Button onClick={handleActivatePlan} className="w-full">I Have Paid</Button>
+                    <PlanCheckout purchase={selectedPlan} onPaid={handlePaid} />
+                    <div className="relative w-full text-center text-xs uppercase text-muted-foreground">
+                        <span className="bg-background px-2">or</span>
+                    </div>
+                    <UpiPayment purchase={selectedPlan} onSubmitted={handlePaid} />
                 </div>
             </DialogContent>
         )}
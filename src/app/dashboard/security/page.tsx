@@ -0,0 +1,12 @@
+'use client';
+
+import { MfaSettings } from "@/components/auth/mfa-settings";
+
+export default function SecurityPage() {
+  return (
+    <div className="container mx-auto max-w-lg px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">Security</h1>
+      <MfaSettings />
+    </div>
+  );
+}
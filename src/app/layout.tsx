@@ -3,6 +3,7 @@ import './globals.css';
 import { Toaster } from "@/components/ui/toaster"
 import Header from '@/components/layout/header';
 import Footer from '@/components/layout/footer';
+import { ImpersonationBanner } from '@/components/layout/impersonation-banner';
 import { AuthProvider } from '@/hooks/use-auth';
 
 export const metadata: Metadata = {
@@ -25,6 +26,7 @@ export default function RootLayout({
       <body className="font-body antialiased bg-background text-foreground">
         <AuthProvider>
           <div className="relative flex min-h-screen flex-col">
+            <ImpersonationBanner />
             <Header />
             <main className="flex-1">
               {children}
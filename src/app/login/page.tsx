@@ -1,30 +1,92 @@
 'use client';
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import Link from "next/link";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, AuthRequestError } from "@/hooks/use-auth";
+import { getReturnTo } from "@/lib/auth-client";
 import { useRouter } from "next/navigation";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import { ResendVerificationButton } from "@/components/auth/resend-verification-button";
+import { MfaChallengeForm } from "@/components/auth/mfa-challenge-form";
+import { OidcButtons } from "@/components/auth/oidc-buttons";
+
+// Errors the provider sign-in callback redirects back with
+const OIDC_ERRORS: Record<string, string> = {
+  oidc_cancelled: "Sign-in was cancelled.",
+  oidc_expired: "Sign-in took too long, please try again.",
+  oidc_email_unverified: "Your account with that provider has no verified email address.",
+  account_cancelled: "Account has been cancelled.",
+  oidc_failed: "Sign-in with that provider failed, please try again.",
+};
 
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const { login, loading } = useAuth();
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+  const [sendingMagicLink, setSendingMagicLink] = useState(false);
+  const { user, login, requestMagicLink, loading } = useAuth();
   const router = useRouter();
   const { toast } = useToast();
 
+  // An expired access cookie sends visitors here even though their session
+  // was refreshed on load, so send them straight back
+  useEffect(() => {
+    if (user) {
+      router.replace(getReturnTo('/dashboard'));
+    }
+  }, [user, router]);
+
+  // Coming back from a provider sign-in: show its error, or ask for the
+  // second factor when the account has one
+  useEffect(() => {
+    const error = new URLSearchParams(window.location.search).get('error');
+    if (error) {
+      toast({
+        title: "Login Failed",
+        description: OIDC_ERRORS[error] || OIDC_ERRORS.oidc_failed,
+        variant: "destructive",
+      });
+    }
+
+    const pendingMfaToken = new URLSearchParams(window.location.hash.slice(1)).get('mfa');
+    if (pendingMfaToken) {
+      setMfaToken(pendingMfaToken);
+    }
+
+    if (error || pendingMfaToken) {
+      const url = new URL(window.location.href);
+      url.searchParams.delete('error');
+      url.hash = '';
+      window.history.replaceState(null, '', url.toString());
+    }
+  }, [toast]);
+
+  const handleLoggedIn = () => {
+    toast({ title: "Login Successful", description: "Welcome back!" });
+    router.push(getReturnTo('/dashboard'));
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
+    setUnverifiedEmail(null);
     try {
-      await login(email, password);
-      toast({ title: "Login Successful", description: "Welcome back!" });
-      router.push('/dashboard');
+      const result = await login(email, password);
+      if (result.mfaRequired) {
+        setMfaToken(result.mfaToken);
+        return;
+      }
+      handleLoggedIn();
     } catch (error) {
+      if (error instanceof AuthRequestError && error.code === 'email_not_verified') {
+        setUnverifiedEmail(email);
+      }
       toast({
         title: "Login Failed",
         description: (error as Error).message,
@@ -33,6 +95,36 @@ export default function LoginPage() {
     }
   };
 
+  const handleMagicLink = async () => {
+    if (!email) {
+      toast({ title: "Enter your email", description: "We'll send the sign-in link there.", variant: "destructive" });
+      return;
+    }
+    setSendingMagicLink(true);
+    try {
+      await requestMagicLink(email);
+      setMagicLinkSent(true);
+    } catch (error) {
+      toast({
+        title: "Could not send link",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSendingMagicLink(false);
+    }
+  };
+
+  if (mfaToken) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <Card className="w-full max-w-sm">
+          <MfaChallengeForm mfaToken={mfaToken} onVerified={handleLoggedIn} onCancel={() => setMfaToken(null)} />
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="flex items-center justify-center min-h-screen bg-background">
       <Card className="w-full max-w-sm">
@@ -44,12 +136,29 @@ export default function LoginPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="grid gap-4">
+            <OidcButtons />
+            {magicLinkSent && (
+              <div className="rounded-md border p-3 text-sm">
+                <p>If an account exists for {email}, we&apos;ve emailed it a sign-in link. Open it in this browser within 15 minutes.</p>
+              </div>
+            )}
+            {unverifiedEmail && (
+              <div className="grid gap-2 rounded-md border p-3 text-sm">
+                <p>Your email address hasn&apos;t been verified yet. Check your inbox for the verification link, or request a new one.</p>
+                <ResendVerificationButton email={unverifiedEmail} />
+              </div>
+            )}
             <div className="grid gap-2">
               <Label htmlFor="email">Email</Label>
               <Input id="email" type="email" placeholder="m@example.com" required value={email} onChange={e => setEmail(e.target.value)} />
             </div>
             <div className="grid gap-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <Link href="/forgot-password" className="text-sm underline">
+                  Forgot password?
+                </Link>
+              </div>
               <Input id="password" type="password" required value={password} onChange={e => setPassword(e.target.value)} />
             </div>
           </CardContent>
@@ -58,6 +167,10 @@ export default function LoginPage() {
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Sign in
             </Button>
+            <Button className="w-full mt-2" type="button" variant="ghost" disabled={sendingMagicLink} onClick={handleMagicLink}>
+              {sendingMagicLink && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Email me a sign-in link
+            </Button>
             <div className="mt-4 text-center text-sm">
               Don&apos;t have an account?{" "}
               <Link href="/signup" className="underline">
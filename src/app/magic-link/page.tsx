@@ -0,0 +1,96 @@
+'use client';
+
+import { useState, useEffect, useRef } from "react";
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { MfaChallengeForm } from "@/components/auth/mfa-challenge-form";
+
+type SignInState = 'signing-in' | 'mfa' | 'failed';
+
+export default function MagicLinkPage() {
+  const [state, setState] = useState<SignInState>('signing-in');
+  const [message, setMessage] = useState('');
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  // the token is single-use, so it must only be sent once
+  const attempted = useRef(false);
+  const { loginWithMagicLink } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleLoggedIn = () => {
+    toast({ title: "Login Successful", description: "Welcome back!" });
+    router.push('/dashboard');
+  };
+
+  useEffect(() => {
+    if (attempted.current) return;
+    attempted.current = true;
+
+    const signIn = async () => {
+      const token = new URLSearchParams(window.location.search).get('token');
+      if (!token) {
+        setState('failed');
+        setMessage('This sign-in link is incomplete.');
+        return;
+      }
+
+      try {
+        const result = await loginWithMagicLink(token);
+        if (result.mfaRequired) {
+          setMfaToken(result.mfaToken);
+          setState('mfa');
+          return;
+        }
+        handleLoggedIn();
+      } catch (error) {
+        setState('failed');
+        setMessage((error as Error).message);
+      }
+    };
+
+    signIn();
+  });
+
+  if (state === 'mfa' && mfaToken) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <Card className="w-full max-w-sm">
+          <MfaChallengeForm mfaToken={mfaToken} onVerified={handleLoggedIn} onCancel={() => router.push('/login')} />
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-2xl">
+            {state === 'signing-in' ? 'Signing In' : 'Sign-In Failed'}
+          </CardTitle>
+          <CardDescription>
+            {state === 'signing-in' ? (
+              <span className="flex items-center">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Please wait...
+              </span>
+            ) : (
+              message
+            )}
+          </CardDescription>
+        </CardHeader>
+        {state === 'failed' && (
+          <CardFooter>
+            <Link href="/login" className="underline text-sm">
+              Back to login
+            </Link>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
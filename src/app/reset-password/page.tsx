@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { PASSWORD_MIN_LENGTH } from "@/lib/password-policy";
+import { PasswordStrength } from "@/components/auth/password-strength";
+
+export default function ResetPasswordPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get('token'));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      toast({ title: "Error", description: "Passwords do not match", variant: "destructive" });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || 'Password reset failed');
+      }
+
+      toast({ title: "Password Reset", description: "You can now log in with your new password." });
+      router.push('/login');
+    } catch (error) {
+      toast({
+        title: "Reset Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background">
+      <Card className="w-full max-w-sm">
+        <form onSubmit={handleSubmit}>
+          <CardHeader>
+            <CardTitle className="text-2xl">Reset Password</CardTitle>
+            <CardDescription>
+              {token
+                ? "Choose a new password for your account."
+                : "This reset link is incomplete. Request a new one from the forgot password page."}
+            </CardDescription>
+          </CardHeader>
+          {token && (
+            <CardContent className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="password">New Password</Label>
+                <Input id="password" type="password" required minLength={PASSWORD_MIN_LENGTH} value={password} onChange={e => setPassword(e.target.value)} />
+                <PasswordStrength password={password} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="confirm-password">Confirm Password</Label>
+                <Input id="confirm-password" type="password" required minLength={PASSWORD_MIN_LENGTH} value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} />
+              </div>
+            </CardContent>
+          )}
+          <CardFooter className="flex flex-col">
+            {token && (
+              <Button className="w-full" type="submit" disabled={loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Reset password
+              </Button>
+            )}
+            <div className="mt-4 text-center text-sm">
+              <Link href={token ? "/login" : "/forgot-password"} className="underline">
+                {token ? "Back to login" : "Request a new link"}
+              </Link>
+            </div>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
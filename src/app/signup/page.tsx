@@ -7,17 +7,20 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import Link from "next/link";
 import { useAuth } from "@/hooks/use-auth";
-import { useRouter } from "next/navigation";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import { ResendVerificationButton } from "@/components/auth/resend-verification-button";
+import { OidcButtons } from "@/components/auth/oidc-buttons";
+import { PasswordStrength } from "@/components/auth/password-strength";
+import { PASSWORD_MIN_LENGTH } from "@/lib/password-policy";
 
 export default function SignupPage() {
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [registeredEmail, setRegisteredEmail] = useState<string | null>(null);
   const { signup, loading } = useAuth();
-  const router = useRouter();
   const { toast } = useToast();
 
   const handleSignup = async (e: React.FormEvent) => {
@@ -31,8 +34,7 @@ export default function SignupPage() {
     }
     try {
       await signup(email, password, name);
-      toast({ title: "Account Created", description: "Welcome to Etrade!" });
-      router.push('/dashboard');
+      setRegisteredEmail(email);
     } catch (error) {
        toast({
         title: "Signup Failed",
@@ -42,6 +44,29 @@ export default function SignupPage() {
     }
   };
 
+  if (registeredEmail) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle className="text-2xl">Check Your Email</CardTitle>
+            <CardDescription>
+              We&apos;ve sent a verification link to {registeredEmail}. Open it to activate your account, then log in.
+            </CardDescription>
+          </CardHeader>
+          <CardFooter className="flex flex-col">
+            <ResendVerificationButton email={registeredEmail} initialCooldown={60} />
+            <div className="mt-4 text-center text-sm">
+              <Link href="/login" className="underline">
+                Go to login
+              </Link>
+            </div>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="flex items-center justify-center min-h-screen bg-background">
       <Card className="w-full max-w-sm">
@@ -53,6 +78,7 @@ export default function SignupPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="grid gap-4">
+            <OidcButtons />
              <div className="grid gap-2">
               <Label htmlFor="name">Full Name</Label>
               <Input id="name" placeholder="John Doe" required value={name} onChange={e => setName(e.target.value)} />
@@ -63,11 +89,12 @@ export default function SignupPage() {
             </div>
             <div className="grid gap-2">
               <Label htmlFor="password">Password</Label>
-              <Input id="password" type="password" required value={password} onChange={e => setPassword(e.target.value)} />
+              <Input id="password" type="password" required minLength={PASSWORD_MIN_LENGTH} value={password} onChange={e => setPassword(e.target.value)} />
+              <PasswordStrength password={password} userInputs={[email, name]} />
             </div>
             <div className="grid gap-2">
               <Label htmlFor="confirm-password">Confirm Password</Label>
-              <Input id="confirm-password" type="password" required value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} />
+              <Input id="confirm-password" type="password" required minLength={PASSWORD_MIN_LENGTH} value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} />
             </div>
           </CardContent>
           <CardFooter className="flex flex-col">
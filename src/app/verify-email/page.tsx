@@ -0,0 +1,78 @@
+'use client';
+
+import { useState, useEffect } from "react";
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailPage() {
+  const [state, setState] = useState<VerifyState>('verifying');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const verify = async () => {
+      const token = new URLSearchParams(window.location.search).get('token');
+      if (!token) {
+        setState('failed');
+        setMessage('This verification link is incomplete');
+        return;
+      }
+
+      try {
+        const res = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const data = await res.json();
+
+        if (!res.ok) {
+          throw new Error(data.error || 'Verification failed');
+        }
+
+        setState('verified');
+        setMessage(data.message);
+      } catch (error) {
+        setState('failed');
+        setMessage((error as Error).message);
+      }
+    };
+
+    verify();
+  }, []);
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-2xl">
+            {state === 'verifying' && 'Verifying Email'}
+            {state === 'verified' && 'Email Verified'}
+            {state === 'failed' && 'Verification Failed'}
+          </CardTitle>
+          <CardDescription>
+            {state === 'verifying' ? (
+              <span className="flex items-center">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Please wait...
+              </span>
+            ) : state === 'failed' ? (
+              `${message}. Log in with your email and password to request a new link.`
+            ) : (
+              message
+            )}
+          </CardDescription>
+        </CardHeader>
+        {state !== 'verifying' && (
+          <CardFooter>
+            <Link href="/login" className="underline text-sm">
+              Go to login
+            </Link>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
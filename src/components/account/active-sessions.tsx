@@ -0,0 +1,111 @@
+'use client';
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/auth-client";
+import { Loader2 } from "lucide-react";
+
+interface AccountSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  current: boolean;
+}
+
+interface ActiveSessionsProps {
+  // bump to reload the list, e.g. after a password change
+  reloadKey?: number;
+}
+
+/**
+ * Devices the user is signed in on, each of which can be signed out
+ */
+export function ActiveSessions({ reloadKey }: ActiveSessionsProps) {
+  const [sessions, setSessions] = useState<AccountSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const { logout, logoutEverywhere } = useAuth();
+  const { toast } = useToast();
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await authFetch('/api/account/sessions');
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load sessions');
+      }
+      setSessions(data.sessions);
+    } catch (error) {
+      toast({ title: "Error fetching sessions", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions, reloadKey]);
+
+  const handleRevoke = async (session: AccountSession) => {
+    if (session.current) {
+      logout();
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const res = await authFetch(`/api/account/sessions/${encodeURIComponent(session.id)}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to sign out session');
+      }
+      toast({ title: "Signed out", description: "That device has been signed out." });
+      loadSessions();
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Active Sessions</CardTitle>
+        <CardDescription>Devices where you are signed in.</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {loading ? (
+          <Loader2 className="mx-auto h-4 w-4 animate-spin" />
+        ) : sessions.map((session) => (
+          <div key={session.id} className="flex items-start justify-between gap-4 rounded-md border p-3">
+            <div className="grid gap-1 text-sm">
+              <p className="font-medium break-all">
+                {session.userAgent || 'Unknown device'}
+                {session.current && <Badge variant="secondary" className="ml-2">This device</Badge>}
+              </p>
+              <p className="text-muted-foreground">
+                {session.ipAddress || 'Unknown IP'} · signed in {new Date(session.createdAt).toLocaleString()} · last active {new Date(session.lastActiveAt).toLocaleString()}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" disabled={busy} onClick={() => handleRevoke(session)}>
+              Sign out
+            </Button>
+          </div>
+        ))}
+        {sessions.length > 1 && (
+          <Button variant="destructive" className="justify-self-start" disabled={busy} onClick={logoutEverywhere}>
+            Sign out everywhere
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
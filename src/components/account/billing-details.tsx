@@ -0,0 +1,130 @@
+'use client';
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/auth-client";
+import { GST_STATES } from "@/lib/gst";
+import { Loader2 } from "lucide-react";
+
+// Select items can't have an empty value, so no state uses this one
+const NO_STATE = "none";
+
+/**
+ * Edit the name, GSTIN, state and address printed on the user's invoices
+ */
+export function BillingDetails() {
+  const [legalName, setLegalName] = useState('');
+  const [gstin, setGstin] = useState('');
+  const [stateCode, setStateCode] = useState('');
+  const [address, setAddress] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await authFetch('/api/account/billing');
+        if (res.ok) {
+          const { billing } = await res.json();
+          setLegalName(billing.legal_name || '');
+          setGstin(billing.gstin || '');
+          setStateCode(billing.state_code || '');
+          setAddress(billing.address || '');
+        }
+      } catch (error) {
+        console.error('Failed to load billing details:', error);
+      }
+    };
+    load();
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const res = await authFetch('/api/account/billing', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ legalName, gstin, stateCode, address }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      setGstin(data.billing.gstin || '');
+      setStateCode(data.billing.state_code || '');
+      toast({ title: "Billing details saved", description: "They will be printed on your future invoices." });
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Billing Details</CardTitle>
+        <CardDescription>
+          Printed on your GST invoices. Businesses can add their GSTIN to claim input tax credit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="billing-legal-name">Legal name</Label>
+            <Input
+              id="billing-legal-name"
+              maxLength={255}
+              placeholder="Your name, if left empty"
+              value={legalName}
+              onChange={e => setLegalName(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="billing-gstin">GSTIN</Label>
+            <Input
+              id="billing-gstin"
+              maxLength={15}
+              className="font-mono uppercase"
+              placeholder="Optional, e.g. 27AAPFU0939F1ZV"
+              value={gstin}
+              onChange={e => setGstin(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="billing-state">State</Label>
+            <Select value={stateCode || NO_STATE} onValueChange={value => setStateCode(value === NO_STATE ? '' : value)}>
+              <SelectTrigger id="billing-state">
+                <SelectValue placeholder="Select your state" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_STATE}>Not specified</SelectItem>
+                {Object.entries(GST_STATES).map(([code, name]) => (
+                  <SelectItem key={code} value={code}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Decides whether you are charged CGST and SGST or IGST. With a GSTIN, it is the state the GSTIN is registered in.
+            </p>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="billing-address">Billing address</Label>
+            <Textarea id="billing-address" maxLength={500} value={address} onChange={e => setAddress(e.target.value)} />
+          </div>
+          <Button type="submit" disabled={busy} className="justify-self-start">
+            {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
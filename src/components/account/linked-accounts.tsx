@@ -0,0 +1,48 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+export interface LinkedIdentity {
+  provider: string;
+  email: string | null;
+  linkedAt: string;
+  lastLogin: string | null;
+}
+
+interface LinkedAccountsProps {
+  identities: LinkedIdentity[];
+}
+
+const PROVIDER_NAMES: Record<string, string> = {
+  google: 'Google',
+};
+
+/**
+ * Google and other provider accounts the user signs in with
+ */
+export function LinkedAccounts({ identities }: LinkedAccountsProps) {
+  if (identities.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Linked Accounts</CardTitle>
+        <CardDescription>You can sign in with these accounts instead of your password.</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-3">
+        {identities.map(identity => (
+          <div key={`${identity.provider}-${identity.linkedAt}`} className="rounded-md border p-3 text-sm">
+            <p className="font-medium">{PROVIDER_NAMES[identity.provider] || identity.provider}</p>
+            {identity.email && <p className="text-muted-foreground">{identity.email}</p>}
+            <p className="text-muted-foreground">
+              linked {new Date(identity.linkedAt).toLocaleString()}
+              {identity.lastLogin && <> · last used {new Date(identity.lastLogin).toLocaleString()}</>}
+            </p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/auth-client";
+import { PASSWORD_MIN_LENGTH } from "@/lib/password-policy";
+import { PasswordStrength } from "@/components/auth/password-strength";
+import { Loader2 } from "lucide-react";
+
+interface PasswordSettingsProps {
+  // false for accounts created through a sign-in provider, which set their
+  // first password without a current one
+  hasPassword?: boolean;
+  // the account's email and name, which make a password easier to guess
+  userInputs?: string[];
+  // called after the change, when the other sessions have been signed out
+  onChanged?: () => void;
+}
+
+/**
+ * Change the password, confirming the current one, or set a first password
+ */
+export function PasswordSettings({ hasPassword = true, userInputs, onChanged }: PasswordSettingsProps) {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      toast({ title: "Error", description: "Passwords do not match.", variant: "destructive" });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const res = await authFetch('/api/account/password', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(hasPassword ? { currentPassword, newPassword } : { newPassword }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to change password');
+      }
+      toast({ title: hasPassword ? "Password changed" : "Password set", description: data.message });
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      onChanged?.();
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password</CardTitle>
+        <CardDescription>
+          {hasPassword
+            ? "Changing your password signs you out on your other devices."
+            : "You sign in with a linked account. Set a password to also sign in with your email address."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="grid gap-2">
+          {hasPassword && (
+            <>
+              <Label htmlFor="current-password">Current password</Label>
+              <Input id="current-password" type="password" required autoComplete="current-password" value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} />
+            </>
+          )}
+          <Label htmlFor="new-password">New password</Label>
+          <Input id="new-password" type="password" required minLength={PASSWORD_MIN_LENGTH} autoComplete="new-password" value={newPassword} onChange={e => setNewPassword(e.target.value)} />
+          <PasswordStrength password={newPassword} userInputs={userInputs} />
+          <Label htmlFor="confirm-password">Confirm new password</Label>
+          <Input id="confirm-password" type="password" required minLength={PASSWORD_MIN_LENGTH} autoComplete="new-password" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} />
+          <Button type="submit" disabled={busy} className="mt-2 justify-self-start">
+            {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {hasPassword ? "Change Password" : "Set Password"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
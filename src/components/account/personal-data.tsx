@@ -0,0 +1,176 @@
+'use client';
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/auth-client";
+import { Download, Loader2 } from "lucide-react";
+
+interface DataExport {
+  id: string;
+  status: 'pending' | 'ready' | 'failed' | 'expired';
+  requestedAt: string;
+  expiresAt: string | null;
+}
+
+interface PendingDeletion {
+  requestedAt: string;
+  scheduledFor: string;
+}
+
+/**
+ * Download a copy of the user's data, and request or cancel account deletion
+ */
+export function PersonalData() {
+  const [dataExport, setDataExport] = useState<DataExport | null>(null);
+  const [deletion, setDeletion] = useState<PendingDeletion | null>(null);
+  const [password, setPassword] = useState('');
+  const [showDelete, setShowDelete] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    try {
+      const [exportRes, deletionRes] = await Promise.all([
+        authFetch('/api/account/export'),
+        authFetch('/api/account/deletion'),
+      ]);
+      if (exportRes.ok) setDataExport((await exportRes.json()).export);
+      if (deletionRes.ok) setDeletion((await deletionRes.json()).deletion);
+    } catch (error) {
+      console.error('Failed to load personal data requests:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Send a request to the account API, reporting failures as a toast
+  const send = async (url: string, method: string, body?: Record<string, string>) => {
+    setBusy(true);
+    try {
+      const res = await authFetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      return data;
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRequestExport = async () => {
+    const data = await send('/api/account/export', 'POST');
+    if (data) {
+      setDataExport(data.export);
+      toast({ title: "Export requested", description: "We will email you when your data is ready to download." });
+    }
+  };
+
+  const handleRequestDeletion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await send('/api/account/deletion', 'POST', { password });
+    if (data) {
+      setDeletion(data.deletion);
+      setPassword('');
+      setShowDelete(false);
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    const data = await send('/api/account/deletion', 'DELETE');
+    if (data) {
+      setDeletion(null);
+      toast({ title: "Deletion cancelled", description: "Your account will not be deleted." });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your Data</CardTitle>
+        <CardDescription>
+          Download a copy of your personal data or delete your account, as provided by the Digital Personal Data Protection Act.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6">
+        <div className="grid gap-2">
+          <p className="text-sm font-medium">Download my data</p>
+          {dataExport?.status === 'pending' && (
+            <p className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Your archive is being prepared. We will email you when it is ready.
+            </p>
+          )}
+          {dataExport?.status === 'ready' && (
+            <Button asChild variant="outline" className="justify-self-start">
+              <a href={`/api/account/export/${dataExport.id}`}>
+                <Download className="mr-2 h-4 w-4" />
+                Download archive (until {new Date(dataExport.expiresAt!).toLocaleDateString()})
+              </a>
+            </Button>
+          )}
+          {dataExport?.status === 'failed' && (
+            <p className="text-sm text-destructive">We could not prepare your last export. Please try again.</p>
+          )}
+          {dataExport?.status !== 'pending' && (
+            <Button variant="secondary" className="justify-self-start" disabled={busy} onClick={handleRequestExport}>
+              Request a new export
+            </Button>
+          )}
+        </div>
+
+        <div className="grid gap-2">
+          <p className="text-sm font-medium">Delete account</p>
+          {deletion ? (
+            <Alert variant="destructive">
+              <AlertTitle>Your account is scheduled for deletion</AlertTitle>
+              <AlertDescription className="grid gap-2">
+                <span>
+                  It will be deleted on {new Date(deletion.scheduledFor).toLocaleString()}. Until then you can change your mind.
+                </span>
+                <Button variant="outline" size="sm" className="justify-self-start" disabled={busy} onClick={handleCancelDeletion}>
+                  Cancel deletion
+                </Button>
+              </AlertDescription>
+            </Alert>
+          ) : showDelete ? (
+            <form onSubmit={handleRequestDeletion} className="grid gap-2 rounded-md border border-destructive p-4">
+              <p className="text-sm text-muted-foreground">
+                Your account is deleted after a 14 day cooling-off period, during which you can cancel. Your personal data is then erased; billing and audit records we must keep by law are retained without your name or contact details.
+              </p>
+              <Label htmlFor="delete-password">Current password</Label>
+              <Input id="delete-password" type="password" required autoComplete="current-password" value={password} onChange={e => setPassword(e.target.value)} />
+              <div className="flex gap-2">
+                <Button type="submit" variant="destructive" disabled={busy}>
+                  {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Delete my account
+                </Button>
+                <Button type="button" variant="ghost" onClick={() => setShowDelete(false)}>
+                  Keep my account
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <Button variant="destructive" className="justify-self-start" onClick={() => setShowDelete(true)}>
+              Delete account
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
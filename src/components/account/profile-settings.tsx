@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/auth-client";
+import { Loader2 } from "lucide-react";
+
+/**
+ * Edit the user's name and request a change of email address
+ */
+export function ProfileSettings() {
+  const { user, refreshUser } = useAuth();
+  const [name, setName] = useState(user?.name || '');
+  const [newEmail, setNewEmail] = useState('');
+  const [emailPassword, setEmailPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  // Send a request to the account API, reporting failures as a toast
+  const send = async (url: string, method: string, body: Record<string, string>) => {
+    setBusy(true);
+    try {
+      const res = await authFetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      return data;
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await send('/api/account', 'PUT', { name });
+    if (data) {
+      toast({ title: "Profile updated" });
+      await refreshUser();
+    }
+  };
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await send('/api/account/email', 'POST', { newEmail, password: emailPassword });
+    if (data) {
+      toast({ title: "Check your inbox", description: data.message });
+      setNewEmail('');
+      setEmailPassword('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>Signed in as {user?.email}</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6">
+        <form onSubmit={handleSaveName} className="grid gap-2">
+          <Label htmlFor="account-name">Name</Label>
+          <div className="flex gap-2">
+            <Input id="account-name" required value={name} onChange={e => setName(e.target.value)} />
+            <Button type="submit" disabled={busy || !name.trim() || name === user?.name}>
+              Save
+            </Button>
+          </div>
+        </form>
+
+        <form onSubmit={handleChangeEmail} className="grid gap-2">
+          <Label htmlFor="account-new-email">New email address</Label>
+          <Input id="account-new-email" type="email" required value={newEmail} onChange={e => setNewEmail(e.target.value)} />
+          <Label htmlFor="account-email-password">Current password</Label>
+          <Input id="account-email-password" type="password" required autoComplete="current-password" value={emailPassword} onChange={e => setEmailPassword(e.target.value)} />
+          <p className="text-sm text-muted-foreground">
+            We will send a confirmation link to the new address. Your email changes once you open it.
+          </p>
+          <Button type="submit" disabled={busy} className="justify-self-start">
+            {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Change Email
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
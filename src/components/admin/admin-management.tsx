@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/auth-client";
+import { Loader2, Mail, PlusCircle, Trash2 } from "lucide-react";
+
+type AdminRole = 'admin' | 'superadmin';
+
+interface AdminAccount {
+  id: string;
+  email: string;
+  name: string;
+  role: AdminRole;
+  status: 'Invited' | 'Active' | 'Suspended' | 'Cancelled';
+  last_login: string | null;
+}
+
+/**
+ * Invite, suspend, reactivate, re-role and delete admins (superadmins only)
+ */
+export function AdminManagement() {
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [showInvite, setShowInvite] = useState(false);
+  const [invite, setInvite] = useState<{ name: string; email: string; role: AdminRole }>({ name: '', email: '', role: 'admin' });
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const loadAdmins = async () => {
+    setLoading(true);
+    try {
+      const res = await authFetch('/api/admin/admins');
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load admins');
+      }
+      setAdmins(data.admins);
+    } catch (error) {
+      toast({ title: "Error fetching admins", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAdmins();
+  }, []);
+
+  // Send a request to the admin management API, reporting failures as a toast
+  const send = async (url: string, method: string, body?: Record<string, string>) => {
+    setBusy(true);
+    try {
+      const res = await authFetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      return data;
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await send('/api/admin/admins', 'POST', invite);
+    if (data) {
+      toast({ title: "Invitation sent", description: `${invite.email} will receive a link to set their password.` });
+      setInvite({ name: '', email: '', role: 'admin' });
+      setShowInvite(false);
+      loadAdmins();
+    }
+  };
+
+  const handleUpdate = async (admin: AdminAccount, changes: { role?: AdminRole; status?: 'Active' | 'Suspended' }) => {
+    const data = await send(`/api/admin/admins/${admin.id}`, 'PUT', changes);
+    if (data) {
+      toast({ title: "Success", description: `${admin.email} updated.` });
+      loadAdmins();
+    }
+  };
+
+  const handleResend = async (admin: AdminAccount) => {
+    const data = await send(`/api/admin/admins/${admin.id}/invite`, 'POST');
+    if (data) {
+      toast({ title: "Invitation sent", description: `A new link was sent to ${admin.email}.` });
+    }
+  };
+
+  const handleDelete = async (admin: AdminAccount) => {
+    if (!window.confirm(`Delete the admin account for ${admin.email}?`)) {
+      return;
+    }
+    const data = await send(`/api/admin/admins/${admin.id}`, 'DELETE');
+    if (data) {
+      toast({ title: "Success", description: "Admin deleted." });
+      loadAdmins();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Admin Accounts</CardTitle>
+        <Button size="sm" onClick={() => setShowInvite(!showInvite)}>
+          <PlusCircle className="h-4 w-4 mr-2" />
+          Invite Admin
+        </Button>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {showInvite && (
+          <form onSubmit={handleInvite} className="grid gap-4 rounded-md border p-4 sm:grid-cols-4 sm:items-end">
+            <div className="grid gap-2">
+              <Label htmlFor="invite-name">Name</Label>
+              <Input id="invite-name" required value={invite.name} onChange={e => setInvite({ ...invite, name: e.target.value })} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input id="invite-email" type="email" required value={invite.email} onChange={e => setInvite({ ...invite, email: e.target.value })} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Role</Label>
+              <Select value={invite.role} onValueChange={(value: AdminRole) => setInvite({ ...invite, role: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="admin">admin</SelectItem>
+                  <SelectItem value="superadmin">superadmin</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={busy}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send Invitation
+            </Button>
+          </form>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Last Login</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center">
+                  <Loader2 className="mx-auto h-4 w-4 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : admins.map((admin) => {
+              const isSelf = admin.id === user?.id;
+              return (
+                <TableRow key={admin.id}>
+                  <TableCell>{admin.name}</TableCell>
+                  <TableCell>{admin.email}</TableCell>
+                  <TableCell>
+                    {isSelf ? (
+                      admin.role
+                    ) : (
+                      <Select value={admin.role} disabled={busy} onValueChange={(value: AdminRole) => handleUpdate(admin, { role: value })}>
+                        <SelectTrigger className="w-[130px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="admin">admin</SelectItem>
+                          <SelectItem value="superadmin">superadmin</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={admin.status === "Active" ? "default" : admin.status === "Invited" ? "secondary" : "destructive"} className={admin.status === "Active" ? "bg-green-500" : ""}>
+                      {admin.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{admin.last_login ? new Date(admin.last_login).toLocaleString() : '—'}</TableCell>
+                  <TableCell className="text-right">
+                    {!isSelf && (
+                      <div className="flex justify-end gap-2">
+                        {admin.status === "Invited" && (
+                          <Button variant="ghost" size="icon" disabled={busy} onClick={() => handleResend(admin)}>
+                            <Mail className="h-4 w-4" />
+                            <span className="sr-only">Resend invitation</span>
+                          </Button>
+                        )}
+                        {admin.status === "Active" && (
+                          <Button variant="outline" size="sm" disabled={busy} onClick={() => handleUpdate(admin, { status: 'Suspended' })}>
+                            Suspend
+                          </Button>
+                        )}
+                        {admin.status === "Suspended" && (
+                          <Button variant="outline" size="sm" disabled={busy} onClick={() => handleUpdate(admin, { status: 'Active' })}>
+                            Reactivate
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" disabled={busy} onClick={() => handleDelete(admin)}>
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/auth-client";
+import { formatMoney } from "@/lib/pricing";
+import { GST_STATES } from "@/lib/gst";
+import { Download, FileText, Loader2 } from "lucide-react";
+
+interface RegisterInvoice {
+  id: string;
+  invoice_number: string;
+  issued_at: string;
+  customer_name: string;
+  customer_email: string;
+  customer_gstin: string | null;
+  place_of_supply: string | null;
+  description: string;
+  currency: string;
+  taxable_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_amount: number;
+}
+
+/**
+ * Invoices issued in a financial year, with a CSV export for accounting
+ */
+export function InvoiceRegister() {
+  const [year, setYear] = useState<string | null>(null);
+  const [years, setYears] = useState<string[]>([]);
+  const [invoices, setInvoices] = useState<RegisterInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const loadRegister = async (selectedYear: string | null) => {
+    setLoading(true);
+    try {
+      const res = await authFetch(`/api/admin/invoices${selectedYear ? `?year=${encodeURIComponent(selectedYear)}` : ''}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load invoices');
+      }
+      setYear(data.year);
+      // the current year is offered before its first invoice too
+      setYears(data.years.includes(data.year) ? data.years : [data.year, ...data.years]);
+      setInvoices(data.invoices);
+    } catch (error) {
+      toast({ title: "Error fetching invoices", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRegister(null);
+  }, []);
+
+  const total = (key: 'taxable_amount' | 'cgst_amount' | 'sgst_amount' | 'igst_amount' | 'total_amount') =>
+    invoices.reduce((sum, invoice) => sum + invoice[key], 0);
+  // totals are only meaningful in one currency
+  const currency = invoices.length > 0 && invoices.every(invoice => invoice.currency === invoices[0].currency)
+    ? invoices[0].currency
+    : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>Invoice Register</CardTitle>
+            <CardDescription>GST invoices issued for confirmed payments, by financial year.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={year ?? undefined} onValueChange={loadRegister}>
+              <SelectTrigger className="w-[130px]">
+                <SelectValue placeholder="Year" />
+              </SelectTrigger>
+              <SelectContent>
+                {years.map(option => (
+                  <SelectItem key={option} value={option}>FY {option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button asChild variant="outline" disabled={!year}>
+              <a href={`/api/admin/invoices?year=${encodeURIComponent(year ?? '')}&format=csv`}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Invoice</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Place of supply</TableHead>
+              <TableHead className="text-right">Taxable</TableHead>
+              <TableHead className="text-right">CGST + SGST</TableHead>
+              <TableHead className="text-right">IGST</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">PDF</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center">
+                  <Loader2 className="mx-auto h-4 w-4 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : invoices.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground">
+                  No invoices in FY {year}.
+                </TableCell>
+              </TableRow>
+            ) : invoices.map(invoice => (
+              <TableRow key={invoice.id}>
+                <TableCell className="font-mono">{invoice.invoice_number}</TableCell>
+                <TableCell>{new Date(invoice.issued_at).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  <div>{invoice.customer_name}</div>
+                  <div className="text-xs text-muted-foreground">{invoice.customer_email}</div>
+                  {invoice.customer_gstin && <div className="text-xs font-mono text-muted-foreground">{invoice.customer_gstin}</div>}
+                </TableCell>
+                <TableCell>{invoice.place_of_supply ? GST_STATES[invoice.place_of_supply] ?? invoice.place_of_supply : '—'}</TableCell>
+                <TableCell className="text-right">{formatMoney(invoice.taxable_amount, invoice.currency)}</TableCell>
+                <TableCell className="text-right">{formatMoney(invoice.cgst_amount + invoice.sgst_amount, invoice.currency)}</TableCell>
+                <TableCell className="text-right">{formatMoney(invoice.igst_amount, invoice.currency)}</TableCell>
+                <TableCell className="text-right font-medium">{formatMoney(invoice.total_amount, invoice.currency)}</TableCell>
+                <TableCell className="text-right">
+                  <Button asChild variant="ghost" size="icon">
+                    <a href={`/api/admin/invoices/${invoice.id}`} target="_blank" rel="noopener noreferrer">
+                      <FileText className="h-4 w-4" />
+                      <span className="sr-only">View {invoice.invoice_number}</span>
+                    </a>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && currency && (
+              <TableRow className="font-semibold">
+                <TableCell colSpan={4}>Total ({invoices.length} invoices)</TableCell>
+                <TableCell className="text-right">{formatMoney(total('taxable_amount'), currency)}</TableCell>
+                <TableCell className="text-right">{formatMoney(total('cgst_amount') + total('sgst_amount'), currency)}</TableCell>
+                <TableCell className="text-right">{formatMoney(total('igst_amount'), currency)}</TableCell>
+                <TableCell className="text-right">{formatMoney(total('total_amount'), currency)}</TableCell>
+                <TableCell />
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
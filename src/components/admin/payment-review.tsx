@@ -0,0 +1,211 @@
+'use client';
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/auth-client";
+import { BILLING_PERIOD_LABELS, formatMoney } from "@/lib/pricing";
+import type { BillingPeriod } from "@/lib/schema";
+import { Check, Image as ImageIcon, Loader2, X } from "lucide-react";
+
+interface PendingPayment {
+  id: string;
+  user_name: string;
+  user_email: string;
+  plan: string;
+  billing_period: BillingPeriod;
+  amount: number;
+  currency: string;
+  utr: string;
+  reference: string | null;
+  has_screenshot: boolean;
+  created_at: string;
+}
+
+/**
+ * Approve or reject UPI transfers users reported, after checking them
+ * against the bank statement
+ */
+export function PaymentReview() {
+  const [payments, setPayments] = useState<PendingPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  // the payment being rejected, while its reason is entered
+  const [rejecting, setRejecting] = useState<PendingPayment | null>(null);
+  const [reason, setReason] = useState('');
+  const { toast } = useToast();
+
+  const loadPayments = async () => {
+    setLoading(true);
+    try {
+      const res = await authFetch('/api/admin/payments');
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load payments');
+      }
+      setPayments(data.payments);
+    } catch (error) {
+      toast({ title: "Error fetching payments", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPayments();
+  }, []);
+
+  const review = async (
+    payment: PendingPayment,
+    body: { status: 'approved' | 'rejected'; reason?: string; replaceActive?: boolean }
+  ): Promise<boolean> => {
+    setBusy(true);
+    try {
+      const res = await authFetch(`/api/admin/payments/${payment.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (res.status === 409 && data.replaces && !body.replaceActive) {
+        // the user got another plan after reporting this payment
+        if (!window.confirm(`${data.error} Approving cancels it and activates ${payment.plan} instead. Continue?`)) {
+          return false;
+        }
+        return review(payment, { ...body, replaceActive: true });
+      }
+      if (!res.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      return true;
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+      return false;
+    } finally {
+      setBusy(false);
+      loadPayments();
+    }
+  };
+
+  const handleApprove = async (payment: PendingPayment) => {
+    if (!window.confirm(`Activate ${payment.plan} for ${payment.user_email}? Only approve once UTR ${payment.utr} is on the bank statement.`)) {
+      return;
+    }
+    if (await review(payment, { status: 'approved' })) {
+      toast({ title: "Payment approved", description: `${payment.user_email} has been notified.` });
+    }
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rejecting) return;
+    if (await review(rejecting, { status: 'rejected', reason })) {
+      toast({ title: "Payment rejected", description: `${rejecting.user_email} has been notified.` });
+      setRejecting(null);
+      setReason('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payment Reviews</CardTitle>
+        <CardDescription>UPI transfers waiting to be matched against the bank statement.</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {rejecting && (
+          <form onSubmit={handleReject} className="grid gap-4 rounded-md border p-4">
+            <div className="grid gap-2">
+              <Label htmlFor="reject-reason">Reason for rejecting UTR {rejecting.utr} ({rejecting.user_email})</Label>
+              <Textarea
+                id="reject-reason"
+                required
+                maxLength={500}
+                placeholder="Shown to the user, e.g. no payment with this UTR has been received"
+                value={reason}
+                onChange={e => setReason(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" disabled={busy} onClick={() => setRejecting(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={busy || !reason.trim()}>
+                {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Reject Payment
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Plan</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>UTR</TableHead>
+              <TableHead>Reference</TableHead>
+              <TableHead>Submitted</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center">
+                  <Loader2 className="mx-auto h-4 w-4 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : payments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No payments waiting for review.
+                </TableCell>
+              </TableRow>
+            ) : payments.map((payment) => (
+              <TableRow key={payment.id}>
+                <TableCell>
+                  <div>{payment.user_name}</div>
+                  <div className="text-xs text-muted-foreground">{payment.user_email}</div>
+                </TableCell>
+                <TableCell>
+                  <div>{payment.plan}</div>
+                  <div className="text-xs text-muted-foreground">{BILLING_PERIOD_LABELS[payment.billing_period]}</div>
+                </TableCell>
+                <TableCell>{formatMoney(payment.amount, payment.currency)}</TableCell>
+                <TableCell className="font-mono">{payment.utr}</TableCell>
+                <TableCell className="font-mono text-xs">{payment.reference || '—'}</TableCell>
+                <TableCell>{new Date(payment.created_at).toLocaleString()}</TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    {payment.has_screenshot && (
+                      <Button asChild variant="ghost" size="icon">
+                        <a href={`/api/admin/payments/${payment.id}/screenshot`} target="_blank" rel="noopener noreferrer">
+                          <ImageIcon className="h-4 w-4" />
+                          <span className="sr-only">View screenshot</span>
+                        </a>
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" disabled={busy} onClick={() => handleApprove(payment)}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button variant="outline" size="sm" disabled={busy} onClick={() => { setRejecting(payment); setReason(''); }}>
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
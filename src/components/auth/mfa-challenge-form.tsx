@@ -0,0 +1,69 @@
+'use client';
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+interface MfaChallengeFormProps {
+  mfaToken: string;
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Second login step for accounts with two-factor authentication
+ */
+export function MfaChallengeForm({ mfaToken, onVerified, onCancel }: MfaChallengeFormProps) {
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { verifyMfa } = useAuth();
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      await verifyMfa(mfaToken, code);
+      onVerified();
+    } catch (error) {
+      toast({
+        title: "Verification Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <CardHeader>
+        <CardTitle className="text-2xl">Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Enter the 6-digit code from your authenticator app, or one of your backup codes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="mfa-code">Code</Label>
+          <Input id="mfa-code" autoComplete="one-time-code" autoFocus required value={code} onChange={e => setCode(e.target.value)} />
+        </div>
+      </CardContent>
+      <CardFooter className="flex flex-col">
+        <Button className="w-full" type="submit" disabled={loading}>
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Verify
+        </Button>
+        <Button type="button" variant="link" className="mt-2" onClick={onCancel}>
+          Back to login
+        </Button>
+      </CardFooter>
+    </form>
+  );
+}
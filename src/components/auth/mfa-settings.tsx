@@ -0,0 +1,227 @@
+'use client';
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/auth-client";
+import { Loader2 } from "lucide-react";
+
+interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+interface Enrolment {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+interface MfaSettingsProps {
+  // called once enrolment is confirmed and the session has been upgraded
+  onEnabled?: () => void;
+}
+
+/**
+ * Set up, manage and turn off TOTP two-factor authentication
+ */
+export function MfaSettings({ onEnabled }: MfaSettingsProps) {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { refreshUser } = useAuth();
+  const { toast } = useToast();
+
+  const loadStatus = async () => {
+    const res = await authFetch('/api/auth/mfa');
+    if (res.ok) {
+      setStatus(await res.json());
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // POST to an MFA endpoint, reporting failures as a toast
+  const post = async (url: string, body?: Record<string, string>) => {
+    setBusy(true);
+    try {
+      const res = await authFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body || {}),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      return data;
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+      return null;
+    } finally {
+      setBusy(false);
+      setCode('');
+    }
+  };
+
+  const handleStart = async () => {
+    const data = await post('/api/auth/mfa/setup');
+    if (data) {
+      setEnrolment(data);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await post('/api/auth/mfa/enable', { code });
+    if (data) {
+      setEnrolment(null);
+      setBackupCodes(data.backupCodes);
+      await refreshUser();
+      await loadStatus();
+      toast({ title: "Two-Factor Authentication Enabled" });
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const data = await post('/api/auth/mfa/backup-codes', { code });
+    if (data) {
+      setBackupCodes(data.backupCodes);
+      await loadStatus();
+    }
+  };
+
+  const handleDisable = async () => {
+    const data = await post('/api/auth/mfa/disable', { code });
+    if (data) {
+      await loadStatus();
+      toast({ title: "Two-Factor Authentication Disabled" });
+    }
+  };
+
+  if (!status) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (backupCodes) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Save Your Backup Codes</CardTitle>
+          <CardDescription>
+            Each code can be used once to sign in if you lose access to your authenticator app. They won&apos;t be shown again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+            {backupCodes.map(backupCode => (
+              <span key={backupCode}>{backupCode}</span>
+            ))}
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button
+            onClick={() => {
+              setBackupCodes(null);
+              onEnabled?.();
+            }}
+          >
+            I&apos;ve saved these codes
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  if (enrolment) {
+    return (
+      <Card>
+        <form onSubmit={handleEnable}>
+          <CardHeader>
+            <CardTitle>Scan the QR Code</CardTitle>
+            <CardDescription>
+              Scan this code with an authenticator app such as Google Authenticator or Authy, then enter the 6-digit code it shows.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4">
+            <img src={enrolment.qrCode} alt="Two-factor authentication QR code" className="mx-auto h-48 w-48" />
+            <div className="grid gap-2">
+              <Label>Can&apos;t scan it? Enter this key instead</Label>
+              <code className="break-all rounded-md border p-2 text-sm">{enrolment.secret}</code>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="enrol-code">Code</Label>
+              <Input id="enrol-code" inputMode="numeric" autoComplete="one-time-code" required value={code} onChange={e => setCode(e.target.value)} />
+            </div>
+          </CardContent>
+          <CardFooter className="flex gap-2">
+            <Button type="submit" disabled={busy}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Enable
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => setEnrolment(null)}>
+              Cancel
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          <Badge variant={status.enabled ? "default" : "secondary"}>{status.enabled ? "On" : "Off"}</Badge>
+        </CardTitle>
+        <CardDescription>
+          {status.enabled
+            ? `Signing in requires a code from your authenticator app. ${status.backupCodesRemaining} backup codes left.`
+            : status.required
+              ? "Your account requires two-factor authentication. Set it up to continue."
+              : "Protect your account with a code from an authenticator app in addition to your password."}
+        </CardDescription>
+      </CardHeader>
+      {status.enabled ? (
+        <>
+          <CardContent className="grid gap-2">
+            <Label htmlFor="manage-code">Enter a current code to make changes</Label>
+            <Input id="manage-code" autoComplete="one-time-code" value={code} onChange={e => setCode(e.target.value)} />
+          </CardContent>
+          <CardFooter className="flex gap-2">
+            <Button variant="outline" disabled={busy || !code} onClick={handleRegenerate}>
+              New backup codes
+            </Button>
+            {!status.required && (
+              <Button variant="destructive" disabled={busy || !code} onClick={handleDisable}>
+                Turn off
+              </Button>
+            )}
+          </CardFooter>
+        </>
+      ) : (
+        <CardFooter>
+          <Button onClick={handleStart} disabled={busy}>
+            {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set up two-factor authentication
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
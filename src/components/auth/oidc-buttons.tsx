@@ -0,0 +1,47 @@
+'use client';
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { getReturnTo } from "@/lib/auth-client";
+
+interface OidcProviderOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * "Continue with ..." buttons for the sign-in providers this deployment has
+ * configured; renders nothing when there are none
+ */
+export function OidcButtons() {
+  const [providers, setProviders] = useState<OidcProviderOption[]>([]);
+
+  useEffect(() => {
+    fetch('/api/auth/oidc')
+      .then(res => (res.ok ? res.json() : { providers: [] }))
+      .then(data => setProviders(data.providers))
+      .catch(() => setProviders([]));
+  }, []);
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  const returnTo = encodeURIComponent(getReturnTo('/dashboard'));
+
+  return (
+    <div className="grid gap-2">
+      {providers.map(provider => (
+        <Button key={provider.id} variant="outline" className="w-full" asChild>
+          {/* a full page load, since the provider's page is on another site */}
+          <a href={`/api/auth/oidc/${encodeURIComponent(provider.id)}?returnTo=${returnTo}`}>
+            Continue with {provider.name}
+          </a>
+        </Button>
+      ))}
+      <div className="relative my-2 text-center text-xs uppercase text-muted-foreground">
+        <span className="bg-card px-2">or</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { checkPassword, PASSWORD_SCORE_LABELS } from "@/lib/password-policy";
+
+interface PasswordStrengthProps {
+  password: string;
+  // the email and name the password is for; using them weakens it
+  userInputs?: string[];
+  className?: string;
+}
+
+const SCORE_COLOURS = ["bg-destructive", "bg-destructive", "bg-yellow-500", "bg-green-500", "bg-green-600"];
+
+/**
+ * Live strength meter for a new password, using the same rules the server
+ * enforces. Shows nothing until something has been typed.
+ */
+export function PasswordStrength({ password, userInputs = [], className }: PasswordStrengthProps) {
+  const inputsKey = userInputs.join("\n");
+  const check = useMemo(() => checkPassword(password, inputsKey ? inputsKey.split("\n") : []), [password, inputsKey]);
+
+  if (!password) {
+    return null;
+  }
+
+  const hint = check.error || check.suggestions[0];
+
+  return (
+    <div className={cn("grid gap-1", className)} aria-live="polite">
+      <div className="flex gap-1" aria-hidden="true">
+        {[0, 1, 2, 3].map(segment => (
+          <div
+            key={segment}
+            className={cn("h-1.5 flex-1 rounded-full bg-muted", segment < Math.max(check.score, 1) && SCORE_COLOURS[check.score])}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        <span className="font-medium">{PASSWORD_SCORE_LABELS[check.score]}</span>
+        {hint && <> · {hint}</>}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+interface ResendVerificationButtonProps {
+  email: string;
+  // seconds to wait before the first resend, e.g. right after signup
+  initialCooldown?: number;
+}
+
+export function ResendVerificationButton({ email, initialCooldown = 0 }: ResendVerificationButtonProps) {
+  const [sending, setSending] = useState(false);
+  const [cooldown, setCooldown] = useState(initialCooldown);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(cooldown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      const res = await fetch('/api/auth/resend-verification', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Could not resend verification email');
+      }
+
+      toast({ title: "Verification Email Sent", description: `Check ${email} for a new link.` });
+      setCooldown(data.retryAfter || 60);
+    } catch (error) {
+      toast({
+        title: "Resend Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Button type="button" variant="outline" className="w-full" onClick={handleResend} disabled={sending || cooldown > 0}>
+      {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+      {cooldown > 0 ? `Resend in ${cooldown}s` : "Resend verification email"}
+    </Button>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { authFetch } from "@/lib/auth-client";
+import { formatMoney } from "@/lib/pricing";
+import { Download } from "lucide-react";
+import { format } from "date-fns";
+
+interface InvoiceSummary {
+  id: string;
+  invoice_number: string;
+  description: string;
+  total_amount: number;
+  currency: string;
+  issued_at: string;
+}
+
+/**
+ * The user's invoices, each downloadable as a PDF. Shows nothing until the
+ * first payment has been invoiced.
+ */
+export function InvoiceList() {
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await authFetch('/api/account/invoices');
+        if (res.ok) {
+          setInvoices((await res.json()).invoices);
+        }
+      } catch (error) {
+        console.error('Failed to load invoices:', error);
+      }
+    };
+    load();
+  }, []);
+
+  if (invoices.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="max-w-3xl mx-auto mt-8">
+      <CardHeader>
+        <CardTitle>Invoices</CardTitle>
+        <CardDescription>
+          GST invoices for your payments. Add your GSTIN or billing address in your <Link href="/account" className="underline">account</Link>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Invoice</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Plan</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-right">PDF</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invoices.map(invoice => (
+              <TableRow key={invoice.id}>
+                <TableCell className="font-mono">{invoice.invoice_number}</TableCell>
+                <TableCell>{format(new Date(invoice.issued_at), 'PP')}</TableCell>
+                <TableCell>{invoice.description}</TableCell>
+                <TableCell className="text-right">{formatMoney(invoice.total_amount, invoice.currency)}</TableCell>
+                <TableCell className="text-right">
+                  <Button asChild variant="ghost" size="icon">
+                    <a href={`/api/account/invoices/${invoice.id}`}>
+                      <Download className="h-4 w-4" />
+                      <span className="sr-only">Download {invoice.invoice_number}</span>
+                    </a>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
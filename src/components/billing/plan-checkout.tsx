@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/auth-client";
+import type { PackagePurchase, PaymentCheckout } from "@/lib/payments";
+import { formatPackagePrice } from "@/lib/pricing";
+import { Loader2 } from "lucide-react";
+
+const RAZORPAY_CHECKOUT_SCRIPT = "https://checkout.razorpay.com/v1/checkout.js";
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => {
+      open(): void;
+      on(event: string, handler: (response: any) => void): void;
+    };
+  }
+}
+
+interface PlanCheckoutProps {
+  purchase: PackagePurchase;
+  // called once the payment has been verified and the subscription is active
+  onPaid: (message: string) => void;
+}
+
+function loadRazorpayCheckout(): Promise<void> {
+  if (window.Razorpay) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = RAZORPAY_CHECKOUT_SCRIPT;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error("Could not load the payment page. Check your connection and try again."));
+    document.body.appendChild(script);
+  });
+}
+
+async function postJson(url: string, body: unknown) {
+  const res = await authFetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "Payment failed");
+  }
+  return data;
+}
+
+/**
+ * Pay for a package at one of its price points through the configured
+ * payment provider. The subscription only becomes active once the server
+ * has verified the provider's confirmation.
+ */
+export function PlanCheckout({ purchase, onPaid }: PlanCheckoutProps) {
+  const [busy, setBusy] = useState(false);
+  // set while the fake provider's test checkout is showing
+  const [fakeOrderId, setFakeOrderId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fail = (error: unknown) => {
+    toast({ title: "Payment failed", description: (error as Error).message, variant: "destructive" });
+  };
+
+  const verify = async (orderId: string, response: Record<string, string>) => {
+    const data = await postJson(`/api/payments/orders/${encodeURIComponent(orderId)}/verify`, response);
+    onPaid(data.message);
+  };
+
+  const openRazorpay = async (orderId: string, checkout: PaymentCheckout) => {
+    await loadRazorpayCheckout();
+    const razorpay = new window.Razorpay!({
+      key: checkout.keyId,
+      order_id: checkout.providerOrderId,
+      amount: checkout.amount,
+      currency: checkout.currency,
+      name: "Quantum Alpha India",
+      description: checkout.description,
+      prefill: checkout.prefill,
+      handler: (response: Record<string, string>) => {
+        setBusy(true);
+        verify(orderId, response).catch(fail).finally(() => setBusy(false));
+      },
+    });
+    razorpay.on("payment.failed", response => {
+      fail(new Error(response.error?.description || "The payment did not go through."));
+    });
+    razorpay.open();
+  };
+
+  const handlePay = async () => {
+    setBusy(true);
+    try {
+      const { orderId, checkout } = await postJson("/api/payments/orders", {
+        packageId: purchase.pkg.id,
+        billingPeriod: purchase.pricePoint.billing_period,
+      });
+      if (checkout.provider === "fake") {
+        setFakeOrderId(orderId);
+      } else {
+        await openRazorpay(orderId, checkout);
+      }
+    } catch (error) {
+      fail(error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFakePayment = async (outcome: "paid" | "failed") => {
+    if (!fakeOrderId) return;
+    setBusy(true);
+    try {
+      const { checkoutResponse } = await postJson("/api/payments/fake/pay", { orderId: fakeOrderId, outcome });
+      if (!checkoutResponse) {
+        throw new Error("The test payment was declined.");
+      }
+      await verify(fakeOrderId, checkoutResponse);
+      setFakeOrderId(null);
+    } catch (error) {
+      fail(error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (fakeOrderId) {
+    return (
+      <div className="grid w-full gap-2 rounded-lg border border-dashed p-4">
+        <p className="text-sm text-muted-foreground">
+          Test checkout: payments go to the fake provider and no money is taken.
+        </p>
+        <Button onClick={() => handleFakePayment("paid")} disabled={busy}>
+          {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Simulate successful payment
+        </Button>
+        <Button variant="outline" onClick={() => handleFakePayment("failed")} disabled={busy}>
+          Simulate failed payment
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Button onClick={handlePay} disabled={busy} className="w-full">
+      {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+      Pay {formatPackagePrice(purchase.pkg, purchase.pricePoint)}
+    </Button>
+  );
+}
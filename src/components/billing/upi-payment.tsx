@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/auth-client";
+import type { PackagePurchase } from "@/lib/payments";
+import { formatMoney } from "@/lib/pricing";
+import { Loader2, Smartphone } from "lucide-react";
+
+interface UpiPaymentRequest {
+  attemptId: string;
+  reference: string;
+  amount: number;
+  currency: string;
+  payee: { vpa: string; name: string };
+  intentUri: string;
+  qrCode: string;
+}
+
+interface UpiPaymentProps {
+  purchase: PackagePurchase;
+  // called once the transfer has been reported for review
+  onSubmitted: (message: string) => void;
+}
+
+/**
+ * Pay for a package from any UPI app: a QR code (and on phones, a link that
+ * opens the UPI app) for the exact price, with a reference unique to this
+ * attempt so the transfer can be matched to the package. Once paid, the user
+ * reports the UTR (and optionally a screenshot) for an admin to confirm.
+ */
+export function UpiPayment({ purchase, onSubmitted }: UpiPaymentProps) {
+  const [request, setRequest] = useState<UpiPaymentRequest | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [utr, setUtr] = useState("");
+  const [screenshot, setScreenshot] = useState<File | null>(null);
+  const { toast } = useToast();
+
+  const handleStart = async () => {
+    setBusy(true);
+    try {
+      const res = await authFetch("/api/payments/upi", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ packageId: purchase.pkg.id, billingPeriod: purchase.pricePoint.billing_period }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Could not start the UPI payment");
+      }
+      setRequest(data);
+    } catch (error) {
+      toast({ title: "UPI payment", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmitPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!request) return;
+    setBusy(true);
+    try {
+      const form = new FormData();
+      form.set("attemptId", request.attemptId);
+      form.set("utr", utr);
+      if (screenshot) {
+        form.set("screenshot", screenshot);
+      }
+      const res = await authFetch("/api/payments/manual", { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Could not submit the payment");
+      }
+      onSubmitted(data.message);
+    } catch (error) {
+      toast({ title: "UPI payment", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!request) {
+    return (
+      <Button variant="outline" onClick={handleStart} disabled={busy} className="w-full">
+        {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Pay by UPI
+      </Button>
+    );
+  }
+
+  return (
+    <div className="grid w-full justify-items-center gap-3 text-center">
+      <img src={request.qrCode} alt={`UPI QR code to pay ${request.payee.name}`} className="h-48 w-48" />
+      <p className="text-sm text-muted-foreground">
+        Scan with any UPI app to pay{" "}
+        <span className="font-semibold text-foreground">{formatMoney(request.amount, request.currency)}</span> to{" "}
+        <span className="font-mono">{request.payee.vpa}</span>
+      </p>
+      <p className="text-xs text-muted-foreground">
+        Reference <span className="font-mono text-foreground">{request.reference}</span>. Keep it with your payment
+        receipt; we use it to match your transfer to this payment.
+      </p>
+      {/* phones open the UPI app directly */}
+      <Button asChild className="w-full md:hidden">
+        <a href={request.intentUri}>
+          <Smartphone className="mr-2 h-4 w-4" />
+          Open UPI app
+        </a>
+      </Button>
+      <a
+        href={`/api/payments/upi/${encodeURIComponent(request.attemptId)}/qr?format=png`}
+        download={`upi-${request.reference}.png`}
+        className="text-xs underline text-muted-foreground"
+      >
+        Download QR code
+      </a>
+      <form onSubmit={handleSubmitPayment} className="grid w-full gap-3 border-t pt-3 text-left">
+        <p className="text-sm text-muted-foreground">
+          Paid? Enter the UTR (the 12-digit transaction reference in your UPI app) and we will activate your plan once
+          the payment is confirmed.
+        </p>
+        <div className="grid gap-2">
+          <Label htmlFor="upi-utr">UTR / transaction reference</Label>
+          <Input id="upi-utr" required value={utr} onChange={e => setUtr(e.target.value)} autoComplete="off" />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="upi-screenshot">Payment screenshot (optional)</Label>
+          <Input
+            id="upi-screenshot"
+            type="file"
+            accept="image/png,image/jpeg"
+            onChange={e => setScreenshot(e.target.files?.[0] ?? null)}
+          />
+        </div>
+        <Button type="submit" disabled={busy || !utr.trim()}>
+          {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Submit payment
+        </Button>
+      </form>
+    </div>
+  );
+}
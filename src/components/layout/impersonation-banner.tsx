@@ -0,0 +1,45 @@
+'use client';
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Eye, Loader2 } from "lucide-react";
+
+/**
+ * Shown on every page while an admin is viewing the app as a user
+ */
+export function ImpersonationBanner() {
+  const [ending, setEnding] = useState(false);
+  const { user, endImpersonation } = useAuth();
+  const { toast } = useToast();
+
+  if (!user?.impersonator) {
+    return null;
+  }
+
+  const handleEnd = async () => {
+    setEnding(true);
+    try {
+      await endImpersonation();
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+      setEnding(false);
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-[60] flex flex-wrap items-center justify-center gap-x-4 gap-y-2 bg-amber-500 px-4 py-2 text-sm font-medium text-black">
+      <span className="flex items-center gap-2">
+        <Eye className="h-4 w-4" />
+        Viewing as {user.email} ({user.impersonator.email}, until {format(new Date(user.impersonator.until), 'p')}).
+        Password, two-factor and subscription changes are disabled.
+      </span>
+      <Button size="sm" variant="secondary" disabled={ending} onClick={handleEnd}>
+        {ending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        End impersonation
+      </Button>
+    </div>
+  );
+}
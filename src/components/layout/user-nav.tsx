@@ -13,10 +13,10 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/hooks/use-auth";
 import Link from "next/link";
-import { LayoutDashboard, LogOut } from "lucide-react";
+import { LayoutDashboard, LogOut, ShieldCheck, UserCog } from "lucide-react";
 
 export function UserNav() {
-  const { user, logout } = useAuth();
+  const { user, logout, endImpersonation } = useAuth();
 
   if (!user) {
     return null;
@@ -51,12 +51,31 @@ export function UserNav() {
               <span>Dashboard</span>
             </DropdownMenuItem>
           </Link>
+          <Link href="/account">
+            <DropdownMenuItem>
+              <UserCog className="mr-2 h-4 w-4" />
+              <span>Account</span>
+            </DropdownMenuItem>
+          </Link>
+          <Link href="/dashboard/security">
+            <DropdownMenuItem>
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              <span>Security</span>
+            </DropdownMenuItem>
+          </Link>
         </DropdownMenuGroup>
         <DropdownMenuSeparator />
-        <DropdownMenuItem onClick={logout}>
-          <LogOut className="mr-2 h-4 w-4" />
-          <span>Log out</span>
-        </DropdownMenuItem>
+        {user.impersonator ? (
+          <DropdownMenuItem onClick={() => endImpersonation().catch(console.error)}>
+            <LogOut className="mr-2 h-4 w-4" />
+            <span>End impersonation</span>
+          </DropdownMenuItem>
+        ) : (
+          <DropdownMenuItem onClick={logout}>
+            <LogOut className="mr-2 h-4 w-4" />
+            <span>Log out</span>
+          </DropdownMenuItem>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
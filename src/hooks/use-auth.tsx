@@ -1,65 +1,156 @@
 'use client';
 
-import React, { useState, useEffect, createContext, useContext, ReactNode } from 'react';
+import React, { useState, useEffect, useRef, useCallback, createContext, useContext, ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
+import { authFetch } from '@/lib/auth-client';
+import type { Role } from '@/lib/permissions';
+
+// refresh the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// keys used by clients from before cookie sessions
+const LEGACY_STORAGE_KEYS = ['authToken', 'refreshToken', 'authTokenExpiresAt'];
 
 interface AuthUser {
   id: string;
   email: string;
   name: string;
-  role: 'admin' | 'user';
-  plan: 'Starter' | 'Pro' | 'Expert';
-  status: 'Active' | 'Cancelled';
+  role: Role;
+  plan: string | null;
+  status: 'Active' | 'Cancelled' | 'pending_verification';
+  // set while an admin is viewing the app as this user
+  impersonator?: { email: string; until: string };
+}
+
+/**
+ * Error from the login or signup API. `code` is set for failures the UI
+ * handles specially, e.g. 'email_not_verified'.
+ */
+export class AuthRequestError extends Error {
+  code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = 'AuthRequestError';
+    this.code = code;
+  }
 }
 
 interface AuthContextType {
   user: AuthUser | null;
   loading: boolean;
   login: (email: string, password: string) => Promise<any>;
+  verifyMfa: (mfaToken: string, code: string) => Promise<any>;
+  requestMagicLink: (email: string) => Promise<any>;
+  loginWithMagicLink: (token: string) => Promise<any>;
   signup: (email: string, password: string, name: string) => Promise<any>;
   logout: () => void;
+  logoutEverywhere: () => Promise<void>;
+  endImpersonation: () => Promise<void>;
+  refreshUser: () => Promise<void>;
   isAuthenticated: boolean;
-  token: string | null;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<AuthUser | null>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
+  const refreshInFlight = useRef<Promise<boolean> | null>(null);
+
+  const clearSession = useCallback(() => {
+    setUser(null);
+    setExpiresAt(null);
+  }, []);
+
+  // Rotate the refresh cookie. Concurrent callers share one request because
+  // each refresh token can only be used once.
+  const refreshSession = useCallback(async (): Promise<boolean> => {
+    if (refreshInFlight.current) {
+      return refreshInFlight.current;
+    }
+
+    refreshInFlight.current = (async () => {
+      try {
+        const response = await authFetch('/api/auth/refresh', { method: 'POST' });
+        if (!response.ok) {
+          return false;
+        }
+        const data = await response.json();
+        setExpiresAt(data.expiresAt || null);
+        return true;
+      } catch (error) {
+        console.error('Token refresh failed:', error);
+        return false;
+      } finally {
+        refreshInFlight.current = null;
+      }
+    })();
+
+    return refreshInFlight.current;
+  }, []);
+
+  const loadUser = useCallback(async () => {
+    let response = await fetch('/api/auth/verify', { credentials: 'same-origin' });
+
+    // The access cookie may simply have expired while the tab was closed
+    if (response.status === 401 && (await refreshSession())) {
+      response = await fetch('/api/auth/verify', { credentials: 'same-origin' });
+    }
+
+    if (response.ok) {
+      const data = await response.json();
+      setUser(data.user);
+      setExpiresAt(data.expiresAt || null);
+    } else {
+      clearSession();
+    }
+  }, [clearSession, refreshSession]);
 
-  // Check for existing token on mount
+  // Check for an existing session on mount
   useEffect(() => {
     const checkAuth = async () => {
-      const storedToken = localStorage.getItem('authToken');
-      if (storedToken) {
-        try {
-          const response = await fetch('/api/auth/verify', {
-            headers: {
-              Authorization: `Bearer ${storedToken}`,
-            },
+      try {
+        // Clients that still hold a refresh token in localStorage trade it
+        // for session cookies once, then forget it
+        const legacyRefreshToken = localStorage.getItem('refreshToken');
+        if (legacyRefreshToken) {
+          await authFetch('/api/auth/refresh', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken: legacyRefreshToken }),
           });
-
-          if (response.ok) {
-            const data = await response.json();
-            setUser(data.user);
-            setToken(storedToken);
-          } else {
-            // Token is invalid, clear it
-            localStorage.removeItem('authToken');
-          }
-        } catch (error) {
-          console.error('Auth check failed:', error);
-          localStorage.removeItem('authToken');
         }
+        LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+
+        await loadUser();
+      } catch (error) {
+        console.error('Auth check failed:', error);
+        clearSession();
       }
       setLoading(false);
     };
 
     checkAuth();
-  }, []);
+  }, [loadUser, clearSession]);
+
+  // Refresh the access token shortly before it expires
+  useEffect(() => {
+    if (!user || !expiresAt) return;
+
+    const delay = Math.max(new Date(expiresAt).getTime() - Date.now() - REFRESH_MARGIN_MS, 0);
+    const timer = setTimeout(async () => {
+      const refreshed = await refreshSession();
+      if (!refreshed) {
+        clearSession();
+        router.push('/login');
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [user, expiresAt, refreshSession, clearSession, router]);
 
   const login = async (email: string, password: string) => {
     setLoading(true);
@@ -74,13 +165,19 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || 'Login failed');
+        throw new AuthRequestError(error.error || 'Login failed', error.code);
       }
 
       const data = await response.json();
+
+      // Accounts with two-factor authentication get a session only after
+      // the code step; the caller completes it with verifyMfa()
+      if (data.mfaRequired) {
+        return data;
+      }
+
       setUser(data.user);
-      setToken(data.token);
-      localStorage.setItem('authToken', data.token);
+      setExpiresAt(data.expiresAt || null);
 
       return data;
     } catch (error) {
@@ -90,6 +187,72 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const verifyMfa = async (mfaToken: string, code: string) => {
+    const response = await fetch('/api/auth/mfa/verify', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ mfaToken, code }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new AuthRequestError(error.error || 'Verification failed', error.code);
+    }
+
+    const data = await response.json();
+    setUser(data.user);
+    setExpiresAt(data.expiresAt || null);
+
+    return data;
+  };
+
+  // Emails a sign-in link; the response sets the cookie that lets this
+  // browser use it
+  const requestMagicLink = async (email: string) => {
+    const response = await fetch('/api/auth/magic-link', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new AuthRequestError(data.error || 'Could not send a sign-in link', data.code);
+    }
+    return data;
+  };
+
+  const loginWithMagicLink = async (token: string) => {
+    const response = await fetch('/api/auth/magic-link/verify', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new AuthRequestError(error.error || 'Login failed', error.code);
+    }
+
+    const data = await response.json();
+
+    // completed with verifyMfa(), as for a password login
+    if (data.mfaRequired) {
+      return data;
+    }
+
+    setUser(data.user);
+    setExpiresAt(data.expiresAt || null);
+
+    return data;
+  };
+
   const signup = async (email: string, password: string, name: string) => {
     setLoading(true);
     try {
@@ -103,15 +266,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || 'Signup failed');
+        throw new AuthRequestError(error.error || 'Signup failed', error.code);
       }
 
-      const data = await response.json();
-      setUser(data.user);
-      setToken(data.token);
-      localStorage.setItem('authToken', data.token);
-
-      return data;
+      // New accounts have to verify their email before they can log in
+      return await response.json();
     } catch (error) {
       throw error;
     } finally {
@@ -121,32 +280,51 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
   const logout = async () => {
     try {
-      if (token) {
-        await fetch('/api/auth/logout', {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
-      }
+      await authFetch('/api/auth/logout', { method: 'POST' });
     } catch (error) {
       console.error('Logout request failed:', error);
     } finally {
-      setUser(null);
-      setToken(null);
-      localStorage.removeItem('authToken');
+      clearSession();
       router.push('/login');
     }
   };
 
+  const logoutEverywhere = async () => {
+    try {
+      await authFetch('/api/auth/logout-all', { method: 'POST' });
+    } catch (error) {
+      console.error('Logout everywhere request failed:', error);
+    } finally {
+      clearSession();
+      router.push('/login');
+    }
+  };
+
+  // Back to the admin's own session; a full page load so the admin
+  // dashboard starts from a clean state
+  const endImpersonation = async () => {
+    const response = await authFetch('/api/auth/impersonation', { method: 'DELETE' });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || 'Could not end impersonation');
+    }
+    clearSession();
+    window.location.assign(data.redirectTo || '/admin/login');
+  };
+
   const value = {
     user,
-    token,
     loading,
     login,
+    verifyMfa,
+    requestMagicLink,
+    loginWithMagicLink,
     signup,
     logout,
-    isAuthenticated: !!user && !!token,
+    logoutEverywhere,
+    endImpersonation,
+    refreshUser: loadUser,
+    isAuthenticated: !!user,
   };
 
   return (
@@ -0,0 +1,71 @@
+/**
+ * Server startup checks
+ * Runs once when a server instance starts. A production server without a
+ * usable JWT signing key refuses to start instead of signing tokens with a
+ * guessable secret, one without a valid seller GSTIN instead of issuing
+ * invoices that charge GST without it, and one without a mail transport
+ * instead of logging the links it emails, and one without TRUSTED_PROXIES
+ * instead of seeing every client as the same unknown IP. Plug custom mail
+ * transports in with setMailTransport() before the mail check.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { getKeyRing } = await import('./lib/jwt-keys');
+  try {
+    const ring = await getKeyRing();
+    console.log(`JWT key ring loaded: signing with ${ring.signing.kid} (${ring.signing.alg}), ${ring.keys.size} key(s)`);
+  } catch (error) {
+    console.error('JWT key configuration error:', (error as Error).message);
+    if (process.env.NODE_ENV === 'production') {
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  const { getInvoiceSeller } = await import('./lib/invoices');
+  try {
+    const seller = getInvoiceSeller();
+    console.log(
+      seller.gstin
+        ? `Invoicing as GSTIN ${seller.gstin}`
+        : 'GST_SELLER_GSTIN is not set: payments get bills of supply without GST'
+    );
+  } catch (error) {
+    console.error('Invoice configuration error:', (error as Error).message);
+    if (process.env.NODE_ENV === 'production') {
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  const { getMailTransportName } = await import('./lib/mailer');
+  try {
+    console.log(`Mail transport: ${getMailTransportName()}`);
+  } catch (error) {
+    console.error('Mail configuration error:', (error as Error).message);
+    if (process.env.NODE_ENV === 'production') {
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  const { checkTrustedProxies } = await import('./lib/client-ip');
+  try {
+    const proxies = checkTrustedProxies();
+    if (proxies.length > 0) {
+      console.log(`Trusted proxies: ${proxies.join(', ')}`);
+    } else {
+      console.warn('TRUSTED_PROXIES is not set: forwarding headers are ignored and client IPs are unknown');
+    }
+  } catch (error) {
+    console.error('Proxy configuration error:', (error as Error).message);
+    if (process.env.NODE_ENV === 'production') {
+      process.exit(1);
+    }
+    throw error;
+  }
+}
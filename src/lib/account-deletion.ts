@@ -0,0 +1,103 @@
+/**
+ * Account deletion (DPDP Act right to erasure)
+ * A deletion request only takes effect after a cooling-off period, during
+ * which the user can cancel it. The account is then anonymised rather than
+ * deleted, so billing and audit records that have to be kept survive without
+ * personal data (see anonymiseUser in ./db-auth).
+ */
+
+import {
+  getDueAccountDeletions,
+  getUserById,
+  anonymiseUser,
+  logAuditAction,
+} from './db-auth';
+import { removeDataExportFiles } from './data-export';
+import { removePaymentScreenshots } from './payment-review';
+import { sendMail, appUrl } from './mailer';
+
+export const ACCOUNT_DELETION_COOLING_OFF_DAYS = 14;
+
+export function deletionDate(from: Date = new Date()): Date {
+  return new Date(from.getTime() + ACCOUNT_DELETION_COOLING_OFF_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Confirm a deletion request and explain how to cancel it
+ */
+export async function sendDeletionScheduledEmail(
+  user: { email: string; name: string },
+  scheduledFor: Date,
+  origin: string
+): Promise<void> {
+  await sendMail({
+    to: user.email,
+    subject: 'Your Quantum Alpha India account will be deleted',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `We received a request to delete your account. It will be deleted on ${scheduledFor.toUTCString()}.`,
+      '',
+      'Until then you can cancel the request from your account page:',
+      '',
+      appUrl('/account', origin),
+      '',
+      'Once deleted, your personal data is erased. Billing and audit records we are legally required to keep are retained without your name or contact details.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * Erase an account right away: its export archives and payment screenshots
+ * are removed from disk and the account is anonymised. Used when the
+ * cooling-off period is over and when an admin deletes a user.
+ */
+export async function eraseAccount(userId: string): Promise<void> {
+  await removeDataExportFiles(userId);
+  await removePaymentScreenshots(userId);
+  await anonymiseUser(userId);
+}
+
+/**
+ * Anonymise every account whose cooling-off period is over. Meant to run
+ * periodically (see /api/cron/personal-data). Returns how many accounts were
+ * anonymised; a failure for one account doesn't stop the others.
+ */
+export async function processDueAccountDeletions(): Promise<number> {
+  const due = await getDueAccountDeletions();
+  let completed = 0;
+
+  for (const request of due) {
+    try {
+      const user = await getUserById(request.user_id);
+
+      await eraseAccount(request.user_id);
+      completed++;
+
+      await logAuditAction({
+        actorType: 'system',
+        action: 'account_anonymised',
+        entityType: 'user',
+        entityId: request.user_id,
+        changes: { request_id: request.id },
+      });
+
+      // the last email to the old address, sent from what we still hold in memory
+      if (user) {
+        await sendMail({
+          to: user.email,
+          subject: 'Your Quantum Alpha India account has been deleted',
+          text: [
+            `Hi ${user.name},`,
+            '',
+            'As requested, your Quantum Alpha India account has been deleted and your personal data erased.',
+          ].join('\n'),
+        }).catch(error => console.error('Account deleted notice error:', error));
+      }
+    } catch (error) {
+      console.error(`Account deletion ${request.id} failed:`, error);
+    }
+  }
+
+  return completed;
+}
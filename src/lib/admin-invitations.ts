@@ -0,0 +1,43 @@
+/**
+ * Admin invitations
+ * Invited admins receive a single-use link to set their password. Tokens are
+ * opaque and stored hashed, like password reset tokens.
+ */
+
+import { createAdminInvitation } from './db-auth';
+import { generateToken, hashToken } from './tokens';
+import { sendMail, appUrl } from './mailer';
+
+export const INVITATION_TTL_HOURS = 72;
+
+/**
+ * Email a set-password link to an invited admin. Any earlier link for the
+ * same admin stops working.
+ */
+export async function sendAdminInvitation(
+  admin: { id: string; email: string; name: string; role: string },
+  invitedBy: { userId: string; email: string },
+  origin: string
+): Promise<void> {
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_HOURS * 60 * 60 * 1000);
+  await createAdminInvitation(admin.id, hashToken(token), expiresAt, invitedBy.userId);
+
+  const inviteUrl = appUrl(
+    `/admin/accept-invite?token=${encodeURIComponent(token)}`,
+    origin
+  );
+  await sendMail({
+    to: admin.email,
+    subject: 'You have been invited to administer Quantum Alpha India',
+    text: [
+      `Hi ${admin.name},`,
+      '',
+      `${invitedBy.email} has invited you to join Quantum Alpha India as ${admin.role === 'superadmin' ? 'a superadmin' : 'an admin'}. Open the link below to set your password:`,
+      '',
+      inviteUrl,
+      '',
+      `The link expires in ${INVITATION_TTL_HOURS} hours and can only be used once. You will be asked to set up two-factor authentication when you first sign in.`,
+    ].join('\n'),
+  });
+}
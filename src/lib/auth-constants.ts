@@ -0,0 +1,27 @@
+/**
+ * Auth constants shared by server, edge and browser code
+ */
+
+// Access tokens are short-lived and refreshed from a rotating refresh token
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export const ACCESS_COOKIE = 'qa_session';
+export const REFRESH_COOKIE = 'qa_refresh';
+export const CSRF_COOKIE = 'qa_csrf';
+export const CSRF_HEADER = 'x-csrf-token';
+
+// Holds the admin's own refresh token while they view the app as a user
+export const IMPERSONATOR_COOKIE = 'qa_impersonator';
+export const IMPERSONATION_TTL_SECONDS = 60 * 60;
+
+// PKCE verifier, state and nonce of an OIDC login in progress
+export const OIDC_STATE_COOKIE = 'qa_oidc';
+export const OIDC_STATE_TTL_SECONDS = 10 * 60;
+
+// Ties an emailed sign-in link to the browser that asked for it
+export const MAGIC_LINK_COOKIE = 'qa_magic_link';
+export const MAGIC_LINK_TTL_SECONDS = 15 * 60;
+
+// Non-browser clients send this header to receive tokens in the response body
+export const AUTH_TRANSPORT_HEADER = 'x-auth-transport';
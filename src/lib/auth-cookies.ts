@@ -0,0 +1,177 @@
+/**
+ * Session cookie and CSRF helpers
+ * Kept free of Node-only imports so middleware can use them at the edge
+ */
+
+import type { NextRequest, NextResponse } from 'next/server';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS,
+  ACCESS_COOKIE,
+  REFRESH_COOKIE,
+  CSRF_COOKIE,
+  CSRF_HEADER,
+  AUTH_TRANSPORT_HEADER,
+  IMPERSONATOR_COOKIE,
+  IMPERSONATION_TTL_SECONDS,
+  OIDC_STATE_COOKIE,
+  OIDC_STATE_TTL_SECONDS,
+  MAGIC_LINK_COOKIE,
+  MAGIC_LINK_TTL_SECONDS,
+} from './auth-constants';
+
+// the refresh cookie is only sent to the auth routes that need it
+const REFRESH_COOKIE_PATH = '/api/auth';
+const IMPERSONATOR_COOKIE_PATH = '/api/auth/impersonation';
+const OIDC_STATE_COOKIE_PATH = '/api/auth/oidc';
+const MAGIC_LINK_COOKIE_PATH = '/api/auth/magic-link';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+const secure = process.env.NODE_ENV === 'production';
+
+/**
+ * Bearer tokens in the Authorization header are still accepted while clients
+ * migrate to cookie sessions. Set AUTH_ACCEPT_BEARER=false to turn them off.
+ */
+export function isBearerAuthEnabled(): boolean {
+  return process.env.AUTH_ACCEPT_BEARER !== 'false';
+}
+
+/**
+ * Whether the client asked for tokens in the body instead of cookies
+ */
+export function wantsBearerTransport(request: NextRequest): boolean {
+  return (
+    isBearerAuthEnabled() &&
+    request.headers.get(AUTH_TRANSPORT_HEADER)?.toLowerCase() === 'bearer'
+  );
+}
+
+/**
+ * Read the access token from the session cookie, or from the Authorization
+ * header while bearer tokens are still accepted
+ */
+export function getRequestToken(request: NextRequest): string | null {
+  const cookieToken = request.cookies.get(ACCESS_COOKIE)?.value;
+  if (cookieToken) {
+    return cookieToken;
+  }
+
+  const authHeader = request.headers.get('authorization');
+  if (isBearerAuthEnabled() && authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+
+  return null;
+}
+
+export function setSessionCookies(
+  response: NextResponse,
+  tokens: { accessToken: string; refreshToken: string }
+): void {
+  response.cookies.set(ACCESS_COOKIE, tokens.accessToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: ACCESS_TOKEN_TTL_SECONDS,
+  });
+  response.cookies.set(REFRESH_COOKIE, tokens.refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'strict',
+    path: REFRESH_COOKIE_PATH,
+    maxAge: REFRESH_TOKEN_TTL_SECONDS,
+  });
+  // readable by client script, which echoes it back in the CSRF header
+  response.cookies.set(CSRF_COOKIE, crypto.randomUUID(), {
+    httpOnly: false,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: REFRESH_TOKEN_TTL_SECONDS,
+  });
+}
+
+export function clearSessionCookies(response: NextResponse): void {
+  response.cookies.set(ACCESS_COOKIE, '', { path: '/', maxAge: 0 });
+  response.cookies.set(REFRESH_COOKIE, '', { path: REFRESH_COOKIE_PATH, maxAge: 0 });
+  response.cookies.set(CSRF_COOKIE, '', { path: '/', maxAge: 0 });
+}
+
+/**
+ * Keep the admin's refresh token while they impersonate a user, so ending
+ * the impersonation can put their own session back
+ */
+export function setImpersonatorCookie(response: NextResponse, refreshToken: string): void {
+  response.cookies.set(IMPERSONATOR_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'strict',
+    path: IMPERSONATOR_COOKIE_PATH,
+    maxAge: IMPERSONATION_TTL_SECONDS,
+  });
+}
+
+export function clearImpersonatorCookie(response: NextResponse): void {
+  response.cookies.set(IMPERSONATOR_COOKIE, '', { path: IMPERSONATOR_COOKIE_PATH, maxAge: 0 });
+}
+
+/**
+ * Remember an OIDC login until the provider redirects back. SameSite=Lax so
+ * the cookie is sent on that cross-site redirect.
+ */
+export function setOidcStateCookie(response: NextResponse, state: string): void {
+  response.cookies.set(OIDC_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: OIDC_STATE_COOKIE_PATH,
+    maxAge: OIDC_STATE_TTL_SECONDS,
+  });
+}
+
+export function clearOidcStateCookie(response: NextResponse): void {
+  response.cookies.set(OIDC_STATE_COOKIE, '', { path: OIDC_STATE_COOKIE_PATH, maxAge: 0 });
+}
+
+/**
+ * Mark the browser that asked for a sign-in link; only it can use the link
+ */
+export function setMagicLinkCookie(response: NextResponse, browserToken: string): void {
+  response.cookies.set(MAGIC_LINK_COOKIE, browserToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'strict',
+    path: MAGIC_LINK_COOKIE_PATH,
+    maxAge: MAGIC_LINK_TTL_SECONDS,
+  });
+}
+
+export function clearMagicLinkCookie(response: NextResponse): void {
+  response.cookies.set(MAGIC_LINK_COOKIE, '', { path: MAGIC_LINK_COOKIE_PATH, maxAge: 0 });
+}
+
+/**
+ * Double-submit CSRF check for mutating requests.
+ *
+ * Browsers attach cookies to cross-site requests but never an Authorization
+ * header or a custom header, so requests that authenticate with a bearer
+ * token only need the check when a session cookie is present as well.
+ */
+export function verifyCsrf(request: NextRequest): boolean {
+  if (SAFE_METHODS.has(request.method)) {
+    return true;
+  }
+
+  const hasSessionCookie =
+    request.cookies.has(ACCESS_COOKIE) || request.cookies.has(REFRESH_COOKIE);
+  if (!hasSessionCookie) {
+    return true;
+  }
+
+  const cookieValue = request.cookies.get(CSRF_COOKIE)?.value;
+  const headerValue = request.headers.get(CSRF_HEADER);
+  return !!cookieValue && !!headerValue && cookieValue === headerValue;
+}
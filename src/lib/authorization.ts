@@ -0,0 +1,79 @@
+/**
+ * Permission guard for route handlers and server actions
+ * Resolves the current session and checks it against the role permissions in
+ * ./permissions.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession } from './session';
+import { JWTPayload } from './jwt';
+import { isMfaRequired } from './mfa';
+import { Permission, hasPermission } from './permissions';
+
+export class AuthorizationError extends Error {
+  constructor(
+    message: string,
+    public status: 401 | 403
+  ) {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+}
+
+/**
+ * Return the current session if it grants `permission`, otherwise throw an
+ * AuthorizationError (401 without a session, 403 without the permission).
+ */
+export async function requirePermission(permission: Permission): Promise<JWTPayload> {
+  const payload = await getSession();
+  if (!payload) {
+    throw new AuthorizationError('Not authenticated', 401);
+  }
+
+  // admins from the admins table must have signed in with a second factor
+  if (isMfaRequired(payload.accountType || 'user') && !payload.mfa) {
+    throw new AuthorizationError('Two-factor authentication must be set up first', 403);
+  }
+
+  if (!hasPermission(payload.role, permission)) {
+    throw new AuthorizationError('Insufficient permissions', 403);
+  }
+
+  return payload;
+}
+
+/**
+ * Return the current session for the self-service account routes, which
+ * only serve accounts in the users table. Admins from the admins table manage
+ * their account from the admin dashboard.
+ */
+export async function requireUserSession(): Promise<JWTPayload> {
+  const payload = await getSession();
+  if (!payload) {
+    throw new AuthorizationError('Not authenticated', 401);
+  }
+
+  if ((payload.accountType || 'user') !== 'user') {
+    throw new AuthorizationError('Admin accounts are managed from the admin dashboard', 403);
+  }
+
+  return payload;
+}
+
+/**
+ * Throw for changes only the account holder may make (passwords, two-factor
+ * settings, subscriptions, signing out other devices) when an admin is
+ * viewing the app as the user
+ */
+export function forbidImpersonation(payload: JWTPayload): void {
+  if (payload.impersonator) {
+    throw new AuthorizationError('This action is not available while viewing as a user', 403);
+  }
+}
+
+/**
+ * JSON error response for an AuthorizationError thrown in a route handler
+ */
+export function authorizationErrorResponse(error: AuthorizationError): NextResponse {
+  return NextResponse.json({ error: error.message }, { status: error.status });
+}
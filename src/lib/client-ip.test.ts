@@ -0,0 +1,85 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkTrustedProxies, getClientIp, isTrustedProxy } from './client-ip';
+
+const ENV_KEYS = ['NODE_ENV', 'TRUSTED_PROXIES'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+function setEnv(values: Record<string, string | undefined>): void {
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      Object.assign(process.env, { [key]: value });
+    }
+  }
+}
+
+afterEach(() => setEnv(savedEnv));
+
+function ipOf(headers: Record<string, string>): string {
+  return getClientIp(new Headers(headers));
+}
+
+describe('getClientIp', () => {
+  it('takes the last hop that is not one of our proxies', () => {
+    setEnv({ TRUSTED_PROXIES: '10.0.0.0/8, 127.0.0.1' });
+    assert.equal(ipOf({ 'x-forwarded-for': '203.0.113.7, 10.1.2.3' }), '203.0.113.7');
+    assert.equal(ipOf({ 'x-forwarded-for': '203.0.113.7, 10.1.2.3, 127.0.0.1' }), '203.0.113.7');
+  });
+
+  it('ignores addresses the client put in front of the real one', () => {
+    setEnv({ TRUSTED_PROXIES: '10.0.0.0/8' });
+    assert.equal(ipOf({ 'x-forwarded-for': '1.1.1.1, 198.51.100.4, 10.0.0.1' }), '198.51.100.4');
+  });
+
+  it('unwraps IPv4 addresses forwarded over IPv6', () => {
+    setEnv({ TRUSTED_PROXIES: '10.0.0.0/8' });
+    assert.equal(ipOf({ 'x-forwarded-for': '::ffff:198.51.100.4, ::ffff:10.0.0.1' }), '198.51.100.4');
+  });
+
+  it('uses the first hop when every hop is a proxy', () => {
+    setEnv({ TRUSTED_PROXIES: '10.0.0.0/8' });
+    assert.equal(ipOf({ 'x-forwarded-for': '10.0.0.5, 10.0.0.1' }), '10.0.0.5');
+  });
+
+  it('falls back to X-Real-IP, then unknown', () => {
+    setEnv({ TRUSTED_PROXIES: '10.0.0.1' });
+    assert.equal(ipOf({ 'x-real-ip': '198.51.100.4' }), '198.51.100.4');
+    assert.equal(ipOf({}), 'unknown');
+  });
+
+  it('ignores forwarding headers without trusted proxies', () => {
+    setEnv({ TRUSTED_PROXIES: undefined });
+    assert.equal(ipOf({ 'x-forwarded-for': '198.51.100.4', 'x-real-ip': '198.51.100.4' }), 'unknown');
+  });
+});
+
+describe('isTrustedProxy', () => {
+  it('matches single addresses and IPv4 ranges', () => {
+    setEnv({ TRUSTED_PROXIES: '192.168.1.0/24,::1' });
+    assert.ok(isTrustedProxy('192.168.1.200'));
+    assert.ok(isTrustedProxy('::1'));
+    assert.ok(!isTrustedProxy('192.168.2.1'));
+  });
+
+  it('ignores malformed ranges', () => {
+    setEnv({ TRUSTED_PROXIES: '192.168.1.0/33,300.1.1.1/8' });
+    assert.ok(!isTrustedProxy('192.168.1.1'));
+    assert.ok(!isTrustedProxy('44.1.1.1'));
+  });
+});
+
+describe('checkTrustedProxies', () => {
+  it('requires trusted proxies in production', () => {
+    setEnv({ NODE_ENV: 'production', TRUSTED_PROXIES: undefined });
+    assert.throws(() => checkTrustedProxies(), /TRUSTED_PROXIES must be set in production/);
+    setEnv({ TRUSTED_PROXIES: '10.0.0.1' });
+    assert.deepEqual(checkTrustedProxies(), ['10.0.0.1']);
+  });
+
+  it('allows none in development', () => {
+    setEnv({ NODE_ENV: 'development', TRUSTED_PROXIES: undefined });
+    assert.deepEqual(checkTrustedProxies(), []);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Client IP resolution
+ *
+ * X-Forwarded-For is a list the client can write to, so only the hops added
+ * by our own proxies can be trusted. Walking the list from the right and
+ * skipping proxies listed in TRUSTED_PROXIES (comma-separated IPs or IPv4
+ * CIDR ranges) leaves the address our outermost proxy saw. Without
+ * TRUSTED_PROXIES there is no proxy to vouch for the forwarding headers, so
+ * they are ignored and the client IP is unknown; production requires it.
+ */
+
+// parsed once per value of TRUSTED_PROXIES
+let trustedProxies: { source: string; entries: string[] } | null = null;
+
+function getTrustedProxies(): string[] {
+  const source = process.env.TRUSTED_PROXIES || '';
+  if (trustedProxies?.source !== source) {
+    trustedProxies = {
+      source,
+      entries: source
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean),
+    };
+  }
+  return trustedProxies.entries;
+}
+
+/**
+ * The configured trusted proxies, checked at startup. Throws in production
+ * when there are none: every client would share the IP 'unknown', which
+ * turns per-IP login throttling off and puts all anonymous callers in one
+ * rate limit bucket.
+ */
+export function checkTrustedProxies(): string[] {
+  const proxies = getTrustedProxies();
+  if (proxies.length === 0 && process.env.NODE_ENV === 'production') {
+    throw new Error('TRUSTED_PROXIES must be set in production to the proxies in front of the app');
+  }
+  return proxies;
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!/^\d{1,3}$/.test(part) || octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+function matchesProxy(ip: string, entry: string): boolean {
+  if (!entry.includes('/')) {
+    return ip === entry;
+  }
+
+  const [range, bitsText] = entry.split('/');
+  const bits = Number(bitsText);
+  const ipValue = ipv4ToNumber(ip);
+  const rangeValue = ipv4ToNumber(range);
+  if (ipValue === null || rangeValue === null || !(bits >= 0 && bits <= 32)) {
+    return false;
+  }
+
+  const blockSize = 2 ** (32 - bits);
+  return Math.floor(ipValue / blockSize) === Math.floor(rangeValue / blockSize);
+}
+
+function normalizeIp(ip: string): string {
+  // IPv4 addresses forwarded over IPv6 sockets look like ::ffff:1.2.3.4
+  return ip.trim().replace(/^::ffff:/i, '');
+}
+
+export function isTrustedProxy(ip: string): boolean {
+  return getTrustedProxies().some(entry => matchesProxy(ip, entry));
+}
+
+/**
+ * The IP address of the client that made the request, or 'unknown'
+ */
+export function getClientIp(headers: Headers): string {
+  if (getTrustedProxies().length === 0) {
+    return 'unknown';
+  }
+
+  const forwardedFor = headers.get('x-forwarded-for');
+
+  if (forwardedFor) {
+    const hops = forwardedFor.split(',').map(normalizeIp).filter(Boolean);
+    for (let i = hops.length - 1; i >= 0; i--) {
+      if (!isTrustedProxy(hops[i])) {
+        return hops[i];
+      }
+    }
+    // every hop is one of our proxies, so the request came from inside
+    if (hops.length > 0) {
+      return hops[0];
+    }
+  }
+
+  const realIp = headers.get('x-real-ip');
+  return realIp ? normalizeIp(realIp) : 'unknown';
+}
@@ -0,0 +1,173 @@
+/**
+ * Personal data export ("download my data")
+ * Builds a ZIP archive of everything stored about a user: profile,
+ * subscriptions, payments and invoices, sessions, linked sign-in accounts,
+ * audit entries and uploads. Archives are built after the request has been answered, kept
+ * in DATA_EXPORT_DIR and can be downloaded for DATA_EXPORT_TTL_DAYS.
+ */
+
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  getPersonalData,
+  getUserById,
+  completeDataExport,
+  failDataExport,
+  getExpiredDataExportFiles,
+  deleteExpiredDataExports,
+  getDataExportFiles,
+} from './db-auth';
+import { createZip, ZipEntry } from './zip';
+import { readPaymentScreenshot } from './payment-review';
+import { invoiceFileName, renderInvoicePdf } from './invoices';
+import { sendMail, appUrl } from './mailer';
+
+export const DATA_EXPORT_TTL_DAYS = 7;
+
+// one new export per day is plenty and keeps the archives from piling up
+export const DATA_EXPORT_COOLDOWN_HOURS = 24;
+
+function exportDir(): string {
+  return path.resolve(process.env.DATA_EXPORT_DIR || '.data-exports');
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+// Uploaded files live under public/, referenced by their public path
+async function readUpload(filePath: string): Promise<Buffer | null> {
+  const publicDir = path.resolve('public');
+  const resolved = path.resolve(publicDir, filePath.replace(/^\/+/, ''));
+  if (!resolved.startsWith(publicDir + path.sep)) {
+    return null;
+  }
+  return readFile(resolved).catch(() => null);
+}
+
+async function buildArchive(userId: string): Promise<Buffer> {
+  const data = await getPersonalData(userId);
+  if (!data) {
+    throw new Error('User not found');
+  }
+
+  const entries: ZipEntry[] = [
+    {
+      name: 'README.txt',
+      data: [
+        'Quantum Alpha India personal data export',
+        `Generated: ${new Date().toISOString()}`,
+        '',
+        'profile.json        your account details',
+        'subscriptions.json  subscription history',
+        'payments.json       payments for your plans',
+        'upi-payments.json   UPI payment requests and the transfers matched to them',
+        'upi-reviews.json    UPI transfers you reported and how they were reviewed; screenshots are in upi-screenshots/',
+        'billing.json        the details you gave for your invoices',
+        'invoices.json       invoices for your payments; the PDFs are in invoices/',
+        'sessions.json       devices you signed in on',
+        'identities.json     Google and other accounts you sign in with',
+        'audit-log.json      actions you took and changes made to your account',
+        'uploads.json        files you uploaded; the files themselves are in uploads/',
+      ].join('\n'),
+    },
+    { name: 'profile.json', data: toJson(data.user) },
+    { name: 'subscriptions.json', data: toJson(data.subscriptions) },
+    { name: 'payments.json', data: toJson(data.payments) },
+    { name: 'upi-payments.json', data: toJson(data.paymentAttempts) },
+    { name: 'upi-reviews.json', data: toJson(data.paymentSubmissions) },
+    { name: 'billing.json', data: toJson(data.billingDetails) },
+    { name: 'invoices.json', data: toJson(data.invoices) },
+    { name: 'sessions.json', data: toJson(data.sessions) },
+    { name: 'identities.json', data: toJson(data.identities) },
+    { name: 'audit-log.json', data: toJson(data.auditLog) },
+    { name: 'uploads.json', data: toJson(data.uploads) },
+  ];
+
+  for (const upload of data.uploads) {
+    const contents = await readUpload(upload.file_path);
+    if (contents) {
+      entries.push({ name: `uploads/${upload.id}-${path.basename(upload.filename)}`, data: contents });
+    }
+  }
+
+  for (const submission of data.paymentSubmissions) {
+    const contents = submission.screenshot_path ? await readPaymentScreenshot(submission.screenshot_path) : null;
+    if (contents) {
+      entries.push({ name: `upi-screenshots/${submission.screenshot_path}`, data: contents });
+    }
+  }
+
+  for (const invoice of data.invoices) {
+    entries.push({ name: `invoices/${invoiceFileName(invoice, 'pdf')}`, data: renderInvoicePdf(invoice) });
+  }
+
+  return createZip(entries);
+}
+
+/**
+ * Build the archive for an export request and email the user once it is
+ * ready. Failures are recorded on the request rather than thrown, since this
+ * runs after the response has been sent.
+ */
+export async function processDataExport(
+  exportId: string,
+  userId: string,
+  origin: string
+): Promise<void> {
+  try {
+    const archive = await buildArchive(userId);
+
+    const dir = exportDir();
+    await mkdir(dir, { recursive: true });
+    const filePath = path.join(dir, `${exportId}.zip`);
+    await writeFile(filePath, archive);
+
+    const expiresAt = new Date(Date.now() + DATA_EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000);
+    await completeDataExport(exportId, filePath, archive.length, expiresAt);
+
+    const user = await getUserById(userId);
+    if (user) {
+      await sendMail({
+        to: user.email,
+        subject: 'Your Quantum Alpha India data export is ready',
+        text: [
+          `Hi ${user.name},`,
+          '',
+          'The copy of your personal data you asked for is ready. Download it from your account page:',
+          '',
+          appUrl('/account', origin),
+          '',
+          `The download is available for ${DATA_EXPORT_TTL_DAYS} days.`,
+        ].join('\n'),
+      });
+    }
+  } catch (error) {
+    console.error('Data export error:', error);
+    await failDataExport(exportId).catch(() => undefined);
+  }
+}
+
+export async function readDataExportArchive(filePath: string): Promise<Buffer> {
+  return readFile(filePath);
+}
+
+async function removeFiles(filePaths: string[]): Promise<void> {
+  for (const filePath of filePaths) {
+    await unlink(filePath).catch(() => undefined);
+  }
+}
+
+// Remove a user's archives from disk; their rows go with the account
+export async function removeDataExportFiles(userId: string): Promise<void> {
+  await removeFiles(await getDataExportFiles(userId));
+}
+
+/**
+ * Delete archives whose download window has passed. Returns how many export
+ * requests were removed.
+ */
+export async function deleteExpiredDataExportArchives(): Promise<number> {
+  await removeFiles(await getExpiredDataExportFiles());
+  return deleteExpiredDataExports();
+}
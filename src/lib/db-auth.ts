@@ -3,10 +3,22 @@
  * Handles password hashing, verification, and user operations with MySQL database
  */
 
-import { executeQuery, executeInsert, executeUpdate, executeDelete } from './db';
+import type { PoolConnection } from 'mysql2/promise';
+import { executeQuery, executeInsert, executeUpdate, executeDelete, withTransaction } from './db';
 import { hash, compare } from 'bcryptjs';
 import { randomUUID } from 'crypto';
-import { User, Subscription, Package } from './schema';
+import { User, Subscription, Package, PackagePrice, BillingPeriod } from './schema';
+import { assertPasswordPolicy } from './password-policy';
+import {
+  BILLING_PERIOD_LABELS,
+  currencyCode,
+  isBillingPeriod,
+  packagePrice,
+  pricePoints,
+  renewalDate,
+} from './pricing';
+import { financialYear, isInterState, splitGst } from './gst';
+import { formatInvoiceNumber, getGstRate, getInvoiceSeller, getSacCode } from './invoices';
 
 const BCRYPT_ROUNDS = 10;
 
@@ -16,10 +28,15 @@ export async function hashPassword(password: string): Promise<string> {
   return hash(password, BCRYPT_ROUNDS);
 }
 
+// Accounts created through a sign-in provider have no password hash yet;
+// no password matches them
 export async function verifyPassword(
   password: string,
-  passwordHash: string
+  passwordHash: string | null
 ): Promise<boolean> {
+  if (!passwordHash) {
+    return false;
+  }
   return compare(password, passwordHash);
 }
 
@@ -29,22 +46,27 @@ export async function createUser(data: {
   email: string;
   password: string;
   name: string;
-  plan?: 'Starter' | 'Pro' | 'Expert';
+  plan?: string | null;
+  // self-service signups start unverified; accounts added by an admin are active
+  status?: 'Active' | 'pending_verification';
 }): Promise<User> {
+  assertPasswordPolicy(data.password, [data.email, data.name]);
+
   const id = randomUUID();
   const passwordHash = await hashPassword(data.password);
   // role is always 'user' – admin accounts live in the separate admins
-  // table and are created with the create-admin script.
+  // table and are invited by a superadmin (or created with the create-admin script).
   const role: 'user' = 'user';
-  const plan = data.plan || 'Starter';
+  const plan = data.plan || null;
+  const status = data.status || 'Active';
 
   const query = `
     INSERT INTO users 
     (id, email, password_hash, name, role, plan, status)
-    VALUES (?, ?, ?, ?, ?, ?, 'Active')
+    VALUES (?, ?, ?, ?, ?, ?, ?)
   `;
 
-  const values = [id, data.email, passwordHash, data.name, role, plan];
+  const values = [id, data.email, passwordHash, data.name, role, plan, status];
 
   try {
     await executeInsert(query, values);
@@ -55,7 +77,7 @@ export async function createUser(data: {
       name: data.name,
       role,
       plan,
-      status: 'Active',
+      status,
     };
   } catch (error: any) {
     if (error.code === 'ER_DUP_ENTRY') {
@@ -123,232 +145,2430 @@ export async function getAdminById(id: string): Promise<User | null> {
 
 export async function getUserWithPassword(
   email: string
-): Promise<(User & { password_hash: string }) | null> {
+): Promise<(User & { password_hash: string | null }) | null> {
   const query = `
     SELECT id, email, password_hash, name, role, plan, status 
     FROM users 
     WHERE email = ?
   `;
 
-  const results = await executeQuery<User & { password_hash: string }>(
-    query,
-    [email]
+  const results = await executeQuery<User & { password_hash: string | null }>(
+    query,
+    [email]
+  );
+  return results.length > 0 ? results[0] : null;
+}
+
+export async function updateUser(
+  id: string,
+  data: Partial<Pick<User, 'name' | 'email' | 'plan' | 'status'>>
+): Promise<void> {
+  const updates: string[] = [];
+  const values: any[] = [];
+
+  if (data.name !== undefined) {
+    updates.push('name = ?');
+    values.push(data.name);
+  }
+  if (data.email !== undefined) {
+    updates.push('email = ?');
+    values.push(data.email);
+  }
+  if (data.plan !== undefined) {
+    updates.push('plan = ?');
+    values.push(data.plan);
+  }
+  if (data.status !== undefined) {
+    updates.push('status = ?');
+    values.push(data.status);
+  }
+
+  if (updates.length === 0) return;
+
+  values.push(id);
+  const query = `UPDATE users SET ${updates.join(', ')} WHERE id = ?`;
+
+  await executeUpdate(query, values);
+}
+
+// An account's own email and name, which its password must not be built from
+async function passwordInputs(table: 'users' | 'admins', id: string): Promise<string[]> {
+  const rows = await executeQuery<{ email: string; name: string }>(
+    `SELECT email, name FROM ${table} WHERE id = ?`,
+    [id]
+  );
+  return rows.length > 0 ? [rows[0].email, rows[0].name] : [];
+}
+
+export async function updateUserPassword(
+  id: string,
+  newPassword: string
+): Promise<void> {
+  assertPasswordPolicy(newPassword, await passwordInputs('users', id));
+
+  const passwordHash = await hashPassword(newPassword);
+  const query = 'UPDATE users SET password_hash = ? WHERE id = ?';
+  await executeUpdate(query, [passwordHash, id]);
+}
+
+/**
+ * Give a password to an account that has none (one created through a
+ * sign-in provider). Returns false if the account already has a password.
+ */
+export async function setInitialPassword(id: string, newPassword: string): Promise<boolean> {
+  assertPasswordPolicy(newPassword, await passwordInputs('users', id));
+
+  const passwordHash = await hashPassword(newPassword);
+  const affected = await executeUpdate(
+    'UPDATE users SET password_hash = ? WHERE id = ? AND password_hash IS NULL',
+    [passwordHash, id]
+  );
+  return affected > 0;
+}
+
+export async function userHasPassword(id: string): Promise<boolean> {
+  const results = await executeQuery<{ has_password: number }>(
+    'SELECT password_hash IS NOT NULL AS has_password FROM users WHERE id = ?',
+    [id]
+  );
+  return results.length > 0 && !!results[0].has_password;
+}
+
+export async function getAllUsers(): Promise<User[]> {
+  const query = `
+    SELECT id, email, name, role, plan, status 
+    FROM users 
+    WHERE deleted_at IS NULL
+    ORDER BY created_at DESC
+  `;
+
+  return executeQuery<User>(query);
+}
+
+// returns each user along with their active subscription renewal date (if any)
+export type UserWithSubscription = User & { renewal_date?: string; locked_until?: string | null };
+
+export async function getAllUsersWithSubscription(): Promise<UserWithSubscription[]> {
+  const query = `
+    SELECT u.id, u.email, u.name, u.role, u.plan, u.status, s.renewal_date, lt.locked_until
+    FROM users u
+    LEFT JOIN subscriptions s
+      ON s.user_id = u.id AND s.status = 'Active'
+    LEFT JOIN login_throttle lt
+      ON lt.scope = 'email' AND lt.throttle_key = LOWER(u.email) AND lt.locked_until > NOW()
+    WHERE u.deleted_at IS NULL
+    ORDER BY u.created_at DESC
+  `;
+
+  return executeQuery<UserWithSubscription>(query);
+}
+
+/**
+ * Activate an unverified account. The email must still match the one the
+ * verification link was issued for.
+ */
+export async function markEmailVerified(id: string, email: string): Promise<boolean> {
+  const affected = await executeUpdate(
+    `UPDATE users SET status = 'Active', email_verified_at = NOW() 
+     WHERE id = ? AND email = ? AND status = 'pending_verification'`,
+    [id, email]
+  );
+  return affected > 0;
+}
+
+/**
+ * Record that a verification email is being sent. Returns false, without
+ * recording anything, if the last one went out less than `cooldownSeconds` ago.
+ */
+export async function markVerificationEmailSent(
+  id: string,
+  cooldownSeconds: number
+): Promise<boolean> {
+  const affected = await executeUpdate(
+    `UPDATE users SET verification_sent_at = NOW() 
+     WHERE id = ? AND status = 'pending_verification' 
+     AND (verification_sent_at IS NULL OR verification_sent_at <= DATE_SUB(NOW(), INTERVAL ? SECOND))`,
+    [id, cooldownSeconds]
+  );
+  return affected > 0;
+}
+
+export async function updateLastLogin(id: string): Promise<void> {
+  const query = 'UPDATE users SET last_login = NOW() WHERE id = ?';
+  await executeUpdate(query, [id]);
+}
+
+export async function updateAdminLastLogin(id: string): Promise<void> {
+  await executeUpdate('UPDATE admins SET last_login = NOW() WHERE id = ?', [id]);
+}
+
+// --- Subscription Operations ---
+
+export async function getSubscription(
+  userId: string
+): Promise<Subscription | null> {
+  const query = `
+    SELECT id, package_id, package_price_id, plan, amount, currency, billing_period, status, renewal_date 
+    FROM subscriptions 
+    WHERE user_id = ? AND status = 'Active'
+    LIMIT 1
+  `;
+
+  const results = await executeQuery<Subscription>(query, [userId]);
+  return results.length > 0 ? results[0] : null;
+}
+
+// helper to convert JS date to MySQL DATETIME string (no timezone)
+function toSqlDatetime(date: Date): string {
+  // produces "YYYY-MM-DD HH:MM:SS" which MySQL accepts
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// The active subscription a payment being applied replaces, locked in its
+// transaction
+export interface ReplacedSubscription {
+  id: string;
+  package_id: string | null;
+  plan: string;
+  billing_period: BillingPeriod;
+  renewal_date: Date | null;
+  start_date: Date;
+}
+
+async function lockActiveSubscription(
+  connection: PoolConnection,
+  userId: string
+): Promise<ReplacedSubscription | undefined> {
+  const [rows] = await connection.execute(
+    `SELECT id, package_id, plan, billing_period, renewal_date, start_date 
+     FROM subscriptions WHERE user_id = ? AND status = 'Active' FOR UPDATE`,
+    [userId]
+  );
+  return (rows as ReplacedSubscription[])[0];
+}
+
+// The billing period just paid for: when it starts, and the start date
+// whose day of the month the subscription renews on
+interface PaidPeriod {
+  from: Date;
+  startedOn: Date;
+}
+
+/**
+ * Renewing the package the user already has carries on from the end of the
+ * time already paid for, on the same billing day; anything else starts now
+ */
+function paidPeriod(active: ReplacedSubscription | undefined, packageId: string | null): PaidPeriod {
+  const now = new Date();
+  if (active && packageId && active.package_id === packageId && active.renewal_date) {
+    const paidUntil = new Date(active.renewal_date);
+    if (paidUntil > now) {
+      return { from: paidUntil, startedOn: new Date(active.start_date) };
+    }
+  }
+  return { from: now, startedOn: now };
+}
+
+// Starts an active subscription to a package at one of its current prices
+export async function createSubscription(
+  userId: string,
+  pkg: Package,
+  pricePoint: PackagePrice
+): Promise<Subscription> {
+  const id = randomUUID();
+  const renewal = renewalDate(new Date(), pricePoint.billing_period);
+  const { amount, currency } = packagePrice(pkg, pricePoint);
+
+  const query = `
+    INSERT INTO subscriptions 
+    (id, user_id, package_id, package_price_id, plan, amount, currency, billing_period, status, renewal_date, start_date)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'Active', ?, NOW())
+  `;
+
+  const values = [
+    id,
+    userId,
+    pkg.id,
+    pricePoint.id,
+    pkg.name,
+    amount,
+    currency,
+    pricePoint.billing_period,
+    renewal && toSqlDatetime(renewal),
+  ];
+
+  await executeInsert(query, values);
+
+  return {
+    id,
+    package_id: pkg.id,
+    package_price_id: pricePoint.id,
+    plan: pkg.name,
+    amount,
+    currency,
+    billing_period: pricePoint.billing_period,
+    status: 'Active',
+    renewal_date: renewal?.toISOString() ?? null,
+  };
+}
+
+export async function updateSubscription(
+  subscriptionId: string,
+  data: Partial<Pick<Subscription, 'plan' | 'status' | 'renewal_date'>>
+): Promise<void> {
+  const updates: string[] = [];
+  const values: any[] = [];
+
+  if (data.plan !== undefined) {
+    updates.push('plan = ?');
+    values.push(data.plan);
+  }
+  if (data.status !== undefined) {
+    updates.push('status = ?');
+    values.push(data.status);
+  }
+  if (data.renewal_date !== undefined) {
+    updates.push('renewal_date = ?');
+    // convert if it's a date string or Date; null for lifetime access
+    values.push(data.renewal_date === null ? null : toSqlDatetime(new Date(data.renewal_date)));
+  }
+
+  if (updates.length === 0) return;
+
+  values.push(subscriptionId);
+  const query = `UPDATE subscriptions SET ${updates.join(', ')} WHERE id = ?`;
+
+  await executeUpdate(query, values);
+}
+
+export async function cancelSubscription(subscriptionId: string): Promise<void> {
+  const query =
+    "UPDATE subscriptions SET status = 'Cancelled' WHERE id = ?";
+  await executeUpdate(query, [subscriptionId]);
+}
+
+// --- Payment Operations ---
+//
+// Orders created with the payment provider. An order is paid, and its plan
+// activated, only from a verified provider confirmation; webhook events are
+// recorded by their provider id so a redelivery is recognised.
+
+export type PaymentOrderStatus = 'created' | 'paid' | 'failed';
+
+export interface PaymentOrder {
+  id: string;
+  user_id: string;
+  provider: string;
+  provider_order_id: string;
+  provider_payment_id: string | null;
+  package_id: string | null;
+  package_price_id: string | null;
+  plan: string; // package name when ordered
+  billing_period: BillingPeriod;
+  amount: number; // smallest currency unit
+  currency: string;
+  status: PaymentOrderStatus;
+  subscription_id: string | null;
+  created_at: Date;
+  paid_at: Date | null;
+}
+
+export async function createPaymentOrder(data: {
+  userId: string;
+  provider: string;
+  providerOrderId: string;
+  packageId: string;
+  packagePriceId: string;
+  plan: string;
+  billingPeriod: BillingPeriod;
+  amount: number;
+  currency: string;
+}): Promise<string> {
+  const id = randomUUID();
+  await executeInsert(
+    `INSERT INTO payment_orders 
+     (id, user_id, provider, provider_order_id, package_id, package_price_id, plan, billing_period, amount, currency) 
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      data.userId,
+      data.provider,
+      data.providerOrderId,
+      data.packageId,
+      data.packagePriceId,
+      data.plan,
+      data.billingPeriod,
+      data.amount,
+      data.currency,
+    ]
+  );
+  return id;
+}
+
+export async function getPaymentOrder(id: string): Promise<PaymentOrder | null> {
+  const rows = await executeQuery<PaymentOrder>('SELECT * FROM payment_orders WHERE id = ?', [id]);
+  return rows.length > 0 ? rows[0] : null;
+}
+
+export async function getPaymentOrderByProviderId(
+  provider: string,
+  providerOrderId: string
+): Promise<PaymentOrder | null> {
+  const rows = await executeQuery<PaymentOrder>(
+    'SELECT * FROM payment_orders WHERE provider = ? AND provider_order_id = ?',
+    [provider, providerOrderId]
+  );
+  return rows.length > 0 ? rows[0] : null;
+}
+
+/**
+ * A failed attempt doesn't close the order; the customer can retry the
+ * payment and a later success still activates the plan
+ */
+export async function markPaymentOrderFailed(id: string): Promise<void> {
+  await executeUpdate(
+    "UPDATE payment_orders SET status = 'failed' WHERE id = ? AND status = 'created'",
+    [id]
+  );
+}
+
+/**
+ * Mark an order paid and activate its plan: the user's active subscription
+ * is switched to the package at the price paid and renewed for the billing
+ * period bought (after any time already paid for, when it is the same
+ * package), or a new one is started. The payment is invoiced.
+ * Returns null if the order was already paid, so a payment confirmed by both
+ * the checkout callback and a webhook is only applied once, and also if the
+ * user has lifetime access by then: that is never replaced, and the order
+ * is recorded as paid against it to be refunded.
+ */
+export async function completePaymentOrder(
+  orderId: string,
+  providerPaymentId: string
+): Promise<Subscription | null> {
+  return withTransaction(async connection => {
+    const [orders] = await connection.execute(
+      `SELECT user_id, package_id, package_price_id, plan, billing_period, amount, currency, status 
+       FROM payment_orders WHERE id = ? FOR UPDATE`,
+      [orderId]
+    );
+    const order = (orders as Pick<
+      PaymentOrder,
+      'user_id' | 'package_id' | 'package_price_id' | 'plan' | 'billing_period' | 'amount' | 'currency' | 'status'
+    >[])[0];
+    if (!order || order.status === 'paid') {
+      return null;
+    }
+
+    const existing = await lockActiveSubscription(connection, order.user_id);
+    if (existing && existing.billing_period === 'lifetime') {
+      // new purchases are refused once lifetime access is active, so this
+      // order was started before it
+      console.warn(`Order ${orderId} was paid after user ${order.user_id} got lifetime access; refund it`);
+      await connection.execute(
+        `UPDATE payment_orders SET status = 'paid', provider_payment_id = ?, subscription_id = ?, paid_at = NOW() 
+         WHERE id = ?`,
+        [providerPaymentId, existing.id, orderId]
+      );
+      return null;
+    }
+
+    const period = paidPeriod(existing, order.package_id);
+    const renewal = renewalDate(period.from, order.billing_period, period.startedOn);
+    const subscriptionId = existing ? existing.id : randomUUID();
+
+    if (existing) {
+      await connection.execute(
+        `UPDATE subscriptions 
+         SET package_id = ?, package_price_id = ?, plan = ?, amount = ?, currency = ?, billing_period = ?, 
+             renewal_date = ?, start_date = ? 
+         WHERE id = ?`,
+        [
+          order.package_id,
+          order.package_price_id,
+          order.plan,
+          order.amount,
+          order.currency,
+          order.billing_period,
+          renewal && toSqlDatetime(renewal),
+          toSqlDatetime(period.startedOn),
+          subscriptionId,
+        ]
+      );
+    } else {
+      await connection.execute(
+        `INSERT INTO subscriptions 
+         (id, user_id, package_id, package_price_id, plan, amount, currency, billing_period, status, renewal_date, start_date) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'Active', ?, NOW())`,
+        [
+          subscriptionId,
+          order.user_id,
+          order.package_id,
+          order.package_price_id,
+          order.plan,
+          order.amount,
+          order.currency,
+          order.billing_period,
+          renewal && toSqlDatetime(renewal),
+        ]
+      );
+    }
+
+    await connection.execute('UPDATE users SET plan = ? WHERE id = ?', [order.plan, order.user_id]);
+    await connection.execute(
+      `UPDATE payment_orders SET status = 'paid', provider_payment_id = ?, subscription_id = ?, paid_at = NOW() 
+       WHERE id = ?`,
+      [providerPaymentId, subscriptionId, orderId]
+    );
+    await issueInvoice(connection, {
+      userId: order.user_id,
+      subscriptionId,
+      paymentOrderId: orderId,
+      plan: order.plan,
+      billingPeriod: order.billing_period,
+      amount: order.amount,
+      currency: order.currency,
+    });
+
+    return {
+      id: subscriptionId,
+      package_id: order.package_id,
+      package_price_id: order.package_price_id,
+      plan: order.plan,
+      amount: order.amount,
+      currency: order.currency,
+      billing_period: order.billing_period,
+      status: 'Active' as const,
+      renewal_date: renewal?.toISOString() ?? null,
+    };
+  });
+}
+
+export async function isPaymentEventRecorded(provider: string, eventId: string): Promise<boolean> {
+  const rows = await executeQuery<{ id: string }>(
+    'SELECT id FROM payment_events WHERE provider = ? AND event_id = ?',
+    [provider, eventId]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Record a verified webhook event once it has been applied. Returns false if
+ * a concurrent delivery of the same event recorded it first.
+ */
+export async function recordPaymentEvent(data: {
+  provider: string;
+  eventId: string;
+  eventType: string;
+  orderId: string | null;
+  payload: unknown;
+}): Promise<boolean> {
+  try {
+    await executeInsert(
+      `INSERT INTO payment_events (id, provider, event_id, event_type, order_id, payload) 
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [randomUUID(), data.provider, data.eventId, data.eventType, data.orderId, JSON.stringify(data.payload)]
+    );
+    return true;
+  } catch (error: any) {
+    if (error.code === 'ER_DUP_ENTRY') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+// --- Payment Attempt Operations ---
+//
+// UPI QR codes shown to users, each with the exact amount and a unique
+// transaction reference. Reconciliation looks attempts up by reference (or
+// the bank's UTR once matched).
+
+export interface PaymentAttempt {
+  id: string;
+  user_id: string;
+  method: 'upi';
+  reference: string;
+  payee_vpa: string;
+  package_id: string | null;
+  package_price_id: string | null;
+  plan: string; // package name when the QR was generated
+  billing_period: BillingPeriod;
+  amount: number; // smallest currency unit
+  currency: string;
+  status: 'pending' | 'matched';
+  utr: string | null;
+  matched_at: Date | null;
+  created_at: Date;
+}
+
+export async function createPaymentAttempt(data: {
+  userId: string;
+  reference: string;
+  payeeVpa: string;
+  packageId: string;
+  packagePriceId: string;
+  plan: string;
+  billingPeriod: BillingPeriod;
+  amount: number;
+  currency: string;
+}): Promise<string> {
+  const id = randomUUID();
+  await executeInsert(
+    `INSERT INTO payment_attempts 
+     (id, user_id, method, reference, payee_vpa, package_id, package_price_id, plan, billing_period, amount, currency) 
+     VALUES (?, ?, 'upi', ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      data.userId,
+      data.reference,
+      data.payeeVpa,
+      data.packageId,
+      data.packagePriceId,
+      data.plan,
+      data.billingPeriod,
+      data.amount,
+      data.currency,
+    ]
+  );
+  return id;
+}
+
+export async function getPaymentAttempt(id: string): Promise<PaymentAttempt | null> {
+  const rows = await executeQuery<PaymentAttempt>('SELECT * FROM payment_attempts WHERE id = ?', [id]);
+  return rows.length > 0 ? rows[0] : null;
+}
+
+export async function getPaymentAttemptByReference(reference: string): Promise<PaymentAttempt | null> {
+  const rows = await executeQuery<PaymentAttempt>(
+    'SELECT * FROM payment_attempts WHERE reference = ?',
+    [reference]
+  );
+  return rows.length > 0 ? rows[0] : null;
+}
+
+// --- Payment Submission Operations ---
+//
+// Transfers users report for manual verification. A submission opens a
+// 'pending_payment' subscription for its plan; an admin's approval activates
+// it and a rejection closes it with a reason the user is shown.
+
+export type PaymentSubmissionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface PaymentSubmission {
+  id: string;
+  user_id: string;
+  subscription_id: string;
+  attempt_id: string | null;
+  package_id: string | null;
+  package_price_id: string | null;
+  plan: string; // package name when submitted
+  billing_period: BillingPeriod;
+  amount: number; // smallest currency unit
+  currency: string;
+  utr: string;
+  screenshot_path: string | null;
+  screenshot_type: string | null;
+  status: PaymentSubmissionStatus;
+  rejection_reason: string | null;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  created_at: Date;
+}
+
+// A submission in the review queue, with the user and UPI reference
+export type PaymentSubmissionForReview = PaymentSubmission & {
+  user_name: string;
+  user_email: string;
+  reference: string | null;
+};
+
+export type PaymentSubmissionConflict = 'pending' | 'utr';
+
+/**
+ * Record a reported transfer and open a 'pending_payment' subscription for
+ * it. Returns the submission id, or the conflict that stopped it: the user
+ * already has a payment under review, or another submission claims the UTR.
+ */
+export async function createPaymentSubmission(data: {
+  userId: string;
+  attemptId: string | null;
+  packageId: string | null;
+  packagePriceId: string | null;
+  plan: string;
+  billingPeriod: BillingPeriod;
+  amount: number;
+  currency: string;
+  utr: string;
+  screenshotPath: string | null;
+  screenshotType: string | null;
+}): Promise<{ id: string } | { conflict: PaymentSubmissionConflict }> {
+  const id = randomUUID();
+  const subscriptionId = randomUUID();
+
+  try {
+    await withTransaction(async connection => {
+      await connection.execute(
+        `INSERT INTO subscriptions 
+         (id, user_id, package_id, package_price_id, plan, amount, currency, billing_period, status) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending_payment')`,
+        [
+          subscriptionId,
+          data.userId,
+          data.packageId,
+          data.packagePriceId,
+          data.plan,
+          data.amount,
+          data.currency,
+          data.billingPeriod,
+        ]
+      );
+      await connection.execute(
+        `INSERT INTO payment_submissions 
+         (id, user_id, subscription_id, attempt_id, package_id, package_price_id, plan, billing_period, amount, currency, 
+          utr, screenshot_path, screenshot_type) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          data.userId,
+          subscriptionId,
+          data.attemptId,
+          data.packageId,
+          data.packagePriceId,
+          data.plan,
+          data.billingPeriod,
+          data.amount,
+          data.currency,
+          data.utr,
+          data.screenshotPath,
+          data.screenshotType,
+        ]
+      );
+    });
+    return { id };
+  } catch (error: any) {
+    if (error.code === 'ER_DUP_ENTRY') {
+      return { conflict: String(error.message).includes('uniq_pending_user') ? 'pending' : 'utr' };
+    }
+    throw error;
+  }
+}
+
+export async function getPaymentSubmission(id: string): Promise<PaymentSubmission | null> {
+  const rows = await executeQuery<PaymentSubmission>('SELECT * FROM payment_submissions WHERE id = ?', [id]);
+  return rows.length > 0 ? rows[0] : null;
+}
+
+export async function getLatestPaymentSubmission(userId: string): Promise<PaymentSubmission | null> {
+  const rows = await executeQuery<PaymentSubmission>(
+    'SELECT * FROM payment_submissions WHERE user_id = ? ORDER BY created_at DESC LIMIT 1',
+    [userId]
+  );
+  return rows.length > 0 ? rows[0] : null;
+}
+
+// The review queue, oldest first
+export async function getPendingPaymentSubmissions(): Promise<PaymentSubmissionForReview[]> {
+  return executeQuery<PaymentSubmissionForReview>(
+    `SELECT s.*, u.name AS user_name, u.email AS user_email, a.reference 
+     FROM payment_submissions s 
+     JOIN users u ON u.id = s.user_id 
+     LEFT JOIN payment_attempts a ON a.id = s.attempt_id 
+     WHERE s.status = 'pending' 
+     ORDER BY s.created_at`
+  );
+}
+
+// The outcome of approving a submission: the plan it activated, or the
+// active plan it would replace that the reviewer has to confirm first
+export type PaymentApproval = { subscription: Subscription } | { replaces: ReplacedSubscription };
+
+/**
+ * Approve a submission: its subscription becomes the user's active one,
+ * renewing after the billing period bought, and any plan it replaces is
+ * cancelled. Renewing the same package keeps the time already paid for.
+ * The UPI attempt it was paid for is matched to the UTR, and the payment is
+ * invoiced. Returns null if the submission is not (or no longer) pending.
+ *
+ * A plan the user started or paid for after reporting this payment, or
+ * lifetime access, is only replaced with `replaceActive`; otherwise it is
+ * returned as `replaces` and nothing changes.
+ */
+export async function approvePaymentSubmission(
+  id: string,
+  reviewerId: string,
+  replaceActive: boolean = false
+): Promise<PaymentApproval | null> {
+  return withTransaction(async connection => {
+    const [rows] = await connection.execute(
+      `SELECT user_id, subscription_id, attempt_id, package_id, package_price_id, plan, billing_period, amount, 
+              currency, utr, status, created_at 
+       FROM payment_submissions WHERE id = ? FOR UPDATE`,
+      [id]
+    );
+    const submission = (rows as Pick<
+      PaymentSubmission,
+      | 'user_id'
+      | 'subscription_id'
+      | 'attempt_id'
+      | 'package_id'
+      | 'package_price_id'
+      | 'plan'
+      | 'billing_period'
+      | 'amount'
+      | 'currency'
+      | 'utr'
+      | 'status'
+      | 'created_at'
+    >[])[0];
+    if (!submission || submission.status !== 'pending') {
+      return null;
+    }
+
+    const active = await lockActiveSubscription(connection, submission.user_id);
+    if (active && !replaceActive) {
+      let newer = active.billing_period === 'lifetime' || new Date(active.start_date) > new Date(submission.created_at);
+      if (!newer) {
+        // renewals and switches update the active subscription in place
+        const [paid] = await connection.execute(
+          `SELECT i.id FROM invoices i JOIN payment_submissions s ON s.id = ? 
+           WHERE i.subscription_id = ? AND i.issued_at > s.created_at LIMIT 1`,
+          [id, active.id]
+        );
+        newer = (paid as { id: string }[]).length > 0;
+      }
+      if (newer) {
+        return { replaces: active };
+      }
+    }
+    const period = paidPeriod(active, submission.package_id);
+    const renewal = renewalDate(period.from, submission.billing_period, period.startedOn);
+
+    await connection.execute(
+      "UPDATE subscriptions SET status = 'Cancelled', end_date = NOW() WHERE user_id = ? AND status = 'Active'",
+      [submission.user_id]
+    );
+    await connection.execute(
+      "UPDATE subscriptions SET status = 'Active', start_date = ?, renewal_date = ? WHERE id = ?",
+      [toSqlDatetime(period.startedOn), renewal && toSqlDatetime(renewal), submission.subscription_id]
+    );
+    await connection.execute('UPDATE users SET plan = ? WHERE id = ?', [submission.plan, submission.user_id]);
+
+    await connection.execute(
+      "UPDATE payment_submissions SET status = 'approved', reviewed_by = ?, reviewed_at = NOW() WHERE id = ?",
+      [reviewerId, id]
+    );
+    if (submission.attempt_id) {
+      await connection.execute(
+        "UPDATE payment_attempts SET status = 'matched', utr = ?, matched_at = NOW() WHERE id = ? AND status = 'pending'",
+        [submission.utr, submission.attempt_id]
+      );
+    }
+    await issueInvoice(connection, {
+      userId: submission.user_id,
+      subscriptionId: submission.subscription_id,
+      paymentSubmissionId: id,
+      plan: submission.plan,
+      billingPeriod: submission.billing_period,
+      amount: submission.amount,
+      currency: submission.currency,
+    });
+
+    return {
+      subscription: {
+        id: submission.subscription_id,
+        package_id: submission.package_id,
+        package_price_id: submission.package_price_id,
+        plan: submission.plan,
+        amount: submission.amount,
+        currency: submission.currency,
+        billing_period: submission.billing_period,
+        status: 'Active' as const,
+        renewal_date: renewal?.toISOString() ?? null,
+      },
+    };
+  });
+}
+
+/**
+ * Reject a submission with the reason shown to the user; its subscription
+ * is closed as Rejected. Returns false if it is not (or no longer) pending.
+ */
+export async function rejectPaymentSubmission(
+  id: string,
+  reviewerId: string,
+  reason: string
+): Promise<boolean> {
+  return withTransaction(async connection => {
+    const [rows] = await connection.execute(
+      'SELECT subscription_id, status FROM payment_submissions WHERE id = ? FOR UPDATE',
+      [id]
+    );
+    const submission = (rows as Pick<PaymentSubmission, 'subscription_id' | 'status'>[])[0];
+    if (!submission || submission.status !== 'pending') {
+      return false;
+    }
+
+    await connection.execute(
+      `UPDATE payment_submissions SET status = 'rejected', rejection_reason = ?, reviewed_by = ?, reviewed_at = NOW() 
+       WHERE id = ?`,
+      [reason, reviewerId, id]
+    );
+    await connection.execute(
+      "UPDATE subscriptions SET status = 'Rejected', end_date = NOW() WHERE id = ?",
+      [submission.subscription_id]
+    );
+    return true;
+  });
+}
+
+// Screenshots a user submitted, for removal when the account is erased
+export async function getPaymentScreenshotFiles(userId: string): Promise<string[]> {
+  const rows = await executeQuery<{ screenshot_path: string }>(
+    'SELECT screenshot_path FROM payment_submissions WHERE user_id = ? AND screenshot_path IS NOT NULL',
+    [userId]
+  );
+  return rows.map(row => row.screenshot_path);
+}
+
+// --- Invoice Operations ---
+//
+// GST invoices for confirmed payments (see invoices.ts), and the billing
+// details customers give for them. An invoice copies everything it prints
+// when it is issued and is never changed afterwards.
+
+export interface BillingDetails {
+  legal_name: string | null;
+  gstin: string | null;
+  state_code: string | null;
+  address: string | null;
+}
+
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  financial_year: string;
+  sequence_number: number;
+  user_id: string | null;
+  subscription_id: string | null;
+  payment_order_id: string | null;
+  payment_submission_id: string | null;
+  seller_name: string;
+  seller_address: string | null;
+  seller_gstin: string | null;
+  seller_state_code: string | null;
+  customer_name: string;
+  customer_email: string;
+  customer_gstin: string | null;
+  customer_address: string | null;
+  place_of_supply: string | null;
+  description: string;
+  sac_code: string;
+  billing_period: BillingPeriod;
+  currency: string;
+  taxable_amount: number; // smallest currency unit
+  tax_rate: number; // percent
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_amount: number;
+  issued_at: Date;
+}
+
+export async function getBillingDetails(userId: string): Promise<BillingDetails | null> {
+  const rows = await executeQuery<BillingDetails>(
+    'SELECT legal_name, gstin, state_code, address FROM billing_details WHERE user_id = ?',
+    [userId]
+  );
+  return rows.length > 0 ? rows[0] : null;
+}
+
+export async function saveBillingDetails(userId: string, details: BillingDetails): Promise<void> {
+  await executeInsert(
+    `INSERT INTO billing_details (user_id, legal_name, gstin, state_code, address) 
+     VALUES (?, ?, ?, ?, ?) 
+     ON DUPLICATE KEY UPDATE legal_name = VALUES(legal_name), gstin = VALUES(gstin), 
+       state_code = VALUES(state_code), address = VALUES(address)`,
+    [userId, details.legal_name, details.gstin, details.state_code, details.address]
+  );
+}
+
+/**
+ * Issue the invoice for a payment being applied, in the transaction that
+ * applies it. The financial year's counter stays locked until the
+ * transaction ends and is rolled back with it, so invoice numbers have no
+ * gaps. Returns the invoice id.
+ */
+async function issueInvoice(
+  connection: PoolConnection,
+  sale: {
+    userId: string;
+    subscriptionId: string;
+    paymentOrderId?: string;
+    paymentSubmissionId?: string;
+    plan: string;
+    billingPeriod: BillingPeriod;
+    amount: number;
+    currency: string;
+  }
+): Promise<string> {
+  const [rows] = await connection.execute(
+    `SELECT u.name, u.email, b.legal_name, b.gstin, b.state_code, b.address 
+     FROM users u LEFT JOIN billing_details b ON b.user_id = u.id 
+     WHERE u.id = ?`,
+    [sale.userId]
+  );
+  const customer = (rows as ({ name: string; email: string } & BillingDetails)[])[0];
+  if (!customer) {
+    throw new Error('User not found');
+  }
+
+  const issuedAt = new Date();
+  const year = financialYear(issuedAt);
+  await connection.execute(
+    `INSERT INTO invoice_sequences (financial_year, last_number) VALUES (?, 1) 
+     ON DUPLICATE KEY UPDATE last_number = last_number + 1`,
+    [year]
+  );
+  const [sequences] = await connection.execute(
+    'SELECT last_number FROM invoice_sequences WHERE financial_year = ?',
+    [year]
+  );
+  const sequence = Number((sequences as { last_number: number }[])[0].last_number);
+
+  const seller = getInvoiceSeller();
+  const rate = getGstRate(seller);
+  const placeOfSupply = customer.state_code ?? seller.stateCode;
+  const tax = splitGst(sale.amount, rate, isInterState(seller.stateCode, placeOfSupply));
+
+  const id = randomUUID();
+  await connection.execute(
+    `INSERT INTO invoices 
+     (id, invoice_number, financial_year, sequence_number, user_id, subscription_id, payment_order_id, 
+      payment_submission_id, seller_name, seller_address, seller_gstin, seller_state_code, customer_name, 
+      customer_email, customer_gstin, customer_address, place_of_supply, description, sac_code, billing_period, 
+      currency, taxable_amount, tax_rate, cgst_amount, sgst_amount, igst_amount, total_amount, issued_at) 
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      formatInvoiceNumber(year, sequence),
+      year,
+      sequence,
+      sale.userId,
+      sale.subscriptionId,
+      sale.paymentOrderId ?? null,
+      sale.paymentSubmissionId ?? null,
+      seller.name,
+      seller.address,
+      seller.gstin,
+      seller.stateCode,
+      customer.legal_name || customer.name,
+      customer.email,
+      customer.gstin,
+      customer.address,
+      placeOfSupply,
+      `${sale.plan} (${BILLING_PERIOD_LABELS[sale.billingPeriod]})`,
+      getSacCode(),
+      sale.billingPeriod,
+      sale.currency,
+      tax.taxableAmount,
+      rate,
+      tax.cgstAmount,
+      tax.sgstAmount,
+      tax.igstAmount,
+      sale.amount,
+      toSqlDatetime(issuedAt),
+    ]
+  );
+  return id;
+}
+
+// DECIMAL columns come back from the driver as strings
+function toInvoice(row: Invoice): Invoice {
+  return { ...row, tax_rate: Number(row.tax_rate) };
+}
+
+export async function getInvoice(id: string): Promise<Invoice | null> {
+  const rows = await executeQuery<Invoice>('SELECT * FROM invoices WHERE id = ?', [id]);
+  return rows.length > 0 ? toInvoice(rows[0]) : null;
+}
+
+// A user's invoices, newest first
+export async function getUserInvoices(userId: string): Promise<Invoice[]> {
+  const rows = await executeQuery<Invoice>(
+    'SELECT * FROM invoices WHERE user_id = ? ORDER BY issued_at DESC, sequence_number DESC',
+    [userId]
+  );
+  return rows.map(toInvoice);
+}
+
+// The invoice register of a financial year, in invoice number order
+export async function getInvoiceRegister(year: string): Promise<Invoice[]> {
+  const rows = await executeQuery<Invoice>(
+    'SELECT * FROM invoices WHERE financial_year = ? ORDER BY sequence_number',
+    [year]
+  );
+  return rows.map(toInvoice);
+}
+
+// Financial years with invoices, latest first
+export async function getInvoiceFinancialYears(): Promise<string[]> {
+  const rows = await executeQuery<{ financial_year: string }>(
+    'SELECT financial_year FROM invoice_sequences ORDER BY financial_year DESC'
+  );
+  return rows.map(row => row.financial_year);
+}
+
+// --- Session Operations ---
+//
+// Each row is one refresh token. Rows issued by rotating the same login share
+// a family_id, which is also the `sid` claim of the access tokens. Users and
+// admins keep their sessions in separate tables mirroring their accounts.
+
+export type AccountType = 'user' | 'admin';
+
+const SESSION_TABLES: Record<AccountType, { table: string; owner: string }> = {
+  user: { table: 'user_sessions', owner: 'user_id' },
+  admin: { table: 'admin_sessions', owner: 'admin_id' },
+};
+
+export interface SessionRecord {
+  id: string;
+  owner_id: string;
+  family_id: string;
+  expires_at: Date;
+  revoked_at: Date | null;
+  replaced_by: string | null;
+}
+
+export async function createSession(
+  accountType: AccountType,
+  ownerId: string,
+  sessionToken: string,
+  expiresAt: Date,
+  familyId: string,
+  userAgent?: string,
+  ipAddress?: string
+): Promise<string> {
+  const { table, owner } = SESSION_TABLES[accountType];
+  const id = randomUUID();
+
+  const query = `
+    INSERT INTO ${table} 
+    (id, ${owner}, family_id, session_token, user_agent, ip_address, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const values = [
+    id,
+    ownerId,
+    familyId,
+    sessionToken,
+    userAgent || null,
+    ipAddress || null,
+    toSqlDatetime(expiresAt),
+  ];
+
+  await executeInsert(query, values);
+  return id;
+}
+
+// Returns the session even if it has been rotated or revoked so that callers
+// can detect refresh token reuse.
+export async function getSessionByToken(
+  accountType: AccountType,
+  sessionToken: string
+): Promise<SessionRecord | null> {
+  const { table, owner } = SESSION_TABLES[accountType];
+  const query = `
+    SELECT id, ${owner} AS owner_id, family_id, expires_at, revoked_at, replaced_by
+    FROM ${table} 
+    WHERE session_token = ?
+  `;
+
+  const results = await executeQuery<SessionRecord>(query, [sessionToken]);
+  return results.length > 0 ? results[0] : null;
+}
+
+/**
+ * Replace a session with a new one in its family when its refresh token is
+ * used. The old session is marked rotated and linked to its successor in
+ * the same transaction, so the family is never left without an active
+ * session and a rotated token can be told apart from one revoked by logout.
+ * Returns the new session's id, or null if another request already rotated
+ * or revoked the old one.
+ */
+export async function rotateSession(
+  accountType: AccountType,
+  sessionId: string,
+  ownerId: string,
+  sessionToken: string,
+  expiresAt: Date,
+  familyId: string,
+  userAgent?: string,
+  ipAddress?: string
+): Promise<string | null> {
+  const { table, owner } = SESSION_TABLES[accountType];
+  const id = randomUUID();
+
+  return withTransaction(async connection => {
+    const [rotated] = await connection.execute(
+      `UPDATE ${table} SET revoked_at = NOW(), replaced_by = ? WHERE id = ? AND revoked_at IS NULL`,
+      [id, sessionId]
+    );
+    if ((rotated as any).affectedRows === 0) {
+      return null;
+    }
+
+    await connection.execute(
+      `INSERT INTO ${table} 
+       (id, ${owner}, family_id, session_token, user_agent, ip_address, expires_at) 
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, ownerId, familyId, sessionToken, userAgent || null, ipAddress || null, toSqlDatetime(expiresAt)]
+    );
+    return id;
+  });
+}
+
+// Whether the session was rotated (not revoked) within the last `seconds`
+export async function wasSessionRotatedWithin(
+  accountType: AccountType,
+  sessionId: string,
+  seconds: number
+): Promise<boolean> {
+  const { table } = SESSION_TABLES[accountType];
+  const results = await executeQuery(
+    `SELECT id FROM ${table} 
+     WHERE id = ? AND replaced_by IS NOT NULL AND revoked_at > NOW() - INTERVAL ? SECOND`,
+    [sessionId, seconds]
+  );
+  return results.length > 0;
+}
+
+export async function revokeSessionFamily(
+  accountType: AccountType,
+  familyId: string
+): Promise<void> {
+  const { table } = SESSION_TABLES[accountType];
+  await executeUpdate(
+    `UPDATE ${table} SET revoked_at = NOW() WHERE family_id = ? AND revoked_at IS NULL`,
+    [familyId]
+  );
+}
+
+export async function revokeAllSessions(
+  accountType: AccountType,
+  ownerId: string
+): Promise<number> {
+  const { table, owner } = SESSION_TABLES[accountType];
+  return executeUpdate(
+    `UPDATE ${table} SET revoked_at = NOW() WHERE ${owner} = ? AND revoked_at IS NULL`,
+    [ownerId]
+  );
+}
+
+// A family stays active while its latest refresh token is neither revoked nor expired
+export async function isSessionFamilyActive(
+  accountType: AccountType,
+  familyId: string
+): Promise<boolean> {
+  const { table } = SESSION_TABLES[accountType];
+  const results = await executeQuery(
+    `SELECT id FROM ${table} WHERE family_id = ? AND revoked_at IS NULL AND expires_at > NOW() LIMIT 1`,
+    [familyId]
+  );
+  return results.length > 0;
+}
+
+/**
+ * Revoke one session family, but only if it belongs to `ownerId`. Returns
+ * false if there was no such active session.
+ */
+export async function revokeOwnedSessionFamily(
+  accountType: AccountType,
+  ownerId: string,
+  familyId: string
+): Promise<boolean> {
+  const { table, owner } = SESSION_TABLES[accountType];
+  const affected = await executeUpdate(
+    `UPDATE ${table} SET revoked_at = NOW() WHERE family_id = ? AND ${owner} = ? AND revoked_at IS NULL`,
+    [familyId, ownerId]
+  );
+  return affected > 0;
+}
+
+// Revoke every session of an account except the one it is currently using
+export async function revokeOtherSessions(
+  accountType: AccountType,
+  ownerId: string,
+  keepFamilyId: string
+): Promise<number> {
+  const { table, owner } = SESSION_TABLES[accountType];
+  return executeUpdate(
+    `UPDATE ${table} SET revoked_at = NOW() 
+     WHERE ${owner} = ? AND revoked_at IS NULL AND (family_id IS NULL OR family_id <> ?)`,
+    [ownerId, keepFamilyId]
+  );
+}
+
+export interface ActiveSession {
+  family_id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date; // when the login happened
+  last_activity: Date; // last refresh
+  expires_at: Date;
+}
+
+/**
+ * One row per signed-in device, from the latest live refresh token of its
+ * family, which carries the device's most recent details. A family can have
+ * more than one live token after concurrent refreshes; revoking goes by
+ * family, so it ends them all.
+ */
+export async function getActiveSessions(
+  accountType: AccountType,
+  ownerId: string
+): Promise<ActiveSession[]> {
+  const { table, owner } = SESSION_TABLES[accountType];
+  const query = `
+    SELECT s.family_id, s.user_agent, s.ip_address, s.last_activity, s.expires_at,
+      (SELECT MIN(f.created_at) FROM ${table} f WHERE f.family_id = s.family_id) AS created_at
+    FROM ${table} s
+    WHERE s.${owner} = ? AND s.family_id IS NOT NULL 
+      AND s.revoked_at IS NULL AND s.expires_at > NOW()
+      AND NOT EXISTS (
+        SELECT 1 FROM ${table} n 
+        WHERE n.family_id = s.family_id AND n.revoked_at IS NULL AND n.expires_at > NOW()
+          AND (n.created_at > s.created_at OR (n.created_at = s.created_at AND n.id > s.id))
+      )
+    ORDER BY s.last_activity DESC
+  `;
+
+  return executeQuery<ActiveSession>(query, [ownerId]);
+}
+
+export async function updateSessionActivity(
+  accountType: AccountType,
+  sessionId: string
+): Promise<void> {
+  const { table } = SESSION_TABLES[accountType];
+  const query = `UPDATE ${table} SET last_activity = NOW() WHERE id = ?`;
+  await executeUpdate(query, [sessionId]);
+}
+
+export async function deleteSession(
+  accountType: AccountType,
+  sessionId: string
+): Promise<void> {
+  const { table } = SESSION_TABLES[accountType];
+  await executeDelete(`DELETE FROM ${table} WHERE id = ?`, [sessionId]);
+}
+
+export async function deleteExpiredSessions(): Promise<void> {
+  for (const { table } of Object.values(SESSION_TABLES)) {
+    await executeDelete(`DELETE FROM ${table} WHERE expires_at <= NOW()`);
+  }
+}
+
+// --- Password Reset Operations ---
+//
+// Reset tokens are stored as SHA-256 hashes and can be used once.
+
+export async function createPasswordResetToken(
+  userId: string,
+  tokenHash: string,
+  expiresAt: Date,
+  ipAddress?: string
+): Promise<string> {
+  const id = randomUUID();
+
+  // only the most recently requested link stays valid
+  await executeUpdate(
+    'UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = ? AND used_at IS NULL',
+    [userId]
+  );
+
+  const query = `
+    INSERT INTO password_reset_tokens 
+    (id, user_id, token_hash, expires_at, requested_ip)
+    VALUES (?, ?, ?, ?, ?)
+  `;
+
+  await executeInsert(query, [id, userId, tokenHash, toSqlDatetime(expiresAt), ipAddress || null]);
+  return id;
+}
+
+/**
+ * The user a reset token belongs to while it can still be used, so the new
+ * password can be checked against their details before the token is used up
+ */
+export async function getPasswordResetUser(
+  tokenHash: string
+): Promise<{ id: string; email: string; name: string } | null> {
+  const rows = await executeQuery<{ id: string; email: string; name: string }>(
+    `SELECT u.id, u.email, u.name 
+     FROM password_reset_tokens t JOIN users u ON u.id = t.user_id 
+     WHERE t.token_hash = ? AND t.used_at IS NULL AND t.expires_at > NOW()`,
+    [tokenHash]
+  );
+  return rows.length > 0 ? rows[0] : null;
+}
+
+/**
+ * Mark a reset token as used and return the user it belongs to, or null if it
+ * is unknown, expired or already used
+ */
+export async function consumePasswordResetToken(tokenHash: string): Promise<string | null> {
+  const affected = await executeUpdate(
+    `UPDATE password_reset_tokens SET used_at = NOW() 
+     WHERE token_hash = ? AND used_at IS NULL AND expires_at > NOW()`,
+    [tokenHash]
+  );
+  if (affected === 0) {
+    return null;
+  }
+
+  const rows = await executeQuery<{ user_id: string }>(
+    'SELECT user_id FROM password_reset_tokens WHERE token_hash = ?',
+    [tokenHash]
+  );
+  return rows.length > 0 ? rows[0].user_id : null;
+}
+
+export async function deleteExpiredPasswordResetTokens(): Promise<void> {
+  await executeDelete(
+    'DELETE FROM password_reset_tokens WHERE expires_at <= NOW()'
+  );
+}
+
+// --- Magic Link Operations ---
+//
+// Passwordless sign-in links. Tokens are stored as SHA-256 hashes, can be
+// used once and only by the browser holding the cookie whose hash is stored
+// alongside.
+
+export async function createMagicLinkToken(
+  userId: string,
+  tokenHash: string,
+  browserHash: string,
+  expiresAt: Date,
+  ipAddress?: string
+): Promise<string> {
+  const id = randomUUID();
+
+  // only the most recently requested link stays valid
+  await executeUpdate(
+    'UPDATE magic_link_tokens SET used_at = NOW() WHERE user_id = ? AND used_at IS NULL',
+    [userId]
+  );
+
+  await executeInsert(
+    `INSERT INTO magic_link_tokens 
+     (id, user_id, token_hash, browser_hash, expires_at, requested_ip) 
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [id, userId, tokenHash, browserHash, toSqlDatetime(expiresAt), ipAddress || null]
+  );
+  return id;
+}
+
+/**
+ * Mark a sign-in token as used and return the user it belongs to, or null if
+ * it is unknown, expired, already used or was requested by another browser.
+ * A token opened in the wrong browser stays usable in the right one.
+ */
+export async function consumeMagicLinkToken(
+  tokenHash: string,
+  browserHash: string
+): Promise<string | null> {
+  const affected = await executeUpdate(
+    `UPDATE magic_link_tokens SET used_at = NOW() 
+     WHERE token_hash = ? AND browser_hash = ? AND used_at IS NULL AND expires_at > NOW()`,
+    [tokenHash, browserHash]
+  );
+  if (affected === 0) {
+    return null;
+  }
+
+  const rows = await executeQuery<{ user_id: string }>(
+    'SELECT user_id FROM magic_link_tokens WHERE token_hash = ?',
+    [tokenHash]
+  );
+  return rows.length > 0 ? rows[0].user_id : null;
+}
+
+export async function deleteExpiredMagicLinkTokens(): Promise<void> {
+  await executeDelete('DELETE FROM magic_link_tokens WHERE expires_at <= NOW()');
+}
+
+// --- Email Change Operations ---
+//
+// A new email address only replaces the old one once a link sent to it has
+// been opened. Tokens are stored hashed and can be used once.
+
+export async function createEmailChangeToken(
+  userId: string,
+  newEmail: string,
+  tokenHash: string,
+  expiresAt: Date,
+  ipAddress?: string
+): Promise<string> {
+  const id = randomUUID();
+
+  // only the most recently requested change stays valid
+  await executeUpdate(
+    'UPDATE email_change_tokens SET used_at = NOW() WHERE user_id = ? AND used_at IS NULL',
+    [userId]
+  );
+
+  const query = `
+    INSERT INTO email_change_tokens 
+    (id, user_id, new_email, token_hash, expires_at, requested_ip)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `;
+
+  await executeInsert(query, [
+    id,
+    userId,
+    newEmail,
+    tokenHash,
+    toSqlDatetime(expiresAt),
+    ipAddress || null,
+  ]);
+  return id;
+}
+
+/**
+ * Mark an email change token as used and return the change it confirms, or
+ * null if it is unknown, expired or already used
+ */
+export async function consumeEmailChangeToken(
+  tokenHash: string
+): Promise<{ userId: string; newEmail: string } | null> {
+  const affected = await executeUpdate(
+    `UPDATE email_change_tokens SET used_at = NOW() 
+     WHERE token_hash = ? AND used_at IS NULL AND expires_at > NOW()`,
+    [tokenHash]
+  );
+  if (affected === 0) {
+    return null;
+  }
+
+  const rows = await executeQuery<{ user_id: string; new_email: string }>(
+    'SELECT user_id, new_email FROM email_change_tokens WHERE token_hash = ?',
+    [tokenHash]
+  );
+  return rows.length > 0 ? { userId: rows[0].user_id, newEmail: rows[0].new_email } : null;
+}
+
+/**
+ * Switch a user to a confirmed email address. Throws 'Email already exists'
+ * if another account took the address in the meantime.
+ */
+export async function changeUserEmail(id: string, newEmail: string): Promise<void> {
+  try {
+    await executeUpdate(
+      'UPDATE users SET email = ?, email_verified_at = NOW(), updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [newEmail, id]
+    );
+  } catch (error: any) {
+    if (error.code === 'ER_DUP_ENTRY') {
+      throw new Error('Email already exists');
+    }
+    throw error;
+  }
+}
+
+export async function deleteExpiredEmailChangeTokens(): Promise<void> {
+  await executeDelete('DELETE FROM email_change_tokens WHERE expires_at <= NOW()');
+}
+
+// --- Identity Operations ---
+//
+// Google and other OpenID Connect accounts linked to users. A provider
+// account is identified by the provider id and its `sub` claim, never by
+// email, which the user can change on either side.
+
+export interface UserIdentity {
+  id: string;
+  user_id: string;
+  provider: string;
+  subject: string;
+  email: string | null;
+  created_at: Date;
+  last_login: Date | null;
+}
+
+export interface IdentityClaims {
+  provider: string;
+  subject: string;
+  email: string;
+}
+
+export async function getUserIdentity(
+  provider: string,
+  subject: string
+): Promise<UserIdentity | null> {
+  const results = await executeQuery<UserIdentity>(
+    'SELECT * FROM user_identities WHERE provider = ? AND subject = ?',
+    [provider, subject]
+  );
+  return results.length > 0 ? results[0] : null;
+}
+
+export async function getUserIdentities(userId: string): Promise<UserIdentity[]> {
+  return executeQuery<UserIdentity>(
+    'SELECT * FROM user_identities WHERE user_id = ? ORDER BY created_at',
+    [userId]
+  );
+}
+
+export async function touchUserIdentity(id: string): Promise<void> {
+  await executeUpdate('UPDATE user_identities SET last_login = NOW() WHERE id = ?', [id]);
+}
+
+/**
+ * Link a provider account to an existing user whose email it verified.
+ *
+ * An unverified account is activated, and its password is discarded: it was
+ * set by whoever signed up, and that may not have been the owner of the
+ * address. Returns whether a password was discarded.
+ */
+export async function linkUserIdentity(
+  user: Pick<User, 'id' | 'status'>,
+  identity: IdentityClaims
+): Promise<boolean> {
+  return withTransaction(async connection => {
+    await connection.execute(
+      `INSERT INTO user_identities (id, user_id, provider, subject, email, last_login) 
+       VALUES (?, ?, ?, ?, ?, NOW())`,
+      [randomUUID(), user.id, identity.provider, identity.subject, identity.email]
+    );
+
+    if (user.status !== 'pending_verification') {
+      return false;
+    }
+    await connection.execute(
+      `UPDATE users SET status = 'Active', email_verified_at = NOW(), password_hash = NULL 
+       WHERE id = ? AND status = 'pending_verification'`,
+      [user.id]
+    );
+    return true;
+  });
+}
+
+/**
+ * Create an account for a provider sign-in with no matching user. The
+ * provider verified the email, so the account is active straight away; it
+ * has no password until the user sets one.
+ */
+export async function createUserWithIdentity(
+  data: { email: string; name: string },
+  identity: IdentityClaims
+): Promise<User> {
+  const id = randomUUID();
+  const role: 'user' = 'user';
+  const status = 'Active';
+
+  try {
+    await withTransaction(async connection => {
+      await connection.execute(
+        `INSERT INTO users (id, email, password_hash, name, role, plan, status, email_verified_at) 
+         VALUES (?, ?, NULL, ?, ?, NULL, ?, NOW())`,
+        [id, data.email, data.name, role, status]
+      );
+      await connection.execute(
+        `INSERT INTO user_identities (id, user_id, provider, subject, email, last_login) 
+         VALUES (?, ?, ?, ?, ?, NOW())`,
+        [randomUUID(), id, identity.provider, identity.subject, identity.email]
+      );
+    });
+  } catch (error: any) {
+    if (error.code === 'ER_DUP_ENTRY') {
+      throw new Error('Email already exists');
+    }
+    throw error;
+  }
+
+  return { id, email: data.email, name: data.name, role, plan: null, status };
+}
+
+// --- Personal Data Operations ---
+//
+// Data export archives and account deletion requests (DPDP Act). Deleted
+// accounts are anonymised rather than removed: subscriptions and audit
+// entries have to be kept, so the users row they point to stays behind
+// without any personal data.
+
+export interface DataExportRecord {
+  id: string;
+  user_id: string;
+  status: 'pending' | 'ready' | 'failed';
+  file_path: string | null;
+  file_size: number | null;
+  created_at: Date;
+  completed_at: Date | null;
+  expires_at: Date | null;
+  downloaded_at: Date | null;
+}
+
+export async function createDataExport(userId: string, ipAddress?: string): Promise<string> {
+  const id = randomUUID();
+  await executeInsert(
+    'INSERT INTO data_exports (id, user_id, requested_ip) VALUES (?, ?, ?)',
+    [id, userId, ipAddress || null]
+  );
+  return id;
+}
+
+export async function getDataExport(id: string): Promise<DataExportRecord | null> {
+  const results = await executeQuery<DataExportRecord>(
+    'SELECT * FROM data_exports WHERE id = ?',
+    [id]
+  );
+  return results.length > 0 ? results[0] : null;
+}
+
+export async function getLatestDataExport(userId: string): Promise<DataExportRecord | null> {
+  const results = await executeQuery<DataExportRecord>(
+    'SELECT * FROM data_exports WHERE user_id = ? ORDER BY created_at DESC LIMIT 1',
+    [userId]
+  );
+  return results.length > 0 ? results[0] : null;
+}
+
+export async function completeDataExport(
+  id: string,
+  filePath: string,
+  fileSize: number,
+  expiresAt: Date
+): Promise<void> {
+  await executeUpdate(
+    `UPDATE data_exports SET status = 'ready', file_path = ?, file_size = ?, 
+     completed_at = NOW(), expires_at = ? WHERE id = ?`,
+    [filePath, fileSize, toSqlDatetime(expiresAt), id]
+  );
+}
+
+export async function failDataExport(id: string): Promise<void> {
+  await executeUpdate(
+    "UPDATE data_exports SET status = 'failed', completed_at = NOW() WHERE id = ?",
+    [id]
+  );
+}
+
+export async function markDataExportDownloaded(id: string): Promise<void> {
+  await executeUpdate('UPDATE data_exports SET downloaded_at = NOW() WHERE id = ?', [id]);
+}
+
+// Archive files of a user's exports, so they can be removed from disk
+export async function getDataExportFiles(userId: string): Promise<string[]> {
+  const rows = await executeQuery<{ file_path: string }>(
+    'SELECT file_path FROM data_exports WHERE user_id = ? AND file_path IS NOT NULL',
+    [userId]
+  );
+  return rows.map(row => row.file_path);
+}
+
+export async function getExpiredDataExportFiles(): Promise<string[]> {
+  const rows = await executeQuery<{ file_path: string }>(
+    'SELECT file_path FROM data_exports WHERE expires_at <= NOW() AND file_path IS NOT NULL'
+  );
+  return rows.map(row => row.file_path);
+}
+
+export async function deleteExpiredDataExports(): Promise<number> {
+  return executeDelete('DELETE FROM data_exports WHERE expires_at <= NOW()');
+}
+
+export interface PersonalData {
+  user: Record<string, any>;
+  subscriptions: Record<string, any>[];
+  sessions: Record<string, any>[];
+  auditLog: Record<string, any>[];
+  uploads: LandingPageImageRecord[];
+  identities: Record<string, any>[];
+  payments: Record<string, any>[];
+  paymentAttempts: Record<string, any>[];
+  paymentSubmissions: Record<string, any>[];
+  billingDetails: BillingDetails | null;
+  invoices: Invoice[];
+}
+
+/**
+ * Everything stored about a user, for the data export. Audit entries are
+ * those the user performed or that concern their account; the admins
+ * involved are not identified.
+ */
+export async function getPersonalData(userId: string): Promise<PersonalData | null> {
+  const users = await executeQuery<Record<string, any>>(
+    `SELECT id, email, name, role, plan, status, created_at, updated_at, last_login, email_verified_at 
+     FROM users WHERE id = ?`,
+    [userId]
+  );
+  if (users.length === 0) {
+    return null;
+  }
+
+  const subscriptions = await executeQuery<Record<string, any>>(
+    'SELECT * FROM subscriptions WHERE user_id = ? ORDER BY created_at',
+    [userId]
+  );
+  const sessions = await executeQuery<Record<string, any>>(
+    `SELECT family_id, user_agent, ip_address, created_at, last_activity, expires_at, revoked_at 
+     FROM user_sessions WHERE user_id = ? ORDER BY created_at`,
+    [userId]
+  );
+  const auditLog = await executeQuery<Record<string, any>>(
+    `SELECT id, actor_type, action, entity_type, entity_id, changes, ip_address, created_at 
+     FROM audit_logs 
+     WHERE (actor_type = 'user' AND actor_id = ?) OR (entity_type = 'user' AND entity_id = ?) 
+     ORDER BY created_at`,
+    [userId, userId]
+  );
+  const uploads = await executeQuery<LandingPageImageRecord>(
+    "SELECT * FROM landing_page_images WHERE actor_type = 'user' AND actor_id = ? ORDER BY created_at",
+    [userId]
+  );
+
+  const identities = await executeQuery<Record<string, any>>(
+    'SELECT provider, subject, email, created_at, last_login FROM user_identities WHERE user_id = ? ORDER BY created_at',
+    [userId]
+  );
+
+  const payments = await executeQuery<Record<string, any>>(
+    `SELECT id, provider, provider_order_id, provider_payment_id, plan, billing_period, amount, currency, status, created_at, paid_at 
+     FROM payment_orders WHERE user_id = ? ORDER BY created_at`,
+    [userId]
+  );
+
+  const paymentAttempts = await executeQuery<Record<string, any>>(
+    `SELECT reference, payee_vpa, plan, billing_period, amount, currency, status, utr, matched_at, created_at 
+     FROM payment_attempts WHERE user_id = ? ORDER BY created_at`,
+    [userId]
+  );
+
+  const paymentSubmissions = await executeQuery<Record<string, any>>(
+    `SELECT id, plan, billing_period, amount, currency, utr, screenshot_path, screenshot_type, status, rejection_reason, 
+     created_at, reviewed_at 
+     FROM payment_submissions WHERE user_id = ? ORDER BY created_at`,
+    [userId]
+  );
+
+  return {
+    user: users[0],
+    subscriptions,
+    sessions,
+    auditLog,
+    uploads,
+    identities,
+    payments,
+    paymentAttempts,
+    paymentSubmissions,
+    billingDetails: await getBillingDetails(userId),
+    invoices: await getUserInvoices(userId),
+  };
+}
+
+export interface AccountDeletionRequest {
+  id: string;
+  user_id: string;
+  scheduled_for: Date;
+  created_at: Date;
+  cancelled_at: Date | null;
+  completed_at: Date | null;
+}
+
+export async function createAccountDeletionRequest(
+  userId: string,
+  scheduledFor: Date,
+  ipAddress?: string
+): Promise<AccountDeletionRequest> {
+  const id = randomUUID();
+  await executeInsert(
+    `INSERT INTO account_deletion_requests (id, user_id, scheduled_for, requested_ip) 
+     VALUES (?, ?, ?, ?)`,
+    [id, userId, toSqlDatetime(scheduledFor), ipAddress || null]
+  );
+
+  return {
+    id,
+    user_id: userId,
+    scheduled_for: scheduledFor,
+    created_at: new Date(),
+    cancelled_at: null,
+    completed_at: null,
+  };
+}
+
+// The request still in its cooling-off period, if any
+export async function getPendingAccountDeletion(
+  userId: string
+): Promise<AccountDeletionRequest | null> {
+  const results = await executeQuery<AccountDeletionRequest>(
+    `SELECT id, user_id, scheduled_for, created_at, cancelled_at, completed_at 
+     FROM account_deletion_requests 
+     WHERE user_id = ? AND cancelled_at IS NULL AND completed_at IS NULL 
+     ORDER BY created_at DESC LIMIT 1`,
+    [userId]
+  );
+  return results.length > 0 ? results[0] : null;
+}
+
+export async function cancelAccountDeletion(userId: string): Promise<boolean> {
+  const affected = await executeUpdate(
+    `UPDATE account_deletion_requests SET cancelled_at = NOW() 
+     WHERE user_id = ? AND cancelled_at IS NULL AND completed_at IS NULL`,
+    [userId]
+  );
+  return affected > 0;
+}
+
+// Requests whose cooling-off period is over
+export async function getDueAccountDeletions(): Promise<AccountDeletionRequest[]> {
+  return executeQuery<AccountDeletionRequest>(
+    `SELECT id, user_id, scheduled_for, created_at, cancelled_at, completed_at 
+     FROM account_deletion_requests 
+     WHERE scheduled_for <= NOW() AND cancelled_at IS NULL AND completed_at IS NULL 
+     ORDER BY scheduled_for`
+  );
+}
+
+/**
+ * Delete a user's personal data, in one transaction. This is how accounts are
+ * deleted, whether by the user or by an admin.
+ *
+ * The users row is kept as a tombstone because subscriptions (billing) and
+ * audit entries must be retained and reference it. Everything that
+ * identifies the person is scrubbed or deleted: name, email, password, IP
+ * addresses, sessions, security factors, linked sign-in providers, billing
+ * details and pending tokens. Issued invoices are tax records and are kept
+ * as issued. Audit entries about the account lose their `changes`,
+ * which hold names and emails. A pending deletion request is marked
+ * complete.
+ */
+export async function anonymiseUser(userId: string): Promise<void> {
+  await withTransaction(async connection => {
+    const [rows] = await connection.execute('SELECT email FROM users WHERE id = ? FOR UPDATE', [userId]);
+    const user = (rows as { email: string }[])[0];
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // '!' is not a bcrypt hash, so no password can ever match it
+    await connection.execute(
+      `UPDATE users SET email = CONCAT('deleted-', id, '@deleted.invalid'), name = 'Deleted user', 
+       password_hash = '!', status = 'Cancelled', last_login = NULL, email_verified_at = NULL, 
+       verification_sent_at = NULL, deleted_at = NOW() 
+       WHERE id = ?`,
+      [userId]
+    );
+
+    for (const table of [
+      'user_sessions',
+      'password_reset_tokens',
+      'magic_link_tokens',
+      'email_change_tokens',
+      'data_exports',
+      'user_identities',
+      'billing_details',
+    ]) {
+      await connection.execute(`DELETE FROM ${table} WHERE user_id = ?`, [userId]);
+    }
+    for (const table of ['mfa_totp', 'mfa_backup_codes']) {
+      await connection.execute(
+        `DELETE FROM ${table} WHERE account_type = 'user' AND account_id = ?`,
+        [userId]
+      );
+    }
+    await connection.execute(
+      "DELETE FROM login_throttle WHERE scope = 'email' AND throttle_key = ?",
+      [user.email.toLowerCase()]
+    );
+
+    await connection.execute(
+      `UPDATE audit_logs SET ip_address = NULL 
+       WHERE (actor_type = 'user' AND actor_id = ?) OR (entity_type = 'user' AND entity_id = ?)`,
+      [userId, userId]
+    );
+    await connection.execute(
+      "UPDATE audit_logs SET changes = NULL WHERE entity_type = 'user' AND entity_id = ?",
+      [userId]
+    );
+    await connection.execute(
+      "UPDATE landing_page_images SET upload_ip = NULL WHERE actor_type = 'user' AND actor_id = ?",
+      [userId]
+    );
+    // the payment records are kept; the screenshot files are removed first
+    await connection.execute(
+      'UPDATE payment_submissions SET screenshot_path = NULL, screenshot_type = NULL WHERE user_id = ?',
+      [userId]
+    );
+
+    await connection.execute(
+      `UPDATE account_deletion_requests SET completed_at = NOW() 
+       WHERE user_id = ? AND cancelled_at IS NULL AND completed_at IS NULL`,
+      [userId]
+    );
+    await connection.execute(
+      'UPDATE account_deletion_requests SET requested_ip = NULL WHERE user_id = ?',
+      [userId]
+    );
+  });
+}
+
+// --- Admin Management ---
+//
+// Superadmins invite admins into the admins table. An invited admin has an
+// unusable random password until they set one with the emailed link.
+
+export type AdminRole = 'admin' | 'superadmin';
+export type AdminStatus = 'Invited' | 'Active' | 'Suspended' | 'Cancelled';
+
+export interface AdminAccount {
+  id: string;
+  email: string;
+  name: string;
+  role: AdminRole;
+  status: AdminStatus;
+  invited_by: string | null;
+  created_at: string;
+  last_login: string | null;
+}
+
+export async function getAllAdmins(): Promise<AdminAccount[]> {
+  return executeQuery<AdminAccount>(
+    `SELECT id, email, name, role, status, invited_by, created_at, last_login 
+     FROM admins ORDER BY created_at DESC`
+  );
+}
+
+export async function getAdminAccount(id: string): Promise<AdminAccount | null> {
+  const results = await executeQuery<AdminAccount>(
+    `SELECT id, email, name, role, status, invited_by, created_at, last_login 
+     FROM admins WHERE id = ?`,
+    [id]
   );
   return results.length > 0 ? results[0] : null;
 }
 
-export async function updateUser(
+export async function createInvitedAdmin(data: {
+  email: string;
+  name: string;
+  role: AdminRole;
+  invitedBy: string;
+}): Promise<AdminAccount> {
+  const id = randomUUID();
+  // nobody knows this password; the invitation link replaces it
+  const passwordHash = await hashPassword(randomUUID());
+
+  try {
+    await executeInsert(
+      `INSERT INTO admins (id, email, password_hash, name, role, status, invited_by) 
+       VALUES (?, ?, ?, ?, ?, 'Invited', ?)`,
+      [id, data.email, passwordHash, data.name, data.role, data.invitedBy]
+    );
+  } catch (error: any) {
+    if (error.code === 'ER_DUP_ENTRY') {
+      throw new Error('Email already exists');
+    }
+    throw error;
+  }
+
+  const admin = await getAdminAccount(id);
+  if (!admin) {
+    throw new Error('Failed to create admin');
+  }
+  return admin;
+}
+
+export async function updateAdminAccount(
   id: string,
-  data: Partial<Pick<User, 'name' | 'email' | 'plan' | 'status'>>
+  updates: { role?: AdminRole; status?: 'Active' | 'Suspended' }
 ): Promise<void> {
-  const updates: string[] = [];
+  const fields: string[] = [];
   const values: any[] = [];
 
-  if (data.name !== undefined) {
-    updates.push('name = ?');
-    values.push(data.name);
-  }
-  if (data.email !== undefined) {
-    updates.push('email = ?');
-    values.push(data.email);
+  if (updates.role !== undefined) {
+    fields.push('role = ?');
+    values.push(updates.role);
   }
-  if (data.plan !== undefined) {
-    updates.push('plan = ?');
-    values.push(data.plan);
+  if (updates.status !== undefined) {
+    fields.push('status = ?');
+    values.push(updates.status);
   }
-  if (data.status !== undefined) {
-    updates.push('status = ?');
-    values.push(data.status);
+  if (fields.length === 0) {
+    return;
   }
 
-  if (updates.length === 0) return;
-
   values.push(id);
-  const query = `UPDATE users SET ${updates.join(', ')} WHERE id = ?`;
-
-  await executeUpdate(query, values);
+  await executeUpdate(`UPDATE admins SET ${fields.join(', ')} WHERE id = ?`, values);
 }
 
-export async function updateUserPassword(
-  id: string,
-  newPassword: string
-): Promise<void> {
-  const passwordHash = await hashPassword(newPassword);
-  const query = 'UPDATE users SET password_hash = ? WHERE id = ?';
-  await executeUpdate(query, [passwordHash, id]);
+export async function deleteAdmin(id: string): Promise<void> {
+  await executeDelete('DELETE FROM admins WHERE id = ?', [id]);
+  await deleteMfaFactors('admin', id);
 }
 
-export async function deleteUser(id: string): Promise<void> {
-  await executeDelete('DELETE FROM users WHERE id = ?', [id]);
+export async function countActiveSuperadmins(): Promise<number> {
+  const results = await executeQuery<{ count: number }>(
+    "SELECT COUNT(*) AS count FROM admins WHERE role = 'superadmin' AND status = 'Active'"
+  );
+  return Number(results[0]?.count || 0);
 }
 
-export async function getAllUsers(): Promise<User[]> {
-  const query = `
-    SELECT id, email, name, role, plan, status 
-    FROM users 
-    ORDER BY created_at DESC
-  `;
+export async function createAdminInvitation(
+  adminId: string,
+  tokenHash: string,
+  expiresAt: Date,
+  createdBy: string
+): Promise<string> {
+  const id = randomUUID();
 
-  return executeQuery<User>(query);
+  // re-sending an invitation invalidates the earlier link
+  await executeUpdate(
+    'UPDATE admin_invitations SET used_at = NOW() WHERE admin_id = ? AND used_at IS NULL',
+    [adminId]
+  );
+
+  await executeInsert(
+    `INSERT INTO admin_invitations (id, admin_id, token_hash, expires_at, created_by) 
+     VALUES (?, ?, ?, ?, ?)`,
+    [id, adminId, tokenHash, toSqlDatetime(expiresAt), createdBy]
+  );
+  return id;
 }
 
-// returns each user along with their active subscription renewal date (if any)
-export type UserWithSubscription = User & { renewal_date?: string };
+/**
+ * The admin an invitation is for while it can still be used, so their
+ * password can be checked against their details before it is used up
+ */
+export async function getAdminInvitationAdmin(
+  tokenHash: string
+): Promise<{ id: string; email: string; name: string } | null> {
+  const rows = await executeQuery<{ id: string; email: string; name: string }>(
+    `SELECT a.id, a.email, a.name 
+     FROM admin_invitations i JOIN admins a ON a.id = i.admin_id 
+     WHERE i.token_hash = ? AND i.used_at IS NULL AND i.expires_at > NOW()`,
+    [tokenHash]
+  );
+  return rows.length > 0 ? rows[0] : null;
+}
 
-export async function getAllUsersWithSubscription(): Promise<UserWithSubscription[]> {
-  const query = `
-    SELECT u.id, u.email, u.name, u.role, u.plan, u.status, s.renewal_date
-    FROM users u
-    LEFT JOIN subscriptions s
-      ON s.user_id = u.id AND s.status = 'Active'
-    ORDER BY u.created_at DESC
-  `;
+/**
+ * Use an invitation to set the invited admin's password and activate the
+ * account. Returns the admin id, or null if the link is unknown, expired or
+ * already used, or the admin is no longer waiting on an invitation.
+ */
+export async function acceptAdminInvitation(
+  tokenHash: string,
+  password: string
+): Promise<string | null> {
+  const invited = await getAdminInvitationAdmin(tokenHash);
+  if (!invited) {
+    return null;
+  }
+  // checked before the invitation is used up
+  assertPasswordPolicy(password, [invited.email, invited.name]);
 
-  return executeQuery<UserWithSubscription>(query);
-}
+  const affected = await executeUpdate(
+    `UPDATE admin_invitations SET used_at = NOW() 
+     WHERE token_hash = ? AND used_at IS NULL AND expires_at > NOW()`,
+    [tokenHash]
+  );
+  if (affected === 0) {
+    return null;
+  }
 
-export async function updateLastLogin(id: string): Promise<void> {
-  const query = 'UPDATE users SET last_login = NOW() WHERE id = ?';
-  await executeUpdate(query, [id]);
+  const rows = await executeQuery<{ admin_id: string }>(
+    'SELECT admin_id FROM admin_invitations WHERE token_hash = ?',
+    [tokenHash]
+  );
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const passwordHash = await hashPassword(password);
+  const activated = await executeUpdate(
+    "UPDATE admins SET password_hash = ?, status = 'Active' WHERE id = ? AND status = 'Invited'",
+    [passwordHash, rows[0].admin_id]
+  );
+  return activated > 0 ? rows[0].admin_id : null;
 }
 
-// --- Subscription Operations ---
+/**
+ * Change an account's own password after checking the current one. Staff
+ * can be in the admins table or, with an admin role, in users. Returns false
+ * if the current password is wrong; throws if the account doesn't exist or
+ * the password changed in the meantime.
+ */
+export async function changeAccountPassword(
+  accountType: AccountType,
+  id: string,
+  currentPassword: string,
+  newPassword: string
+): Promise<boolean> {
+  const table = accountType === 'admin' ? 'admins' : 'users';
+  const rows = await executeQuery<{ email: string; name: string; password_hash: string | null }>(
+    `SELECT email, name, password_hash FROM ${table} WHERE id = ?`,
+    [id]
+  );
+  if (rows.length === 0) {
+    throw new Error('Account not found');
+  }
+  const account = rows[0];
+  assertPasswordPolicy(newPassword, [account.email, account.name]);
 
-export async function getSubscription(
-  userId: string
-): Promise<Subscription | null> {
-  const query = `
-    SELECT id, plan, status, renewal_date 
-    FROM subscriptions 
-    WHERE user_id = ? AND status = 'Active'
-    LIMIT 1
-  `;
+  if (!(await verifyPassword(currentPassword, account.password_hash))) {
+    return false;
+  }
 
-  const results = await executeQuery<Subscription>(query, [userId]);
-  return results.length > 0 ? results[0] : null;
+  const passwordHash = await hashPassword(newPassword);
+  const affected = await executeUpdate(
+    `UPDATE ${table} SET password_hash = ? WHERE id = ? AND password_hash = ?`,
+    [passwordHash, id, account.password_hash]
+  );
+  if (affected === 0) {
+    throw new Error('The password was not changed; try again');
+  }
+  return true;
 }
 
-// helper to convert JS date to MySQL DATETIME string (no timezone)
-function toSqlDatetime(date: Date): string {
-  // produces "YYYY-MM-DD HH:MM:SS" which MySQL accepts
-  return date.toISOString().slice(0, 19).replace('T', ' ');
+// --- MFA Operations ---
+//
+// TOTP secrets and backup codes are keyed by account type and id since users
+// and admins live in separate tables. Backup codes are stored as SHA-256
+// hashes and can each be used once.
+
+export interface TotpFactorRecord {
+  secret: string;
+  confirmed_at: Date | null;
+  last_used_step: number | null;
 }
 
-export async function createSubscription(
-  userId: string,
-  plan: 'Starter' | 'Pro' | 'Expert'
-): Promise<Subscription> {
-  const id = randomUUID();
-  const renewalDate = new Date();
-  renewalDate.setMonth(renewalDate.getMonth() + 1);
+export async function getTotpFactor(
+  accountType: AccountType,
+  accountId: string
+): Promise<TotpFactorRecord | null> {
+  const results = await executeQuery<TotpFactorRecord>(
+    'SELECT secret, confirmed_at, last_used_step FROM mfa_totp WHERE account_type = ? AND account_id = ?',
+    [accountType, accountId]
+  );
+  return results.length > 0 ? results[0] : null;
+}
 
+// Stores a new, unconfirmed secret, replacing any earlier unfinished enrolment
+export async function saveTotpSecret(
+  accountType: AccountType,
+  accountId: string,
+  secret: string
+): Promise<void> {
   const query = `
-    INSERT INTO subscriptions 
-    (id, user_id, plan, status, renewal_date, start_date)
-    VALUES (?, ?, ?, 'Active', ?, NOW())
+    INSERT INTO mfa_totp (id, account_type, account_id, secret)
+    VALUES (?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE secret = VALUES(secret), confirmed_at = NULL, last_used_step = NULL
   `;
+  await executeInsert(query, [randomUUID(), accountType, accountId, secret]);
+}
 
-  const values = [id, userId, plan, toSqlDatetime(renewalDate)];
-
-  await executeInsert(query, values);
+export async function confirmTotpFactor(
+  accountType: AccountType,
+  accountId: string
+): Promise<void> {
+  await executeUpdate(
+    'UPDATE mfa_totp SET confirmed_at = NOW() WHERE account_type = ? AND account_id = ?',
+    [accountType, accountId]
+  );
+}
 
-  return {
-    id,
-    plan,
-    status: 'Active',
-    renewal_date: renewalDate.toISOString(),
-  };
+// Records the time step of an accepted code. Returns false if that step (or
+// a later one) was already used, so each code works only once.
+export async function recordTotpStep(
+  accountType: AccountType,
+  accountId: string,
+  step: number
+): Promise<boolean> {
+  const affected = await executeUpdate(
+    `UPDATE mfa_totp SET last_used_step = ? 
+     WHERE account_type = ? AND account_id = ? AND (last_used_step IS NULL OR last_used_step < ?)`,
+    [step, accountType, accountId, step]
+  );
+  return affected > 0;
 }
 
-export async function updateSubscription(
-  subscriptionId: string,
-  data: Partial<Pick<Subscription, 'plan' | 'status' | 'renewal_date'>>
+export async function deleteMfaFactors(
+  accountType: AccountType,
+  accountId: string
 ): Promise<void> {
-  const updates: string[] = [];
-  const values: any[] = [];
+  await executeDelete('DELETE FROM mfa_totp WHERE account_type = ? AND account_id = ?', [
+    accountType,
+    accountId,
+  ]);
+  await executeDelete('DELETE FROM mfa_backup_codes WHERE account_type = ? AND account_id = ?', [
+    accountType,
+    accountId,
+  ]);
+}
 
-  if (data.plan !== undefined) {
-    updates.push('plan = ?');
-    values.push(data.plan);
-  }
-  if (data.status !== undefined) {
-    updates.push('status = ?');
-    values.push(data.status);
-  }
-  if (data.renewal_date !== undefined) {
-    updates.push('renewal_date = ?');
-    // convert if it's a date string or Date
-    const d = new Date(data.renewal_date);
-    values.push(toSqlDatetime(d));
+export async function replaceBackupCodes(
+  accountType: AccountType,
+  accountId: string,
+  codeHashes: string[]
+): Promise<void> {
+  await executeDelete('DELETE FROM mfa_backup_codes WHERE account_type = ? AND account_id = ?', [
+    accountType,
+    accountId,
+  ]);
+  for (const codeHash of codeHashes) {
+    await executeInsert(
+      'INSERT INTO mfa_backup_codes (id, account_type, account_id, code_hash) VALUES (?, ?, ?, ?)',
+      [randomUUID(), accountType, accountId, codeHash]
+    );
   }
-
-  if (updates.length === 0) return;
-
-  values.push(subscriptionId);
-  const query = `UPDATE subscriptions SET ${updates.join(', ')} WHERE id = ?`;
-
-  await executeUpdate(query, values);
 }
 
-export async function cancelSubscription(subscriptionId: string): Promise<void> {
-  const query =
-    "UPDATE subscriptions SET status = 'Cancelled' WHERE id = ?";
-  await executeUpdate(query, [subscriptionId]);
+export async function consumeBackupCode(
+  accountType: AccountType,
+  accountId: string,
+  codeHash: string
+): Promise<boolean> {
+  const affected = await executeUpdate(
+    `UPDATE mfa_backup_codes SET used_at = NOW() 
+     WHERE account_type = ? AND account_id = ? AND code_hash = ? AND used_at IS NULL`,
+    [accountType, accountId, codeHash]
+  );
+  return affected > 0;
 }
 
-// --- Session Operations ---
+export async function countUnusedBackupCodes(
+  accountType: AccountType,
+  accountId: string
+): Promise<number> {
+  const results = await executeQuery<{ remaining: number }>(
+    `SELECT COUNT(*) AS remaining FROM mfa_backup_codes 
+     WHERE account_type = ? AND account_id = ? AND used_at IS NULL`,
+    [accountType, accountId]
+  );
+  return results.length > 0 ? Number(results[0].remaining) : 0;
+}
 
-export async function createSession(
-  userId: string,
-  sessionToken: string,
-  expiresAt: Date,
-  userAgent?: string,
-  ipAddress?: string
-): Promise<string> {
-  const id = randomUUID();
+// --- Login Throttling ---
+//
+// Failed login counters, one row per email address and one per client IP.
 
-  const query = `
-    INSERT INTO user_sessions 
-    (id, user_id, session_token, user_agent, ip_address, expires_at)
-    VALUES (?, ?, ?, ?, ?, ?)
-  `;
+export type ThrottleScope = 'email' | 'ip';
 
-  const values = [id, userId, sessionToken, userAgent, ipAddress, expiresAt];
+export interface LoginThrottleRecord {
+  failures: number;
+  seconds_since_failure: number;
+  lock_seconds_remaining: number;
+}
 
-  await executeInsert(query, values);
-  return id;
+export async function getLoginThrottle(
+  scope: ThrottleScope,
+  key: string
+): Promise<LoginThrottleRecord | null> {
+  const results = await executeQuery<LoginThrottleRecord>(
+    `SELECT failures, 
+       TIMESTAMPDIFF(SECOND, last_failure_at, NOW()) AS seconds_since_failure, 
+       GREATEST(COALESCE(TIMESTAMPDIFF(SECOND, NOW(), locked_until), 0), 0) AS lock_seconds_remaining 
+     FROM login_throttle WHERE scope = ? AND throttle_key = ?`,
+    [scope, key]
+  );
+  return results.length > 0 ? results[0] : null;
 }
 
-export async function getSessionByToken(
-  sessionToken: string
-): Promise<{ id: string; user_id: string; expires_at: Date } | null> {
+/**
+ * Count a failed login. The count starts again from 1 when the previous
+ * failure is older than `resetAfterSeconds`. Returns the new count.
+ */
+export async function recordLoginFailure(
+  scope: ThrottleScope,
+  key: string,
+  resetAfterSeconds: number
+): Promise<number> {
   const query = `
-    SELECT id, user_id, expires_at 
-    FROM user_sessions 
-    WHERE session_token = ? AND expires_at > NOW()
+    INSERT INTO login_throttle (scope, throttle_key, failures, last_failure_at)
+    VALUES (?, ?, 1, NOW())
+    ON DUPLICATE KEY UPDATE 
+      failures = IF(last_failure_at < DATE_SUB(NOW(), INTERVAL ? SECOND), 1, failures + 1),
+      last_failure_at = NOW()
   `;
+  await executeInsert(query, [scope, key, resetAfterSeconds]);
 
-  const results = await executeQuery<{
-    id: string;
-    user_id: string;
-    expires_at: Date;
-  }>(query, [sessionToken]);
+  const record = await getLoginThrottle(scope, key);
+  return record ? Number(record.failures) : 1;
+}
 
-  return results.length > 0 ? results[0] : null;
+export async function lockLoginThrottle(
+  scope: ThrottleScope,
+  key: string,
+  lockSeconds: number
+): Promise<void> {
+  await executeUpdate(
+    'UPDATE login_throttle SET locked_until = DATE_ADD(NOW(), INTERVAL ? SECOND) WHERE scope = ? AND throttle_key = ?',
+    [lockSeconds, scope, key]
+  );
 }
 
-export async function updateSessionActivity(sessionId: string): Promise<void> {
-  const query =
-    'UPDATE user_sessions SET last_activity = NOW() WHERE id = ?';
-  await executeUpdate(query, [sessionId]);
+export async function clearLoginThrottle(scope: ThrottleScope, key: string): Promise<void> {
+  await executeDelete('DELETE FROM login_throttle WHERE scope = ? AND throttle_key = ?', [
+    scope,
+    key,
+  ]);
 }
 
-export async function deleteSession(sessionId: string): Promise<void> {
-  await executeDelete('DELETE FROM user_sessions WHERE id = ?', [sessionId]);
+// --- Rate Limiting ---
+// Token buckets shared by every app instance when RATE_LIMIT_STORE=mysql.
+
+export interface RateLimitBucket {
+  tokens: number;
+  allowed: number;
 }
 
-export async function deleteExpiredSessions(): Promise<void> {
-  await executeDelete('DELETE FROM user_sessions WHERE expires_at <= NOW()');
+/**
+ * Refill a bucket for the time since it was last used and take one token if
+ * there is one. New buckets start full. Returns the bucket after the attempt.
+ */
+export async function takeRateLimitToken(
+  key: string,
+  capacity: number,
+  refillPerSecond: number
+): Promise<RateLimitBucket> {
+  // MySQL applies the assignments left to right, so `allowed` and `tokens`
+  // are both computed from the old `updated_at` before it is bumped
+  const refilled = `LEAST(?, tokens + TIMESTAMPDIFF(MICROSECOND, updated_at, NOW(3)) / 1000000 * ?)`;
+  const query = `
+    INSERT INTO rate_limit_buckets (bucket_key, tokens, allowed, updated_at)
+    VALUES (?, ? - 1, 1, NOW(3))
+    ON DUPLICATE KEY UPDATE 
+      allowed = ${refilled} >= 1,
+      tokens = ${refilled} - IF(allowed, 1, 0),
+      updated_at = NOW(3)
+  `;
+  await executeInsert(query, [
+    key,
+    capacity,
+    capacity,
+    refillPerSecond,
+    capacity,
+    refillPerSecond,
+  ]);
+
+  const results = await executeQuery<RateLimitBucket>(
+    'SELECT tokens, allowed FROM rate_limit_buckets WHERE bucket_key = ?',
+    [key]
+  );
+  return results.length > 0
+    ? { tokens: Number(results[0].tokens), allowed: Number(results[0].allowed) }
+    : { tokens: capacity - 1, allowed: 1 };
+}
+
+export async function deleteStaleRateLimitBuckets(olderThanSeconds: number): Promise<number> {
+  return executeDelete(
+    'DELETE FROM rate_limit_buckets WHERE updated_at < DATE_SUB(NOW(3), INTERVAL ? SECOND)',
+    [olderThanSeconds]
+  );
 }
 
 // --- Site Settings Operations ---
@@ -371,9 +2591,28 @@ export async function updateSiteSettings(newData: any): Promise<void> {
 }
 
 // --- Audit Logging ---
+//
+// The actor is recorded as actor_type/actor_id because admins live in their
+// own table. user_id is only filled for actors from the users table, since it
+// has a foreign key to users.
+
+export type ActorType = AccountType | 'system';
+
+// Which table an account id belongs to, for callers that don't say
+async function resolveActorType(id: string): Promise<AccountType | null> {
+  const users = await executeQuery<{ id: string }>('SELECT id FROM users WHERE id = ?', [id]);
+  if (users.length > 0) {
+    return 'user';
+  }
+  const admins = await executeQuery<{ id: string }>('SELECT id FROM admins WHERE id = ?', [id]);
+  return admins.length > 0 ? 'admin' : null;
+}
 
 export async function logAuditAction(data: {
+  // account that performed the action; omit for anonymous requests
   userId?: string;
+  // which table userId belongs to; looked up when omitted
+  actorType?: ActorType;
   action: string;
   entityType?: string;
   entityId?: string;
@@ -384,30 +2623,20 @@ export async function logAuditAction(data: {
 
   const query = `
     INSERT INTO audit_logs 
-    (id, user_id, action, entity_type, entity_id, changes, ip_address)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    (id, user_id, actor_type, actor_id, action, entity_type, entity_id, changes, ip_address)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
 
-  // Ensure we don't violate the foreign key on audit_logs.user_id
-  // If a userId is provided but does not exist in `users` (e.g., it's an admin from a separate table),
-  // store NULL in the `user_id` column and keep the entityId to reference the admin.
-  let userIdToInsert: string | null = null;
-  if (data.userId) {
-    try {
-      const existing = await executeQuery(`SELECT id FROM users WHERE id = ?`, [data.userId]);
-      if (existing && existing.length > 0) {
-        userIdToInsert = data.userId;
-      } else {
-        userIdToInsert = null;
-      }
-    } catch (e) {
-      userIdToInsert = null;
-    }
+  let actorType: ActorType | null = data.actorType || null;
+  if (!actorType && data.userId) {
+    actorType = await resolveActorType(data.userId);
   }
 
   const values = [
     id,
-    userIdToInsert,
+    actorType === 'user' ? data.userId : null,
+    actorType,
+    data.userId || null,
     data.action,
     data.entityType || null,
     data.entityId || null,
@@ -424,9 +2653,7 @@ export async function updatePassword(
   userId: string,
   newPassword: string
 ): Promise<void> {
-  if (!newPassword || newPassword.length < 6) {
-    throw new Error('Password must be at least 6 characters');
-  }
+  assertPasswordPolicy(newPassword, await passwordInputs('users', userId));
 
   const passwordHash = await hashPassword(newPassword);
   const query = 'UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?';
@@ -443,7 +2670,10 @@ export interface LandingPageImageRecord {
   file_size: number;
   mime_type: string;
   section: string;
-  uploaded_by: string;
+  // set when the uploader is in the users table (foreign key)
+  uploaded_by: string | null;
+  actor_type: AccountType | null;
+  actor_id: string | null;
   upload_ip?: string;
   created_at: Date;
   updated_at: Date;
@@ -457,30 +2687,23 @@ export async function saveLandingPageImage(data: {
   mime_type: string;
   section: string;
   uploaded_by?: string | null;
+  // which table uploaded_by belongs to; looked up when omitted
+  actor_type?: AccountType;
   upload_ip?: string;
 }): Promise<LandingPageImageRecord> {
   const id = randomUUID();
 
-  // validate / sanitize uploaded_by - only keep if it exists in users table
-  let uploadedByToStore: string | null = null;
-  if (data.uploaded_by) {
-    try {
-      const existing = await executeQuery(`SELECT id FROM users WHERE id = ?`, [data.uploaded_by]);
-      if (existing && existing.length > 0) {
-        uploadedByToStore = data.uploaded_by;
-      } else {
-        // admin or non-user; store null instead
-        uploadedByToStore = null;
-      }
-    } catch (err) {
-      uploadedByToStore = null;
-    }
+  let actorType: AccountType | null = data.actor_type || null;
+  if (!actorType && data.uploaded_by) {
+    actorType = await resolveActorType(data.uploaded_by);
   }
+  const actorId = data.uploaded_by || null;
+  const uploadedBy = actorType === 'user' ? actorId : null;
 
   const query = `
     INSERT INTO landing_page_images 
-    (id, filename, original_filename, file_path, file_size, mime_type, section, uploaded_by, upload_ip)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (id, filename, original_filename, file_path, file_size, mime_type, section, uploaded_by, actor_type, actor_id, upload_ip)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
 
   const values = [
@@ -491,7 +2714,9 @@ export async function saveLandingPageImage(data: {
     data.file_size,
     data.mime_type,
     data.section,
-    uploadedByToStore,
+    uploadedBy,
+    actorType,
+    actorId,
     data.upload_ip || null,
   ];
 
@@ -505,7 +2730,9 @@ export async function saveLandingPageImage(data: {
     file_size: data.file_size,
     mime_type: data.mime_type,
     section: data.section,
-    uploaded_by: uploadedByToStore || '',
+    uploaded_by: uploadedBy,
+    actor_type: actorType,
+    actor_id: actorId,
     upload_ip: data.upload_ip,
     created_at: new Date(),
     updated_at: new Date(),
@@ -538,20 +2765,110 @@ export async function deleteLandingPageImage(id: string): Promise<void> {
 }
 
 // --- Package Operations ---
+//
+// A package is sold at one or more price points, one per billing period.
+// packages.price mirrors the shortest period's price for places that show a
+// single price.
+
+export type PackagePriceInput = Pick<PackagePrice, 'billing_period' | 'price'> & {
+  savings_label?: string | null;
+};
+
+// Validated price points, shortest billing period first
+function normalisePackagePrices(prices: PackagePriceInput[]): PackagePriceInput[] {
+  if (prices.length === 0) {
+    throw new Error('A package needs at least one price');
+  }
+  const seen = new Set<BillingPeriod>();
+  for (const point of prices) {
+    if (!isBillingPeriod(point.billing_period)) {
+      throw new Error(`Unknown billing period "${point.billing_period}"`);
+    }
+    if (seen.has(point.billing_period)) {
+      throw new Error(`The ${point.billing_period} price is listed twice`);
+    }
+    seen.add(point.billing_period);
+    if (typeof point.price !== 'number' || !Number.isFinite(point.price) || point.price < 0) {
+      throw new Error(`The ${point.billing_period} price must be zero or more`);
+    }
+  }
+  return pricePoints({
+    prices: prices.map(point => ({
+      id: '',
+      billing_period: point.billing_period,
+      price: point.price,
+      savings_label: point.savings_label?.trim().slice(0, 50) || null,
+    })),
+  });
+}
+
+/**
+ * Replace a package's price points. Points for a billing period that stays
+ * keep their id, so subscriptions still reference what they bought.
+ */
+async function savePackagePrices(
+  connection: PoolConnection,
+  packageId: string,
+  prices: PackagePriceInput[]
+): Promise<void> {
+  const periods = prices.map(point => point.billing_period);
+  await connection.execute(
+    `DELETE FROM package_prices WHERE package_id = ? AND billing_period NOT IN (${periods.map(() => '?').join(', ')})`,
+    [packageId, ...periods]
+  );
+  for (const point of prices) {
+    await connection.execute(
+      `INSERT INTO package_prices (id, package_id, billing_period, price, savings_label) 
+       VALUES (?, ?, ?, ?, ?) 
+       ON DUPLICATE KEY UPDATE price = VALUES(price), savings_label = VALUES(savings_label)`,
+      [randomUUID(), packageId, point.billing_period, point.price, point.savings_label ?? null]
+    );
+  }
+  await connection.execute('UPDATE packages SET price = ? WHERE id = ?', [prices[0].price, packageId]);
+}
+
+// Load the price points of the given packages
+async function withPackagePrices(packages: Package[]): Promise<Package[]> {
+  if (packages.length === 0) {
+    return packages;
+  }
+  const rows = await executeQuery<any>(
+    `SELECT id, package_id, billing_period, price, savings_label FROM package_prices 
+     WHERE package_id IN (${packages.map(() => '?').join(', ')})`,
+    packages.map(pkg => pkg.id)
+  );
+  return packages.map(pkg => ({
+    ...pkg,
+    prices: pricePoints({
+      prices: rows
+        .filter(row => row.package_id === pkg.id)
+        .map(row => ({
+          id: row.id,
+          billing_period: row.billing_period,
+          // mysql returns DECIMAL as a string
+          price: typeof row.price === 'string' ? parseFloat(row.price) : row.price,
+          savings_label: row.savings_label,
+        })),
+    }),
+  }));
+}
 
 export async function createPackage(data: {
   name: string;
   description?: string;
   price: number;
   currency?: string;
+  // defaults to a monthly price of `price`
+  prices?: PackagePriceInput[];
   features?: string[];
   display_order?: number;
   created_by?: string | null;
 }): Promise<Package> {
   const id = randomUUID();
-  const currency = data.currency || 'USD';
+  const currency = currencyCode(data.currency);
   const displayOrder = data.display_order ?? 0;
   const features = data.features ? JSON.stringify(data.features) : null;
+  const prices = normalisePackagePrices(data.prices ?? [{ billing_period: 'monthly', price: data.price }]);
 
   const query = `
     INSERT INTO packages 
@@ -563,7 +2880,7 @@ export async function createPackage(data: {
     id,
     data.name,
     data.description || null,
-    data.price,
+    prices[0].price,
     currency,
     features,
     displayOrder,
@@ -571,21 +2888,12 @@ export async function createPackage(data: {
   ];
 
   try {
-    await executeInsert(query, values);
+    await withTransaction(async connection => {
+      await connection.execute(query, values);
+      await savePackagePrices(connection, id, prices);
+    });
 
-    return {
-      id,
-      name: data.name,
-      description: data.description,
-      price: data.price,
-      currency,
-      features: data.features,
-      active: true,
-      display_order: displayOrder,
-      created_by: data.created_by,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
+    return (await getPackageById(id))!;
   } catch (error: any) {
     if (error.code === 'ER_DUP_ENTRY') {
       throw new Error(`Package "${data.name}" already exists`);
@@ -605,7 +2913,7 @@ export async function getAllPackages(activeOnly: boolean = false): Promise<Packa
   query += ` ORDER BY display_order ASC, created_at DESC`;
 
   const results = await executeQuery<any>(query, values);
-  return results.map(pkg => {
+  const packages = results.map(pkg => {
     let features: string[] = [];
     if (pkg.features) {
       try {
@@ -620,6 +2928,7 @@ export async function getAllPackages(activeOnly: boolean = false): Promise<Packa
     const price = typeof pkg.price === 'string' ? parseFloat(pkg.price) : pkg.price;
     return { ...pkg, features, price };
   });
+  return withPackagePrices(packages);
 }
 
 export async function getPackageById(id: string): Promise<Package | null> {
@@ -639,7 +2948,8 @@ export async function getPackageById(id: string): Promise<Package | null> {
     }
   }
   const price = typeof pkg.price === 'string' ? parseFloat(pkg.price) : pkg.price;
-  return { ...pkg, features, price };
+  const [withPrices] = await withPackagePrices([{ ...pkg, features, price }]);
+  return withPrices;
 }
 
 export async function getPackageByName(name: string): Promise<Package | null> {
@@ -659,7 +2969,8 @@ export async function getPackageByName(name: string): Promise<Package | null> {
     }
   }
   const price = typeof pkg.price === 'string' ? parseFloat(pkg.price) : pkg.price;
-  return { ...pkg, features, price };
+  const [withPrices] = await withPackagePrices([{ ...pkg, features, price }]);
+  return withPrices;
 }
 
 export async function updatePackage(
@@ -667,7 +2978,10 @@ export async function updatePackage(
   data: {
     name?: string;
     description?: string;
+    // the monthly price, for callers that don't manage price points
     price?: number;
+    // replaces all price points
+    prices?: PackagePriceInput[];
     currency?: string;
     features?: string[];
     active?: boolean;
@@ -677,6 +2991,20 @@ export async function updatePackage(
   const updates: string[] = [];
   const values: any[] = [];
 
+  let prices: PackagePriceInput[] | undefined;
+  if (data.prices !== undefined || data.price !== undefined) {
+    const existing = await getPackageById(id);
+    if (!existing) {
+      return null;
+    }
+    prices = normalisePackagePrices(
+      data.prices ?? [
+        ...(existing.prices ?? []).filter(point => point.billing_period !== 'monthly'),
+        { billing_period: 'monthly', price: data.price! },
+      ]
+    );
+  }
+
   if (data.name !== undefined) {
     updates.push('name = ?');
     values.push(data.name);
@@ -685,13 +3013,9 @@ export async function updatePackage(
     updates.push('description = ?');
     values.push(data.description || null);
   }
-  if (data.price !== undefined) {
-    updates.push('price = ?');
-    values.push(data.price);
-  }
   if (data.currency !== undefined) {
     updates.push('currency = ?');
-    values.push(data.currency);
+    values.push(currencyCode(data.currency));
   }
   if (data.features !== undefined) {
     updates.push('features = ?');
@@ -706,7 +3030,7 @@ export async function updatePackage(
     values.push(data.display_order);
   }
 
-  if (updates.length === 0) {
+  if (updates.length === 0 && !prices) {
     return getPackageById(id);
   }
 
@@ -716,7 +3040,12 @@ export async function updatePackage(
   const query = `UPDATE packages SET ${updates.join(', ')} WHERE id = ?`;
 
   try {
-    await executeUpdate(query, values);
+    await withTransaction(async connection => {
+      await connection.execute(query, values);
+      if (prices) {
+        await savePackagePrices(connection, id, prices);
+      }
+    });
     return getPackageById(id);
   } catch (error: any) {
     if (error.code === 'ER_DUP_ENTRY') {
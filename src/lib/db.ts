@@ -1,7 +1,10 @@
-import mysql from 'mysql2/promise';
+import mysql, { Pool, PoolConnection } from 'mysql2/promise';
+import type { Connection as CoreConnection } from 'mysql2';
 
-// Create a connection pool for database operations
-const pool = mysql.createPool({
+// Create a connection pool for database operations. All times are UTC:
+// dates are sent and read as UTC, and each connection's session time zone is
+// UTC so NOW() matches the expiry times the app writes.
+const basePool = mysql.createPool({
   host: process.env.DB_HOST || 'localhost',
   port: parseInt(process.env.DB_PORT || '3306'),
   user: process.env.DB_USER || 'root',
@@ -10,8 +13,28 @@ const pool = mysql.createPool({
   waitForConnections: true,
   connectionLimit: 10,
   queueLimit: 0,
+  timezone: 'Z',
 });
 
+// the pool hands new connections to this listener before any query runs on
+// them, and a connection runs its queries in order
+basePool.on('connection', connection => {
+  (connection as unknown as CoreConnection).query("SET time_zone = '+00:00'", error => {
+    if (error) {
+      console.error('Failed to set the database session time zone:', error);
+    }
+  });
+});
+
+let pool: Pool = basePool;
+
+/**
+ * Replace the connection pool, e.g. with an in-memory fake in tests
+ */
+export function setDbPool(replacement: Pool): void {
+  pool = replacement;
+}
+
 export async function getDbConnection() {
   return pool.getConnection();
 }
@@ -74,6 +97,27 @@ export async function executeDelete(
   }
 }
 
+/**
+ * Run several statements on one connection inside a transaction. Everything
+ * is rolled back if the callback throws.
+ */
+export async function withTransaction<T>(
+  callback: (connection: PoolConnection) => Promise<T>
+): Promise<T> {
+  const connection = await getDbConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await callback(connection);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
 // Close pool on application shutdown
 export async function closeDbPool() {
   return pool.end();
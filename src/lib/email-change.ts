@@ -0,0 +1,63 @@
+/**
+ * Email address changes
+ * The new address has to be confirmed through a single-use link sent to it.
+ * Once confirmed, the old address is told about the change so a hijacked
+ * account doesn't go unnoticed.
+ */
+
+import { createEmailChangeToken } from './db-auth';
+import { generateToken, hashToken } from './tokens';
+import { sendMail, appUrl } from './mailer';
+
+export const EMAIL_CHANGE_TTL_HOURS = 24;
+
+/**
+ * Email a confirmation link to the new address. Any earlier pending change
+ * for the same user stops working.
+ */
+export async function sendEmailChangeConfirmation(
+  user: { id: string; name: string },
+  newEmail: string,
+  origin: string,
+  ipAddress?: string
+): Promise<void> {
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + EMAIL_CHANGE_TTL_HOURS * 60 * 60 * 1000);
+  await createEmailChangeToken(user.id, newEmail, hashToken(token), expiresAt, ipAddress);
+
+  const confirmUrl = appUrl(`/confirm-email?token=${encodeURIComponent(token)}`, origin);
+  await sendMail({
+    to: newEmail,
+    subject: 'Confirm your new Quantum Alpha India email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Open the link below to use this address for your Quantum Alpha India account:',
+      '',
+      confirmUrl,
+      '',
+      `The link expires in ${EMAIL_CHANGE_TTL_HOURS} hours and can only be used once. If you did not ask for this, you can ignore this email.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Tell the previous address that the account now uses a different one
+ */
+export async function sendEmailChangedNotice(
+  user: { name: string },
+  oldEmail: string,
+  newEmail: string
+): Promise<void> {
+  await sendMail({
+    to: oldEmail,
+    subject: 'Your Quantum Alpha India email address was changed',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `The email address for your Quantum Alpha India account was changed to ${newEmail}. You will no longer receive account emails at this address.`,
+      '',
+      'If you did not make this change, please contact support immediately.',
+    ].join('\n'),
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * Email verification for new signups
+ * Verification links carry a signed JWT bound to the account's id and email,
+ * so changing the email invalidates links sent to the old address.
+ */
+
+import { createJWT, verifyJWT } from './jwt';
+import { markVerificationEmailSent } from './db-auth';
+import { sendMail, appUrl } from './mailer';
+
+const VERIFICATION_TOKEN_TTL = '24h';
+
+// minimum time between two verification emails to the same account
+export const RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * Email a verification link, unless one was sent within the cooldown.
+ * Returns whether an email was sent.
+ */
+export async function sendVerificationEmail(
+  user: { id: string; email: string; name: string },
+  origin: string
+): Promise<boolean> {
+  if (!(await markVerificationEmailSent(user.id, RESEND_COOLDOWN_SECONDS))) {
+    return false;
+  }
+
+  const token = await createJWT(
+    { userId: user.id, email: user.email, role: 'user', type: 'email_verification' },
+    VERIFICATION_TOKEN_TTL
+  );
+  const verifyUrl = appUrl(`/verify-email?token=${encodeURIComponent(token)}`, origin);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your Quantum Alpha India email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Thanks for signing up. Please confirm your email address to activate your account:',
+      '',
+      verifyUrl,
+      '',
+      'The link expires in 24 hours. If you did not create an account, you can ignore this email.',
+    ].join('\n'),
+  });
+
+  return true;
+}
+
+/**
+ * Check a verification link token and return the account it was issued for
+ */
+export async function verifyEmailToken(
+  token: string
+): Promise<{ userId: string; email: string } | null> {
+  const payload = await verifyJWT(token, 'email_verification');
+  return payload ? { userId: payload.userId, email: payload.email } : null;
+}
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { financialYear, isInterState, normaliseGstin, splitGst } from './gst';
+
+describe('normaliseGstin', () => {
+  it('accepts GSTINs with a correct check character', () => {
+    assert.equal(normaliseGstin('27AAPFU0939F1ZV'), '27AAPFU0939F1ZV');
+    assert.equal(normaliseGstin('29AAGCB7383J1Z4'), '29AAGCB7383J1Z4');
+  });
+
+  it('removes spaces and upper-cases', () => {
+    assert.equal(normaliseGstin(' 27aapfu 0939f1zv '), '27AAPFU0939F1ZV');
+  });
+
+  it('rejects a wrong check character', () => {
+    assert.equal(normaliseGstin('27AAPFU0939F1ZW'), null);
+    assert.equal(normaliseGstin('27AAAAA0000A1Z5'), null);
+  });
+
+  it('rejects unknown states and malformed values', () => {
+    assert.equal(normaliseGstin('99AAPFU0939F1ZV'), null);
+    assert.equal(normaliseGstin('27AAPFU0939F1Z'), null);
+    assert.equal(normaliseGstin('27AAPFU0939F1XV'), null);
+    assert.equal(normaliseGstin(''), null);
+    assert.equal(normaliseGstin(null), null);
+    assert.equal(normaliseGstin(27), null);
+  });
+});
+
+describe('financialYear', () => {
+  it('runs from April to March', () => {
+    assert.equal(financialYear(new Date('2026-10-19T12:00:00Z')), '2026-27');
+    assert.equal(financialYear(new Date('2027-02-01T12:00:00Z')), '2026-27');
+    assert.equal(financialYear(new Date('1999-12-31T12:00:00Z')), '1999-00');
+  });
+
+  it('goes by the date in India', () => {
+    // 05:30 on 1 April in India
+    assert.equal(financialYear(new Date('2027-03-31T18:29:59Z')), '2026-27');
+    assert.equal(financialYear(new Date('2027-03-31T18:30:00Z')), '2027-28');
+  });
+});
+
+describe('isInterState', () => {
+  it('compares the seller state with the place of supply', () => {
+    assert.equal(isInterState('27', '29'), true);
+    assert.equal(isInterState('27', '27'), false);
+    assert.equal(isInterState(null, '29'), false);
+    assert.equal(isInterState('27', null), false);
+  });
+});
+
+describe('splitGst', () => {
+  it('takes the tax out of a price that includes it', () => {
+    assert.deepEqual(splitGst(118000, 18, false), {
+      taxableAmount: 100000,
+      cgstAmount: 9000,
+      sgstAmount: 9000,
+      igstAmount: 0,
+    });
+    assert.deepEqual(splitGst(118000, 18, true), {
+      taxableAmount: 100000,
+      cgstAmount: 0,
+      sgstAmount: 0,
+      igstAmount: 18000,
+    });
+  });
+
+  it('never changes the total when rounding', () => {
+    for (const total of [1, 99, 249900, 99999, 100001]) {
+      for (const interState of [false, true]) {
+        const split = splitGst(total, 18, interState);
+        assert.equal(split.taxableAmount + split.cgstAmount + split.sgstAmount + split.igstAmount, total);
+        assert.ok(Math.abs(split.cgstAmount - split.sgstAmount) <= 1);
+      }
+    }
+  });
+
+  it('charges nothing at a zero rate', () => {
+    assert.deepEqual(splitGst(249900, 0, false), {
+      taxableAmount: 249900,
+      cgstAmount: 0,
+      sgstAmount: 0,
+      igstAmount: 0,
+    });
+  });
+});
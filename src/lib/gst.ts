@@ -0,0 +1,135 @@
+/**
+ * Indian GST rules for invoices
+ * State codes, GSTIN validation, financial years and how the tax in a
+ * price splits into central and state GST or integrated GST. Shared by the
+ * server and the billing details form, so it must stay free of server-only
+ * imports.
+ */
+
+// GST state codes as used in GSTINs and for the place of supply
+export const GST_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+};
+
+// state code, PAN, entity number, 'Z' and a check character
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export function isGstStateCode(value: unknown): value is string {
+  return typeof value === 'string' && value in GST_STATES;
+}
+
+// '27' -> "Maharashtra (27)"
+export function gstStateLabel(code: string | null | undefined): string {
+  return code && GST_STATES[code] ? `${GST_STATES[code]} (${code})` : '—';
+}
+
+// The last character of a GSTIN is a base-36 check digit over the first 14
+function gstinCheckCharacter(gstin: string): string {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARACTERS.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARACTERS[(36 - (sum % 36)) % 36];
+}
+
+/**
+ * The GSTIN as entered, without spaces and upper-cased, or null if it can't
+ * be one: wrong format, an unknown state or a wrong check character
+ */
+export function normaliseGstin(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const gstin = value.replace(/\s+/g, '').toUpperCase();
+  if (!GSTIN_PATTERN.test(gstin) || !isGstStateCode(gstin.slice(0, 2))) {
+    return null;
+  }
+  return gstinCheckCharacter(gstin) === gstin[14] ? gstin : null;
+}
+
+// The state a GSTIN is registered in
+export function gstinStateCode(gstin: string): string {
+  return gstin.slice(0, 2);
+}
+
+// India Standard Time is UTC+05:30 all year
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+/**
+ * The Indian financial year (April to March) a moment falls in, by the date
+ * in India: 2026-10-19 -> "2026-27"
+ */
+export function financialYear(date: Date): string {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const start = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Whether a supply crosses state lines. A seller without a configured state
+ * is taken to be in the place of supply.
+ */
+export function isInterState(sellerStateCode: string | null, placeOfSupply: string | null): boolean {
+  return !!sellerStateCode && !!placeOfSupply && sellerStateCode !== placeOfSupply;
+}
+
+export interface GstSplit {
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+/**
+ * Split a price that includes GST into its taxable value and tax, all in the
+ * smallest currency unit. Within one state the tax is shared equally between
+ * central and state GST; between states it is all integrated GST. Rounding
+ * never changes the total.
+ */
+export function splitGst(total: number, rate: number, interState: boolean): GstSplit {
+  const taxableAmount = Math.round((total * 100) / (100 + rate));
+  const tax = total - taxableAmount;
+  if (interState) {
+    return { taxableAmount, cgstAmount: 0, sgstAmount: 0, igstAmount: tax };
+  }
+  const cgstAmount = Math.round(tax / 2);
+  return { taxableAmount, cgstAmount, sgstAmount: tax - cgstAmount, igstAmount: 0 };
+}
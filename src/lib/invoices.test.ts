@@ -0,0 +1,108 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  formatInvoiceNumber,
+  getGstRate,
+  getInvoiceSeller,
+  invoiceFileName,
+  invoiceRegisterCsv,
+} from './invoices';
+import type { Invoice } from './db-auth';
+
+const ENV_KEYS = ['NODE_ENV', 'GST_SELLER_GSTIN', 'GST_SELLER_STATE', 'GST_RATE'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+function setEnv(values: Record<string, string | undefined>): void {
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      Object.assign(process.env, { [key]: value });
+    }
+  }
+}
+
+afterEach(() => setEnv(savedEnv));
+
+describe('invoice numbers', () => {
+  it('are prefixed, per financial year and zero-padded', () => {
+    assert.equal(formatInvoiceNumber('2026-27', 1), 'QAI/26-27/000001');
+    assert.equal(formatInvoiceNumber('2026-27', 123456), 'QAI/26-27/123456');
+    assert.equal(formatInvoiceNumber('1999-00', 42), 'QAI/99-00/000042');
+  });
+
+  it('fit the 16 characters GST allows', () => {
+    assert.ok(formatInvoiceNumber('2026-27', 999999).length <= 16);
+  });
+
+  it('give file names without slashes', () => {
+    assert.equal(invoiceFileName({ invoice_number: 'QAI/26-27/000001' }, 'pdf'), 'invoice-QAI-26-27-000001.pdf');
+  });
+});
+
+describe('getInvoiceSeller', () => {
+  it('takes the state from a valid GSTIN', () => {
+    setEnv({ GST_SELLER_GSTIN: '27aapfu0939f1zv', GST_SELLER_STATE: '29' });
+    const seller = getInvoiceSeller();
+    assert.equal(seller.gstin, '27AAPFU0939F1ZV');
+    assert.equal(seller.stateCode, '27');
+  });
+
+  it('refuses an invalid GSTIN', () => {
+    setEnv({ GST_SELLER_GSTIN: '27AAAAA0000A1Z5' });
+    assert.throws(() => getInvoiceSeller(), /not a valid GSTIN/);
+  });
+
+  it('requires a GSTIN in production', () => {
+    setEnv({ NODE_ENV: 'production', GST_SELLER_GSTIN: undefined });
+    assert.throws(() => getInvoiceSeller(), /must be set in production/);
+  });
+
+  it('bills without GST outside production when there is no GSTIN', () => {
+    setEnv({ NODE_ENV: 'development', GST_SELLER_GSTIN: undefined, GST_SELLER_STATE: '29', GST_RATE: '18' });
+    const seller = getInvoiceSeller();
+    assert.equal(seller.gstin, null);
+    assert.equal(seller.stateCode, '29');
+    assert.equal(getGstRate(seller), 0);
+  });
+
+  it('charges GST_RATE when registered', () => {
+    setEnv({ GST_SELLER_GSTIN: '27AAPFU0939F1ZV', GST_RATE: '12' });
+    assert.equal(getGstRate(getInvoiceSeller()), 12);
+    setEnv({ GST_RATE: undefined });
+    assert.equal(getGstRate(getInvoiceSeller()), 18);
+  });
+});
+
+describe('invoiceRegisterCsv', () => {
+  const invoice = {
+    invoice_number: 'QAI/26-27/000001',
+    issued_at: new Date('2026-10-19T06:00:00Z'),
+    customer_name: '=HYPERLINK("http://example.com")',
+    customer_email: 'buyer@example.com',
+    customer_gstin: null,
+    place_of_supply: '27',
+    description: 'Pro, yearly',
+    sac_code: '997331',
+    currency: 'INR',
+    taxable_amount: 211780,
+    tax_rate: 18,
+    cgst_amount: 19060,
+    sgst_amount: 19060,
+    igst_amount: 0,
+    total_amount: 249900,
+  } as unknown as Invoice;
+
+  it('starts with a byte order mark and a header row', () => {
+    const csv = invoiceRegisterCsv([invoice]);
+    assert.ok(csv.startsWith('\ufeffInvoice number,Invoice date,'));
+    assert.equal(csv.split('\r\n').length, 3);
+  });
+
+  it('keeps spreadsheets from evaluating customer input', () => {
+    const row = invoiceRegisterCsv([invoice]).split('\r\n')[1];
+    assert.ok(row.includes(`"'=HYPERLINK(""http://example.com"")"`));
+    assert.ok(row.includes('"Pro, yearly"'));
+    assert.ok(row.endsWith('2117.80,18,190.60,190.60,0.00,2499.00'));
+  });
+});
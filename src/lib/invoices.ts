@@ -0,0 +1,302 @@
+/**
+ * GST invoices
+ *
+ * Every confirmed payment is invoiced in the same transaction that activates
+ * its plan, so an invoice number is only used by a payment that was applied
+ * and numbers run without gaps within each financial year. Plan prices
+ * include GST: the invoice shows the taxable value and the tax in the amount
+ * paid, as central and state GST when the customer is in the seller's state
+ * and as integrated GST otherwise. The place of supply is the state on the
+ * customer's billing details, or the seller's state when they gave none.
+ *
+ * The seller is configured with GST_SELLER_NAME, GST_SELLER_ADDRESS and
+ * GST_SELLER_GSTIN, whose first two digits give the seller's state.
+ * Production requires a valid GSTIN. Elsewhere a seller without one issues
+ * bills of supply that charge no GST, in the state set by GST_SELLER_STATE.
+ * GST_RATE is the total rate in percent (18 by default) and GST_SAC_CODE the
+ * services code printed on the invoices. Each invoice keeps the details it
+ * was issued with; PDFs are rendered from them on request.
+ */
+
+import type { Invoice } from './db-auth';
+import { GST_STATES, gstinStateCode, gstStateLabel, isGstStateCode, isInterState, normaliseGstin } from './gst';
+import { createPdf, PAGE_WIDTH, PdfLine, PdfText, textWidth } from './pdf';
+
+// invoice numbers may be at most 16 characters: QAI/26-27/000001
+const INVOICE_PREFIX = 'QAI';
+const DEFAULT_SELLER_NAME = 'Quantum Alpha India';
+const DEFAULT_GST_RATE = 18;
+// licensing services for the right to use computer software
+const DEFAULT_SAC_CODE = '997331';
+
+export interface InvoiceSeller {
+  name: string;
+  address: string | null;
+  gstin: string | null;
+  stateCode: string | null;
+}
+
+/**
+ * The seller invoices are issued by. Throws if GST_SELLER_GSTIN is not a
+ * valid GSTIN, or is missing in production, so no invoice charges GST
+ * without the seller's registration on it.
+ */
+export function getInvoiceSeller(): InvoiceSeller {
+  const configured = process.env.GST_SELLER_GSTIN?.trim() || null;
+  const gstin = configured ? normaliseGstin(configured) : null;
+  if (configured && !gstin) {
+    throw new Error('GST_SELLER_GSTIN is not a valid GSTIN');
+  }
+  if (!gstin && process.env.NODE_ENV === 'production') {
+    throw new Error('GST_SELLER_GSTIN must be set in production');
+  }
+  const state = process.env.GST_SELLER_STATE?.trim() || null;
+  return {
+    name: process.env.GST_SELLER_NAME || DEFAULT_SELLER_NAME,
+    address: process.env.GST_SELLER_ADDRESS || null,
+    gstin,
+    stateCode: gstin ? gstinStateCode(gstin) : isGstStateCode(state) ? state : null,
+  };
+}
+
+// Only a GST-registered seller charges GST
+export function getGstRate(seller: InvoiceSeller): number {
+  if (!seller.gstin) {
+    return 0;
+  }
+  const rate = parseFloat(process.env.GST_RATE || '');
+  return Number.isFinite(rate) && rate >= 0 ? rate : DEFAULT_GST_RATE;
+}
+
+export function getSacCode(): string {
+  return process.env.GST_SAC_CODE || DEFAULT_SAC_CODE;
+}
+
+// "2026-27", 1 -> "QAI/26-27/000001"
+export function formatInvoiceNumber(financialYear: string, sequence: number): string {
+  return `${INVOICE_PREFIX}/${financialYear.slice(2)}/${String(sequence).padStart(6, '0')}`;
+}
+
+export function invoiceFileName(invoice: Pick<Invoice, 'invoice_number'>, extension: string): string {
+  return `invoice-${invoice.invoice_number.replace(/\//g, '-')}.${extension}`;
+}
+
+// 249900 -> "2,499.00"; the PDF fonts have no rupee sign
+function formatAmount(amount: number): string {
+  return new Intl.NumberFormat('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount / 100);
+}
+
+// invoice dates are dates in India
+function formatInvoiceDate(date: Date | string): string {
+  return new Intl.DateTimeFormat('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'Asia/Kolkata',
+  }).format(new Date(date));
+}
+
+function formatRate(rate: number): string {
+  return `${Number(rate.toFixed(2))}%`;
+}
+
+// Break text into lines that fit the width, at spaces where possible
+function wrapText(text: string, size: number, maxWidth: number, bold: boolean = false): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && textWidth(candidate, size, bold) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+/**
+ * The invoice as a one-page PDF: a tax invoice, or a bill of supply when the
+ * seller had no GSTIN
+ */
+export function renderInvoicePdf(invoice: Invoice): Buffer {
+  const taxInvoice = !!invoice.seller_gstin;
+  const left = 50;
+  const right = PAGE_WIDTH - 50;
+  const middle = 320;
+  const texts: PdfText[] = [];
+  const lines: PdfLine[] = [];
+  const currency = invoice.currency;
+
+  const block = (x: number, y: number, entries: { text: string; bold?: boolean }[], width: number): number => {
+    for (const entry of entries) {
+      for (const line of wrapText(entry.text, 10, width, entry.bold)) {
+        texts.push({ x, y, text: line, size: 10, bold: entry.bold });
+        y += 14;
+      }
+    }
+    return y;
+  };
+
+  texts.push({ x: left, y: 70, text: taxInvoice ? 'Tax Invoice' : 'Bill of Supply', size: 20, bold: true });
+  texts.push({ x: right, y: 70, text: invoice.invoice_number, size: 12, bold: true, align: 'right' });
+  lines.push({ x1: left, y1: 85, x2: right, y2: 85, width: 1 });
+
+  const sellerEnd = block(
+    left,
+    110,
+    [
+      { text: invoice.seller_name, bold: true },
+      ...(invoice.seller_address ? [{ text: invoice.seller_address }] : []),
+      { text: `GSTIN: ${invoice.seller_gstin || 'Not registered'}` },
+      { text: `State: ${gstStateLabel(invoice.seller_state_code)}` },
+    ],
+    middle - left - 20
+  );
+  const detailsEnd = block(
+    middle,
+    110,
+    [
+      { text: `Invoice number: ${invoice.invoice_number}` },
+      { text: `Invoice date: ${formatInvoiceDate(invoice.issued_at)}` },
+      { text: `Place of supply: ${gstStateLabel(invoice.place_of_supply)}` },
+      { text: 'Reverse charge: No' },
+    ],
+    right - middle
+  );
+
+  let y = Math.max(sellerEnd, detailsEnd) + 16;
+  texts.push({ x: left, y, text: 'Bill to', size: 10, bold: true });
+  y = block(
+    left,
+    y + 16,
+    [
+      { text: invoice.customer_name, bold: true },
+      { text: invoice.customer_email },
+      ...(invoice.customer_address ? [{ text: invoice.customer_address }] : []),
+      { text: `GSTIN: ${invoice.customer_gstin || 'Unregistered'}` },
+    ],
+    middle - left - 20
+  );
+
+  // line item
+  y += 20;
+  lines.push({ x1: left, y1: y, x2: right, y2: y });
+  texts.push({ x: left, y: y + 15, text: 'Description', size: 10, bold: true });
+  texts.push({ x: 340, y: y + 15, text: 'SAC', size: 10, bold: true });
+  texts.push({
+    x: right,
+    y: y + 15,
+    text: `${taxInvoice ? 'Taxable value' : 'Amount'} (${currency})`,
+    size: 10,
+    bold: true,
+    align: 'right',
+  });
+  lines.push({ x1: left, y1: y + 23, x2: right, y2: y + 23 });
+  y = block(left, y + 40, [{ text: invoice.description }], 280) - 14;
+  texts.push({ x: 340, y, text: invoice.sac_code, size: 10 });
+  texts.push({ x: right, y, text: formatAmount(invoice.taxable_amount), size: 10, align: 'right' });
+  y += 10;
+  lines.push({ x1: left, y1: y, x2: right, y2: y });
+
+  // totals
+  const halfRate = formatRate(invoice.tax_rate / 2);
+  const totals: [string, number][] = [];
+  if (taxInvoice) {
+    totals.push(['Taxable value', invoice.taxable_amount]);
+    if (isInterState(invoice.seller_state_code, invoice.place_of_supply)) {
+      totals.push([`IGST @ ${formatRate(invoice.tax_rate)}`, invoice.igst_amount]);
+    } else {
+      totals.push([`CGST @ ${halfRate}`, invoice.cgst_amount], [`SGST @ ${halfRate}`, invoice.sgst_amount]);
+    }
+  }
+  y += 20;
+  for (const [label, amount] of totals) {
+    texts.push({ x: 440, y, text: label, size: 10, align: 'right' });
+    texts.push({ x: right, y, text: formatAmount(amount), size: 10, align: 'right' });
+    y += 16;
+  }
+  lines.push({ x1: 340, y1: y - 8, x2: right, y2: y - 8 });
+  texts.push({ x: 440, y: y + 8, text: `Total (${currency})`, size: 11, bold: true, align: 'right' });
+  texts.push({ x: right, y: y + 8, text: formatAmount(invoice.total_amount), size: 11, bold: true, align: 'right' });
+
+  y += 50;
+  block(
+    left,
+    y,
+    [
+      {
+        text: taxInvoice
+          ? 'The total is the amount paid and includes GST.'
+          : 'The seller is not registered for GST, so no GST is charged.',
+      },
+      { text: 'This is a computer-generated invoice and needs no signature.' },
+    ],
+    right - left
+  );
+
+  return createPdf({ texts, lines }, `Invoice ${invoice.invoice_number}`);
+}
+
+// Quote a CSV field; text starting like a formula is prefixed so
+// spreadsheets don't evaluate customer-entered names
+function csvField(value: string | number | null): string {
+  let text = value === null ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 211780 -> "2117.80", unformatted for spreadsheets
+function csvAmount(amount: number): string {
+  return (amount / 100).toFixed(2);
+}
+
+/**
+ * The invoice register for accounting, one row per invoice. It starts with a
+ * byte order mark so spreadsheets read it as UTF-8.
+ */
+export function invoiceRegisterCsv(invoices: Invoice[]): string {
+  const header = [
+    'Invoice number',
+    'Invoice date',
+    'Customer name',
+    'Customer email',
+    'Customer GSTIN',
+    'Place of supply',
+    'Description',
+    'SAC',
+    'Currency',
+    'Taxable value',
+    'GST rate',
+    'CGST',
+    'SGST',
+    'IGST',
+    'Total',
+  ];
+  const rows = invoices.map(invoice => [
+    invoice.invoice_number,
+    formatInvoiceDate(invoice.issued_at),
+    invoice.customer_name,
+    invoice.customer_email,
+    invoice.customer_gstin,
+    invoice.place_of_supply ? `${invoice.place_of_supply}-${GST_STATES[invoice.place_of_supply] ?? ''}` : null,
+    invoice.description,
+    invoice.sac_code,
+    invoice.currency,
+    csvAmount(invoice.taxable_amount),
+    invoice.tax_rate,
+    csvAmount(invoice.cgst_amount),
+    csvAmount(invoice.sgst_amount),
+    csvAmount(invoice.igst_amount),
+    csvAmount(invoice.total_amount),
+  ]);
+  return '\ufeff' + [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,123 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { decodeProtectedHeader, SignJWT } from 'jose';
+import { createJWT, createTokenPair, signState, verifyJWT, verifyState } from './jwt';
+import { getKeyRing, getPublicJwks } from './jwt-keys';
+
+const ENV_KEYS = ['NODE_ENV', 'JWT_KEYS', 'JWT_SECRET', 'JWT_SIGNING_KID'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+function setEnv(values: Record<string, string | undefined>): void {
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      Object.assign(process.env, { [key]: value });
+    }
+  }
+}
+
+afterEach(() => setEnv(savedEnv));
+
+const claims = { userId: 'user-1', email: 'asha@example.com', role: 'user' as const };
+
+const ed25519 = generateKeyPairSync('ed25519');
+const edPrivateKey = ed25519.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+const edPublicKey = ed25519.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+const hs = (kid: string, secret = `secret for ${kid}`) => ({ kid, alg: 'HS256', secret });
+
+function useKeys(keys: object[], signingKid?: string): void {
+  setEnv({ JWT_KEYS: JSON.stringify(keys), JWT_SECRET: undefined, JWT_SIGNING_KID: signingKid });
+}
+
+function kidOf(token: string): string | undefined {
+  return decodeProtectedHeader(token).kid;
+}
+
+describe('JWT key ring', () => {
+  it('signs with the current key and names it in the kid header', async () => {
+    useKeys([hs('2026-09'), hs('2026-10')], '2026-10');
+    const token = await createJWT({ ...claims, type: 'access' });
+
+    assert.equal(kidOf(token), '2026-10');
+    assert.equal((await verifyJWT(token))?.userId, 'user-1');
+  });
+
+  it('keeps verifying tokens of a retired key until it leaves the ring', async () => {
+    useKeys([hs('2026-09'), hs('2026-10')], '2026-09');
+    const old = await createJWT({ ...claims, type: 'access' });
+
+    useKeys([hs('2026-09'), hs('2026-10')], '2026-10');
+    assert.equal(kidOf(await createJWT({ ...claims, type: 'access' })), '2026-10');
+    assert.ok(await verifyJWT(old));
+
+    useKeys([hs('2026-10')]);
+    assert.equal(await verifyJWT(old), null);
+  });
+
+  it('rejects tokens naming an unknown key or another algorithm', async () => {
+    useKeys([hs('2026-10'), { kid: 'ed', alg: 'EdDSA', publicKey: edPublicKey }], '2026-10');
+    const secret = new TextEncoder().encode('secret for 2026-10');
+    const forge = (kid: string) =>
+      new SignJWT({ ...claims, type: 'access' }).setProtectedHeader({ alg: 'HS256', kid }).setExpirationTime('1h').sign(secret);
+
+    assert.ok(await verifyJWT(await forge('2026-10')));
+    assert.equal(await verifyJWT(await forge('2026-11')), null);
+    assert.equal(await verifyJWT(await forge('ed')), null);
+  });
+
+  it('verifies tokens without a kid with JWT_SECRET', async () => {
+    setEnv({ JWT_KEYS: JSON.stringify([hs('2026-10')]), JWT_SECRET: 'legacy secret', JWT_SIGNING_KID: '2026-10' });
+    const legacy = await new SignJWT({ ...claims })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setExpirationTime('1h')
+      .sign(new TextEncoder().encode('legacy secret'));
+
+    assert.equal((await verifyJWT(legacy))?.userId, 'user-1');
+  });
+
+  it('signs with EdDSA and verifies with a key that only has the public half', async () => {
+    useKeys([{ kid: 'ed', alg: 'EdDSA', privateKey: edPrivateKey }]);
+    const token = await createJWT({ ...claims, type: 'access' });
+    assert.equal(decodeProtectedHeader(token).alg, 'EdDSA');
+
+    useKeys([hs('2026-10'), { kid: 'ed', alg: 'EdDSA', publicKey: edPublicKey }]);
+    assert.ok(await verifyJWT(token));
+  });
+
+  it('publishes only the public halves of asymmetric keys', async () => {
+    useKeys([hs('2026-10'), { kid: 'ed', alg: 'EdDSA', privateKey: edPrivateKey }]);
+    const { keys } = await getPublicJwks();
+
+    assert.deepEqual(keys.map(key => [key.kid, key.alg, key.use]), [['ed', 'EdDSA', 'sig']]);
+    assert.equal(keys[0].d, undefined);
+  });
+
+  it('refuses configurations it cannot sign with', async () => {
+    useKeys([{ kid: 'ed', alg: 'EdDSA', publicKey: edPublicKey }], 'ed');
+    await assert.rejects(getKeyRing(), /has no secret or private key/);
+    useKeys([hs('2026-10'), hs('2026-10')]);
+    await assert.rejects(getKeyRing(), /Duplicate JWT key id 2026-10/);
+    useKeys([hs('2026-10')], '2026-11');
+    await assert.rejects(getKeyRing(), /2026-11 is not in the key ring/);
+    setEnv({ NODE_ENV: 'production', JWT_KEYS: undefined, JWT_SECRET: undefined, JWT_SIGNING_KID: undefined });
+    await assert.rejects(getKeyRing(), /No JWT signing key configured/);
+  });
+});
+
+describe('token types', () => {
+  it('accepts refresh and state tokens only where they are expected', async () => {
+    useKeys([hs('2026-10')]);
+    const { accessToken, refreshToken } = await createTokenPair(claims);
+    const state = await signState({ nonce: 'n-1' }, '10m');
+
+    assert.equal((await verifyJWT(accessToken))?.type, 'access');
+    assert.equal(await verifyJWT(refreshToken), null);
+    assert.equal((await verifyJWT(refreshToken, 'refresh'))?.type, 'refresh');
+    assert.equal(await verifyJWT(state), null);
+    assert.equal((await verifyState<{ nonce: string }>(state))?.nonce, 'n-1');
+    assert.equal(await verifyState(accessToken), null);
+  });
+});
@@ -1,41 +1,122 @@
 /**
  * JWT Token utilities for session and authentication management
+ * Tokens are signed with the current key from the key ring (jwt-keys.ts) and
+ * name it in their `kid` header
  */
 
-import { jwtVerify, SignJWT } from 'jose';
+import { jwtVerify, SignJWT, type JWTHeaderParameters, type JWTPayload as JoseClaims } from 'jose';
+import { ACCESS_TOKEN_TTL_SECONDS, REFRESH_TOKEN_TTL_SECONDS } from './auth-constants';
+import { getKeyRing, SIGNING_ALGORITHMS } from './jwt-keys';
+import type { Role } from './permissions';
 
-const secret = new TextEncoder().encode(
-  process.env.JWT_SECRET || 'your-super-secret-key-change-in-production'
-);
+export type TokenType = 'access' | 'refresh' | 'email_verification' | 'mfa_pending' | 'state';
+
+// The admin behind a "view as user" session
+export interface Impersonator {
+  id: string;
+  email: string;
+  accountType: 'user' | 'admin';
+  // unix time (seconds) the impersonation ends, however often it is refreshed
+  until: number;
+}
 
 export interface JWTPayload {
   userId: string;
   email: string;
-  role: 'admin' | 'user';
+  role: Role;
+  // which table the account lives in; tokens issued before this claim are 'user'
+  accountType?: 'user' | 'admin';
+  // session (refresh token family) the token belongs to
+  sid?: string;
+  // the session was started with a second factor (TOTP or backup code)
+  mfa?: boolean;
+  // set on sessions an admin started to see the app as this user
+  impersonator?: Impersonator;
+  type?: TokenType;
+  jti?: string;
   iat?: number;
   exp?: number;
 }
 
+// Sign with the key ring's current signing key, naming it in the kid header
+async function sign(claims: JoseClaims, expiresIn: string, withJti: boolean): Promise<string> {
+  const { signing } = await getKeyRing();
+  const jwt = new SignJWT(claims)
+    .setProtectedHeader({ alg: signing.alg, kid: signing.kid })
+    .setIssuedAt()
+    .setExpirationTime(expiresIn);
+  if (withJti) {
+    jwt.setJti(crypto.randomUUID());
+  }
+  return jwt.sign(signing.signingKey!);
+}
+
+// Pick the key a token names; tokens without a kid predate the key ring
+async function verificationKey(header: JWTHeaderParameters) {
+  const ring = await getKeyRing();
+  const key = header.kid ? ring.keys.get(header.kid) : ring.legacy;
+  if (!key || key.alg !== header.alg) {
+    throw new Error('Unknown signing key');
+  }
+  return key.verificationKey;
+}
+
+async function verifyClaims(token: string): Promise<JoseClaims> {
+  const verified = await jwtVerify(token, verificationKey, { algorithms: SIGNING_ALGORITHMS });
+  return verified.payload;
+}
+
 /**
  * Create a JWT token for a user
  */
 export async function createJWT(
-  payload: Omit<JWTPayload, 'iat' | 'exp'>,
+  payload: Omit<JWTPayload, 'iat' | 'exp' | 'jti'>,
   expiresIn: string = '7d'
 ): Promise<string> {
-  return new SignJWT(payload)
-    .setProtectedHeader({ alg: 'HS256' })
-    .setExpirationTime(expiresIn)
-    .sign(secret);
+  return sign({ ...payload }, expiresIn, true);
 }
 
 /**
  * Verify and decode a JWT token
+ *
+ * Refresh tokens are only accepted when explicitly asked for, so they can't
+ * be used as bearer tokens. Legacy tokens without a `type` claim count as
+ * access tokens.
  */
-export async function verifyJWT(token: string): Promise<JWTPayload | null> {
+export async function verifyJWT(
+  token: string,
+  expectedType: TokenType = 'access'
+): Promise<JWTPayload | null> {
+  try {
+    const payload = (await verifyClaims(token)) as unknown as JWTPayload;
+    if ((payload.type || 'access') !== expectedType) {
+      return null;
+    }
+    return payload;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Sign state that makes a round trip through the browser, such as the OIDC
+ * login cookie, so it can't be altered. State tokens are never accepted as
+ * session tokens.
+ */
+export async function signState(
+  data: Record<string, unknown>,
+  expiresIn: string
+): Promise<string> {
+  return sign({ ...data, type: 'state' }, expiresIn, false);
+}
+
+export async function verifyState<T>(token: string): Promise<T | null> {
   try {
-    const verified = await jwtVerify(token, secret);
-    return verified.payload as JWTPayload;
+    const payload = await verifyClaims(token);
+    if (payload.type !== 'state') {
+      return null;
+    }
+    return payload as unknown as T;
   } catch (error) {
     return null;
   }
@@ -44,9 +125,23 @@ export async function verifyJWT(token: string): Promise<JWTPayload | null> {
 /**
  * Create a short-lived access token and a long-lived refresh token
  */
-export async function createTokenPair(payload: Omit<JWTPayload, 'iat' | 'exp'>) {
-  const accessToken = await createJWT(payload, '1h'); // Short-lived
-  const refreshToken = await createJWT(payload, '7d'); // Long-lived
+export async function createTokenPair(
+  payload: Omit<JWTPayload, 'iat' | 'exp' | 'jti' | 'type'>
+) {
+  const now = Date.now();
+  const accessToken = await createJWT(
+    { ...payload, type: 'access' },
+    `${ACCESS_TOKEN_TTL_SECONDS}s`
+  );
+  const refreshToken = await createJWT(
+    { ...payload, type: 'refresh' },
+    `${REFRESH_TOKEN_TTL_SECONDS}s`
+  );
 
-  return { accessToken, refreshToken };
+  return {
+    accessToken,
+    refreshToken,
+    accessTokenExpiresAt: new Date(now + ACCESS_TOKEN_TTL_SECONDS * 1000),
+    refreshTokenExpiresAt: new Date(now + REFRESH_TOKEN_TTL_SECONDS * 1000),
+  };
 }
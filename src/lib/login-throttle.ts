@@ -0,0 +1,168 @@
+/**
+ * Brute-force protection for the login endpoints
+ *
+ * Failed attempts are counted per email address and per client IP. After a
+ * few failures each new attempt has to wait exponentially longer, and after
+ * too many the email or IP is locked out for a while. A successful login
+ * clears the email's counter; admins can also unlock an account from the
+ * dashboard.
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  ThrottleScope,
+  getLoginThrottle,
+  recordLoginFailure,
+  lockLoginThrottle,
+  clearLoginThrottle,
+} from './db-auth';
+import { sendMail } from './mailer';
+
+interface ThrottlePolicy {
+  backoffAfter: number; // failures before backoff starts
+  lockAfter: number; // failures that trigger a lockout
+  lockSeconds: number;
+}
+
+// Shared networks put many users behind one IP, so its limits are looser
+const POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  email: { backoffAfter: 3, lockAfter: 10, lockSeconds: 15 * 60 },
+  ip: { backoffAfter: 10, lockAfter: 50, lockSeconds: 15 * 60 },
+};
+
+// counters start over when there has been no failure for this long
+const RESET_AFTER_SECONDS = 60 * 60;
+const MAX_BACKOFF_SECONDS = 5 * 60;
+
+export interface ThrottleStatus {
+  allowed: boolean;
+  retryAfter: number; // seconds
+  locked: boolean; // the email address itself is locked out
+}
+
+function throttleKeys(email: string, ipAddress: string): [ThrottleScope, string][] {
+  const keys: [ThrottleScope, string][] = [['email', email.trim().toLowerCase()]];
+  if (ipAddress !== 'unknown') {
+    keys.push(['ip', ipAddress]);
+  }
+  return keys;
+}
+
+function backoffSeconds(scope: ThrottleScope, failures: number): number {
+  const { backoffAfter } = POLICIES[scope];
+  if (failures < backoffAfter) {
+    return 0;
+  }
+  return Math.min(2 ** (failures - backoffAfter), MAX_BACKOFF_SECONDS);
+}
+
+async function scopeWait(
+  scope: ThrottleScope,
+  key: string
+): Promise<{ retryAfter: number; locked: boolean }> {
+  const record = await getLoginThrottle(scope, key);
+  if (!record) {
+    return { retryAfter: 0, locked: false };
+  }
+
+  const lockRemaining = Number(record.lock_seconds_remaining);
+  if (lockRemaining > 0) {
+    return { retryAfter: lockRemaining, locked: true };
+  }
+
+  const sinceFailure = Number(record.seconds_since_failure);
+  if (sinceFailure >= RESET_AFTER_SECONDS) {
+    return { retryAfter: 0, locked: false };
+  }
+
+  const wait = backoffSeconds(scope, Number(record.failures)) - sinceFailure;
+  return { retryAfter: Math.max(wait, 0), locked: false };
+}
+
+/**
+ * Whether a login attempt for this email from this IP may go ahead. Check
+ * before verifying the password so a locked account can't be probed.
+ */
+export async function checkLoginAllowed(email: string, ipAddress: string): Promise<ThrottleStatus> {
+  let retryAfter = 0;
+  let locked = false;
+
+  for (const [scope, key] of throttleKeys(email, ipAddress)) {
+    const wait = await scopeWait(scope, key);
+    retryAfter = Math.max(retryAfter, wait.retryAfter);
+    if (scope === 'email' && wait.locked) {
+      locked = true;
+    }
+  }
+
+  return { allowed: retryAfter === 0, retryAfter, locked };
+}
+
+/**
+ * Count a failed attempt (wrong password, unknown email or wrong second
+ * factor) and lock the email or IP once it reaches its limit. The owner of
+ * an existing account is told by email when it gets locked.
+ */
+export async function recordFailedLogin(
+  email: string,
+  ipAddress: string,
+  account?: { email: string; name: string }
+): Promise<ThrottleStatus> {
+  for (const [scope, key] of throttleKeys(email, ipAddress)) {
+    const { lockAfter, lockSeconds } = POLICIES[scope];
+    const failures = await recordLoginFailure(scope, key, RESET_AFTER_SECONDS);
+
+    // Every failure past the limit extends the lock
+    if (failures >= lockAfter) {
+      await lockLoginThrottle(scope, key, lockSeconds);
+
+      if (scope === 'email' && failures === lockAfter && account) {
+        await sendLockoutNotice(account, lockSeconds).catch(error =>
+          console.error('Lockout notice error:', error)
+        );
+      }
+    }
+  }
+
+  return checkLoginAllowed(email, ipAddress);
+}
+
+export async function clearFailedLogins(email: string): Promise<void> {
+  await clearLoginThrottle('email', email.trim().toLowerCase());
+}
+
+/**
+ * 429 response for a throttled or locked out login attempt
+ */
+export function loginThrottledResponse(status: ThrottleStatus): NextResponse {
+  const minutes = Math.ceil(status.retryAfter / 60);
+  const error = status.locked
+    ? `Too many failed login attempts. This account is locked for ${minutes} minute${minutes === 1 ? '' : 's'}.`
+    : `Too many failed login attempts. Try again in ${status.retryAfter} second${status.retryAfter === 1 ? '' : 's'}.`;
+
+  return NextResponse.json(
+    {
+      error,
+      code: status.locked ? 'account_locked' : 'too_many_attempts',
+      retryAfter: status.retryAfter,
+    },
+    { status: 429, headers: { 'Retry-After': String(status.retryAfter) } }
+  );
+}
+
+async function sendLockoutNotice(
+  account: { email: string; name: string },
+  lockSeconds: number
+): Promise<void> {
+  await sendMail({
+    to: account.email,
+    subject: 'Your Quantum Alpha India account has been locked',
+    text: [
+      `Hi ${account.name},`,
+      '',
+      `There were several failed attempts to sign in to your account, so it has been locked for ${lockSeconds / 60} minutes.`,
+      '',
+      'If this was you, wait and try again, or reset your password from the login page. If it was not you, we recommend resetting your password and turning on two-factor authentication.',
+    ].join('\n'),
+  });
+}
@@ -0,0 +1,44 @@
+/**
+ * Passwordless sign-in links
+ * "Email me a sign-in link" sends a single-use link that expires after
+ * MAGIC_LINK_TTL_SECONDS. The requesting browser gets a random cookie whose
+ * hash is stored with the token, so a link forwarded or intercepted on the
+ * way can't sign anyone else in.
+ */
+
+import { createMagicLinkToken } from './db-auth';
+import { generateToken, hashToken } from './tokens';
+import { sendMail, appUrl } from './mailer';
+import { MAGIC_LINK_TTL_SECONDS } from './auth-constants';
+
+/**
+ * Email a sign-in link. Any earlier link for the same user stops working.
+ * Returns the browser token to set in the magic link cookie.
+ */
+export async function sendMagicLink(
+  user: { id: string; email: string; name: string },
+  origin: string,
+  ipAddress?: string
+): Promise<string> {
+  const token = generateToken();
+  const browserToken = generateToken();
+  const expiresAt = new Date(Date.now() + MAGIC_LINK_TTL_SECONDS * 1000);
+  await createMagicLinkToken(user.id, hashToken(token), hashToken(browserToken), expiresAt, ipAddress);
+
+  const signInUrl = appUrl(`/magic-link?token=${encodeURIComponent(token)}`, origin);
+  await sendMail({
+    to: user.email,
+    subject: 'Your Quantum Alpha India sign-in link',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Open the link below to sign in to Quantum Alpha India:',
+      '',
+      signInUrl,
+      '',
+      `The link expires in ${MAGIC_LINK_TTL_SECONDS / 60} minutes, can only be used once and only works in the browser you asked for it from. If you did not ask for it, you can ignore this email.`,
+    ].join('\n'),
+  });
+
+  return browserToken;
+}
@@ -0,0 +1,106 @@
+/**
+ * Outgoing mail
+ * Messages go through a pluggable transport chosen with MAIL_TRANSPORT.
+ * `console` (the default outside production) logs messages and `file`
+ * writes them to MAIL_OUTBOX_DIR, both meant for local development.
+ * Production transports are plugged in with setMailTransport(). A
+ * production server has no default: without a plugged-in transport or
+ * MAIL_TRANSPORT it refuses to start rather than print verification and
+ * reset links to its log.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(
+      `[mail] From: ${message.from}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}`
+    );
+  },
+};
+
+const fileTransport: MailTransport = {
+  async send(message) {
+    const dir = path.resolve(process.env.MAIL_OUTBOX_DIR || '.mail-outbox');
+    await mkdir(dir, { recursive: true });
+
+    const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`;
+    const contents = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+
+    await writeFile(path.join(dir, filename), contents, 'utf8');
+  },
+};
+
+const BUILT_IN_TRANSPORTS: Record<string, MailTransport> = {
+  console: consoleTransport,
+  file: fileTransport,
+};
+
+let customTransport: MailTransport | null = null;
+
+/**
+ * Replace the configured transport, e.g. with an SMTP or API-based sender
+ */
+export function setMailTransport(transport: MailTransport | null): void {
+  customTransport = transport;
+}
+
+function getMailTransport(): MailTransport {
+  if (customTransport) {
+    return customTransport;
+  }
+  return BUILT_IN_TRANSPORTS[getMailTransportName()];
+}
+
+/**
+ * The name of the transport mail goes through. Throws if MAIL_TRANSPORT is
+ * unknown, or if nothing is configured in production; checked at startup.
+ */
+export function getMailTransportName(): string {
+  if (customTransport) {
+    return 'custom';
+  }
+
+  const name = process.env.MAIL_TRANSPORT;
+  if (!name && process.env.NODE_ENV === 'production') {
+    throw new Error('MAIL_TRANSPORT must be set in production, or a transport plugged in with setMailTransport()');
+  }
+  if (!BUILT_IN_TRANSPORTS[name || 'console']) {
+    throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  }
+  return name || 'console';
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from = process.env.MAIL_FROM || 'Quantum Alpha India <no-reply@example.com>';
+  await getMailTransport().send({ ...message, from });
+}
+
+/**
+ * Absolute URL for links in emails. NEXT_PUBLIC_APP_URL is preferred over the
+ * request origin so a forged Host header can't redirect the link.
+ */
+export function appUrl(pathname: string, origin: string): string {
+  const base = process.env.NEXT_PUBLIC_APP_URL || origin;
+  return new URL(pathname, base).toString();
+}
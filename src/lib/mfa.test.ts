@@ -0,0 +1,144 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeDb, affected } from '../test/fake-db';
+import { buildOtpauthUri, currentTotpStep, verifyTotp } from './totp';
+import { confirmEnrolment, verifySecondFactor } from './mfa';
+import { hashToken } from './tokens';
+
+// The SHA-1 test key and codes from RFC 6238 appendix B, cut to six digits
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const CODE_AT_1111111109 = '081804';
+const CODE_AT_1111111111 = '050471';
+
+afterEach(() => mock.restoreAll());
+
+function clockAt(seconds: number): void {
+  mock.method(Date, 'now', () => seconds * 1000);
+}
+
+describe('verifyTotp', () => {
+  it('matches the RFC 6238 reference codes', () => {
+    const vectors: [number, string][] = [
+      [59, '287082'],
+      [1111111109, CODE_AT_1111111109],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ];
+    for (const [seconds, code] of vectors) {
+      clockAt(seconds);
+      assert.equal(verifyTotp(SECRET, code), currentTotpStep(), String(seconds));
+    }
+  });
+
+  it('allows one step of clock drift either way', () => {
+    clockAt(1111111111 + 30);
+    assert.equal(verifyTotp(SECRET, CODE_AT_1111111111), currentTotpStep() - 1);
+    clockAt(1111111111 - 30);
+    assert.equal(verifyTotp(SECRET, CODE_AT_1111111111), currentTotpStep() + 1);
+    clockAt(1111111111 + 60);
+    assert.equal(verifyTotp(SECRET, CODE_AT_1111111111), null);
+  });
+
+  it('rejects wrong and malformed codes', () => {
+    clockAt(1111111111);
+    assert.equal(verifyTotp(SECRET, '123456'), null);
+    assert.equal(verifyTotp(SECRET, '50471'), null);
+    assert.equal(verifyTotp(SECRET, ' 050471'), null);
+  });
+
+  it('describes the secret in an otpauth URI', () => {
+    const uri = new URL(buildOtpauthUri(SECRET, 'asha@example.com'));
+    assert.equal(`${uri.protocol}//${uri.host}`, 'otpauth://totp');
+    assert.equal(decodeURIComponent(uri.pathname), '/Quantum Alpha India:asha@example.com');
+    assert.equal(uri.searchParams.get('secret'), SECRET);
+    assert.equal(uri.searchParams.get('period'), '30');
+  });
+});
+
+describe('verifySecondFactor', () => {
+  let db: FakeDb;
+  beforeEach(() => {
+    db = new FakeDb()
+      .on(/^SELECT secret, confirmed_at, last_used_step FROM mfa_totp WHERE account_type = \? AND account_id = \?/, ([type, id], db) =>
+        db.table('mfa_totp').filter(row => row.account_type === type && row.account_id === id)
+      )
+      .on(/^UPDATE mfa_totp SET last_used_step = \? WHERE account_type = \? AND account_id = \? AND \(last_used_step IS NULL OR last_used_step < \?\)/, ([step, type, id], db) => {
+        const factor = db
+          .table('mfa_totp')
+          .find(row => row.account_type === type && row.account_id === id && (row.last_used_step === null || row.last_used_step < step));
+        if (factor) {
+          factor.last_used_step = step;
+        }
+        return affected(factor ? 1 : 0);
+      })
+      .on(/^UPDATE mfa_totp SET confirmed_at = NOW\(\)/, ([type, id], db) => {
+        const factor = db.table('mfa_totp').find(row => row.account_type === type && row.account_id === id);
+        factor!.confirmed_at = new Date();
+        return affected(1);
+      })
+      .on(/^DELETE FROM mfa_backup_codes WHERE account_type = \? AND account_id = \?/, ([type, id], db) => {
+        const codes = db.table('mfa_backup_codes');
+        const kept = codes.filter(row => !(row.account_type === type && row.account_id === id));
+        db.tables.mfa_backup_codes = kept;
+        return affected(codes.length - kept.length);
+      })
+      .on(/^INSERT INTO mfa_backup_codes/, ([id, type, accountId, codeHash], db) => {
+        db.table('mfa_backup_codes').push({ id, account_type: type, account_id: accountId, code_hash: codeHash, used_at: null });
+        return affected(1);
+      })
+      .on(/^UPDATE mfa_backup_codes SET used_at = NOW\(\)/, ([type, id, codeHash], db) => {
+        const code = db
+          .table('mfa_backup_codes')
+          .find(row => row.account_type === type && row.account_id === id && row.code_hash === codeHash && !row.used_at);
+        if (code) {
+          code.used_at = new Date();
+        }
+        return affected(code ? 1 : 0);
+      })
+      .install();
+    db.table('mfa_totp').push({ account_type: 'admin', account_id: 'admin-1', secret: SECRET, confirmed_at: new Date(), last_used_step: null });
+    clockAt(1111111111);
+  });
+
+  it('accepts a code once', async () => {
+    assert.equal(await verifySecondFactor('admin', 'admin-1', CODE_AT_1111111111), 'totp');
+    assert.equal(await verifySecondFactor('admin', 'admin-1', CODE_AT_1111111111), null);
+  });
+
+  it('refuses a code older than one already used', async () => {
+    assert.equal(await verifySecondFactor('admin', 'admin-1', CODE_AT_1111111111), 'totp');
+    assert.equal(await verifySecondFactor('admin', 'admin-1', CODE_AT_1111111109), null);
+  });
+
+  it('keeps replay protection per account', async () => {
+    db.table('mfa_totp').push({ account_type: 'user', account_id: 'admin-1', secret: SECRET, confirmed_at: new Date(), last_used_step: null });
+
+    assert.equal(await verifySecondFactor('admin', 'admin-1', CODE_AT_1111111111), 'totp');
+    assert.equal(await verifySecondFactor('user', 'admin-1', CODE_AT_1111111111), 'totp');
+  });
+
+  it('ignores a factor whose enrolment was never confirmed', async () => {
+    db.table('mfa_totp')[0].confirmed_at = null;
+    assert.equal(await verifySecondFactor('admin', 'admin-1', CODE_AT_1111111111), null);
+    assert.equal(db.table('mfa_totp')[0].last_used_step, null);
+  });
+
+  it('accepts each backup code once, however it is typed', async () => {
+    db.table('mfa_backup_codes').push({ account_type: 'admin', account_id: 'admin-1', code_hash: hashToken('a1b2c3d4e5'), used_at: null });
+
+    assert.equal(await verifySecondFactor('admin', 'admin-1', 'A1B2C-3D4E5'), 'backup_code');
+    assert.equal(await verifySecondFactor('admin', 'admin-1', 'a1b2c3d4e5'), null);
+  });
+
+  it('confirms enrolment with a valid code and hands out backup codes', async () => {
+    db.table('mfa_totp')[0].confirmed_at = null;
+    assert.equal(await confirmEnrolment('admin', 'admin-1', '123456'), null);
+
+    const codes = await confirmEnrolment('admin', 'admin-1', CODE_AT_1111111111);
+
+    assert.equal(codes?.length, 10);
+    assert.ok(db.table('mfa_totp')[0].confirmed_at);
+    assert.equal(await verifySecondFactor('admin', 'admin-1', CODE_AT_1111111111), null);
+    assert.equal(await verifySecondFactor('admin', 'admin-1', codes![0]), 'backup_code');
+  });
+});
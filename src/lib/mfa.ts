@@ -0,0 +1,158 @@
+/**
+ * Two-factor authentication
+ * TOTP enrolment and verification, backup codes and the short-lived
+ * "mfa pending" token that bridges the password step and the code step of a
+ * login.
+ */
+
+import { randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import { createJWT, verifyJWT, JWTPayload } from './jwt';
+import { hashToken } from './tokens';
+import { generateTotpSecret, buildOtpauthUri, verifyTotp } from './totp';
+import {
+  AccountType,
+  getTotpFactor,
+  saveTotpSecret,
+  confirmTotpFactor,
+  recordTotpStep,
+  replaceBackupCodes,
+  consumeBackupCode,
+} from './db-auth';
+
+const MFA_PENDING_TOKEN_TTL = '5m';
+const BACKUP_CODE_COUNT = 10;
+
+export type SecondFactor = 'totp' | 'backup_code';
+
+export interface MfaAccount {
+  id: string;
+  email: string;
+  role: JWTPayload['role'];
+  accountType: AccountType;
+}
+
+/**
+ * Admins from the `admins` table must have TOTP set up
+ */
+export function isMfaRequired(accountType: AccountType): boolean {
+  return accountType === 'admin';
+}
+
+export async function isMfaEnabled(accountType: AccountType, accountId: string): Promise<boolean> {
+  const factor = await getTotpFactor(accountType, accountId);
+  return !!factor?.confirmed_at;
+}
+
+/**
+ * Start (or restart) TOTP enrolment. The secret is only used for logins once
+ * confirmEnrolment() has seen a valid code from it.
+ */
+export async function beginEnrolment(account: MfaAccount) {
+  const secret = generateTotpSecret();
+  await saveTotpSecret(account.accountType, account.id, secret);
+
+  const otpauthUri = buildOtpauthUri(secret, account.email);
+  const qrCode = await QRCode.toDataURL(otpauthUri);
+
+  return { secret, otpauthUri, qrCode };
+}
+
+/**
+ * Confirm enrolment with a code from the authenticator app. Returns a fresh
+ * set of backup codes, or null if the code is wrong.
+ */
+export async function confirmEnrolment(
+  accountType: AccountType,
+  accountId: string,
+  code: string
+): Promise<string[] | null> {
+  const factor = await getTotpFactor(accountType, accountId);
+  if (!factor || factor.confirmed_at) {
+    return null;
+  }
+
+  const step = verifyTotp(factor.secret, normalizeCode(code));
+  if (step === null || !(await recordTotpStep(accountType, accountId, step))) {
+    return null;
+  }
+
+  await confirmTotpFactor(accountType, accountId);
+  return regenerateBackupCodes(accountType, accountId);
+}
+
+/**
+ * Check a TOTP code or an unused backup code. Each is accepted only once.
+ */
+export async function verifySecondFactor(
+  accountType: AccountType,
+  accountId: string,
+  code: string
+): Promise<SecondFactor | null> {
+  const factor = await getTotpFactor(accountType, accountId);
+  if (!factor || !factor.confirmed_at) {
+    return null;
+  }
+
+  const normalized = normalizeCode(code);
+
+  if (/^\d{6}$/.test(normalized)) {
+    const step = verifyTotp(factor.secret, normalized);
+    if (step !== null && (await recordTotpStep(accountType, accountId, step))) {
+      return 'totp';
+    }
+    return null;
+  }
+
+  if (await consumeBackupCode(accountType, accountId, hashToken(normalized))) {
+    return 'backup_code';
+  }
+  return null;
+}
+
+/**
+ * Replace all backup codes. The plain codes are returned once and only
+ * their hashes are stored.
+ */
+export async function regenerateBackupCodes(
+  accountType: AccountType,
+  accountId: string
+): Promise<string[]> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await replaceBackupCodes(
+    accountType,
+    accountId,
+    codes.map(code => hashToken(normalizeCode(code)))
+  );
+  return codes;
+}
+
+/**
+ * Token handed out after a correct password when the account has MFA enabled.
+ * It can only be exchanged for a session at /api/auth/mfa/verify.
+ */
+export async function createMfaPendingToken(account: MfaAccount): Promise<string> {
+  return createJWT(
+    {
+      userId: account.id,
+      email: account.email,
+      role: account.role,
+      accountType: account.accountType,
+      type: 'mfa_pending',
+    },
+    MFA_PENDING_TOKEN_TTL
+  );
+}
+
+export async function verifyMfaPendingToken(token: string): Promise<JWTPayload | null> {
+  return verifyJWT(token, 'mfa_pending');
+}
+
+// Users type codes with spaces or dashes and in either case
+function normalizeCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
@@ -0,0 +1,335 @@
+/**
+ * Sign in with Google or another OpenID Connect provider
+ *
+ * Authorization code flow with PKCE. Providers are configured from the
+ * environment and their endpoints are read from the issuer's discovery
+ * document, so any standards-compliant provider works, including the mock
+ * provider in scripts/mock-oidc-provider.js.
+ *
+ * The PKCE verifier, state and nonce are kept in a signed cookie until the
+ * provider redirects back; the ID token is checked against the provider's
+ * published keys.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { createRemoteJWKSet, jwtVerify } from 'jose';
+import { signState, verifyState } from './jwt';
+import { generateToken } from './tokens';
+import { appUrl } from './mailer';
+import { OIDC_STATE_TTL_SECONDS } from './auth-constants';
+import {
+  IdentityClaims,
+  getUserById,
+  getUserByEmail,
+  getUserIdentity,
+  touchUserIdentity,
+  linkUserIdentity,
+  createUserWithIdentity,
+} from './db-auth';
+import { User } from './schema';
+
+export interface OidcProvider {
+  id: string; // used in URLs and stored with linked identities
+  name: string; // shown on the sign-in button
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string[];
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface OidcLoginState {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+// Claims from a verified ID token
+export interface OidcProfile {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+export type OidcErrorCode = 'oidc_cancelled' | 'oidc_failed' | 'oidc_email_unverified';
+
+export class OidcError extends Error {
+  constructor(public code: OidcErrorCode, message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+
+/**
+ * Providers with credentials in the environment:
+ *   GOOGLE_CLIENT_ID / GOOGLE_CLIENT_SECRET for Google
+ *   OIDC_ISSUER / OIDC_CLIENT_ID / OIDC_CLIENT_SECRET for any other provider,
+ *   named with OIDC_PROVIDER_NAME and identified by OIDC_PROVIDER_ID
+ */
+export function getOidcProviders(): OidcProvider[] {
+  const providers: OidcProvider[] = [];
+
+  if (process.env.GOOGLE_CLIENT_ID) {
+    providers.push({
+      id: 'google',
+      name: 'Google',
+      issuer: 'https://accounts.google.com',
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+      scopes: DEFAULT_SCOPES,
+    });
+  }
+
+  if (process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID) {
+    providers.push({
+      id: process.env.OIDC_PROVIDER_ID || 'oidc',
+      name: process.env.OIDC_PROVIDER_NAME || 'Single sign-on',
+      issuer: process.env.OIDC_ISSUER.replace(/\/+$/, ''),
+      clientId: process.env.OIDC_CLIENT_ID,
+      clientSecret: process.env.OIDC_CLIENT_SECRET,
+      scopes: process.env.OIDC_SCOPES ? process.env.OIDC_SCOPES.split(/[\s,]+/) : DEFAULT_SCOPES,
+    });
+  }
+
+  return providers;
+}
+
+export function getOidcProvider(id: string): OidcProvider | null {
+  return getOidcProviders().find(provider => provider.id === id) || null;
+}
+
+// Discovery documents and key sets, per issuer
+const discoveryCache = new Map<string, Promise<OidcDiscovery>>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+async function fetchDiscovery(issuer: string): Promise<OidcDiscovery> {
+  const res = await fetch(`${issuer}/.well-known/openid-configuration`);
+  if (!res.ok) {
+    throw new Error(`OIDC discovery failed for ${issuer}: ${res.status}`);
+  }
+  const discovery = (await res.json()) as OidcDiscovery;
+  if (discovery.issuer.replace(/\/+$/, '') !== issuer) {
+    throw new Error(`OIDC discovery for ${issuer} names a different issuer`);
+  }
+  return discovery;
+}
+
+function discover(provider: OidcProvider): Promise<OidcDiscovery> {
+  let discovery = discoveryCache.get(provider.issuer);
+  if (!discovery) {
+    discovery = fetchDiscovery(provider.issuer);
+    // a failed lookup is retried on the next login
+    discovery.catch(() => discoveryCache.delete(provider.issuer));
+    discoveryCache.set(provider.issuer, discovery);
+  }
+  return discovery;
+}
+
+function getJwks(jwksUri: string) {
+  let jwks = jwksCache.get(jwksUri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwksUri));
+    jwksCache.set(jwksUri, jwks);
+  }
+  return jwks;
+}
+
+function callbackUrl(provider: OidcProvider, origin: string): string {
+  return appUrl(`/api/auth/oidc/${provider.id}/callback`, origin);
+}
+
+function sameValue(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Only same-origin paths are accepted as the page to return to, so the
+ * parameter can't be used as an open redirect
+ */
+export function safeReturnTo(returnTo: string | null, fallback: string = '/dashboard'): string {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.startsWith('/\\')) {
+    return fallback;
+  }
+  return returnTo;
+}
+
+/**
+ * Start a login: returns the provider URL to send the browser to and the
+ * signed state to keep in the OIDC state cookie until it comes back
+ */
+export async function beginOidcLogin(
+  provider: OidcProvider,
+  origin: string,
+  returnTo: string
+): Promise<{ authorizationUrl: string; stateCookie: string }> {
+  const discovery = await discover(provider);
+
+  const loginState: OidcLoginState = {
+    provider: provider.id,
+    state: generateToken(),
+    nonce: generateToken(),
+    codeVerifier: generateToken(),
+    returnTo,
+  };
+  const codeChallenge = createHash('sha256').update(loginState.codeVerifier).digest('base64url');
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', callbackUrl(provider, origin));
+  url.searchParams.set('scope', provider.scopes.join(' '));
+  url.searchParams.set('state', loginState.state);
+  url.searchParams.set('nonce', loginState.nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  const stateCookie = await signState({ ...loginState }, `${OIDC_STATE_TTL_SECONDS}s`);
+  return { authorizationUrl: url.toString(), stateCookie };
+}
+
+/**
+ * Read the login started by beginOidcLogin back from its cookie. Returns
+ * null if the cookie is missing, expired or for another provider.
+ */
+export async function readOidcLoginState(
+  provider: OidcProvider,
+  stateCookie: string | undefined
+): Promise<OidcLoginState | null> {
+  if (!stateCookie) {
+    return null;
+  }
+  const loginState = await verifyState<OidcLoginState>(stateCookie);
+  return loginState && loginState.provider === provider.id ? loginState : null;
+}
+
+/**
+ * Finish a login from the provider's redirect: check the state, exchange
+ * the code (with the PKCE verifier) and verify the ID token
+ */
+export async function completeOidcLogin(
+  provider: OidcProvider,
+  loginState: OidcLoginState,
+  params: URLSearchParams,
+  origin: string
+): Promise<OidcProfile> {
+  if (params.get('error')) {
+    // the user declined, or the provider refused the request
+    throw new OidcError('oidc_cancelled', `Provider returned ${params.get('error')}`);
+  }
+
+  const state = params.get('state');
+  const code = params.get('code');
+  if (!state || !code || !sameValue(state, loginState.state)) {
+    throw new OidcError('oidc_failed', 'State mismatch or missing code');
+  }
+
+  const discovery = await discover(provider);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: callbackUrl(provider, origin),
+    client_id: provider.clientId,
+    code_verifier: loginState.codeVerifier,
+  });
+  if (provider.clientSecret) {
+    body.set('client_secret', provider.clientSecret);
+  }
+
+  const res = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body,
+  });
+  const tokens = await res.json().catch(() => ({}));
+  if (!res.ok || typeof tokens.id_token !== 'string') {
+    throw new OidcError('oidc_failed', `Token exchange failed: ${res.status} ${tokens.error || ''}`.trim());
+  }
+
+  let claims: Record<string, any>;
+  try {
+    const verified = await jwtVerify(tokens.id_token, getJwks(discovery.jwks_uri), {
+      issuer: discovery.issuer,
+      audience: provider.clientId,
+    });
+    claims = verified.payload;
+  } catch (error: any) {
+    throw new OidcError('oidc_failed', `Invalid ID token: ${error.message}`);
+  }
+
+  if (typeof claims.nonce !== 'string' || !sameValue(claims.nonce, loginState.nonce)) {
+    throw new OidcError('oidc_failed', 'ID token nonce mismatch');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new OidcError('oidc_failed', 'ID token has no subject');
+  }
+
+  return {
+    subject: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email.trim() : null,
+    // some providers send the flag as a string
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: typeof claims.name === 'string' ? claims.name.trim() : null,
+  };
+}
+
+export interface OidcAccount {
+  user: User;
+  // how the provider account was matched to the user
+  outcome: 'existing' | 'linked' | 'created';
+  // a linked, unverified account's password was discarded
+  passwordDiscarded?: boolean;
+}
+
+/**
+ * Find the user a provider account signs in as, linking it to the user
+ * with the same verified email or creating a new user if there is none
+ */
+export async function resolveOidcAccount(
+  provider: OidcProvider,
+  profile: OidcProfile
+): Promise<OidcAccount> {
+  const identity = await getUserIdentity(provider.id, profile.subject);
+  if (identity) {
+    const user = await getUserById(identity.user_id);
+    if (user) {
+      await touchUserIdentity(identity.id);
+      return { user, outcome: 'existing' };
+    }
+  }
+
+  // Only an address the provider has verified proves the person owns it
+  if (!profile.email || !profile.emailVerified) {
+    throw new OidcError('oidc_email_unverified', 'Provider did not return a verified email');
+  }
+
+  const claims: IdentityClaims = {
+    provider: provider.id,
+    subject: profile.subject,
+    email: profile.email,
+  };
+
+  const existing = await getUserByEmail(profile.email);
+  if (existing) {
+    const passwordDiscarded = await linkUserIdentity(existing, claims);
+    const user = passwordDiscarded ? { ...existing, status: 'Active' as const } : existing;
+    return { user, outcome: 'linked', passwordDiscarded };
+  }
+
+  const name = profile.name || profile.email.split('@')[0];
+  const user = await createUserWithIdentity({ email: profile.email, name }, claims);
+  return { user, outcome: 'created' };
+}
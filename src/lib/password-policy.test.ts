@@ -0,0 +1,121 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeDb, affected } from '../test/fake-db';
+import { assertPasswordPolicy, checkPassword, PasswordPolicyError } from './password-policy';
+import { changeAccountPassword, hashPassword, setInitialPassword, updatePassword, updateUserPassword } from './db-auth';
+
+const email = 'asha.rao@example.com';
+const name = 'Asha Rao';
+
+describe('checkPassword', () => {
+  it('accepts long passwords made of uncommon words', () => {
+    assert.equal(checkPassword('correct horse battery').error, null);
+    assert.equal(checkPassword('mangoSunrise7').score, 4);
+  });
+
+  it('enforces the length limits', () => {
+    assert.match(checkPassword('short').error!, /at least 8 characters/);
+    assert.match(checkPassword('Tr0ub4dor&3x!'.repeat(6)).error!, /at most 72 characters/);
+  });
+
+  it('rejects common and breached passwords, also with substitutions', () => {
+    for (const password of ['password', 'P@ssw0rd', '12345678', 'qwertyuiop']) {
+      assert.match(checkPassword(password).error!, /too common/, password);
+    }
+  });
+
+  it('rejects guessable patterns with the reason', () => {
+    assert.match(checkPassword('aaaaaaaaaaaa').error!, /Repeats/);
+    assert.match(checkPassword('abcdefgh1').error!, /Sequences/);
+    assert.match(checkPassword('zxcvbnm,./').error!, /rows of keys/);
+  });
+
+  it("rejects passwords built from the account's own email or name", () => {
+    assert.equal(checkPassword(email).error, null);
+    assert.match(checkPassword(email, [email, name]).error!, /your name or email/);
+    assert.match(checkPassword('AshaRao2026', [email, name]).error!, /your name or email/);
+  });
+
+  it('explains weak passwords and stays quiet about strong ones', () => {
+    const weak = checkPassword('abcdefgh1');
+    assert.ok(weak.score < 2);
+    assert.ok(weak.suggestions.length > 0);
+    assert.deepEqual(checkPassword('mangoSunrise7').suggestions, []);
+  });
+});
+
+describe('assertPasswordPolicy', () => {
+  it('throws the reason as a PasswordPolicyError', () => {
+    assert.throws(() => assertPasswordPolicy('password'), PasswordPolicyError);
+    assert.doesNotThrow(() => assertPasswordPolicy('mangoSunrise7', [email, name]));
+  });
+});
+
+describe('setting a user password', () => {
+  let db: FakeDb;
+  beforeEach(() => {
+    db = new FakeDb()
+      .on(/^SELECT email, name FROM users WHERE id = \?/, ([id], db) => db.table('users').filter(row => row.id === id))
+      .on(/^UPDATE users SET password_hash = \?/, ([hash, id], db) => {
+        const user = db.table('users').find(row => row.id === id)!;
+        user.password_hash = hash;
+        return affected(1);
+      })
+      .install();
+    db.table('users').push({ id: 'user-1', email, name, password_hash: null });
+  });
+
+  it("checks every path against the user's own details", async () => {
+    for (const setPassword of [updatePassword, updateUserPassword, setInitialPassword]) {
+      await assert.rejects(setPassword('user-1', email), PasswordPolicyError, setPassword.name);
+      await assert.rejects(setPassword('user-1', 'AshaRao2026'), PasswordPolicyError, setPassword.name);
+    }
+    assert.equal(db.table('users')[0].password_hash, null);
+  });
+
+  it('stores a hash of an acceptable password', async () => {
+    await updatePassword('user-1', 'mangoSunrise7');
+    const { password_hash } = db.table('users')[0];
+    assert.ok(password_hash);
+    assert.notEqual(password_hash, 'mangoSunrise7');
+  });
+});
+
+describe('changeAccountPassword', () => {
+  let db: FakeDb;
+  beforeEach(async () => {
+    db = new FakeDb();
+    for (const table of ['users', 'admins']) {
+      db.on(new RegExp(`^SELECT email, name, password_hash FROM ${table} WHERE id = \\?`), ([id], db) =>
+        db.table(table).filter(row => row.id === id)
+      );
+      db.on(new RegExp(`^UPDATE ${table} SET password_hash = \\? WHERE id = \\?`), ([hash, id, current], db) => {
+        const account = db.table(table).find(row => row.id === id && row.password_hash === current);
+        if (account) {
+          account.password_hash = hash;
+        }
+        return affected(account ? 1 : 0);
+      });
+    }
+    db.install();
+    const passwordHash = await hashPassword('mangoSunrise7');
+    db.table('users').push({ id: 'staff-1', email, name, role: 'admin', password_hash: passwordHash });
+    db.table('admins').push({ id: 'admin-1', email: 'ops@example.com', name: 'Ops', password_hash: passwordHash });
+  });
+
+  it('changes the password of an admin stored in users', async () => {
+    assert.equal(await changeAccountPassword('user', 'staff-1', 'mangoSunrise7', 'papayaDusk42'), true);
+    assert.notEqual(db.table('users')[0].password_hash, db.table('admins')[0].password_hash);
+  });
+
+  it('changes the password of an account in admins', async () => {
+    assert.equal(await changeAccountPassword('admin', 'admin-1', 'mangoSunrise7', 'papayaDusk42'), true);
+    assert.notEqual(db.table('admins')[0].password_hash, db.table('users')[0].password_hash);
+  });
+
+  it('refuses a wrong current password or one built from the account', async () => {
+    assert.equal(await changeAccountPassword('user', 'staff-1', 'wrongPassword1', 'papayaDusk42'), false);
+    await assert.rejects(changeAccountPassword('user', 'staff-1', 'mangoSunrise7', 'AshaRao2026'), PasswordPolicyError);
+    assert.equal(db.table('users')[0].password_hash, db.table('admins')[0].password_hash);
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Password policy
+ *
+ * One set of rules for every place a password is chosen: signup, reset,
+ * first password for provider accounts, admin invitations, users added by
+ * an admin and the admin password change. A password must
+ *
+ *   - be at least NEXT_PUBLIC_PASSWORD_MIN_LENGTH characters (default 8),
+ *   - not be on the bundled list of common and breached passwords, and
+ *   - reach a strength score of NEXT_PUBLIC_PASSWORD_MIN_SCORE (0-4, default 2).
+ *
+ * The score follows zxcvbn: the password is split into the guessable
+ * patterns an attacker would try first (common passwords, the user's own
+ * name or email, sequences, repeats, keyboard rows and years) plus
+ * characters that have to be brute-forced, and the cheapest split gives
+ * the estimated number of guesses.
+ *
+ * No server-only imports, so pages use the same rules for live feedback.
+ */
+
+import commonPasswordList from './common-passwords.json';
+
+export const PASSWORD_MIN_LENGTH = parseInt(process.env.NEXT_PUBLIC_PASSWORD_MIN_LENGTH || '8');
+export const PASSWORD_MIN_SCORE = parseInt(process.env.NEXT_PUBLIC_PASSWORD_MIN_SCORE || '2');
+// bcrypt only uses the first 72 bytes; the limit also bounds the work below
+export const PASSWORD_MAX_LENGTH = 72;
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export const PASSWORD_SCORE_LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'];
+
+export interface PasswordCheck {
+  score: PasswordScore;
+  // why the password is weak, if a pattern gave it away
+  warning: string | null;
+  suggestions: string[];
+  // the rule the password breaks, or null if it is acceptable
+  error: string | null;
+}
+
+export class PasswordPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PasswordPolicyError';
+  }
+}
+
+type PatternKind = 'common' | 'user_input' | 'sequence' | 'repeat' | 'keyboard' | 'year';
+
+interface PatternMatch {
+  kind: PatternKind;
+  start: number;
+  end: number; // exclusive
+  guesses: number;
+}
+
+// rank of each common password, most common first
+const commonPasswords = new Map<string, number>(
+  (commonPasswordList as string[]).map((word, index) => [word, index + 1])
+);
+
+const LEET: Record<string, string> = {
+  '4': 'a', '@': 'a', '8': 'b', '(': 'c', '3': 'e', '6': 'g', '1': 'i', '!': 'i',
+  '|': 'l', '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't', '2': 'z',
+};
+
+const KEYBOARD_ROWS = ['`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./'];
+
+const MIN_PATTERN_LENGTH = 3;
+const MIN_WORD_LENGTH = 3;
+
+function unleet(value: string): string {
+  return [...value].map(char => LEET[char] || char).join('');
+}
+
+// Size of the alphabet an attacker has to try for each unmatched character
+function bruteforceCardinality(password: string): number {
+  let cardinality = 0;
+  if (/[a-z]/.test(password)) cardinality += 26;
+  if (/[A-Z]/.test(password)) cardinality += 26;
+  if (/[0-9]/.test(password)) cardinality += 10;
+  if (/[^a-zA-Z0-9]/.test(password)) cardinality += 33;
+  return cardinality || 10;
+}
+
+// Capitalising the first letter or everything costs an attacker little
+function capitalisationVariations(word: string): number {
+  if (word === word.toLowerCase()) return 1;
+  if (word === word.toUpperCase() || /^[A-Z][^A-Z]+$/.test(word)) return 2;
+  const upper = word.replace(/[^A-Z]/g, '').length;
+  const lower = word.replace(/[^a-z]/g, '').length;
+  return Math.min(2 ** Math.min(upper, lower) * 4, 10000);
+}
+
+function wordMatches(password: string, words: Map<string, number>, kind: PatternKind): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+
+  for (let start = 0; start < password.length; start++) {
+    for (let end = start + MIN_WORD_LENGTH; end <= password.length; end++) {
+      const token = lower.slice(start, end);
+      const plain = unleet(token);
+      const rank = words.get(token) ?? words.get(plain);
+      if (rank === undefined) continue;
+
+      const leetVariations = words.has(token) ? 1 : 2;
+      matches.push({
+        kind,
+        start,
+        end,
+        guesses: rank * leetVariations * capitalisationVariations(password.slice(start, end)),
+      });
+    }
+  }
+  return matches;
+}
+
+function userInputWords(userInputs: string[]): Map<string, number> {
+  const words = new Map<string, number>();
+  for (const input of userInputs) {
+    const lower = input.toLowerCase();
+    const parts = [lower, ...lower.split(/[^a-z0-9]+/)];
+    for (const part of parts) {
+      if (part.length >= MIN_WORD_LENGTH && !words.has(part)) {
+        words.set(part, words.size + 1);
+      }
+    }
+  }
+  return words;
+}
+
+// abc, 6543, ace: runs with a constant step of 1 or 2
+function sequenceMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  let start = 0;
+
+  while (start < password.length - 1) {
+    const delta = password.charCodeAt(start + 1) - password.charCodeAt(start);
+    let end = start + 2;
+    while (end < password.length && password.charCodeAt(end) - password.charCodeAt(end - 1) === delta) {
+      end++;
+    }
+
+    if (end - start >= MIN_PATTERN_LENGTH && delta !== 0 && Math.abs(delta) <= 2) {
+      const first = password[start];
+      const base = /[0-9]/.test(first) ? 10 : 26;
+      const obviousStart = /[aAzZ019]/.test(first) ? 4 : base;
+      matches.push({
+        kind: 'sequence',
+        start,
+        end,
+        guesses: obviousStart * (end - start) * (delta < 0 ? 2 : 1),
+      });
+      start = end - 1;
+    } else {
+      start++;
+    }
+  }
+  return matches;
+}
+
+// aaa, 1212, abcabc: a block written out more than once
+function repeatMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const repeated = /(.+?)\1+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = repeated.exec(password)) !== null) {
+    if (match[0].length >= MIN_PATTERN_LENGTH) {
+      const block = match[1];
+      const blockGuesses = bruteforceCardinality(block) ** block.length;
+      matches.push({
+        kind: 'repeat',
+        start: match.index,
+        end: match.index + match[0].length,
+        guesses: blockGuesses * (match[0].length / block.length),
+      });
+    }
+  }
+  return matches;
+}
+
+// qwerty, asdf, 7890: straight runs along a keyboard row, either way
+function keyboardMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+
+  for (let start = 0; start < lower.length; start++) {
+    for (let end = lower.length; end >= start + 4; end--) {
+      const token = lower.slice(start, end);
+      const reversed = [...token].reverse().join('');
+      if (KEYBOARD_ROWS.some(row => row.includes(token) || row.includes(reversed))) {
+        matches.push({ kind: 'keyboard', start, end, guesses: KEYBOARD_ROWS.length * 2 * token.length * 10 });
+        break;
+      }
+    }
+  }
+  return matches;
+}
+
+function yearMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const years = /(19|20)\d\d/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = years.exec(password)) !== null) {
+    matches.push({ kind: 'year', start: match.index, end: match.index + 4, guesses: 120 });
+  }
+  return matches;
+}
+
+/**
+ * The cheapest way to guess the password: for each prefix, the fewest
+ * guesses (in log10) using either one more brute-forced character or a
+ * pattern that ends there. Returns the guesses and the patterns used.
+ */
+function cheapestGuesses(password: string, matches: PatternMatch[]): { log10Guesses: number; used: PatternMatch[] } {
+  const charCost = Math.log10(bruteforceCardinality(password));
+  const best: { cost: number; via: PatternMatch | null }[] = [{ cost: 0, via: null }];
+
+  for (let end = 1; end <= password.length; end++) {
+    best[end] = { cost: best[end - 1].cost + charCost, via: null };
+    for (const match of matches) {
+      if (match.end !== end) continue;
+      const cost = best[match.start].cost + Math.log10(Math.max(match.guesses, 1));
+      if (cost < best[end].cost) {
+        best[end] = { cost, via: match };
+      }
+    }
+  }
+
+  const used: PatternMatch[] = [];
+  for (let end = password.length; end > 0; ) {
+    const via = best[end].via;
+    if (via) {
+      used.unshift(via);
+      end = via.start;
+    } else {
+      end--;
+    }
+  }
+  return { log10Guesses: best[password.length].cost, used };
+}
+
+// zxcvbn's thresholds: 10^3, 10^6, 10^8 and 10^10 guesses
+function scoreFor(log10Guesses: number): PasswordScore {
+  if (log10Guesses < 3) return 0;
+  if (log10Guesses < 6) return 1;
+  if (log10Guesses < 8) return 2;
+  if (log10Guesses < 10) return 3;
+  return 4;
+}
+
+const WARNINGS: Record<PatternKind, string> = {
+  common: 'This is similar to a commonly used password',
+  user_input: 'Avoid using your name or email address',
+  sequence: 'Sequences like "abc" or "6543" are easy to guess',
+  repeat: 'Repeats like "aaa" or "abcabc" are easy to guess',
+  keyboard: 'Straight rows of keys are easy to guess',
+  year: 'Years are easy to guess',
+};
+
+/**
+ * Whether the whole password is on the common password list, allowing for
+ * capitals and letter substitutions
+ */
+export function isCommonPassword(password: string): boolean {
+  const lower = password.toLowerCase();
+  return commonPasswords.has(lower) || commonPasswords.has(unleet(lower));
+}
+
+/**
+ * Score a password and check it against the policy. userInputs are things
+ * an attacker would try first for this account, such as the email and name.
+ */
+export function checkPassword(password: string, userInputs: string[] = []): PasswordCheck {
+  const candidate = password.slice(0, PASSWORD_MAX_LENGTH);
+  const matches = [
+    ...wordMatches(candidate, commonPasswords, 'common'),
+    ...wordMatches(candidate, userInputWords(userInputs.filter(Boolean)), 'user_input'),
+    ...sequenceMatches(candidate),
+    ...repeatMatches(candidate),
+    ...keyboardMatches(candidate),
+    ...yearMatches(candidate),
+  ];
+  const { log10Guesses, used } = cheapestGuesses(candidate, matches);
+  const score = scoreFor(log10Guesses);
+
+  // the longest pattern is the one most worth mentioning
+  const telling = [...used].sort((a, b) => (b.end - b.start) - (a.end - a.start))[0];
+  const warning = telling && score < 3 ? WARNINGS[telling.kind] : null;
+
+  const suggestions: string[] = [];
+  if (score < 3) {
+    suggestions.push('Add another word or two. Uncommon words are better.');
+    if (candidate.length < 12) {
+      suggestions.push('Longer passwords are harder to guess.');
+    }
+  }
+
+  let error: string | null = null;
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    error = `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  } else if (password.length > PASSWORD_MAX_LENGTH) {
+    error = `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+  } else if (isCommonPassword(password)) {
+    error = 'This password is too common. Choose one that is not on lists of breached passwords';
+  } else if (score < PASSWORD_MIN_SCORE) {
+    error = warning ? `Password is too easy to guess. ${warning}` : 'Password is too easy to guess';
+  }
+
+  return { score, warning, suggestions, error };
+}
+
+/**
+ * Throw a PasswordPolicyError if the password breaks the policy
+ */
+export function assertPasswordPolicy(password: string, userInputs: string[] = []): void {
+  const { error } = checkPassword(password || '', userInputs);
+  if (error) {
+    throw new PasswordPolicyError(error);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Fake payment provider for development and tests
+ *
+ * Behaves like Razorpay without the network: orders get local ids, and the
+ * dashboard's test checkout asks POST /api/payments/fake/pay to settle them.
+ * That signs a checkout response and delivers a signed webhook exactly as
+ * the real gateway would, with FAKE_PAYMENT_SECRET standing in for both
+ * Razorpay secrets.
+ */
+
+import { randomBytes } from 'crypto';
+import type { PaymentProvider, OrderRequest } from './payments';
+import {
+  razorpaySignature,
+  signatureMatches,
+  verifyRazorpayCheckout,
+  parseRazorpayEvent,
+} from './payment-razorpay';
+
+function fakeSecret(): string {
+  return process.env.FAKE_PAYMENT_SECRET || 'fake-payment-secret';
+}
+
+function fakeId(prefix: string): string {
+  return `${prefix}_fake${randomBytes(8).toString('hex')}`;
+}
+
+export interface FakePaymentResult {
+  // what Razorpay Checkout hands the browser; only for successful payments
+  checkoutResponse: Record<string, string> | null;
+  webhook: { body: string; headers: Record<string, string> };
+}
+
+/**
+ * Settle a fake order as the gateway would: pay it or fail the attempt
+ */
+export function simulateFakePayment(
+  order: { providerOrderId: string; amount: number; currency: string },
+  outcome: 'paid' | 'failed'
+): FakePaymentResult {
+  const paymentId = fakeId('pay');
+  const event = outcome === 'paid' ? 'payment.captured' : 'payment.failed';
+
+  const body = JSON.stringify({
+    entity: 'event',
+    event,
+    payload: {
+      payment: {
+        entity: {
+          id: paymentId,
+          order_id: order.providerOrderId,
+          amount: order.amount,
+          currency: order.currency,
+          status: outcome === 'paid' ? 'captured' : 'failed',
+        },
+      },
+    },
+    created_at: Math.floor(Date.now() / 1000),
+  });
+
+  return {
+    checkoutResponse:
+      outcome === 'paid'
+        ? {
+            razorpay_order_id: order.providerOrderId,
+            razorpay_payment_id: paymentId,
+            razorpay_signature: razorpaySignature(fakeSecret(), `${order.providerOrderId}|${paymentId}`),
+          }
+        : null,
+    webhook: {
+      body,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Razorpay-Signature': razorpaySignature(fakeSecret(), body),
+        'X-Razorpay-Event-Id': fakeId('evt'),
+      },
+    },
+  };
+}
+
+export const fakePaymentProvider: PaymentProvider = {
+  id: 'fake',
+
+  async createOrder(_order: OrderRequest): Promise<string> {
+    return fakeId('order');
+  },
+
+  verifyCheckout(providerOrderId, response) {
+    return verifyRazorpayCheckout(fakeSecret(), providerOrderId, response);
+  },
+
+  parseWebhook(rawBody, headers) {
+    const expected = razorpaySignature(fakeSecret(), rawBody);
+    if (!signatureMatches(expected, headers.get('x-razorpay-signature'))) {
+      return null;
+    }
+    return parseRazorpayEvent(rawBody, headers.get('x-razorpay-event-id'));
+  },
+};
@@ -0,0 +1,122 @@
+/**
+ * Razorpay payment provider
+ *
+ * Orders are created with the Orders API using RAZORPAY_KEY_ID and
+ * RAZORPAY_KEY_SECRET. Checkout responses are signed with the key secret
+ * and webhooks with RAZORPAY_WEBHOOK_SECRET, both as HMAC-SHA256.
+ */
+
+import { createHmac, createHash, timingSafeEqual } from 'crypto';
+import type { PaymentProvider, PaymentEvent, OrderRequest } from './payments';
+
+const API_BASE = 'https://api.razorpay.com/v1';
+
+// events that settle a payment; everything else is recorded only
+const PAID_EVENTS = ['payment.captured', 'order.paid'];
+const FAILED_EVENTS = ['payment.failed'];
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+}
+
+export function razorpaySignature(secret: string, data: string): string {
+  return createHmac('sha256', secret).update(data).digest('hex');
+}
+
+export function signatureMatches(expected: string, actual: unknown): boolean {
+  if (typeof actual !== 'string') {
+    return false;
+  }
+  const left = Buffer.from(expected);
+  const right = Buffer.from(actual);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Payment id from a checkout response signed with the key secret, as
+ * `order_id|payment_id`
+ */
+export function verifyRazorpayCheckout(
+  secret: string,
+  providerOrderId: string,
+  response: Record<string, unknown>
+): string | null {
+  const paymentId = response.razorpay_payment_id;
+  if (typeof paymentId !== 'string' || response.razorpay_order_id !== providerOrderId) {
+    return null;
+  }
+  const expected = razorpaySignature(secret, `${providerOrderId}|${paymentId}`);
+  return signatureMatches(expected, response.razorpay_signature) ? paymentId : null;
+}
+
+/**
+ * Event from a webhook body whose signature has been checked. Razorpay sends
+ * the event id in a header; the body hash stands in when it is missing.
+ */
+export function parseRazorpayEvent(rawBody: string, eventId: string | null): PaymentEvent | null {
+  let body: any;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return null;
+  }
+  if (!body || typeof body.event !== 'string') {
+    return null;
+  }
+
+  const payment = body.payload?.payment?.entity;
+  const order = body.payload?.order?.entity;
+  const outcome = PAID_EVENTS.includes(body.event) ? 'paid' : FAILED_EVENTS.includes(body.event) ? 'failed' : null;
+
+  return {
+    id: eventId || createHash('sha256').update(rawBody).digest('hex'),
+    type: body.event,
+    outcome,
+    providerOrderId: payment?.order_id || order?.id || null,
+    providerPaymentId: payment?.id || null,
+    amount: typeof payment?.amount === 'number' ? payment.amount : null,
+    currency: payment?.currency || null,
+    payload: body,
+  };
+}
+
+export const razorpayProvider: PaymentProvider = {
+  id: 'razorpay',
+
+  async createOrder(order: OrderRequest): Promise<string> {
+    const credentials = Buffer.from(
+      `${requireEnv('RAZORPAY_KEY_ID')}:${requireEnv('RAZORPAY_KEY_SECRET')}`
+    ).toString('base64');
+
+    const res = await fetch(`${API_BASE}/orders`, {
+      method: 'POST',
+      headers: { Authorization: `Basic ${credentials}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(order),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || typeof data.id !== 'string') {
+      throw new Error(`Razorpay order creation failed: ${res.status} ${data.error?.description || ''}`.trim());
+    }
+    return data.id;
+  },
+
+  checkoutKey() {
+    return requireEnv('RAZORPAY_KEY_ID');
+  },
+
+  verifyCheckout(providerOrderId, response) {
+    return verifyRazorpayCheckout(requireEnv('RAZORPAY_KEY_SECRET'), providerOrderId, response);
+  },
+
+  parseWebhook(rawBody, headers) {
+    const expected = razorpaySignature(requireEnv('RAZORPAY_WEBHOOK_SECRET'), rawBody);
+    if (!signatureMatches(expected, headers.get('x-razorpay-signature'))) {
+      return null;
+    }
+    return parseRazorpayEvent(rawBody, headers.get('x-razorpay-event-id'));
+  },
+};
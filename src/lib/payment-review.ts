@@ -0,0 +1,276 @@
+/**
+ * Manual payment verification
+ *
+ * Users who paid by UPI report the bank reference (UTR) of their transfer,
+ * optionally with a screenshot of the payment. The submission waits as a
+ * 'pending_payment' subscription until an admin has checked the bank
+ * statement and approves it, which activates the plan, or rejects it with
+ * a reason. The user is emailed either way.
+ *
+ * Screenshots are stored outside the web root in PAYMENT_PROOF_DIR and only
+ * served to admins reviewing the payment.
+ */
+
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  AccountType,
+  PaymentAttempt,
+  PaymentApproval,
+  PaymentSubmission,
+  createPaymentSubmission,
+  approvePaymentSubmission,
+  rejectPaymentSubmission,
+  getPaymentScreenshotFiles,
+  getUserById,
+  logAuditAction,
+} from './db-auth';
+import { PackagePurchase, PaymentError, assertCanPurchase } from './payments';
+import { packagePrice } from './pricing';
+import { sendMail, appUrl } from './mailer';
+
+export const PAYMENT_SCREENSHOT_MAX_BYTES = 5 * 1024 * 1024;
+// the whole submission form: the screenshot plus the other fields and multipart framing
+export const PAYMENT_FORM_MAX_BYTES = PAYMENT_SCREENSHOT_MAX_BYTES + 64 * 1024;
+export const REJECTION_REASON_MAX_LENGTH = 500;
+
+// accepted screenshot types, each checked against the file's leading bytes
+const SCREENSHOT_TYPES: Record<string, { extension: string; signature: number[] }> = {
+  'image/png': { extension: '.png', signature: [0x89, 0x50, 0x4e, 0x47] },
+  'image/jpeg': { extension: '.jpg', signature: [0xff, 0xd8, 0xff] },
+};
+
+// 12-digit UPI references, and the longer alphanumeric UTRs of bank transfers
+const UTR_PATTERN = /^[A-Z0-9]{6,35}$/;
+
+export interface PaymentReviewer {
+  userId: string;
+  actorType: AccountType;
+}
+
+function proofDir(): string {
+  return path.resolve(process.env.PAYMENT_PROOF_DIR || '.payment-proofs');
+}
+
+// stored file names are generated, but never trust one to stay in the directory
+function proofPath(fileName: string): string {
+  return path.join(proofDir(), path.basename(fileName));
+}
+
+/**
+ * The UTR as entered, without spaces and upper-cased, or null if it can't
+ * be one
+ */
+export function normaliseUtr(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const utr = value.replace(/\s+/g, '').toUpperCase();
+  return UTR_PATTERN.test(utr) ? utr : null;
+}
+
+async function saveScreenshot(file: File): Promise<{ fileName: string; type: string }> {
+  const type = SCREENSHOT_TYPES[file.type];
+  if (!type) {
+    throw new PaymentError('The screenshot must be a PNG or JPEG image');
+  }
+  if (file.size > PAYMENT_SCREENSHOT_MAX_BYTES) {
+    throw new PaymentError('The screenshot must be 5 MB or smaller');
+  }
+
+  const data = Buffer.from(await file.arrayBuffer());
+  if (!type.signature.every((byte, index) => data[index] === byte)) {
+    throw new PaymentError('The screenshot is not a valid image');
+  }
+
+  const fileName = `${randomUUID()}${type.extension}`;
+  await mkdir(proofDir(), { recursive: true });
+  await writeFile(proofPath(fileName), data);
+  return { fileName, type: file.type };
+}
+
+export async function readPaymentScreenshot(fileName: string): Promise<Buffer | null> {
+  return readFile(proofPath(fileName)).catch(() => null);
+}
+
+// Remove a user's screenshots from disk; the submissions themselves are kept
+export async function removePaymentScreenshots(userId: string): Promise<void> {
+  for (const fileName of await getPaymentScreenshotFiles(userId)) {
+    await unlink(proofPath(fileName)).catch(() => undefined);
+  }
+}
+
+/**
+ * Submit a transfer for review. Paid for a UPI attempt, the package, price
+ * point and amount are the attempt's; otherwise the price point's current
+ * price. Returns the submission id.
+ */
+export async function submitManualPayment(data: {
+  userId: string;
+  payment: { attempt: PaymentAttempt } | PackagePurchase;
+  utr: string;
+  screenshot: File | null;
+  ipAddress?: string;
+}): Promise<string> {
+  await assertCanPurchase(data.userId);
+  const attempt = 'attempt' in data.payment ? data.payment.attempt : null;
+  const { packageId, packagePriceId, plan, billingPeriod, amount, currency } =
+    'attempt' in data.payment
+      ? {
+          packageId: data.payment.attempt.package_id,
+          packagePriceId: data.payment.attempt.package_price_id,
+          plan: data.payment.attempt.plan,
+          billingPeriod: data.payment.attempt.billing_period,
+          amount: data.payment.attempt.amount,
+          currency: data.payment.attempt.currency,
+        }
+      : {
+          packageId: data.payment.pkg.id,
+          packagePriceId: data.payment.pricePoint.id,
+          plan: data.payment.pkg.name,
+          billingPeriod: data.payment.pricePoint.billing_period,
+          ...packagePrice(data.payment.pkg, data.payment.pricePoint),
+        };
+
+  const screenshot = data.screenshot ? await saveScreenshot(data.screenshot) : null;
+
+  const result = await createPaymentSubmission({
+    userId: data.userId,
+    attemptId: attempt?.id ?? null,
+    packageId,
+    packagePriceId,
+    plan,
+    billingPeriod,
+    amount,
+    currency,
+    utr: data.utr,
+    screenshotPath: screenshot?.fileName ?? null,
+    screenshotType: screenshot?.type ?? null,
+  });
+
+  if ('conflict' in result) {
+    if (screenshot) {
+      await unlink(proofPath(screenshot.fileName)).catch(() => undefined);
+    }
+    throw new PaymentError(
+      result.conflict === 'pending'
+        ? 'You already have a payment waiting for review'
+        : 'This UTR has already been submitted',
+      409
+    );
+  }
+
+  await logAuditAction({
+    userId: data.userId,
+    actorType: 'user',
+    action: 'payment_submitted',
+    entityType: 'payment_submission',
+    entityId: result.id,
+    changes: {
+      plan,
+      package_id: packageId,
+      billing_period: billingPeriod,
+      amount,
+      currency,
+      utr: data.utr,
+      attempt_id: attempt?.id ?? null,
+      screenshot: !!screenshot,
+    },
+    ipAddress: data.ipAddress,
+  });
+
+  return result.id;
+}
+
+async function notifyUser(userId: string, subject: string, lines: string[]): Promise<void> {
+  const user = await getUserById(userId);
+  if (!user) {
+    return;
+  }
+  await sendMail({ to: user.email, subject, text: [`Hi ${user.name},`, '', ...lines].join('\n') });
+}
+
+/**
+ * Approve a submission, activating its plan, and tell the user. Returns
+ * null if it was already reviewed, and the newer plan it would replace if
+ * the reviewer hasn't confirmed replacing it (see approvePaymentSubmission).
+ */
+export async function approveManualPayment(
+  submission: PaymentSubmission,
+  reviewer: PaymentReviewer,
+  replaceActive: boolean,
+  origin: string,
+  ipAddress?: string
+): Promise<PaymentApproval | null> {
+  const approval = await approvePaymentSubmission(submission.id, reviewer.userId, replaceActive);
+  if (!approval || 'replaces' in approval) {
+    return approval;
+  }
+  const { subscription } = approval;
+
+  await logAuditAction({
+    ...reviewer,
+    action: 'payment_approved',
+    entityType: 'payment_submission',
+    entityId: submission.id,
+    changes: {
+      user_id: submission.user_id,
+      plan: submission.plan,
+      utr: submission.utr,
+      subscription_id: subscription.id,
+      ...(replaceActive ? { replace_active_confirmed: true } : {}),
+    },
+    ipAddress,
+  });
+
+  // the plan is active either way; a failed email only gets logged
+  await notifyUser(submission.user_id, 'Your Quantum Alpha India payment has been confirmed', [
+    `We have received your payment (UTR ${submission.utr}) and your ${submission.plan} subscription is now active.`,
+    '',
+    subscription.renewal_date
+      ? `It renews on ${new Date(subscription.renewal_date).toUTCString()}. See your plan and download your invoice on your dashboard:`
+      : 'It is lifetime access and never needs renewing. See your plan and download your invoice on your dashboard:',
+    '',
+    appUrl('/dashboard', origin),
+  ]).catch(error => console.error('Payment approved notice error:', error));
+
+  return approval;
+}
+
+/**
+ * Reject a submission and tell the user why. Returns false if it was
+ * already reviewed.
+ */
+export async function rejectManualPayment(
+  submission: PaymentSubmission,
+  reviewer: PaymentReviewer,
+  reason: string,
+  origin: string,
+  ipAddress?: string
+): Promise<boolean> {
+  if (!(await rejectPaymentSubmission(submission.id, reviewer.userId, reason))) {
+    return false;
+  }
+
+  await logAuditAction({
+    ...reviewer,
+    action: 'payment_rejected',
+    entityType: 'payment_submission',
+    entityId: submission.id,
+    changes: { user_id: submission.user_id, plan: submission.plan, utr: submission.utr, reason },
+    ipAddress,
+  });
+
+  await notifyUser(submission.user_id, 'We could not confirm your Quantum Alpha India payment', [
+    `We could not confirm your payment for ${submission.plan} (UTR ${submission.utr}):`,
+    '',
+    reason,
+    '',
+    'If you did make the payment, you can submit it again with the correct UTR from your dashboard:',
+    '',
+    appUrl('/dashboard', origin),
+  ]).catch(error => console.error('Payment rejected notice error:', error));
+
+  return true;
+}
@@ -0,0 +1,434 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeDb, affected } from '../test/fake-db';
+import { completePaymentOrder } from './db-auth';
+import { handlePaymentEvent, PaymentEvent } from './payments';
+import { fakePaymentProvider, simulateFakePayment } from './payment-fake';
+import { razorpayProvider, razorpaySignature } from './payment-razorpay';
+import { renewalDate } from './pricing';
+
+Object.assign(process.env, {
+  GST_SELLER_GSTIN: '27AAPFU0939F1ZV',
+  RAZORPAY_WEBHOOK_SECRET: 'webhook-secret',
+});
+
+const USER_ID = 'user-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "YYYY-MM-DD HH:MM:SS" in UTC, as the code writes DATETIME values
+function fromSql(value: string | null): Date | null {
+  return value ? new Date(`${value.replace(' ', 'T')}Z`) : null;
+}
+
+function toSql(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * The payment tables and the statements completing an order runs
+ */
+function paymentDb(): FakeDb {
+  const db = new FakeDb();
+  db.table('users').push({ id: USER_ID, name: 'Asha Rao', email: 'asha@example.com', plan: null });
+
+  return db
+    .on(/^SELECT id FROM payment_events WHERE provider = \? AND event_id = \?/, ([provider, eventId], db) =>
+      db.table('payment_events').filter(row => row.provider === provider && row.event_id === eventId)
+    )
+    .on(/^INSERT INTO payment_events/, ([id, provider, eventId, eventType, orderId], db) => {
+      const events = db.table('payment_events');
+      if (events.some(row => row.provider === provider && row.event_id === eventId)) {
+        throw Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY' });
+      }
+      events.push({ id, provider, event_id: eventId, event_type: eventType, order_id: orderId });
+      return affected(1);
+    })
+    .on(/^SELECT \* FROM payment_orders WHERE provider = \? AND provider_order_id = \?/, ([provider, orderId], db) =>
+      db.table('payment_orders').filter(row => row.provider === provider && row.provider_order_id === orderId)
+    )
+    .on(/^SELECT user_id, .* FROM payment_orders WHERE id = \? FOR UPDATE/, ([id], db) =>
+      db.table('payment_orders').filter(row => row.id === id)
+    )
+    .on(/^UPDATE payment_orders SET status = 'paid'/, ([paymentId, subscriptionId, id], db) => {
+      const order = db.table('payment_orders').find(row => row.id === id)!;
+      Object.assign(order, { status: 'paid', provider_payment_id: paymentId, subscription_id: subscriptionId });
+      return affected(1);
+    })
+    .on(/^UPDATE payment_orders SET status = 'failed' WHERE id = \? AND status = 'created'/, ([id], db) => {
+      const order = db.table('payment_orders').find(row => row.id === id && row.status === 'created');
+      if (order) {
+        order.status = 'failed';
+      }
+      return affected(order ? 1 : 0);
+    })
+    .on(/^SELECT id, package_id, plan, billing_period, renewal_date, start_date FROM subscriptions WHERE user_id = \? AND status = 'Active' FOR UPDATE/, ([userId], db) =>
+      db
+        .table('subscriptions')
+        .filter(row => row.user_id === userId && row.status === 'Active')
+        .map(row => ({ ...row, renewal_date: fromSql(row.renewal_date), start_date: fromSql(row.start_date) }))
+    )
+    .on(/^UPDATE subscriptions SET package_id = \?/, ([packageId, priceId, plan, amount, currency, period, renewal, start, id], db) => {
+      const subscription = db.table('subscriptions').find(row => row.id === id)!;
+      Object.assign(subscription, {
+        package_id: packageId,
+        package_price_id: priceId,
+        plan,
+        amount,
+        currency,
+        billing_period: period,
+        renewal_date: renewal,
+        start_date: start,
+      });
+      return affected(1);
+    })
+    .on(/^INSERT INTO subscriptions/, ([id, userId, packageId, priceId, plan, amount, currency, period, renewal], db) => {
+      db.table('subscriptions').push({
+        id,
+        user_id: userId,
+        package_id: packageId,
+        package_price_id: priceId,
+        plan,
+        amount,
+        currency,
+        billing_period: period,
+        status: 'Active',
+        renewal_date: renewal,
+        start_date: toSql(new Date()),
+      });
+      return affected(1);
+    })
+    .on(/^UPDATE users SET plan = \? WHERE id = \?/, ([plan, id], db) => {
+      db.table('users').find(row => row.id === id)!.plan = plan;
+      return affected(1);
+    })
+    .on(/^SELECT u\.name, u\.email, b\.legal_name/, ([id], db) =>
+      db
+        .table('users')
+        .filter(row => row.id === id)
+        .map(row => ({ ...row, legal_name: null, gstin: null, state_code: null, address: null }))
+    )
+    .on(/^INSERT INTO invoice_sequences/, ([year], db) => {
+      const sequences = db.table('invoice_sequences');
+      const sequence = sequences.find(row => row.financial_year === year);
+      if (sequence) {
+        sequence.last_number += 1;
+      } else {
+        sequences.push({ financial_year: year, last_number: 1 });
+      }
+      return affected(1);
+    })
+    .on(/^SELECT last_number FROM invoice_sequences WHERE financial_year = \?/, ([year], db) =>
+      db.table('invoice_sequences').filter(row => row.financial_year === year)
+    )
+    .on(/^INSERT INTO invoices/, (params, db) => {
+      const [id, invoiceNumber, , , userId, subscriptionId, paymentOrderId] = params;
+      db.table('invoices').push({
+        id,
+        invoice_number: invoiceNumber,
+        user_id: userId,
+        subscription_id: subscriptionId,
+        payment_order_id: paymentOrderId,
+        total_amount: params[26],
+      });
+      return affected(1);
+    })
+    .on(/^INSERT INTO audit_logs/, ([id, , actorType, actorId, action, entityType, entityId], db) => {
+      db.table('audit_logs').push({ id, actor_type: actorType, actor_id: actorId, action, entity_type: entityType, entity_id: entityId });
+      return affected(1);
+    });
+}
+
+function addOrder(db: FakeDb, fields: Record<string, any> = {}) {
+  const order = {
+    id: `order-${db.table('payment_orders').length + 1}`,
+    user_id: USER_ID,
+    provider: 'fake',
+    provider_order_id: `order_fake${db.table('payment_orders').length + 1}`,
+    provider_payment_id: null,
+    package_id: 'pkg-pro',
+    package_price_id: 'price-pro-monthly',
+    plan: 'Pro',
+    billing_period: 'monthly',
+    amount: 249900,
+    currency: 'INR',
+    status: 'created',
+    subscription_id: null,
+    ...fields,
+  };
+  db.table('payment_orders').push(order);
+  return order;
+}
+
+function addSubscription(db: FakeDb, fields: Record<string, any> = {}) {
+  const subscription = {
+    id: 'sub-1',
+    user_id: USER_ID,
+    package_id: 'pkg-pro',
+    package_price_id: 'price-pro-monthly',
+    plan: 'Pro',
+    amount: 249900,
+    currency: 'INR',
+    billing_period: 'monthly',
+    status: 'Active',
+    renewal_date: null,
+    start_date: toSql(new Date(Date.now() - 20 * DAY_MS)),
+    ...fields,
+  };
+  db.table('subscriptions').push(subscription);
+  return subscription;
+}
+
+function paidEvent(order: { provider_order_id: string; amount: number; currency: string }, id: string = 'evt_1'): PaymentEvent {
+  return {
+    id,
+    type: 'payment.captured',
+    outcome: 'paid',
+    providerOrderId: order.provider_order_id,
+    providerPaymentId: 'pay_1',
+    amount: order.amount,
+    currency: order.currency,
+    payload: {},
+  };
+}
+
+// Run code that is expected to warn without printing the warning
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+  const warn = console.warn;
+  console.warn = () => undefined;
+  try {
+    return await run();
+  } finally {
+    console.warn = warn;
+  }
+}
+
+function assertAbout(actual: Date | null, expected: Date | null) {
+  assert.ok(actual && expected, `expected a date, got ${actual}`);
+  assert.ok(Math.abs(actual.getTime() - expected.getTime()) < 5000, `${actual.toISOString()} != ${expected.toISOString()}`);
+}
+
+describe('webhook signatures', () => {
+  const order = { providerOrderId: 'order_fake1', amount: 249900, currency: 'INR' };
+
+  it('accepts a webhook signed with the secret', () => {
+    const { webhook } = simulateFakePayment(order, 'paid');
+    const event = fakePaymentProvider.parseWebhook(webhook.body, new Headers(webhook.headers));
+    assert.ok(event);
+    assert.equal(event.outcome, 'paid');
+    assert.equal(event.providerOrderId, 'order_fake1');
+    assert.equal(event.amount, 249900);
+    assert.equal(event.id, webhook.headers['X-Razorpay-Event-Id']);
+  });
+
+  it('rejects a changed body', () => {
+    const { webhook } = simulateFakePayment(order, 'paid');
+    const tampered = webhook.body.replace('249900', '100');
+    assert.equal(fakePaymentProvider.parseWebhook(tampered, new Headers(webhook.headers)), null);
+  });
+
+  it('rejects a missing or foreign signature', () => {
+    const { webhook } = simulateFakePayment(order, 'paid');
+    const headers = new Headers(webhook.headers);
+    headers.delete('X-Razorpay-Signature');
+    assert.equal(fakePaymentProvider.parseWebhook(webhook.body, headers), null);
+    headers.set('X-Razorpay-Signature', razorpaySignature('another-secret', webhook.body));
+    assert.equal(fakePaymentProvider.parseWebhook(webhook.body, headers), null);
+  });
+
+  it('checks Razorpay webhooks against RAZORPAY_WEBHOOK_SECRET', () => {
+    const { webhook } = simulateFakePayment(order, 'failed');
+    const headers = new Headers({
+      'X-Razorpay-Signature': razorpaySignature('webhook-secret', webhook.body),
+      'X-Razorpay-Event-Id': 'evt_rzp',
+    });
+    const event = razorpayProvider.parseWebhook(webhook.body, headers);
+    assert.ok(event);
+    assert.equal(event.outcome, 'failed');
+    assert.equal(event.id, 'evt_rzp');
+
+    headers.set('X-Razorpay-Signature', razorpaySignature('fake-payment-secret', webhook.body));
+    assert.equal(razorpayProvider.parseWebhook(webhook.body, headers), null);
+  });
+
+  it('verifies the checkout response for its own order only', () => {
+    const { checkoutResponse } = simulateFakePayment(order, 'paid');
+    assert.ok(checkoutResponse);
+    assert.equal(fakePaymentProvider.verifyCheckout('order_fake1', checkoutResponse), checkoutResponse.razorpay_payment_id);
+    assert.equal(fakePaymentProvider.verifyCheckout('order_fake2', checkoutResponse), null);
+    assert.equal(
+      fakePaymentProvider.verifyCheckout('order_fake1', { ...checkoutResponse, razorpay_payment_id: 'pay_other' }),
+      null
+    );
+  });
+});
+
+describe('handlePaymentEvent', () => {
+  let db: FakeDb;
+  beforeEach(() => {
+    db = paymentDb().install();
+  });
+
+  it('activates the plan once however often the event is delivered', async () => {
+    const order = addOrder(db);
+    await handlePaymentEvent(fakePaymentProvider, paidEvent(order));
+    await handlePaymentEvent(fakePaymentProvider, paidEvent(order));
+
+    assert.equal(order.status, 'paid');
+    assert.equal(db.table('subscriptions').length, 1);
+    assert.equal(db.table('invoices').length, 1);
+    assert.equal(db.table('payment_events').length, 1);
+    assert.equal(db.table('audit_logs').filter(row => row.action === 'subscription_activated').length, 1);
+  });
+
+  it('applies a different event for an order paid already only once', async () => {
+    const order = addOrder(db);
+    await handlePaymentEvent(fakePaymentProvider, paidEvent(order, 'evt_captured'));
+    await handlePaymentEvent(fakePaymentProvider, { ...paidEvent(order, 'evt_order_paid'), type: 'order.paid' });
+
+    assert.equal(db.table('invoices').length, 1);
+    assert.equal(db.table('payment_events').length, 2);
+  });
+
+  it('leaves an event whose activation failed to be applied on redelivery', async () => {
+    const order = addOrder(db);
+    let failures = 1;
+    db.on(/^INSERT INTO invoices/, () => {
+      if (failures-- > 0) {
+        throw new Error('Lock wait timeout exceeded');
+      }
+      return affected(1);
+    });
+
+    await assert.rejects(handlePaymentEvent(fakePaymentProvider, paidEvent(order)), /Lock wait timeout/);
+    const failed = db.tables.payment_orders.find(row => row.id === order.id)!;
+    assert.equal(failed.status, 'created');
+    assert.equal(db.table('subscriptions').length, 0);
+    assert.equal(db.table('payment_events').length, 0);
+
+    await handlePaymentEvent(fakePaymentProvider, paidEvent(order));
+    const paid = db.tables.payment_orders.find(row => row.id === order.id)!;
+    assert.equal(paid.status, 'paid');
+    assert.equal(db.table('subscriptions').length, 1);
+    assert.equal(db.table('payment_events').length, 1);
+  });
+
+  it('records but ignores a payment for the wrong amount', async () => {
+    const order = addOrder(db);
+    await quietly(() => handlePaymentEvent(fakePaymentProvider, { ...paidEvent(order), amount: 100 }));
+
+    assert.equal(order.status, 'created');
+    assert.equal(db.table('subscriptions').length, 0);
+    assert.equal(db.table('payment_events').length, 1);
+  });
+
+  it('marks the order failed on a failed payment', async () => {
+    const order = addOrder(db);
+    await handlePaymentEvent(fakePaymentProvider, { ...paidEvent(order), type: 'payment.failed', outcome: 'failed' });
+
+    assert.equal(order.status, 'failed');
+    assert.equal(db.table('payment_events').length, 1);
+  });
+
+  it('records events for unknown orders', async () => {
+    await handlePaymentEvent(fakePaymentProvider, {
+      ...paidEvent({ provider_order_id: 'order_unknown', amount: 100, currency: 'INR' }),
+    });
+    assert.deepEqual(
+      db.table('payment_events').map(row => row.order_id),
+      [null]
+    );
+  });
+});
+
+describe('completePaymentOrder', () => {
+  let db: FakeDb;
+  beforeEach(() => {
+    db = paymentDb().install();
+  });
+
+  it('starts a subscription for the billing period bought and invoices it', async () => {
+    const order = addOrder(db, { billing_period: 'quarterly', package_price_id: 'price-pro-quarterly' });
+    const subscription = await completePaymentOrder(order.id, 'pay_1');
+
+    assert.ok(subscription);
+    assert.equal(subscription.billing_period, 'quarterly');
+    assertAbout(fromSql(db.table('subscriptions')[0].renewal_date), renewalDate(new Date(), 'quarterly'));
+    assert.equal(db.table('users')[0].plan, 'Pro');
+    assert.equal(order.subscription_id, subscription.id);
+
+    const [invoice] = db.table('invoices');
+    assert.match(invoice.invoice_number, /^QAI\/\d{2}-\d{2}\/000001$/);
+    assert.equal(invoice.payment_order_id, order.id);
+    assert.equal(invoice.total_amount, 249900);
+  });
+
+  it('returns null for an order paid already', async () => {
+    const order = addOrder(db);
+    assert.ok(await completePaymentOrder(order.id, 'pay_1'));
+    assert.equal(await completePaymentOrder(order.id, 'pay_1'), null);
+    assert.equal(db.table('invoices').length, 1);
+  });
+
+  it('numbers invoices in sequence', async () => {
+    const first = addOrder(db);
+    const second = addOrder(db, { user_id: USER_ID });
+    await completePaymentOrder(first.id, 'pay_1');
+    db.table('subscriptions')[0].status = 'Cancelled';
+    await completePaymentOrder(second.id, 'pay_2');
+
+    assert.deepEqual(
+      db.table('invoices').map(row => row.invoice_number.slice(-6)),
+      ['000001', '000002']
+    );
+  });
+
+  it('extends a renewal of the same package from its current renewal date', async () => {
+    const paidUntil = new Date(Date.now() + 10 * DAY_MS);
+    paidUntil.setUTCMilliseconds(0);
+    const startedOn = new Date(paidUntil.getTime() - 30 * DAY_MS);
+    addSubscription(db, { renewal_date: toSql(paidUntil), start_date: toSql(startedOn) });
+    const order = addOrder(db);
+
+    const subscription = await completePaymentOrder(order.id, 'pay_1');
+
+    assert.equal(subscription?.id, 'sub-1');
+    const [renewed] = db.table('subscriptions');
+    assert.equal(db.table('subscriptions').length, 1);
+    assert.deepEqual(fromSql(renewed.renewal_date), renewalDate(paidUntil, 'monthly', startedOn));
+    assert.equal(renewed.start_date, toSql(startedOn));
+  });
+
+  it('renews a lapsed subscription from now', async () => {
+    addSubscription(db, { renewal_date: toSql(new Date(Date.now() - 3 * DAY_MS)) });
+    const order = addOrder(db);
+
+    await completePaymentOrder(order.id, 'pay_1');
+
+    assertAbout(fromSql(db.table('subscriptions')[0].renewal_date), renewalDate(new Date(), 'monthly'));
+  });
+
+  it('starts a different package from now', async () => {
+    addSubscription(db, { renewal_date: toSql(new Date(Date.now() + 10 * DAY_MS)) });
+    const order = addOrder(db, { package_id: 'pkg-elite', plan: 'Elite', billing_period: 'yearly' });
+
+    await completePaymentOrder(order.id, 'pay_1');
+
+    const [subscription] = db.table('subscriptions');
+    assert.equal(subscription.plan, 'Elite');
+    assertAbout(fromSql(subscription.renewal_date), renewalDate(new Date(), 'yearly'));
+    assertAbout(fromSql(subscription.start_date), new Date());
+  });
+
+  it('never replaces lifetime access', async () => {
+    addSubscription(db, { billing_period: 'lifetime', package_price_id: 'price-pro-lifetime' });
+    const order = addOrder(db, { package_id: 'pkg-elite', plan: 'Elite' });
+    assert.equal(await quietly(() => completePaymentOrder(order.id, 'pay_1')), null);
+
+    const [subscription] = db.table('subscriptions');
+    assert.equal(subscription.billing_period, 'lifetime');
+    assert.equal(subscription.plan, 'Pro');
+    assert.equal(order.status, 'paid');
+    assert.equal(order.subscription_id, 'sub-1');
+    assert.equal(db.table('invoices').length, 0);
+  });
+});
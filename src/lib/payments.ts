@@ -0,0 +1,300 @@
+/**
+ * Plan payments
+ *
+ * Payments go through a pluggable provider chosen with PAYMENT_PROVIDER:
+ * `razorpay` for real payments, or `fake`, a local stand-in with the same
+ * flow for development and tests (refused in production). When unset,
+ * Razorpay is used if RAZORPAY_KEY_ID is configured and the fake provider
+ * otherwise, outside production.
+ *
+ * The server creates the order for the plan's price, the browser completes
+ * checkout with the provider, and the plan is activated only when the
+ * provider's confirmation verifies: the signed checkout response or a
+ * signed webhook, whichever arrives first.
+ */
+
+import {
+  PaymentOrder,
+  getPackageById,
+  getSubscription,
+  createPaymentOrder,
+  getPaymentOrderByProviderId,
+  markPaymentOrderFailed,
+  completePaymentOrder,
+  isPaymentEventRecorded,
+  recordPaymentEvent,
+  logAuditAction,
+} from './db-auth';
+import { razorpayProvider } from './payment-razorpay';
+import { fakePaymentProvider } from './payment-fake';
+import { BILLING_PERIOD_LABELS, findPricePoint, packagePrice } from './pricing';
+import { Package, PackagePrice, Subscription } from './schema';
+
+export interface OrderRequest {
+  amount: number;
+  currency: string;
+  receipt: string; // our order id
+  notes: Record<string, string>;
+}
+
+// What the browser needs to open the provider's checkout
+export interface PaymentCheckout {
+  provider: string;
+  keyId?: string; // Razorpay publishable key
+  providerOrderId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  prefill: { name: string; email: string };
+}
+
+// A verified webhook event, reduced to what activation needs
+export interface PaymentEvent {
+  id: string;
+  type: string;
+  outcome: 'paid' | 'failed' | null; // null for events that don't settle a payment
+  providerOrderId: string | null;
+  providerPaymentId: string | null;
+  amount: number | null;
+  currency: string | null;
+  payload: unknown;
+}
+
+export interface PaymentProvider {
+  id: string;
+  // create the order at the provider; returns its order id
+  createOrder(order: OrderRequest): Promise<string>;
+  checkoutKey?(): string;
+  // the provider payment id if the checkout response's signature verifies
+  verifyCheckout(providerOrderId: string, response: Record<string, unknown>): string | null;
+  // null if the body's signature doesn't verify
+  parseWebhook(rawBody: string, headers: Headers): PaymentEvent | null;
+}
+
+// A package at the price point being bought
+export interface PackagePurchase {
+  pkg: Package;
+  pricePoint: PackagePrice;
+}
+
+export class PaymentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+const BUILT_IN_PROVIDERS: Record<string, PaymentProvider> = {
+  razorpay: razorpayProvider,
+  fake: fakePaymentProvider,
+};
+
+function configuredProviderName(): string | null {
+  if (process.env.PAYMENT_PROVIDER) {
+    return process.env.PAYMENT_PROVIDER;
+  }
+  if (process.env.RAZORPAY_KEY_ID) {
+    return 'razorpay';
+  }
+  return process.env.NODE_ENV === 'production' ? null : 'fake';
+}
+
+/**
+ * The configured provider, or null if payments are not set up
+ */
+export function getPaymentProvider(): PaymentProvider | null {
+  const name = configuredProviderName();
+  if (!name) {
+    return null;
+  }
+  const provider = BUILT_IN_PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`);
+  }
+  if (provider.id === 'fake' && process.env.NODE_ENV === 'production') {
+    throw new Error('The fake payment provider cannot be used in production');
+  }
+  return provider;
+}
+
+export function getPaymentProviderById(id: string): PaymentProvider | null {
+  const provider = getPaymentProvider();
+  return provider && provider.id === id ? provider : null;
+}
+
+/**
+ * What a payment request asks to buy, if it can be bought: an active
+ * package at a price point it offers, and not free. Requests name the
+ * package by id and the price point by billing period; the price is always
+ * taken from the database.
+ */
+export async function getPackagePurchase(
+  packageId: unknown,
+  billingPeriod: unknown
+): Promise<PackagePurchase | null> {
+  if (typeof packageId !== 'string' || !packageId) {
+    return null;
+  }
+  const pkg = await getPackageById(packageId);
+  if (!pkg || !pkg.active) {
+    return null;
+  }
+  const pricePoint = findPricePoint(pkg, billingPeriod);
+  return pricePoint && pricePoint.price > 0 ? { pkg, pricePoint } : null;
+}
+
+/**
+ * Lifetime access is never replaced by another purchase; throws if the user
+ * already has it
+ */
+export async function assertCanPurchase(userId: string): Promise<void> {
+  const subscription = await getSubscription(userId);
+  if (subscription && subscription.billing_period === 'lifetime') {
+    throw new PaymentError(`You already have lifetime access to ${subscription.plan}`, 409);
+  }
+}
+
+/**
+ * Create an order for a package at its server-side price
+ */
+export async function startPlanPayment(
+  provider: PaymentProvider,
+  user: { id: string; name: string; email: string },
+  { pkg, pricePoint }: PackagePurchase
+): Promise<{ orderId: string; checkout: PaymentCheckout }> {
+  await assertCanPurchase(user.id);
+  const price = packagePrice(pkg, pricePoint);
+  const receipt = `plan-${Date.now().toString(36)}`;
+
+  const providerOrderId = await provider.createOrder({
+    amount: price.amount,
+    currency: price.currency,
+    receipt,
+    notes: { user_id: user.id, package_id: pkg.id, billing_period: pricePoint.billing_period },
+  });
+  const orderId = await createPaymentOrder({
+    userId: user.id,
+    provider: provider.id,
+    providerOrderId,
+    packageId: pkg.id,
+    packagePriceId: pricePoint.id,
+    plan: pkg.name,
+    billingPeriod: pricePoint.billing_period,
+    amount: price.amount,
+    currency: price.currency,
+  });
+
+  return {
+    orderId,
+    checkout: {
+      provider: provider.id,
+      keyId: provider.checkoutKey?.(),
+      providerOrderId,
+      amount: price.amount,
+      currency: price.currency,
+      description: `${pkg.name} (${BILLING_PERIOD_LABELS[pricePoint.billing_period]})`,
+      prefill: { name: user.name, email: user.email },
+    },
+  };
+}
+
+async function activateOrder(
+  order: PaymentOrder,
+  providerPaymentId: string,
+  source: 'checkout' | 'webhook',
+  ipAddress?: string
+): Promise<Subscription | null> {
+  const subscription = await completePaymentOrder(order.id, providerPaymentId);
+  if (!subscription) {
+    return null;
+  }
+
+  await logAuditAction({
+    ...(source === 'checkout'
+      ? { userId: order.user_id, actorType: 'user' as const }
+      : { actorType: 'system' as const }),
+    action: 'subscription_activated',
+    entityType: 'subscription',
+    entityId: subscription.id,
+    changes: {
+      plan: order.plan,
+      package_id: order.package_id,
+      billing_period: order.billing_period,
+      user_id: order.user_id,
+      order_id: order.id,
+      provider: order.provider,
+      payment_id: providerPaymentId,
+      amount: order.amount,
+      currency: order.currency,
+      confirmed_by: source,
+    },
+    ipAddress,
+  });
+  return subscription;
+}
+
+/**
+ * Finish checkout from the response the provider gave the browser. The
+ * signature proves the provider confirmed the payment for this order.
+ */
+export async function confirmCheckout(
+  provider: PaymentProvider,
+  order: PaymentOrder,
+  response: Record<string, unknown>,
+  ipAddress: string
+): Promise<{ alreadyPaid: boolean }> {
+  const providerPaymentId = provider.verifyCheckout(order.provider_order_id, response);
+  if (!providerPaymentId) {
+    throw new PaymentError('Payment could not be verified');
+  }
+
+  const subscription = await activateOrder(order, providerPaymentId, 'checkout', ipAddress);
+  return { alreadyPaid: !subscription };
+}
+
+/**
+ * Apply a verified webhook event. Events for unknown orders and payments that
+ * don't match the order's amount are recorded (where possible) and otherwise
+ * ignored. An event is only recorded once it has been applied, so one whose
+ * activation failed is applied again when the provider redelivers it;
+ * activation itself only happens once per order.
+ */
+export async function handlePaymentEvent(provider: PaymentProvider, event: PaymentEvent): Promise<void> {
+  if (await isPaymentEventRecorded(provider.id, event.id)) {
+    return;
+  }
+
+  const order = event.providerOrderId
+    ? await getPaymentOrderByProviderId(provider.id, event.providerOrderId)
+    : null;
+  if (order && event.outcome) {
+    await applyPaymentOutcome(order, event);
+  }
+
+  await recordPaymentEvent({
+    provider: provider.id,
+    eventId: event.id,
+    eventType: event.type,
+    orderId: order ? order.id : null,
+    payload: event.payload,
+  });
+}
+
+async function applyPaymentOutcome(order: PaymentOrder, event: PaymentEvent): Promise<void> {
+  if (event.outcome === 'failed') {
+    await markPaymentOrderFailed(order.id);
+    return;
+  }
+
+  if (event.amount !== order.amount || (event.currency && event.currency !== order.currency)) {
+    console.warn(
+      `Payment event ${event.id} for order ${order.id} is for ${event.amount} ${event.currency}, expected ${order.amount} ${order.currency}`
+    );
+    return;
+  }
+  if (!event.providerPaymentId) {
+    return;
+  }
+
+  await activateOrder(order, event.providerPaymentId, 'webhook');
+}
@@ -0,0 +1,170 @@
+/**
+ * Minimal PDF writer
+ * Enough for invoices: one A4 page of text and ruled lines in the standard
+ * Helvetica fonts, which every PDF reader has, so no fonts are embedded.
+ * Those fonts only cover the Windows-1252 character set; anything else is
+ * printed as '?'.
+ */
+
+import { deflateSync } from 'zlib';
+
+export const PAGE_WIDTH = 595; // A4 in points
+export const PAGE_HEIGHT = 842;
+
+export interface PdfText {
+  x: number; // points from the left edge; the right end of the text if align is 'right'
+  y: number; // points from the top edge to the baseline
+  text: string;
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+export interface PdfLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width?: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  lines?: PdfLine[];
+}
+
+// Advance widths of the printable ASCII characters (32-126), per 1000 units
+// of font size, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// Characters outside Latin-1 that Windows-1252 has, by their byte
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+// Text as the font's single-byte codes, one JS character per byte
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (WIN_ANSI_EXTRAS[char]) {
+      encoded += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else if (code >= 32 && code <= 255 && (code < 0x7f || code >= 0xa0)) {
+      encoded += char;
+    } else {
+      encoded += '?';
+    }
+  }
+  return encoded;
+}
+
+export function textWidth(text: string, size: number, bold: boolean = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of encodeText(text)) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+function pdfString(text: string): string {
+  return `(${encodeText(text).replace(/[\\()]/g, match => `\\${match}`)})`;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function contentStream(page: PdfPage): string {
+  const ops: string[] = [];
+  for (const line of page.lines ?? []) {
+    ops.push(
+      `${num(line.width ?? 0.5)} w ${num(line.x1)} ${num(PAGE_HEIGHT - line.y1)} m ` +
+        `${num(line.x2)} ${num(PAGE_HEIGHT - line.y2)} l S`
+    );
+  }
+  for (const item of page.texts) {
+    const size = item.size ?? 10;
+    const x = item.align === 'right' ? item.x - textWidth(item.text, size, item.bold) : item.x;
+    ops.push(
+      `BT /${item.bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(x)} ${num(PAGE_HEIGHT - item.y)} Td ` +
+        `${pdfString(item.text)} Tj ET`
+    );
+  }
+  return ops.join('\n');
+}
+
+export function createPdf(page: PdfPage, title: string): Buffer {
+  const content = deflateSync(Buffer.from(contentStream(page), 'latin1'));
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'latin1'),
+    Buffer.from('<< /Type /Pages /Kids [3 0 R] /Count 1 >>', 'latin1'),
+    Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+      'latin1'
+    ),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>', 'latin1'),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>', 'latin1'),
+    Buffer.concat([
+      Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      content,
+      Buffer.from('\nendstream', 'latin1'),
+    ]),
+    Buffer.from(`<< /Title ${pdfString(title)} /Producer (Quantum Alpha India) >>`, 'latin1'),
+  ];
+
+  // the binary comment line tells tools the file is not plain text
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    const object = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+      body,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    offsets.push(offset);
+    parts.push(object);
+    offset += object.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  parts.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+  return Buffer.concat(parts);
+}
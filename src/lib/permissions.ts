@@ -0,0 +1,45 @@
+/**
+ * Role-based permissions
+ * Maps each role to the admin capabilities it grants. Shared by the server
+ * guards, the middleware and the admin UI, so it must stay free of server-only
+ * imports.
+ */
+
+export type Role = 'user' | 'admin' | 'superadmin';
+
+export type Permission =
+  | 'admin:access' // open the admin dashboard and admin APIs
+  | 'users:read'
+  | 'users:write' // create, edit, delete and unlock users
+  | 'users:impersonate' // view the app as a user, for support
+  | 'packages:write'
+  | 'payments:review' // approve or reject manually reported payments
+  | 'invoices:read' // view and export the invoice register
+  | 'settings:publish' // edit the live landing page
+  | 'admins:manage'; // add, remove and change other admins
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  'admin:access',
+  'users:read',
+  'users:write',
+  'users:impersonate',
+  'packages:write',
+  'payments:review',
+  'invoices:read',
+  'settings:publish',
+];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  user: [],
+  admin: ADMIN_PERMISSIONS,
+  // superadmin-only capabilities are listed here and nowhere else
+  superadmin: [...ADMIN_PERMISSIONS, 'admins:manage'],
+};
+
+export function getPermissions(role: string | undefined): Permission[] {
+  return ROLE_PERMISSIONS[role as Role] ?? [];
+}
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
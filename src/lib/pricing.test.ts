@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renewalDate } from './pricing';
+
+const utc = (text: string) => new Date(`${text}Z`);
+
+describe('renewalDate', () => {
+  it('renews on the same day of the month', () => {
+    assert.deepEqual(renewalDate(utc('2026-03-15T10:30:00'), 'monthly'), utc('2026-04-15T10:30:00'));
+    assert.deepEqual(renewalDate(utc('2026-03-15T10:30:00'), 'quarterly'), utc('2026-06-15T10:30:00'));
+    assert.deepEqual(renewalDate(utc('2026-03-15T10:30:00'), 'yearly'), utc('2027-03-15T10:30:00'));
+  });
+
+  it('renews on the last day of a shorter month', () => {
+    assert.deepEqual(renewalDate(utc('2026-01-31T08:00:00'), 'monthly'), utc('2026-02-28T08:00:00'));
+    assert.deepEqual(renewalDate(utc('2028-01-31T08:00:00'), 'monthly'), utc('2028-02-29T08:00:00'));
+    assert.deepEqual(renewalDate(utc('2026-03-31T08:00:00'), 'monthly'), utc('2026-04-30T08:00:00'));
+    assert.deepEqual(renewalDate(utc('2026-11-30T08:00:00'), 'quarterly'), utc('2027-02-28T08:00:00'));
+    assert.deepEqual(renewalDate(utc('2028-02-29T08:00:00'), 'yearly'), utc('2029-02-28T08:00:00'));
+  });
+
+  it('does not carry a short month over to the next renewal', () => {
+    const started = utc('2026-01-31T00:00:00');
+    const february = renewalDate(started, 'monthly', started)!;
+    assert.deepEqual(february, utc('2026-02-28T00:00:00'));
+    const march = renewalDate(february, 'monthly', started)!;
+    assert.deepEqual(march, utc('2026-03-31T00:00:00'));
+    assert.deepEqual(renewalDate(march, 'monthly', started), utc('2026-04-30T00:00:00'));
+  });
+
+  it('comes back to 29 February in leap years', () => {
+    const started = utc('2028-02-29T00:00:00');
+    const next = renewalDate(started, 'yearly', started)!;
+    assert.deepEqual(next, utc('2029-02-28T00:00:00'));
+    assert.deepEqual(renewalDate(utc('2031-02-28T00:00:00'), 'yearly', started), utc('2032-02-29T00:00:00'));
+  });
+
+  it('keeps the day of a renewal that is not on the billing day', () => {
+    assert.deepEqual(
+      renewalDate(utc('2026-02-20T00:00:00'), 'monthly', utc('2026-01-10T00:00:00')),
+      utc('2026-03-20T00:00:00')
+    );
+  });
+
+  it('crosses year ends', () => {
+    assert.deepEqual(renewalDate(utc('2026-12-31T23:59:59'), 'monthly'), utc('2027-01-31T23:59:59'));
+    assert.deepEqual(renewalDate(utc('2026-11-30T12:00:00'), 'quarterly'), utc('2027-02-28T12:00:00'));
+  });
+
+  it('has no renewal for lifetime access', () => {
+    assert.equal(renewalDate(utc('2026-01-31T00:00:00'), 'lifetime'), null);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Package pricing
+ * Packages are priced in major units (rupees) per billing period and older
+ * rows record the currency as a symbol, while payments and subscriptions use
+ * ISO 4217 codes and the smallest currency unit (paise). Shared by the server
+ * and the plan picker, so it must stay free of server-only imports.
+ */
+
+import { BILLING_PERIODS, type BillingPeriod, type Package, type PackagePrice } from './schema';
+
+export const BILLING_PERIOD_LABELS: Record<BillingPeriod, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+  lifetime: 'Lifetime',
+};
+
+export const BILLING_PERIOD_SUFFIXES: Record<BillingPeriod, string> = {
+  monthly: '/mo',
+  quarterly: '/quarter',
+  yearly: '/yr',
+  lifetime: ' one-time',
+};
+
+// months one payment covers; lifetime access never renews
+const BILLING_PERIOD_MONTHS: Record<BillingPeriod, number | null> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+  lifetime: null,
+};
+
+// symbols packages were created with before currencies were stored as codes
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '₹': 'INR',
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+};
+
+// plans are sold in India, so anything unrecognised is taken as rupees
+const DEFAULT_CURRENCY = 'INR';
+
+export function currencyCode(currency: string | null | undefined): string {
+  const value = (currency || '').trim();
+  if (/^[a-z]{3}$/i.test(value)) {
+    return value.toUpperCase();
+  }
+  return CURRENCY_SYMBOLS[value] || DEFAULT_CURRENCY;
+}
+
+export function isBillingPeriod(value: unknown): value is BillingPeriod {
+  return typeof value === 'string' && (BILLING_PERIODS as readonly string[]).includes(value);
+}
+
+/**
+ * A package's price points, shortest billing period first
+ */
+export function pricePoints(pkg: Pick<Package, 'prices'>): PackagePrice[] {
+  return [...(pkg.prices ?? [])].sort(
+    (a, b) => BILLING_PERIODS.indexOf(a.billing_period) - BILLING_PERIODS.indexOf(b.billing_period)
+  );
+}
+
+export function findPricePoint(pkg: Pick<Package, 'prices'>, period: unknown): PackagePrice | null {
+  return (pkg.prices ?? []).find(point => point.billing_period === period) ?? null;
+}
+
+/**
+ * What a price point costs, in the smallest currency unit
+ */
+export function packagePrice(
+  pkg: Pick<Package, 'currency'>,
+  pricePoint: Pick<PackagePrice, 'price'>
+): { amount: number; currency: string } {
+  return { amount: Math.round(pricePoint.price * 100), currency: currencyCode(pkg.currency) };
+}
+
+// 249900, 'INR' -> "₹2,499.00"
+export function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency }).format(amount / 100);
+}
+
+export function formatPackagePrice(pkg: Pick<Package, 'currency'>, pricePoint: Pick<PackagePrice, 'price'>): string {
+  const { amount, currency } = packagePrice(pkg, pricePoint);
+  return formatMoney(amount, currency);
+}
+
+// Days in a UTC month; the month may run past December
+function daysInMonth(year: number, month: number): number {
+  // day 0 of the following month is the last day of this one
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * When a subscription paid at `from` for one billing period renews, or null
+ * for lifetime access. It renews on its billing day, the day of the month it
+ * started on (`startedOn`, `from` by default), or on the last day of a
+ * shorter month: started on 31 January, a monthly plan renews on 28 (or 29)
+ * February and then on 31 March, and 29 February renews yearly on
+ * 28 February. A `from` that is not on the billing day keeps its own day.
+ * Dates are in UTC, like the database's.
+ */
+export function renewalDate(from: Date, period: BillingPeriod, startedOn: Date = from): Date | null {
+  const months = BILLING_PERIOD_MONTHS[period];
+  if (months === null) {
+    return null;
+  }
+  const year = from.getUTCFullYear();
+  const billingDay = startedOn.getUTCDate();
+  const onBillingDay = from.getUTCDate() === Math.min(billingDay, daysInMonth(year, from.getUTCMonth()));
+  const day = onBillingDay ? billingDay : from.getUTCDate();
+  const month = from.getUTCMonth() + months;
+
+  const date = new Date(from);
+  date.setUTCFullYear(year, month, Math.min(day, daysInMonth(year, month)));
+  return date;
+}
@@ -0,0 +1,124 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { checkRateLimit, consumeRateLimit, rateLimitHeaders } from './rate-limit';
+import { createTokenPair } from './jwt';
+import { ACCESS_COOKIE } from './auth-constants';
+
+const ENV_KEYS = ['TRUSTED_PROXIES', 'RATE_LIMIT_AUTH'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+function setEnv(values: Record<string, string | undefined>): void {
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      Object.assign(process.env, { [key]: value });
+    }
+  }
+}
+
+afterEach(() => {
+  setEnv(savedEnv);
+  mock.restoreAll();
+});
+
+// Freeze the clock the memory store refills by
+function clockAt(start: number): { advance(seconds: number): void } {
+  let now = start;
+  mock.method(Date, 'now', () => now);
+  return {
+    advance(seconds) {
+      now += seconds * 1000;
+    },
+  };
+}
+
+function request(headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest('http://localhost/api/auth/login', { method: 'POST', headers });
+}
+
+describe('consumeRateLimit', () => {
+  it('allows a burst, then refills evenly over the window', async () => {
+    setEnv({ RATE_LIMIT_AUTH: '3/60' });
+    const clock = clockAt(1_000_000);
+
+    for (const remaining of [2, 1, 0]) {
+      const result = await consumeRateLimit('auth', 'ip:burst');
+      assert.equal(result.allowed, true);
+      assert.equal(result.remaining, remaining);
+    }
+    const limited = await consumeRateLimit('auth', 'ip:burst');
+    assert.equal(limited.allowed, false);
+    assert.equal(limited.retryAfter, 20);
+    assert.equal(rateLimitHeaders(limited)['Retry-After'], '20');
+
+    clock.advance(20);
+    assert.equal((await consumeRateLimit('auth', 'ip:burst')).allowed, true);
+    assert.equal((await consumeRateLimit('auth', 'ip:burst')).allowed, false);
+  });
+
+  it('never refills beyond the burst size', async () => {
+    setEnv({ RATE_LIMIT_AUTH: '2/60' });
+    const clock = clockAt(2_000_000);
+
+    await consumeRateLimit('auth', 'ip:idle');
+    clock.advance(3600);
+    assert.equal((await consumeRateLimit('auth', 'ip:idle')).remaining, 1);
+  });
+
+  it('keeps separate buckets per caller and rule', async () => {
+    setEnv({ RATE_LIMIT_AUTH: '1/60' });
+    clockAt(3_000_000);
+
+    assert.equal((await consumeRateLimit('auth', 'ip:first')).allowed, true);
+    assert.equal((await consumeRateLimit('auth', 'ip:first')).allowed, false);
+    assert.equal((await consumeRateLimit('auth', 'ip:second')).allowed, true);
+    assert.equal((await consumeRateLimit('api', 'ip:first')).allowed, true);
+  });
+
+  it('ignores malformed rule overrides', async () => {
+    setEnv({ RATE_LIMIT_AUTH: 'ten/minute' });
+    clockAt(4_000_000);
+
+    assert.equal((await consumeRateLimit('auth', 'ip:defaults')).limit, 10);
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('limits anonymous callers per client IP', async () => {
+    setEnv({ TRUSTED_PROXIES: '10.0.0.1', RATE_LIMIT_AUTH: '1/60' });
+    clockAt(5_000_000);
+
+    const from = (ip: string) => request({ 'x-forwarded-for': `${ip}, 10.0.0.1` });
+    assert.equal((await checkRateLimit(from('198.51.100.1'), 'auth')).allowed, true);
+    assert.equal((await checkRateLimit(from('198.51.100.1'), 'auth')).allowed, false);
+    assert.equal((await checkRateLimit(from('198.51.100.2'), 'auth')).allowed, true);
+  });
+
+  it('does not put callers with an unknown IP in one shared bucket', async () => {
+    setEnv({ TRUSTED_PROXIES: undefined, RATE_LIMIT_AUTH: '1/60' });
+    clockAt(6_000_000);
+
+    for (let i = 0; i < 5; i++) {
+      const result = await checkRateLimit(request({ 'x-forwarded-for': `198.51.100.${i}` }), 'auth');
+      assert.equal(result.allowed, true);
+    }
+  });
+
+  it('limits signed-in callers per user whatever their IP', async () => {
+    setEnv({ TRUSTED_PROXIES: undefined, RATE_LIMIT_AUTH: '1/60' });
+    clockAt(7_000_000);
+    const { accessToken } = await createTokenPair({
+      userId: 'user-limited',
+      email: 'asha@example.com',
+      role: 'user',
+      accountType: 'user',
+      sid: 'family-1',
+    });
+    const signedIn = () => request({ cookie: `${ACCESS_COOKIE}=${accessToken}` });
+
+    assert.equal((await checkRateLimit(signedIn(), 'auth')).allowed, true);
+    assert.equal((await checkRateLimit(signedIn(), 'auth')).allowed, false);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Request rate limiting for API routes and server actions
+ *
+ * Token bucket per rule and caller: each bucket holds `capacity` tokens and
+ * refills at `capacity` tokens per `windowSeconds`. Callers are identified by
+ * their session's user id, or by client IP when there is no session. Anonymous
+ * callers whose IP is unknown can't be told apart, so they are not limited
+ * rather than all sharing one bucket.
+ *
+ * Buckets live in process memory by default. Deployments running more than
+ * one instance should set RATE_LIMIT_STORE=mysql so instances share them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { headers } from 'next/headers';
+import { takeRateLimitToken, deleteStaleRateLimitBuckets } from './db-auth';
+import { getRequestToken } from './auth-cookies';
+import { verifyJWT } from './jwt';
+import { getClientIp } from './client-ip';
+
+export interface RateLimitRule {
+  capacity: number; // burst size
+  windowSeconds: number; // time to refill an empty bucket
+}
+
+// Defaults per rule; override with RATE_LIMIT_<NAME>=capacity/windowSeconds,
+// e.g. RATE_LIMIT_AUTH=20/60
+const DEFAULT_RULES = {
+  // password, code and token submissions
+  auth: { capacity: 10, windowSeconds: 60 },
+  // endpoints that send email
+  email: { capacity: 5, windowSeconds: 15 * 60 },
+  // everything else under /api
+  api: { capacity: 60, windowSeconds: 60 },
+  admin: { capacity: 120, windowSeconds: 60 },
+  // server actions in src/app/actions.ts
+  action: { capacity: 60, windowSeconds: 60 },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitRuleName = keyof typeof DEFAULT_RULES;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfter: number; // seconds until the next request is allowed
+  reset: number; // seconds until the bucket is full again
+}
+
+interface RateLimitStore {
+  take(key: string, rule: RateLimitRule): Promise<{ allowed: boolean; tokens: number }>;
+}
+
+function getRule(name: RateLimitRuleName): RateLimitRule {
+  const configured = process.env[`RATE_LIMIT_${name.toUpperCase()}`];
+  if (configured) {
+    const [capacity, windowSeconds] = configured.split('/').map(Number);
+    if (capacity > 0 && windowSeconds > 0) {
+      return { capacity, windowSeconds };
+    }
+  }
+  return DEFAULT_RULES[name];
+}
+
+function refillPerSecond(rule: RateLimitRule): number {
+  return rule.capacity / rule.windowSeconds;
+}
+
+// --- Stores ---
+
+const MAX_MEMORY_BUCKETS = 10000;
+
+function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number; windowMs: number }>();
+
+  // Buckets that have had time to refill completely are the same as new ones
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      if (now - bucket.updatedAt >= bucket.windowMs) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  return {
+    async take(key, rule) {
+      const now = Date.now();
+      if (buckets.size >= MAX_MEMORY_BUCKETS) {
+        prune(now);
+      }
+
+      const bucket = buckets.get(key);
+      const elapsedSeconds = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+      const tokens = bucket
+        ? Math.min(rule.capacity, bucket.tokens + elapsedSeconds * refillPerSecond(rule))
+        : rule.capacity;
+      const allowed = tokens >= 1;
+      const remaining = allowed ? tokens - 1 : tokens;
+
+      buckets.set(key, { tokens: remaining, updatedAt: now, windowMs: rule.windowSeconds * 1000 });
+      return { allowed, tokens: remaining };
+    },
+  };
+}
+
+// roughly one request in this many also deletes idle buckets
+const MYSQL_CLEANUP_INTERVAL = 500;
+const MYSQL_BUCKET_TTL_SECONDS = 24 * 60 * 60;
+
+function createMysqlStore(): RateLimitStore {
+  return {
+    async take(key, rule) {
+      if (Math.random() * MYSQL_CLEANUP_INTERVAL < 1) {
+        deleteStaleRateLimitBuckets(MYSQL_BUCKET_TTL_SECONDS).catch(error =>
+          console.error('Rate limit cleanup error:', error)
+        );
+      }
+
+      const bucket = await takeRateLimitToken(key, rule.capacity, refillPerSecond(rule));
+      return { allowed: bucket.allowed === 1, tokens: bucket.tokens };
+    },
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+function getStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.RATE_LIMIT_STORE === 'mysql' ? createMysqlStore() : createMemoryStore();
+  }
+  return store;
+}
+
+// --- Limiting ---
+
+/**
+ * Take a token from the caller's bucket for a rule. `identity` should be
+ * `user:<id>` or `ip:<address>`.
+ */
+export async function consumeRateLimit(
+  ruleName: RateLimitRuleName,
+  identity: string
+): Promise<RateLimitResult> {
+  const rule = getRule(ruleName);
+  const { allowed, tokens } = await getStore().take(`${ruleName}:${identity}`, rule);
+  const rate = refillPerSecond(rule);
+
+  return {
+    allowed,
+    limit: rule.capacity,
+    remaining: Math.max(Math.floor(tokens), 0),
+    retryAfter: allowed ? 0 : Math.max(Math.ceil((1 - tokens) / rate), 1),
+    reset: Math.ceil((rule.capacity - tokens) / rate),
+  };
+}
+
+// The bucket owner for a caller, or null for an anonymous caller whose IP
+// is unknown
+function callerIdentity(userId: string | undefined, requestHeaders: Headers): string | null {
+  if (userId) {
+    return `user:${userId}`;
+  }
+  const ipAddress = getClientIp(requestHeaders);
+  return ipAddress !== 'unknown' ? `ip:${ipAddress}` : null;
+}
+
+/**
+ * Rate limit a route handler request. Signed-in callers are limited per
+ * user, everyone else per client IP.
+ */
+export async function checkRateLimit(
+  request: NextRequest,
+  ruleName: RateLimitRuleName
+): Promise<RateLimitResult> {
+  const token = getRequestToken(request);
+  const payload = token ? await verifyJWT(token) : null;
+  const identity = callerIdentity(payload?.userId, request.headers);
+  if (!identity) {
+    const { capacity } = getRule(ruleName);
+    return { allowed: true, limit: capacity, remaining: capacity, retryAfter: 0, reset: 0 };
+  }
+
+  return consumeRateLimit(ruleName, identity);
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const values: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.reset),
+  };
+  if (!result.allowed) {
+    values['Retry-After'] = String(result.retryAfter);
+  }
+  return values;
+}
+
+/**
+ * 429 response for a request over its rate limit
+ */
+export function rateLimitedResponse(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    {
+      error: 'Too many requests. Please try again later.',
+      code: 'rate_limited',
+      retryAfter: result.retryAfter,
+    },
+    { status: 429, headers: rateLimitHeaders(result) }
+  );
+}
+
+export class RateLimitError extends Error {
+  constructor(public retryAfter: number) {
+    super(`Too many requests. Try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Rate limit a server action. Pass the signed-in user's id when there is
+ * one; otherwise the client IP is used. Throws RateLimitError when over the
+ * limit.
+ */
+export async function enforceActionRateLimit(
+  userId?: string,
+  ruleName: RateLimitRuleName = 'action'
+): Promise<void> {
+  const identity = callerIdentity(userId, await headers());
+  if (!identity) {
+    return;
+  }
+  const result = await consumeRateLimit(ruleName, identity);
+  if (!result.allowed) {
+    throw new RateLimitError(result.retryAfter);
+  }
+}
@@ -1,39 +1,54 @@
 import { z } from 'zod';
 
-export const PlanSchema = z.object({
-  name: z.enum(['Starter', 'Pro', 'Expert']),
-  price: z.string(),
-  features: z.array(z.string()),
-});
+// how often a subscription is paid for; lifetime access is paid once
+export const BILLING_PERIODS = ['monthly', 'quarterly', 'yearly', 'lifetime'] as const;
+export const BillingPeriodSchema = z.enum(BILLING_PERIODS);
 
 export const SubscriptionSchema = z.object({
   id: z.string(),
-  plan: z.enum(['Starter', 'Pro', 'Expert']),
-  status: z.enum(['Active', 'Cancelled', 'Inactive']),
-  renewal_date: z.string().optional(), // Stored as ISO string
+  package_id: z.string().nullable().optional(), // null once the package is deleted
+  package_price_id: z.string().nullable().optional(), // price point bought
+  // name, price and billing period of the package when it was bought
+  plan: z.string(),
+  amount: z.number().nullable().optional(), // smallest currency unit (paise)
+  currency: z.string().nullable().optional(),
+  billing_period: BillingPeriodSchema.optional(),
+  status: z.enum(['Active', 'Cancelled', 'Inactive', 'pending_payment', 'Rejected']),
+  renewal_date: z.string().nullable().optional(), // Stored as ISO string; null for lifetime access
 });
 
 export const UserSchema = z.object({
   id: z.string(), // UUID from database
   name: z.string(),
   email: z.string().email(),
-  plan: z.enum(['Starter', 'Pro', 'Expert']).optional().default('Starter'),
-  status: z.enum(['Active', 'Cancelled']).optional().default('Active'),
+  plan: z.string().nullable().optional(), // package name of the active subscription
+  status: z.enum(['Active', 'Cancelled', 'pending_verification']).optional().default('Active'),
   role: z.enum(['user', 'admin', 'superadmin']).default('user'),
   subscription: SubscriptionSchema.optional(),
 });
 
-export type Plan = z.infer<typeof PlanSchema>;
+export type BillingPeriod = z.infer<typeof BillingPeriodSchema>;
 export type Subscription = z.infer<typeof SubscriptionSchema>;
 export type User = z.infer<typeof UserSchema>;
 
+// a package's price for one billing period
+export const PackagePriceSchema = z.object({
+  id: z.string(),
+  billing_period: BillingPeriodSchema,
+  price: z.number().min(0), // major units (rupees)
+  savings_label: z.string().max(50).nullable().optional(), // e.g. "Save 20%"
+});
+
+export type PackagePrice = z.infer<typeof PackagePriceSchema>;
+
 // schema for trading packages
 export const PackageSchema = z.object({
   id: z.string(),
   name: z.string().min(1).max(255),
   description: z.string().optional(),
-  price: z.number().min(0),
-  currency: z.string().default('USD'),
+  price: z.number().min(0), // headline price: the shortest billing period's
+  currency: z.string().default('INR'), // ISO 4217 code
+  prices: z.array(PackagePriceSchema).optional(),
   features: z.array(z.string()).optional(),
   active: z.boolean().default(true),
   display_order: z.number().int().default(0),
@@ -0,0 +1,189 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { FakeDb, Row, affected } from '../test/fake-db';
+import { hashToken } from './tokens';
+import { issueSession, rotateRefreshToken, SessionAccount } from './session';
+import { revokeOwnedSessionFamily } from './db-auth';
+
+const account: SessionAccount = {
+  id: 'user-1',
+  email: 'asha@example.com',
+  role: 'user',
+  accountType: 'user',
+};
+
+const request = new NextRequest('http://localhost/api/auth/refresh', {
+  method: 'POST',
+  headers: { 'user-agent': 'test' },
+});
+
+function fromSql(value: string): Date {
+  return new Date(`${value.replace(' ', 'T')}Z`);
+}
+
+function isLive(row: Row): boolean {
+  return !row.revoked_at && row.expires_at > new Date();
+}
+
+/**
+ * The user_sessions table and the user the sessions belong to
+ */
+function sessionDb(): FakeDb {
+  const db = new FakeDb();
+  db.table('users').push({ id: account.id, email: account.email, name: 'Asha Rao', role: 'user', status: 'Active' });
+
+  return db
+    .on(/^SELECT id, email, name, role, plan, status FROM users WHERE id = \?/, ([id], db) =>
+      db.table('users').filter(row => row.id === id)
+    )
+    .on(/^INSERT INTO user_sessions/, ([id, ownerId, familyId, token, , , expiresAt], db) => {
+      db.table('user_sessions').push({
+        id,
+        user_id: ownerId,
+        family_id: familyId,
+        session_token: token,
+        expires_at: fromSql(expiresAt),
+        revoked_at: null,
+        replaced_by: null,
+      });
+      return affected(1);
+    })
+    .on(/^SELECT id, user_id AS owner_id, .* FROM user_sessions WHERE session_token = \?/, ([token], db) =>
+      db
+        .table('user_sessions')
+        .filter(row => row.session_token === token)
+        .map(row => ({ ...row, owner_id: row.user_id }))
+    )
+    .on(/^UPDATE user_sessions SET revoked_at = NOW\(\), replaced_by = \? WHERE id = \? AND revoked_at IS NULL/, ([replacement, id], db) => {
+      const session = db.table('user_sessions').find(row => row.id === id && !row.revoked_at);
+      if (session) {
+        Object.assign(session, { revoked_at: new Date(), replaced_by: replacement });
+      }
+      return affected(session ? 1 : 0);
+    })
+    .on(/^SELECT id FROM user_sessions WHERE id = \? AND replaced_by IS NOT NULL AND revoked_at > NOW\(\) - INTERVAL \? SECOND/, ([id, seconds], db) =>
+      db
+        .table('user_sessions')
+        .filter(row => row.id === id && row.replaced_by && row.revoked_at > new Date(Date.now() - seconds * 1000))
+    )
+    .on(/^SELECT id FROM user_sessions WHERE family_id = \? AND revoked_at IS NULL/, ([familyId], db) =>
+      db.table('user_sessions').filter(row => row.family_id === familyId && isLive(row))
+    )
+    .on(/^UPDATE user_sessions SET revoked_at = NOW\(\) WHERE family_id = \? AND revoked_at IS NULL/, ([familyId], db) => {
+      const sessions = db.table('user_sessions').filter(row => row.family_id === familyId && !row.revoked_at);
+      sessions.forEach(row => (row.revoked_at = new Date()));
+      return affected(sessions.length);
+    })
+    .on(/^UPDATE user_sessions SET revoked_at = NOW\(\) WHERE family_id = \? AND user_id = \? AND revoked_at IS NULL/, ([familyId, ownerId], db) => {
+      const sessions = db
+        .table('user_sessions')
+        .filter(row => row.family_id === familyId && row.user_id === ownerId && !row.revoked_at);
+      sessions.forEach(row => (row.revoked_at = new Date()));
+      return affected(sessions.length);
+    })
+    .on(/^INSERT INTO audit_logs/, ([id, userId, actorType, , action, entityType, entityId, changes], db) => {
+      db.table('audit_logs').push({ id, user_id: userId, actor_type: actorType, action, entity_type: entityType, entity_id: entityId, changes });
+      return affected(1);
+    });
+}
+
+describe('rotateRefreshToken', () => {
+  let db: FakeDb;
+  beforeEach(() => {
+    db = sessionDb().install();
+  });
+
+  function sessionFor(refreshToken: string): Row {
+    return db.table('user_sessions').find(row => row.session_token === hashToken(refreshToken))!;
+  }
+
+  it('replaces the refresh token with a new one in the same family', async () => {
+    const issued = await issueSession(account, request);
+    const result = await rotateRefreshToken(issued.refreshToken, request);
+
+    assert.ok(result.ok);
+    assert.equal(result.session.sessionId, issued.sessionId);
+    const old = sessionFor(issued.refreshToken);
+    const replacement = sessionFor(result.session.refreshToken);
+    assert.ok(old.revoked_at);
+    assert.equal(old.replaced_by, replacement.id);
+    assert.equal(replacement.family_id, issued.sessionId);
+    assert.equal(replacement.revoked_at, null);
+  });
+
+  it('lets a concurrent refresh with the same token through', async () => {
+    const issued = await issueSession(account, request);
+    const first = await rotateRefreshToken(issued.refreshToken, request);
+    const second = await rotateRefreshToken(issued.refreshToken, request);
+
+    assert.ok(first.ok && second.ok);
+    assert.notEqual(first.session.refreshToken, second.session.refreshToken);
+    assert.equal(sessionFor(second.session.refreshToken).family_id, issued.sessionId);
+    assert.equal(sessionFor(first.session.refreshToken).revoked_at, null);
+    assert.equal(db.table('audit_logs').length, 0);
+  });
+
+  it('signs a device out with every token of a concurrent refresh', async () => {
+    const issued = await issueSession(account, request);
+    const first = await rotateRefreshToken(issued.refreshToken, request);
+    const second = await rotateRefreshToken(issued.refreshToken, request);
+    assert.ok(first.ok && second.ok);
+
+    assert.equal(await revokeOwnedSessionFamily('user', 'someone-else', issued.sessionId), false);
+    assert.equal(await revokeOwnedSessionFamily('user', account.id, issued.sessionId), true);
+
+    for (const token of [first.session.refreshToken, second.session.refreshToken]) {
+      assert.deepEqual(await rotateRefreshToken(token, request), { ok: false, reason: 'invalid' });
+    }
+  });
+
+  it('revokes the family when a rotated token is used again later', async () => {
+    const issued = await issueSession(account, request);
+    const rotated = await rotateRefreshToken(issued.refreshToken, request);
+    assert.ok(rotated.ok);
+    sessionFor(issued.refreshToken).revoked_at = new Date(Date.now() - 60 * 1000);
+
+    const result = await rotateRefreshToken(issued.refreshToken, request);
+
+    assert.deepEqual(result, { ok: false, reason: 'reused' });
+    assert.ok(sessionFor(rotated.session.refreshToken).revoked_at);
+    assert.deepEqual(
+      db.table('audit_logs').map(row => [row.action, row.entity_id]),
+      [['refresh_token_reuse', issued.sessionId]]
+    );
+    assert.deepEqual(await rotateRefreshToken(rotated.session.refreshToken, request), { ok: false, reason: 'invalid' });
+  });
+
+  it('rejects a token revoked by logging out without treating it as reuse', async () => {
+    const issued = await issueSession(account, request);
+    sessionFor(issued.refreshToken).revoked_at = new Date();
+
+    assert.deepEqual(await rotateRefreshToken(issued.refreshToken, request), { ok: false, reason: 'invalid' });
+    assert.equal(db.table('audit_logs').length, 0);
+  });
+
+  it('rejects a concurrent refresh after the session was logged out', async () => {
+    const issued = await issueSession(account, request);
+    const rotated = await rotateRefreshToken(issued.refreshToken, request);
+    assert.ok(rotated.ok);
+    sessionFor(rotated.session.refreshToken).revoked_at = new Date();
+
+    assert.deepEqual(await rotateRefreshToken(issued.refreshToken, request), { ok: false, reason: 'invalid' });
+    assert.equal(db.table('user_sessions').length, 2);
+  });
+
+  it('ends the family of an account that is no longer active', async () => {
+    const issued = await issueSession(account, request);
+    db.table('users')[0].status = 'Inactive';
+
+    assert.deepEqual(await rotateRefreshToken(issued.refreshToken, request), { ok: false, reason: 'invalid' });
+    assert.ok(sessionFor(issued.refreshToken).revoked_at);
+  });
+
+  it('rejects a token that is not a refresh token', async () => {
+    const issued = await issueSession(account, request);
+
+    assert.deepEqual(await rotateRefreshToken(issued.accessToken, request), { ok: false, reason: 'invalid' });
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Session management
+ * Issues access/refresh token pairs backed by the session tables, rotates
+ * refresh tokens with reuse detection and resolves the current session from
+ * cookies in route handlers and server actions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies, headers } from 'next/headers';
+import { randomUUID } from 'crypto';
+import { ACCESS_COOKIE } from './auth-constants';
+import { isBearerAuthEnabled, setSessionCookies, wantsBearerTransport } from './auth-cookies';
+import { createTokenPair, verifyJWT, JWTPayload, Impersonator } from './jwt';
+import { hashToken } from './tokens';
+import {
+  AccountType,
+  createSession,
+  getSessionByToken,
+  rotateSession,
+  wasSessionRotatedWithin,
+  revokeSessionFamily,
+  revokeAllSessions,
+  isSessionFamilyActive,
+  getUserById,
+  getAdminById,
+  logAuditAction,
+} from './db-auth';
+import { getClientIp } from './client-ip';
+import { hasPermission } from './permissions';
+
+export interface SessionAccount {
+  id: string;
+  email: string;
+  role: JWTPayload['role'];
+  accountType: AccountType;
+  // set when the login was completed with a second factor
+  mfa?: boolean;
+  // set when an admin is viewing the app as this account
+  impersonator?: Impersonator;
+}
+
+export interface IssuedSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: string; // access token expiry, ISO string
+  sessionId: string; // refresh token family id
+}
+
+// A refresh token used again this soon after its rotation is taken to be a
+// second tab refreshing at the same moment rather than a copied token
+const ROTATION_GRACE_SECONDS = 10;
+
+export type RefreshResult =
+  | { ok: true; session: IssuedSession; account: SessionAccount }
+  | { ok: false; reason: 'invalid' | 'reused' };
+
+/**
+ * Verify an access token and make sure its session has not been revoked.
+ *
+ * Use this instead of verifyJWT wherever a request is authenticated. Tokens
+ * that are not tied to a session cannot be revoked and are rejected.
+ */
+export async function authenticateToken(token: string): Promise<JWTPayload | null> {
+  const payload = await verifyJWT(token);
+  if (!payload || !payload.sid) {
+    return null;
+  }
+
+  if (payload.impersonator && isImpersonationOver(payload.impersonator)) {
+    return null;
+  }
+
+  const active = await isSessionFamilyActive(payload.accountType || 'user', payload.sid);
+  return active ? payload : null;
+}
+
+/**
+ * Get the authenticated session for the current request.
+ *
+ * Reads the httpOnly session cookie, falling back to an Authorization bearer
+ * token while those are still accepted. Works in route handlers and server
+ * actions; server actions are additionally protected against CSRF by Next.js
+ * comparing the Origin and Host headers.
+ */
+export async function getSession(): Promise<JWTPayload | null> {
+  const cookieStore = await cookies();
+  const cookieToken = cookieStore.get(ACCESS_COOKIE)?.value;
+  if (cookieToken) {
+    return authenticateToken(cookieToken);
+  }
+
+  if (isBearerAuthEnabled()) {
+    const authHeader = (await headers()).get('authorization');
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      return authenticateToken(authHeader.substring(7));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build a JSON response that hands a session to the client: as httpOnly
+ * cookies for browsers, or in the body for clients that asked for bearer
+ * tokens.
+ */
+export function sessionResponse(
+  request: NextRequest,
+  body: Record<string, any>,
+  session: IssuedSession,
+  status: number = 200
+): NextResponse {
+  if (wantsBearerTransport(request)) {
+    return NextResponse.json(
+      {
+        ...body,
+        token: session.accessToken,
+        refreshToken: session.refreshToken,
+        expiresAt: session.expiresAt,
+      },
+      { status }
+    );
+  }
+
+  const response = NextResponse.json(
+    { ...body, expiresAt: session.expiresAt },
+    { status }
+  );
+  setSessionCookies(response, session);
+  return response;
+}
+
+/**
+ * End the session an access token belongs to
+ */
+export async function revokeSession(payload: JWTPayload): Promise<void> {
+  if (payload.sid) {
+    await revokeSessionFamily(payload.accountType || 'user', payload.sid);
+  }
+}
+
+/**
+ * End every session of the account an access token belongs to
+ */
+export async function revokeAccountSessions(payload: JWTPayload): Promise<number> {
+  return revokeAllSessions(payload.accountType || 'user', payload.userId);
+}
+
+/**
+ * Audit log actor fields for the account an access token belongs to.
+ * Actions taken while impersonating are attributed to the admin; the user
+ * is still recorded as the entity.
+ */
+export function auditActor(payload: JWTPayload): { userId: string; actorType: AccountType } {
+  if (payload.impersonator) {
+    return { userId: payload.impersonator.id, actorType: payload.impersonator.accountType };
+  }
+  return { userId: payload.userId, actorType: payload.accountType || 'user' };
+}
+
+function isImpersonationOver(impersonator: Impersonator): boolean {
+  return impersonator.until * 1000 <= Date.now();
+}
+
+// The admin behind an impersonation must still exist and be allowed to do it
+async function canStillImpersonate(impersonator: Impersonator): Promise<boolean> {
+  if (isImpersonationOver(impersonator)) {
+    return false;
+  }
+  const admin =
+    impersonator.accountType === 'admin'
+      ? await getAdminById(impersonator.id)
+      : await getUserById(impersonator.id);
+  return !!admin && admin.status === 'Active' && hasPermission(admin.role, 'users:impersonate');
+}
+
+/**
+ * Start a new session (refresh token family) for an account
+ */
+export async function issueSession(
+  account: SessionAccount,
+  request: NextRequest
+): Promise<IssuedSession> {
+  const { session, refreshTokenHash, refreshTokenExpiresAt } = await createSessionTokens(account, randomUUID());
+  await createSession(
+    account.accountType,
+    account.id,
+    refreshTokenHash,
+    refreshTokenExpiresAt,
+    session.sessionId,
+    request.headers.get('user-agent') || undefined,
+    getClientIp(request.headers)
+  );
+  return session;
+}
+
+/**
+ * Exchange a refresh token for a new token pair.
+ *
+ * Every refresh token is single use. Presenting one that has already been
+ * rotated means it was copied, so the whole family is revoked and both the
+ * attacker and the legitimate client have to log in again. The exception is
+ * a token rotated in the last few seconds while its family is still active:
+ * that is two tabs refreshing at once, and the later one gets its own token
+ * pair in the family.
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  request: NextRequest
+): Promise<RefreshResult> {
+  const payload = await verifyJWT(refreshToken, 'refresh');
+  if (!payload || !payload.sid) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const accountType = payload.accountType || 'user';
+  const tokenHash = hashToken(refreshToken);
+  const record = await getSessionByToken(accountType, tokenHash);
+  if (!record || record.family_id !== payload.sid) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  if (new Date(record.expires_at).getTime() <= Date.now()) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  // Re-read the account so role changes and cancellations take effect
+  const current =
+    accountType === 'admin'
+      ? await getAdminById(payload.userId)
+      : await getUserById(payload.userId);
+  if (!current || current.status !== 'Active') {
+    await revokeSessionFamily(accountType, record.family_id);
+    return { ok: false, reason: 'invalid' };
+  }
+
+  if (payload.impersonator && !(await canStillImpersonate(payload.impersonator))) {
+    await revokeSessionFamily(accountType, record.family_id);
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const account: SessionAccount = {
+    id: current.id,
+    email: current.email,
+    role: current.role as JWTPayload['role'],
+    accountType,
+    mfa: payload.mfa,
+    impersonator: payload.impersonator,
+  };
+  const userAgent = request.headers.get('user-agent') || undefined;
+  const ipAddress = getClientIp(request.headers);
+
+  const { session, refreshTokenHash, refreshTokenExpiresAt } = await createSessionTokens(
+    account,
+    record.family_id
+  );
+
+  if (!record.revoked_at) {
+    const rotated = await rotateSession(
+      accountType,
+      record.id,
+      account.id,
+      refreshTokenHash,
+      refreshTokenExpiresAt,
+      record.family_id,
+      userAgent,
+      ipAddress
+    );
+    if (rotated) {
+      return { ok: true, session, account };
+    }
+  }
+
+  // The token has been used before; read it again in case a concurrent
+  // request rotated it after the first read
+  const used = (await getSessionByToken(accountType, tokenHash)) ?? record;
+
+  // Only a token that was rotated (not one revoked by logout) is a replay
+  if (!used.replaced_by) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  if (await wasSessionRotatedWithin(accountType, record.id, ROTATION_GRACE_SECONDS)) {
+    if (!(await isSessionFamilyActive(accountType, record.family_id))) {
+      return { ok: false, reason: 'invalid' };
+    }
+    await createSession(
+      accountType,
+      account.id,
+      refreshTokenHash,
+      refreshTokenExpiresAt,
+      record.family_id,
+      userAgent,
+      ipAddress
+    );
+    return { ok: true, session, account };
+  }
+
+  await revokeSessionFamily(accountType, record.family_id);
+  await logAuditAction({
+    userId: payload.userId,
+    actorType: accountType,
+    action: 'refresh_token_reuse',
+    entityType: 'session',
+    entityId: record.family_id,
+    ipAddress,
+  });
+  return { ok: false, reason: 'reused' };
+}
+
+// A token pair for the account in a session family, with what the session
+// table stores of its refresh token
+async function createSessionTokens(
+  account: SessionAccount,
+  familyId: string
+): Promise<{ session: IssuedSession; refreshTokenHash: string; refreshTokenExpiresAt: Date }> {
+  const { accessToken, refreshToken, accessTokenExpiresAt, refreshTokenExpiresAt } =
+    await createTokenPair({
+      userId: account.id,
+      email: account.email,
+      role: account.role,
+      accountType: account.accountType,
+      sid: familyId,
+      ...(account.mfa ? { mfa: true } : {}),
+      ...(account.impersonator ? { impersonator: account.impersonator } : {}),
+    });
+
+  return {
+    session: {
+      accessToken,
+      refreshToken,
+      expiresAt: accessTokenExpiresAt.toISOString(),
+      sessionId: familyId,
+    },
+    refreshTokenHash: hashToken(refreshToken),
+    refreshTokenExpiresAt,
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * Opaque token helpers
+ * Tokens handed to clients are only ever stored as SHA-256 hashes
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Generate a URL-safe random token
+ */
+export function generateToken(bytes: number = 32): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Hash a token for storage and lookup
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
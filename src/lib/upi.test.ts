@@ -0,0 +1,75 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeDb, affected } from '../test/fake-db';
+import { PaymentError } from './payments';
+import { buildUpiIntent, formatUpiAmount, generateUpiReference, startUpiPayment, UpiPayee } from './upi';
+import type { Package, PackagePrice } from './schema';
+
+const payee: UpiPayee = { vpa: 'business@okbank', name: 'Quantum Alpha India' };
+const monthly: PackagePrice = { id: 'price-pro-monthly', billing_period: 'monthly', price: 2499 };
+
+function purchase(currency: string): { pkg: Package; pricePoint: PackagePrice } {
+  return {
+    pkg: { id: 'pkg-pro', name: 'Pro', price: 2499, currency, active: true, display_order: 0 },
+    pricePoint: monthly,
+  };
+}
+
+describe('UPI intents', () => {
+  it('fix the amount in rupees and bind the reference', () => {
+    const uri = buildUpiIntent({ payee, amount: 249900, reference: 'QAIREF1', note: 'Pro QAIREF1' });
+    const params = new URL(uri).searchParams;
+
+    assert.ok(uri.startsWith('upi://pay?'));
+    assert.equal(params.get('pa'), 'business@okbank');
+    assert.equal(params.get('am'), '2499.00');
+    assert.equal(params.get('cu'), 'INR');
+    assert.equal(params.get('tr'), 'QAIREF1');
+    assert.equal(params.get('mc'), null);
+    assert.ok(!uri.includes('+'), 'spaces are encoded as %20');
+  });
+
+  it('format paise as rupees with two decimals', () => {
+    assert.equal(formatUpiAmount(249900), '2499.00');
+    assert.equal(formatUpiAmount(5), '0.05');
+  });
+
+  it('have unique alphanumeric references that fit UPI', () => {
+    const first = generateUpiReference();
+    assert.match(first, /^QAI[0-9A-Z]+$/);
+    assert.ok(first.length <= 35);
+    assert.notEqual(first, generateUpiReference());
+  });
+});
+
+describe('startUpiPayment', () => {
+  let db: FakeDb;
+  beforeEach(() => {
+    db = new FakeDb()
+      .on(/^SELECT id, package_id, .* FROM subscriptions WHERE user_id = \? AND status = 'Active'/, () => [])
+      .on(/^INSERT INTO payment_attempts/, ([id, userId, reference, , , , , , amount, currency], db) => {
+        db.table('payment_attempts').push({ id, user_id: userId, reference, amount, currency });
+        return affected(1);
+      })
+      .install();
+  });
+
+  it('records the attempt and returns a QR for the exact price', async () => {
+    const payment = await startUpiPayment(payee, 'user-1', purchase('INR'));
+
+    const [attempt] = db.table('payment_attempts');
+    assert.equal(attempt.id, payment.attemptId);
+    assert.equal(attempt.reference, payment.reference);
+    assert.deepEqual([attempt.amount, attempt.currency], [249900, 'INR']);
+    assert.equal(new URL(payment.intentUri).searchParams.get('tr'), payment.reference);
+    assert.match(payment.qrCode, /^data:image\/png;base64,/);
+  });
+
+  it('refuses packages priced in another currency', async () => {
+    await assert.rejects(
+      startUpiPayment(payee, 'user-1', purchase('USD')),
+      (error: unknown) => error instanceof PaymentError && error.status === 400 && /USD/.test(error.message)
+    );
+    assert.equal(db.table('payment_attempts').length, 0);
+  });
+});
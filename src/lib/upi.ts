@@ -0,0 +1,147 @@
+/**
+ * UPI payment requests
+ *
+ * Builds UPI intent links (upi://pay?...) for a plan's exact price with a
+ * transaction reference unique to each attempt, and renders them as QR
+ * codes on the server. Any UPI app can scan the QR or open the link on a
+ * phone. The attempt is recorded so the transfer can be matched to the
+ * user and plan by its reference. UPI only moves rupees, so packages priced
+ * in other currencies can't be paid this way.
+ *
+ * Configured with UPI_VPA (the payee address, e.g. business@okbank),
+ * UPI_PAYEE_NAME and optionally UPI_MERCHANT_CODE.
+ */
+
+import QRCode from 'qrcode';
+import { randomBytes } from 'crypto';
+import { PaymentAttempt, createPaymentAttempt } from './db-auth';
+import { PackagePurchase, PaymentError, assertCanPurchase } from './payments';
+import { packagePrice } from './pricing';
+
+export interface UpiPayee {
+  vpa: string;
+  name: string;
+  merchantCode?: string;
+}
+
+export interface UpiIntent {
+  payee: UpiPayee;
+  amount: number; // smallest currency unit (paise)
+  reference: string;
+  note: string;
+}
+
+// UPI transaction references are at most 35 alphanumeric characters
+const REFERENCE_PREFIX = 'QAI';
+const DEFAULT_PAYEE_NAME = 'Quantum Alpha India';
+const UPI_CURRENCY = 'INR';
+
+export function getUpiPayee(): UpiPayee | null {
+  if (!process.env.UPI_VPA) {
+    return null;
+  }
+  return {
+    vpa: process.env.UPI_VPA,
+    name: process.env.UPI_PAYEE_NAME || DEFAULT_PAYEE_NAME,
+    merchantCode: process.env.UPI_MERCHANT_CODE || undefined,
+  };
+}
+
+/**
+ * A new transaction reference: prefix, time and randomness, all upper-case
+ * alphanumeric so banks pass it through unchanged
+ */
+export function generateUpiReference(): string {
+  const time = Date.now().toString(36).toUpperCase();
+  const random = randomBytes(6).toString('hex').toUpperCase();
+  return `${REFERENCE_PREFIX}${time}${random}`;
+}
+
+// 249900 paise -> "2499.00"
+export function formatUpiAmount(amount: number): string {
+  return (amount / 100).toFixed(2);
+}
+
+/**
+ * The upi://pay link. The amount is fixed, so apps don't let the payer
+ * change it.
+ */
+export function buildUpiIntent(intent: UpiIntent): string {
+  const params = new URLSearchParams({
+    pa: intent.payee.vpa,
+    pn: intent.payee.name,
+    am: formatUpiAmount(intent.amount),
+    cu: UPI_CURRENCY,
+    tn: intent.note,
+    tr: intent.reference,
+  });
+  if (intent.payee.merchantCode) {
+    params.set('mc', intent.payee.merchantCode);
+  }
+  // UPI apps expect %20 rather than + for spaces
+  return `upi://pay?${params.toString().replace(/\+/g, '%20')}`;
+}
+
+/**
+ * The intent of a recorded attempt. It keeps the address it was made out
+ * to, even if the configured one has changed since.
+ */
+export function buildAttemptIntent(
+  attempt: Pick<PaymentAttempt, 'payee_vpa' | 'amount' | 'reference' | 'plan'>
+): string {
+  const payee = getUpiPayee();
+  return buildUpiIntent({
+    payee: {
+      vpa: attempt.payee_vpa,
+      name: payee?.name || DEFAULT_PAYEE_NAME,
+      merchantCode: payee?.vpa === attempt.payee_vpa ? payee.merchantCode : undefined,
+    },
+    amount: attempt.amount,
+    reference: attempt.reference,
+    note: `${attempt.plan} ${attempt.reference}`,
+  });
+}
+
+export function renderUpiQrPng(intentUri: string): Promise<string> {
+  return QRCode.toDataURL(intentUri, { errorCorrectionLevel: 'M', margin: 2, width: 256 });
+}
+
+export function renderUpiQrSvg(intentUri: string): Promise<string> {
+  return QRCode.toString(intentUri, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 });
+}
+
+/**
+ * Record an attempt to pay for a package by UPI and build its intent and QR
+ */
+export async function startUpiPayment(payee: UpiPayee, userId: string, { pkg, pricePoint }: PackagePurchase) {
+  const price = packagePrice(pkg, pricePoint);
+  if (price.currency !== UPI_CURRENCY) {
+    throw new PaymentError(`${pkg.name} is priced in ${price.currency}; UPI payments can only be made in ${UPI_CURRENCY}`);
+  }
+  await assertCanPurchase(userId);
+  const reference = generateUpiReference();
+
+  const attemptId = await createPaymentAttempt({
+    userId,
+    reference,
+    payeeVpa: payee.vpa,
+    packageId: pkg.id,
+    packagePriceId: pricePoint.id,
+    plan: pkg.name,
+    billingPeriod: pricePoint.billing_period,
+    amount: price.amount,
+    currency: price.currency,
+  });
+
+  const intentUri = buildAttemptIntent({ payee_vpa: payee.vpa, amount: price.amount, reference, plan: pkg.name });
+
+  return {
+    attemptId,
+    reference,
+    amount: price.amount,
+    currency: price.currency,
+    payee: { vpa: payee.vpa, name: payee.name },
+    intentUri,
+    qrCode: await renderUpiQrPng(intentUri),
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Route protection middleware
+ * Verifies the session token at the edge before protected pages and admin
+ * APIs run. Session revocation is checked against the database by the route
+ * handlers and server actions themselves, since the edge runtime can't reach
+ * MySQL.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/jwt';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { hasPermission } from '@/lib/permissions';
+
+// reachable without a session even though they sit under /admin
+const PUBLIC_ADMIN_PATHS = [
+  '/admin/login',
+  '/admin/accept-invite',
+  '/api/admin/auth/login',
+  '/api/admin/auth/accept-invite',
+];
+
+// where admins without two-factor authentication are sent to enrol
+const MFA_SETUP_PATH = '/admin/mfa-setup';
+
+function redirectToLogin(request: NextRequest, loginPath: string): NextResponse {
+  const url = request.nextUrl.clone();
+  url.pathname = loginPath;
+  url.search = '';
+  url.searchParams.set(
+    'returnTo',
+    request.nextUrl.pathname + request.nextUrl.search
+  );
+  return NextResponse.redirect(url);
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  if (PUBLIC_ADMIN_PATHS.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  const isAdminApi = pathname.startsWith('/api/admin');
+  const isAdminPage = pathname.startsWith('/admin');
+
+  const token = getRequestToken(request);
+  const payload = token ? await verifyJWT(token) : null;
+
+  if (!payload || !payload.sid) {
+    if (isAdminApi) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return redirectToLogin(request, isAdminPage ? '/admin/login' : '/login');
+  }
+
+  if ((isAdminApi || isAdminPage) && !hasPermission(payload.role, 'admin:access')) {
+    if (isAdminApi) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+    return redirectToLogin(request, '/admin/login');
+  }
+
+  // Accounts in the admins table must sign in with a second factor, so a
+  // session without one is only good for setting it up
+  const needsMfaEnrolment = payload.accountType === 'admin' && !payload.mfa;
+  if (needsMfaEnrolment && isAdminApi) {
+    return NextResponse.json(
+      { error: 'Two-factor authentication must be set up first', code: 'mfa_enrolment_required' },
+      { status: 403 }
+    );
+  }
+  if (needsMfaEnrolment && isAdminPage && pathname !== MFA_SETUP_PATH) {
+    const url = request.nextUrl.clone();
+    url.pathname = MFA_SETUP_PATH;
+    url.search = '';
+    return NextResponse.redirect(url);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/account/:path*', '/admin/:path*', '/api/admin/:path*'],
+};
@@ -0,0 +1,82 @@
+/**
+ * In-memory stand-in for the MySQL pool in tests
+ *
+ * Tables are plain arrays of rows. A test registers a handler for each
+ * statement the code under test runs, matched by a regular expression
+ * against the statement with its whitespace collapsed; a handler registered
+ * later takes precedence, and a statement no handler matches fails the test. Transactions snapshot the tables and
+ * restore them on rollback, so a failed transaction leaves no trace.
+ */
+
+import type { Pool } from 'mysql2/promise';
+import { setDbPool } from '../lib/db';
+
+export type Row = Record<string, any>;
+
+// rows for a SELECT, or what an INSERT, UPDATE or DELETE changed
+export type StatementResult = Row[] | { affectedRows: number; insertId?: number };
+
+export type StatementHandler = (params: any[], db: FakeDb) => StatementResult;
+
+export class FakeDb {
+  tables: Record<string, Row[]> = {};
+  // every statement run, in order
+  statements: string[] = [];
+  private handlers: { pattern: RegExp; handler: StatementHandler }[] = [];
+
+  on(pattern: RegExp, handler: StatementHandler): this {
+    this.handlers.push({ pattern, handler });
+    return this;
+  }
+
+  table(name: string): Row[] {
+    if (!this.tables[name]) {
+      this.tables[name] = [];
+    }
+    return this.tables[name];
+  }
+
+  // Route all database access through this fake
+  install(): this {
+    setDbPool({ getConnection: async () => this.connection() } as unknown as Pool);
+    return this;
+  }
+
+  ran(pattern: RegExp): number {
+    return this.statements.filter(statement => pattern.test(statement)).length;
+  }
+
+  private execute(sql: string, params: any[] = []): [StatementResult, []] {
+    const statement = sql.replace(/\s+/g, ' ').trim();
+    this.statements.push(statement);
+    const match = this.handlers.findLast(({ pattern }) => pattern.test(statement));
+    if (!match) {
+      throw new Error(`Unexpected statement: ${statement}`);
+    }
+    return [match.handler(params, this), []];
+  }
+
+  private connection() {
+    let snapshot: Record<string, Row[]> | null = null;
+    return {
+      execute: async (sql: string, params?: any[]) => this.execute(sql, params),
+      beginTransaction: async () => {
+        snapshot = structuredClone(this.tables);
+      },
+      commit: async () => {
+        snapshot = null;
+      },
+      rollback: async () => {
+        if (snapshot) {
+          this.tables = snapshot;
+        }
+        snapshot = null;
+      },
+      release: () => undefined,
+    };
+  }
+}
+
+export function affected(count: number): StatementResult {
+  return { affectedRows: count };
+}